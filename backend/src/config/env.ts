@@ -1,5 +1,6 @@
 import { config } from 'dotenv';
 import { z } from 'zod';
+import { ALERT_CHANNELS, LOCALES, MONITOR_SCOPES, type AlertChannelName, type Locale, type MonitorScope, type QuietHours } from '../models/types.js';
 
 config();
 
@@ -7,31 +8,121 @@ const envSchema = z.object({
   // Server
   PORT: z.string().default('3001'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+  // Public URL of this API, used for the links sent by email
+  BACKEND_URL: z.string().url().default('http://localhost:3001'),
 
   // Ethos API
   ETHOS_API_URL: z.string().url().default('https://api.ethos.network'),
   ETHOS_PRIVY_TOKEN: z.string().optional().default(''),
   ETHOS_USER_KEY: z.string().default('profileId:24640'),
   ETHOS_CLIENT_ID: z.string().default('ethos-monitor@1.0.0'),
+  ETHOS_PAGE_SIZE: z.string().default('100'),
+  ETHOS_MAX_PAGES: z.string().default('50'),
 
   // Telegram
   TELEGRAM_BOT_TOKEN: z.string().optional(),
   TELEGRAM_CHAT_ID: z.string().optional(),
+  // Chat/user ids (comma-separated) allowed to use the bot commands, empty = commands disabled
+  TELEGRAM_ADMIN_IDS: z.string().default(''),
 
   // Discord
   DISCORD_WEBHOOK_URL: z.string().url().optional(),
+  // Application mode: public key of the Discord application receiving button interactions,
+  // and the users/roles (comma-separated ids) allowed to act on alerts (empty = nobody)
+  DISCORD_PUBLIC_KEY: z.string().default(''),
+  DISCORD_ALLOWED_USER_IDS: z.string().default(''),
+  DISCORD_ALLOWED_ROLE_IDS: z.string().default(''),
+
+  // Slack (bot token + channel id). The signing secret enables the alert buttons,
+  // for the Slack user ids (comma-separated) allowed to act on alerts (empty = nobody)
+  SLACK_BOT_TOKEN: z.string().optional(),
+  SLACK_CHANNEL_ID: z.string().optional(),
+  SLACK_SIGNING_SECRET: z.string().default(''),
+  SLACK_ALLOWED_USER_IDS: z.string().default(''),
+
+  // Email (any SMTP server). EMAIL_TO: comma-separated recipients.
+  // EMAIL_LINK_SECRET signs the defend/ignore links of the emails (empty = plain dashboard links)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().default('587'),
+  SMTP_SECURE: z.string().transform(v => v === 'true').default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  EMAIL_FROM: z.string().default('Ethos Monitor <ethos-monitor@localhost>'),
+  EMAIL_TO: z.string().default(''),
+  EMAIL_LINK_SECRET: z.string().default(''),
+
+  // Matrix (homeserver URL + access token of the bot user, which must have joined the room)
+  MATRIX_HOMESERVER_URL: z.string().optional(),
+  MATRIX_ACCESS_TOKEN: z.string().optional(),
+  MATRIX_ROOM_ID: z.string().optional(),
+
+  // ntfy push notifications (ntfy.sh or a self-hosted server). NTFY_TOKEN: access token of protected topics
+  NTFY_SERVER_URL: z.string().url().default('https://ntfy.sh'),
+  NTFY_TOPIC: z.string().optional(),
+  NTFY_TOKEN: z.string().optional(),
 
   // Twitter/X
   TWITTER_API_KEY: z.string().optional(),
   TWITTER_API_SECRET: z.string().optional(),
   TWITTER_ACCESS_TOKEN: z.string().optional(),
   TWITTER_ACCESS_SECRET: z.string().optional(),
+  // X user id receiving the alert DMs. TWITTER_PUBLIC_MODE also posts a public reply to
+  // (or quote of) the latest post of the defended relation once its defense is posted
+  TWITTER_DM_RECIPIENT_ID: z.string().optional(),
+  TWITTER_PUBLIC_MODE: z.enum(['off', 'reply', 'quote']).default('off'),
+
+  // Quiet hours per channel (HH:MM-HH:MM, empty = never quiet): non-critical alerts are
+  // queued and delivered as one digest when the quiet period ends
+  QUIET_HOURS_TELEGRAM: z.string().default(''),
+  QUIET_HOURS_DISCORD: z.string().default(''),
+  QUIET_HOURS_SLACK: z.string().default(''),
+  QUIET_HOURS_EMAIL: z.string().default(''),
+  QUIET_HOURS_MATRIX: z.string().default(''),
+  QUIET_HOURS_NTFY: z.string().default(''),
+  QUIET_HOURS_TWITTER: z.string().default(''),
+  QUIET_HOURS_TIMEZONE: z.string().default('UTC'),
+  // Periodic activity digest, sent at DIGEST_HOUR (QUIET_HOURS_TIMEZONE), weekly on Mondays
+  DIGEST_FREQUENCY: z.enum(['off', 'daily', 'weekly']).default('off'),
+  DIGEST_HOUR: z.string().default('9'),
+
+  // Escalation of alerts still pending after N minutes (0 disables a step): reminder,
+  // then the secondary chat/webhook, then the final action (expire or post the prepared defense)
+  ESCALATION_RENOTIFY_MINUTES: z.string().default('0'),
+  ESCALATION_SECONDARY_MINUTES: z.string().default('0'),
+  ESCALATION_TELEGRAM_CHAT_ID: z.string().optional(),
+  ESCALATION_DISCORD_WEBHOOK_URL: z.string().optional(),
+  ESCALATION_FINAL_MINUTES: z.string().default('0'),
+  ESCALATION_FINAL_ACTION: z.enum(['expire', 'defend']).default('expire'),
+
+  // Languages (fr, en): alerts, with per-channel overrides (e.g. discord:en,slack:en),
+  // dashboard default and public defense comments. Dates are shown in DISPLAY_TIMEZONE (empty = server timezone)
+  ALERT_LOCALE: z.enum(['fr', 'en']).default('fr'),
+  ALERT_LOCALES: z.string().default(''),
+  DASHBOARD_LOCALE: z.enum(['fr', 'en']).default('en'),
+  DEFENSE_LOCALE: z.enum(['fr', 'en']).default('en'),
+  DISPLAY_TIMEZONE: z.string().default(''),
+
+  // Outbound webhooks (managed via /api/webhooks): attempts per event, retried with exponential backoff
+  WEBHOOK_MAX_ATTEMPTS: z.string().default('5'),
+  WEBHOOK_TIMEOUT_MS: z.string().default('10000'),
 
   // Database
   DATABASE_URL: z.string().default('file:./ethos.db'),
 
   // Scheduler
   MONITOR_INTERVAL_MINUTES: z.string().default('5'),
+  // Comma-separated: outgoing, incoming, self
+  MONITOR_SCOPE: z.string().default('outgoing'),
+  // Score drop between two snapshots that triggers an alert (0 disables a threshold)
+  SCORE_DROP_THRESHOLD: z.string().default('50'),
+  SCORE_DROP_PERCENT: z.string().default('5'),
+  // Brigading: negative reviews within the window sharing authors or targets form an incident
+  INCIDENT_WINDOW_MINUTES: z.string().default('60'),
+  INCIDENT_MIN_REVIEWS: z.string().default('3'),
+  INCIDENT_MIN_TARGETS: z.string().default('2'),
+  // Re-verification of stored negative reviews (edits, archival, retraction)
+  REVIEW_RECHECK_INTERVAL_MINUTES: z.string().default('60'),
+  REVIEW_RECHECK_MAX_AGE_DAYS: z.string().default('30'),
 
   // Auto-defense
   AUTO_DEFENSE_ENABLED: z.string().transform(v => v === 'true').default('true'),
@@ -52,37 +143,177 @@ if (!parsed.success) {
 
 export const env = parsed.data;
 
+// Parse a comma-separated list of relation directions, ignoring unknown entries
+export function parseMonitorScope(value: string): MonitorScope[] {
+  const scope = value
+    .split(',')
+    .map((v) => v.trim().toLowerCase())
+    .filter((v): v is MonitorScope => MONITOR_SCOPES.includes(v as MonitorScope));
+  return scope.length > 0 ? Array.from(new Set(scope)) : ['outgoing'];
+}
+
+// Parse a comma-separated list of ids
+export function parseIdList(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+// Parse a HH:MM-HH:MM window into minutes since midnight, null if empty or invalid
+export function parseQuietHours(value: string): QuietHours | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const from = parseInt(match[1], 10) * 60 + parseInt(match[2] || '0', 10);
+  const to = parseInt(match[3], 10) * 60 + parseInt(match[4] || '0', 10);
+  if (from > 24 * 60 || to > 24 * 60 || from === to) return null;
+
+  return { from, to };
+}
+
+// Parse comma-separated channel:locale pairs, ignoring unknown channels and locales
+export function parseChannelLocales(value: string): Partial<Record<AlertChannelName, Locale>> {
+  const locales: Partial<Record<AlertChannelName, Locale>> = {};
+  for (const entry of value.split(',')) {
+    const [channel, locale] = entry.split(':').map((v) => v.trim().toLowerCase());
+    if (ALERT_CHANNELS.includes(channel as AlertChannelName) && LOCALES.includes(locale as Locale)) {
+      locales[channel as AlertChannelName] = locale as Locale;
+    }
+  }
+  return locales;
+}
+
 export const config_values = {
   server: {
     port: parseInt(env.PORT, 10),
     isDev: env.NODE_ENV === 'development',
     isProd: env.NODE_ENV === 'production',
+    publicUrl: env.BACKEND_URL.replace(/\/$/, ''),
   },
   ethos: {
     apiUrl: env.ETHOS_API_URL,
     privyToken: env.ETHOS_PRIVY_TOKEN,
     userKey: env.ETHOS_USER_KEY,
     clientId: env.ETHOS_CLIENT_ID,
+    pageSize: parseInt(env.ETHOS_PAGE_SIZE, 10),
+    maxPages: parseInt(env.ETHOS_MAX_PAGES, 10),
   },
   telegram: {
     enabled: !!(env.TELEGRAM_BOT_TOKEN && env.TELEGRAM_CHAT_ID),
     botToken: env.TELEGRAM_BOT_TOKEN,
     chatId: env.TELEGRAM_CHAT_ID,
+    adminIds: parseIdList(env.TELEGRAM_ADMIN_IDS),
   },
   discord: {
     enabled: !!env.DISCORD_WEBHOOK_URL,
     webhookUrl: env.DISCORD_WEBHOOK_URL,
+    interactions: {
+      enabled: !!env.DISCORD_PUBLIC_KEY,
+      publicKey: env.DISCORD_PUBLIC_KEY,
+      allowedUserIds: parseIdList(env.DISCORD_ALLOWED_USER_IDS),
+      allowedRoleIds: parseIdList(env.DISCORD_ALLOWED_ROLE_IDS),
+    },
+  },
+  slack: {
+    enabled: !!(env.SLACK_BOT_TOKEN && env.SLACK_CHANNEL_ID),
+    botToken: env.SLACK_BOT_TOKEN,
+    channelId: env.SLACK_CHANNEL_ID,
+    interactions: {
+      enabled: !!env.SLACK_SIGNING_SECRET,
+      signingSecret: env.SLACK_SIGNING_SECRET,
+      allowedUserIds: parseIdList(env.SLACK_ALLOWED_USER_IDS),
+    },
+  },
+  email: {
+    enabled: !!env.SMTP_HOST && parseIdList(env.EMAIL_TO).length > 0,
+    smtp: {
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT, 10) || 587,
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+    },
+    from: env.EMAIL_FROM,
+    to: parseIdList(env.EMAIL_TO),
+    linkSecret: env.EMAIL_LINK_SECRET,
+  },
+  matrix: {
+    enabled: !!(env.MATRIX_HOMESERVER_URL && env.MATRIX_ACCESS_TOKEN && env.MATRIX_ROOM_ID),
+    homeserverUrl: env.MATRIX_HOMESERVER_URL?.replace(/\/$/, ''),
+    accessToken: env.MATRIX_ACCESS_TOKEN,
+    roomId: env.MATRIX_ROOM_ID,
+  },
+  ntfy: {
+    enabled: !!env.NTFY_TOPIC,
+    serverUrl: env.NTFY_SERVER_URL.replace(/\/$/, ''),
+    topic: env.NTFY_TOPIC,
+    token: env.NTFY_TOKEN,
   },
   twitter: {
-    enabled: !!(env.TWITTER_API_KEY && env.TWITTER_API_SECRET),
+    // DMs and posts are sent as the user of the access token
+    enabled: !!(env.TWITTER_API_KEY && env.TWITTER_API_SECRET && env.TWITTER_ACCESS_TOKEN && env.TWITTER_ACCESS_SECRET)
+      && (!!env.TWITTER_DM_RECIPIENT_ID || env.TWITTER_PUBLIC_MODE !== 'off'),
     apiKey: env.TWITTER_API_KEY,
     apiSecret: env.TWITTER_API_SECRET,
     accessToken: env.TWITTER_ACCESS_TOKEN,
     accessSecret: env.TWITTER_ACCESS_SECRET,
+    dmRecipientId: env.TWITTER_DM_RECIPIENT_ID,
+    publicMode: env.TWITTER_PUBLIC_MODE,
   },
   scheduler: {
     intervalMinutes: parseInt(env.MONITOR_INTERVAL_MINUTES, 10),
   },
+  monitor: {
+    scope: parseMonitorScope(env.MONITOR_SCOPE),
+    scoreDrop: {
+      absolute: parseFloat(env.SCORE_DROP_THRESHOLD) || 0,
+      percent: parseFloat(env.SCORE_DROP_PERCENT) || 0,
+    },
+    incident: {
+      windowMinutes: parseInt(env.INCIDENT_WINDOW_MINUTES, 10),
+      minReviews: parseInt(env.INCIDENT_MIN_REVIEWS, 10),
+      minTargets: parseInt(env.INCIDENT_MIN_TARGETS, 10),
+    },
+    recheck: {
+      intervalMinutes: parseInt(env.REVIEW_RECHECK_INTERVAL_MINUTES, 10),
+      maxAgeDays: parseInt(env.REVIEW_RECHECK_MAX_AGE_DAYS, 10),
+    },
+  },
+  notifications: {
+    quietHours: {
+      telegram: parseQuietHours(env.QUIET_HOURS_TELEGRAM),
+      discord: parseQuietHours(env.QUIET_HOURS_DISCORD),
+      slack: parseQuietHours(env.QUIET_HOURS_SLACK),
+      email: parseQuietHours(env.QUIET_HOURS_EMAIL),
+      matrix: parseQuietHours(env.QUIET_HOURS_MATRIX),
+      ntfy: parseQuietHours(env.QUIET_HOURS_NTFY),
+      twitter: parseQuietHours(env.QUIET_HOURS_TWITTER),
+    },
+    timezone: env.QUIET_HOURS_TIMEZONE,
+    digest: {
+      frequency: env.DIGEST_FREQUENCY,
+      hour: parseInt(env.DIGEST_HOUR, 10),
+    },
+  },
+  escalation: {
+    renotifyMinutes: parseInt(env.ESCALATION_RENOTIFY_MINUTES, 10) || 0,
+    secondaryMinutes: parseInt(env.ESCALATION_SECONDARY_MINUTES, 10) || 0,
+    secondary: {
+      telegramChatId: env.ESCALATION_TELEGRAM_CHAT_ID || undefined,
+      discordWebhookUrl: env.ESCALATION_DISCORD_WEBHOOK_URL || undefined,
+    },
+    finalMinutes: parseInt(env.ESCALATION_FINAL_MINUTES, 10) || 0,
+    finalAction: env.ESCALATION_FINAL_ACTION,
+  },
+  i18n: {
+    alertLocale: env.ALERT_LOCALE,
+    channelLocales: parseChannelLocales(env.ALERT_LOCALES),
+    dashboardLocale: env.DASHBOARD_LOCALE,
+    defenseLocale: env.DEFENSE_LOCALE,
+    timezone: env.DISPLAY_TIMEZONE || undefined,
+  },
+  webhooks: {
+    maxAttempts: Math.max(parseInt(env.WEBHOOK_MAX_ATTEMPTS, 10) || 1, 1),
+    timeoutMs: parseInt(env.WEBHOOK_TIMEOUT_MS, 10) || 10000,
+  },
   autoDefense: {
     enabled: env.AUTO_DEFENSE_ENABLED,
     requireConfirm: env.AUTO_DEFENSE_REQUIRE_CONFIRM,
@@ -8,6 +8,10 @@ import scheduler from './scheduler/cron.js';
 import monitorService from './services/monitor.service.js';
 import ethosService from './services/ethos.service.js';
 import tokenService from './services/token.service.js';
+import digestService from './services/digest.service.js';
+import escalationService from './services/escalation.service.js';
+import commandService from './services/command.service.js';
+import defenseEditService from './services/defense-edit.service.js';
 
 // Routes
 import relationsRoute from './routes/relations.route.js';
@@ -16,6 +20,14 @@ import alertsRoute from './routes/alerts.route.js';
 import defendRoute from './routes/defend.route.js';
 import tokenRoute from './routes/token.route.js';
 import settingsRoute from './routes/settings.route.js';
+import accountsRoute from './routes/accounts.route.js';
+import attackersRoute from './routes/attackers.route.js';
+import incidentsRoute from './routes/incidents.route.js';
+import rulesRoute from './routes/rules.route.js';
+import webhooksRoute from './routes/webhooks.route.js';
+import discordRoute from './routes/discord.route.js';
+import slackRoute from './routes/slack.route.js';
+import emailRoute from './routes/email.route.js';
 
 const app = express();
 
@@ -26,6 +38,9 @@ app.use(cors({
     : '*',
   credentials: true,
 }));
+// Mounted before the JSON parser: interaction signatures are checked against the raw body
+app.use('/api/discord', discordRoute);
+app.use('/api/slack', slackRoute);
 app.use(express.json());
 
 // Request logging
@@ -38,7 +53,7 @@ app.use((req, res, next) => {
 app.get('/health', async (_req, res) => {
   const ethosHealthy = await ethosService.healthCheck();
   const stats = await db.getStats();
-  const schedulerStatus = scheduler.getStatus();
+  const schedulerStatus = await scheduler.getStatus();
   const tokenStatus = tokenService.getStatus();
 
   res.json({
@@ -63,6 +78,12 @@ app.get('/health', async (_req, res) => {
     notifications: {
       telegram: config_values.telegram.enabled,
       discord: config_values.discord.enabled,
+      discordInteractions: config_values.discord.interactions.enabled,
+      slack: config_values.slack.enabled,
+      slackInteractions: config_values.slack.enabled && config_values.slack.interactions.enabled,
+      email: config_values.email.enabled,
+      matrix: config_values.matrix.enabled,
+      ntfy: config_values.ntfy.enabled,
       twitter: config_values.twitter.enabled,
     },
   });
@@ -75,13 +96,19 @@ app.use('/api/alerts', alertsRoute);
 app.use('/api/defend', defendRoute);
 app.use('/api/token', tokenRoute);
 app.use('/api/settings', settingsRoute);
+app.use('/api/accounts', accountsRoute);
+app.use('/api/attackers', attackersRoute);
+app.use('/api/incidents', incidentsRoute);
+app.use('/api/rules', rulesRoute);
+app.use('/api/webhooks', webhooksRoute);
+app.use('/api/email', emailRoute);
 
-// Stats endpoint
+// Stats endpoint (?accountId= restricts counts to one monitored account)
 app.get('/api/stats', async (req, res) => {
   try {
-    const stats = await db.getStats();
+    const stats = await db.getStats(req.query.accountId as string | undefined);
     const recentLogs = await db.getRecentMonitorLogs(5);
-    const status = scheduler.getStatus();
+    const status = await scheduler.getStatus();
 
     res.json({
       success: true,
@@ -100,10 +127,12 @@ app.get('/api/stats', async (req, res) => {
   }
 });
 
-// Trigger manual monitor run
+// Trigger manual monitor run (?full=true ignores activity cursors)
 app.post('/api/monitor/run', async (req, res) => {
   try {
-    const result = await scheduler.triggerMonitor();
+    const result = await scheduler.triggerMonitor({
+      fullScan: req.query.full === 'true',
+    });
     res.json({
       success: true,
       data: result,
@@ -117,12 +146,54 @@ app.post('/api/monitor/run', async (req, res) => {
   }
 });
 
+// Send the activity digest now (?frequency=weekly covers 7 days, daily otherwise)
+app.post('/api/monitor/digest', async (req, res) => {
+  try {
+    await digestService.sendDigests(req.query.frequency === 'weekly' ? 'weekly' : 'daily');
+    res.json({
+      success: true,
+      message: 'Digest sent',
+    });
+  } catch (error) {
+    logger.error('Error sending digest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send digest',
+    });
+  }
+});
+
+// Run the alert escalation policy now
+app.post('/api/monitor/escalate', async (req, res) => {
+  try {
+    const result = await escalationService.run();
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Error escalating alerts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to escalate alerts',
+    });
+  }
+});
+
 // Get monitor status
-app.get('/api/monitor/status', (req, res) => {
-  res.json({
-    success: true,
-    data: scheduler.getStatus(),
-  });
+app.get('/api/monitor/status', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await scheduler.getStatus(),
+    });
+  } catch (error) {
+    logger.error('Error fetching monitor status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch monitor status',
+    });
+  }
 });
 
 // Config endpoints
@@ -131,6 +202,7 @@ app.get('/api/config', async (req, res) => {
     success: true,
     data: {
       monitorInterval: config_values.scheduler.intervalMinutes,
+      monitorScope: config_values.monitor.scope,
       autoDefense: {
         enabled: config_values.autoDefense.enabled,
         requireConfirm: config_values.autoDefense.requireConfirm,
@@ -140,6 +212,18 @@ app.get('/api/config', async (req, res) => {
         telegram: config_values.telegram.enabled,
         discord: config_values.discord.enabled,
         twitter: config_values.twitter.enabled,
+        quietHours: config_values.notifications.quietHours,
+        digest: config_values.notifications.digest.frequency,
+      },
+      i18n: {
+        dashboardLocale: config_values.i18n.dashboardLocale,
+        timezone: config_values.i18n.timezone || null,
+      },
+      escalation: {
+        renotifyMinutes: config_values.escalation.renotifyMinutes,
+        secondaryMinutes: config_values.escalation.secondaryMinutes,
+        finalMinutes: config_values.escalation.finalMinutes,
+        finalAction: config_values.escalation.finalAction,
       },
     },
   });
@@ -189,6 +273,10 @@ app.listen(PORT, HOST, () => {
 ║  Ethos User: ${config_values.ethos.userKey.slice(0, 30)}...         ║
 ║  Telegram: ${config_values.telegram.enabled ? '✅ Enabled' : '❌ Disabled'}                             ║
 ║  Discord:  ${config_values.discord.enabled ? '✅ Enabled' : '❌ Disabled'}                             ║
+║  Slack:    ${config_values.slack.enabled ? '✅ Enabled' : '❌ Disabled'}                             ║
+║  Email:    ${config_values.email.enabled ? '✅ Enabled' : '❌ Disabled'}                             ║
+║  Matrix:   ${config_values.matrix.enabled ? '✅ Enabled' : '❌ Disabled'}                             ║
+║  ntfy:     ${config_values.ntfy.enabled ? '✅ Enabled' : '❌ Disabled'}                             ║
 ║  Twitter:  ${config_values.twitter.enabled ? '✅ Enabled' : '❌ Disabled'}                             ║
 ║                                                           ║
 ║  Monitor Interval: ${config_values.scheduler.intervalMinutes} minutes                         ║
@@ -199,6 +287,12 @@ app.listen(PORT, HOST, () => {
   // Start the scheduler
   scheduler.start();
 
+  // Accept admin commands on the Telegram bot
+  commandService.start();
+
+  // Edit pending defenses from the Telegram alert buttons
+  defenseEditService.start();
+
   // Start token monitoring
   tokenService.startMonitoring((status) => {
     if (status.isExpired) {
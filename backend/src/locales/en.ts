@@ -0,0 +1,189 @@
+import type { MessageKey } from './fr.js';
+
+// English messages of the alerts and bot replies
+export const en: Record<MessageKey, string> = {
+  // Alert types and labels
+  'alert.type.NEGATIVE_REVIEW': 'NEGATIVE REVIEW',
+  'alert.type.SLASH': 'SLASH DETECTED',
+  'alert.type.UNVOUCH': 'UNVOUCH DETECTED',
+  'alert.type.SCORE_DROP': 'SCORE DROP',
+  'alert.title': 'ETHOS ALERT - {type}',
+  'alert.highPriority': 'HIGH PRIORITY',
+  'alert.unknown': 'Unknown',
+
+  'risk.high': '🔴 High risk',
+  'risk.medium': '🟠 Medium risk',
+  'risk.low': '🟢 Low risk',
+
+  // Credibility signals of review authors
+  'signal.youngAccount': 'account created {days} d ago',
+  'signal.recentAccount': 'recent account ({days} d)',
+  'signal.veryLowScore': 'very low score ({score})',
+  'signal.lowScore': 'low score ({score})',
+  'signal.noVouch': 'no vouch received',
+  'signal.reviewsRatio': '{given} reviews given for {received} received',
+  'signal.freshInviters': 'invited through a chain of {count} recent account(s)',
+
+  // Field labels
+  'field.account': 'Account',
+  'field.target': 'Target',
+  'field.attacker': 'Attacker',
+  'field.author': 'Author',
+  'field.ethosScore': 'Ethos score',
+  'field.score': 'Score',
+  'field.credibility': 'Credibility',
+  'field.comment': 'Comment',
+  'field.suggestedDefense': 'Suggested defense',
+  'field.suggestedAutoDefense': 'Suggested auto-defense',
+  'field.detected': 'Detected',
+  'field.status': 'Status',
+  'field.error': 'Error',
+  'field.postedDefense': 'Posted defense',
+  'field.attackers': 'Attackers',
+  'field.targets': 'Targets',
+  'field.attack': 'Attack',
+  'field.period': 'Period',
+  'field.before': 'Before',
+  'field.after': 'After',
+
+  // Buttons and links
+  'button.defend': 'Defend',
+  'button.confirm': 'Confirm',
+  'button.confirmDefense': 'Confirm defense',
+  'button.edit': 'Edit',
+  'button.ignore': 'Ignore',
+  'link.dashboard': 'Dashboard',
+  'link.profile': 'View profile',
+  'link.ethosProfile': 'Ethos profile',
+  'link.postedDefense': 'View posted defense',
+
+  // Outcome of handled alerts
+  'outcome.CONFIRMED': '✅ ALERT CONFIRMED',
+  'outcome.POSTED': '🛡️ DEFENSE POSTED',
+  'outcome.FAILED': '❌ DEFENSE FAILED',
+  'outcome.IGNORED': '👁️ ALERT IGNORED',
+  'outcome.EXPIRED': '⌛ ALERT EXPIRED',
+  'outcome.by': 'by {actor} on {date}',
+  'outcome.auto': 'automatically on {date}',
+
+  // Escalation of unanswered alerts
+  'escalation.reminder': '⏰ REMINDER',
+  'escalation.secondary': '🆘 ESCALATION',
+  'escalation.expired': '⌛ ALERT EXPIRED',
+  'escalation.defended': '🛡️ AUTOMATIC DEFENSE',
+  'escalation.pending': 'Unanswered for {duration}',
+  'escalation.incident': 'Coordinated attack: {reviews} attacks on {targets} relation(s)',
+  'escalation.actor': 'the escalation policy',
+
+  // Coordinated attacks
+  'incident.new': 'ETHOS ALERT - COORDINATED ATTACK',
+  'incident.update': 'COORDINATED ATTACK - UPDATE',
+  'incident.summary': '{reviews} attacks ({newReviews} new) by {authors} author(s) on {targets} relation(s)',
+  'incident.period': 'From {from} to {to}',
+
+  // Reviews changed after ingestion
+  'review.edited': '✏️ REVIEW EDITED',
+  'review.archived': '🗄️ REVIEW ARCHIVED',
+  'review.retracted': '🗑️ REVIEW RETRACTED',
+  'review.withdrawn': 'Attack withdrawn: pending alerts and defenses expired',
+
+  // Quiet hours and activity digests
+  'queued.title': 'DIGEST - {count} alert(s) during quiet hours',
+  'list.more': '… and {count} more',
+  'digest.daily': 'Daily digest',
+  'digest.weekly': 'Weekly digest',
+  'digest.since': 'Since',
+  'digest.newRelations': 'New relations',
+  'digest.reviewsReceived': 'Reviews received',
+  'digest.negativeReviews': 'Negative reviews',
+  'digest.defensesPosted': 'Defenses posted',
+  'digest.scoreChanges': 'Score changes',
+
+  // Replies to button clicks
+  'action.notFound': 'Alert not found',
+  'action.alreadyHandled': 'Alert already handled ({status})',
+  'action.notAllowed': '⛔ You are not allowed to handle alerts',
+  'action.processed': 'Action processed!',
+  'action.unknown': 'Unknown action',
+  'action.unsupported': 'Unsupported interaction',
+  'action.editDefense': '✏️ Edit the defense: {url}',
+  'action.error': '❌ Error: {error}',
+
+  // Telegram bot commands (command.service.ts)
+  'command.status': 'Scheduler and token status',
+  'command.run': 'Run a monitoring cycle',
+  'command.pending': 'Pending alerts',
+  'command.relations': 'Monitored relations',
+  'command.stats': 'Statistics',
+  'command.mute': 'Mute the alerts of a relation: /mute <relation> <30m|2h|1d|off>',
+  'command.token': 'Update the Privy token: /token <jwt>',
+  'command.help': 'List of commands',
+  'command.adminOnly': '⛔ This command is reserved to administrators',
+  'command.yes': 'yes',
+  'command.no': 'no',
+  'command.never': 'never',
+  'command.statusTitle': 'STATUS',
+  'command.monitoring': 'Monitoring every {minutes} min',
+  'command.cycleRunning': 'Cycle running: {value}',
+  'command.lastCycle': 'Last cycle: {date}',
+  'command.verify': 'Review re-verification',
+  'command.escalation': 'Alert escalation',
+  'command.tokenInvalid': 'Token: ❌ invalid or expired',
+  'command.tokenExpires': 'Token: {icon} expires on {date}',
+  'command.runStarted': '⏳ Monitoring cycle started...',
+  'command.runDone': 'Cycle done',
+  'command.runDuration': 'in {seconds} s',
+  'command.relationsLabel': 'Relations',
+  'command.reviewsLabel': 'Reviews',
+  'command.negativeLabel': 'Negative',
+  'command.alertsLabel': 'Alerts',
+  'command.errorsLabel': 'Errors',
+  'command.noPending': '✅ No pending alert',
+  'command.pendingTitle': '{count} pending alert(s)',
+  'command.pendingShown': ' ({count} shown)',
+  'command.noRelations': 'No monitored relation',
+  'command.relationsTitle': '{count} relation(s)',
+  'command.statsTitle': 'STATISTICS',
+  'command.statsRelations': 'Relations: {active} active / {total}',
+  'command.statsReviews': 'Reviews: {total} ({negative} negative)',
+  'command.statsAlerts': 'Alerts: {total} ({pending} pending)',
+  'command.statsDefenses': 'Defenses: {posted} posted / {total}',
+  'command.muteUsage': 'Usage: /mute <relation> <30m|2h|1d|off>',
+  'command.relationNotFound': 'Relation not found: {query}',
+  'command.relationAmbiguous': '{count} relations match, use the address or the userkey',
+  'command.unmuted': '🔔 Alerts re-enabled for {name}',
+  'command.invalidDuration': 'Invalid duration, examples: 30m, 2h, 1d, off',
+  'command.muted': '🔇 Alerts muted for {name} until {date}',
+  'command.tokenUsage': 'Usage: /token <jwt>',
+  'command.tokenRefused': '❌ Token refused: {error}',
+  'command.tokenUpdated': '✅ Token updated, expires on {date}',
+
+  // Defense edit flow of the Telegram "Edit" button (defense-edit.service.ts)
+  'edit.noPendingDefense': 'No pending defense for this alert',
+  'edit.title': 'EDIT THE DEFENSE',
+  'edit.prompt': 'Reply to this message with the new comment, or pick the score:',
+  'edit.previewTitle': 'DEFENSE PREVIEW',
+  'edit.previewPrompt': 'Reply with another comment to change it, or publish:',
+  'edit.expired': 'Edit expired',
+  'edit.otherUser': 'Someone else is editing this defense',
+  'edit.finished': 'Edit finished',
+  'edit.stillPending': 'The defense is still waiting for confirmation',
+  'edit.invalidScore': 'Invalid score',
+  'edit.publishing': 'Publishing...',
+  'edit.posted': '🛡️ Defense posted',
+  'edit.failed': '❌ Defense failed, see the alert message',
+  'edit.commentLength': 'The comment must be between 1 and {max} characters',
+  'edit.publish': '✅ Publish',
+  'edit.cancel': '❌ Cancel',
+  'edit.deleted': 'deleted',
+
+  // Pages opened from the email links
+  'email.openDashboard': 'Open the dashboard',
+  'email.invalidLink': 'Invalid or expired link',
+  'email.openFromDashboard': 'Open the alert from the dashboard.',
+  'email.ignoreConfirm': 'Ignore this alert?',
+  'email.alreadyHandled': 'Alert already handled',
+  'email.ignored': '👁️ Alert ignored',
+  'email.error': 'Error',
+  'email.ignoreFailed': 'The alert could not be ignored.',
+};
@@ -0,0 +1,190 @@
+// French messages of the alerts and bot replies. Reference catalog: the other locales have the same keys.
+// {name} placeholders are replaced by t() (utils/i18n.ts)
+export const fr = {
+  // Alert types and labels
+  'alert.type.NEGATIVE_REVIEW': 'REVIEW NÉGATIVE',
+  'alert.type.SLASH': 'SLASH DÉTECTÉ',
+  'alert.type.UNVOUCH': 'UNVOUCH DÉTECTÉ',
+  'alert.type.SCORE_DROP': 'CHUTE DE SCORE',
+  'alert.title': 'ALERTE ETHOS - {type}',
+  'alert.highPriority': 'PRIORITÉ HAUTE',
+  'alert.unknown': 'Inconnu',
+
+  'risk.high': '🔴 Risque élevé',
+  'risk.medium': '🟠 Risque moyen',
+  'risk.low': '🟢 Risque faible',
+
+  // Credibility signals of review authors
+  'signal.youngAccount': 'compte créé il y a {days} j',
+  'signal.recentAccount': 'compte récent ({days} j)',
+  'signal.veryLowScore': 'score très faible ({score})',
+  'signal.lowScore': 'score faible ({score})',
+  'signal.noVouch': 'aucun vouch reçu',
+  'signal.reviewsRatio': '{given} reviews données pour {received} reçues',
+  'signal.freshInviters': 'invité par une chaîne de {count} compte(s) récent(s)',
+
+  // Field labels
+  'field.account': 'Compte',
+  'field.target': 'Cible',
+  'field.attacker': 'Attaquant',
+  'field.author': 'Auteur',
+  'field.ethosScore': 'Score Ethos',
+  'field.score': 'Score',
+  'field.credibility': 'Crédibilité',
+  'field.comment': 'Commentaire',
+  'field.suggestedDefense': 'Défense proposée',
+  'field.suggestedAutoDefense': 'Auto-défense proposée',
+  'field.detected': 'Détecté',
+  'field.status': 'Statut',
+  'field.error': 'Erreur',
+  'field.postedDefense': 'Défense postée',
+  'field.attackers': 'Attaquants',
+  'field.targets': 'Cibles',
+  'field.attack': 'Attaque',
+  'field.period': 'Période',
+  'field.before': 'Avant',
+  'field.after': 'Après',
+
+  // Buttons and links
+  'button.defend': 'Défendre',
+  'button.confirm': 'Confirmer',
+  'button.confirmDefense': 'Confirmer défense',
+  'button.edit': 'Modifier',
+  'button.ignore': 'Ignorer',
+  'link.dashboard': 'Dashboard',
+  'link.profile': 'Voir le profil',
+  'link.ethosProfile': 'Profil Ethos',
+  'link.postedDefense': 'Voir la défense postée',
+
+  // Outcome of handled alerts
+  'outcome.CONFIRMED': '✅ ALERTE CONFIRMÉE',
+  'outcome.POSTED': '🛡️ DÉFENSE POSTÉE',
+  'outcome.FAILED': '❌ ÉCHEC DE LA DÉFENSE',
+  'outcome.IGNORED': '👁️ ALERTE IGNORÉE',
+  'outcome.EXPIRED': '⌛ ALERTE EXPIRÉE',
+  'outcome.by': 'par {actor} le {date}',
+  'outcome.auto': 'automatiquement le {date}',
+
+  // Escalation of unanswered alerts
+  'escalation.reminder': '⏰ RAPPEL',
+  'escalation.secondary': '🆘 ESCALADE',
+  'escalation.expired': '⌛ ALERTE EXPIRÉE',
+  'escalation.defended': '🛡️ DÉFENSE AUTOMATIQUE',
+  'escalation.pending': 'Sans réponse depuis {duration}',
+  'escalation.incident': 'Attaque coordonnée : {reviews} attaques sur {targets} relation(s)',
+  'escalation.actor': "la politique d'escalade",
+
+  // Coordinated attacks
+  'incident.new': 'ALERTE ETHOS - ATTAQUE COORDONNÉE',
+  'incident.update': 'ATTAQUE COORDONNÉE - MISE À JOUR',
+  'incident.summary': '{reviews} attaques ({newReviews} nouvelles) par {authors} auteur(s) sur {targets} relation(s)',
+  'incident.period': 'Du {from} au {to}',
+
+  // Reviews changed after ingestion
+  'review.edited': '✏️ REVIEW MODIFIÉE',
+  'review.archived': '🗄️ REVIEW ARCHIVÉE',
+  'review.retracted': '🗑️ REVIEW RETIRÉE',
+  'review.withdrawn': 'Attaque retirée : alertes et défenses en attente expirées',
+
+  // Quiet hours and activity digests
+  'queued.title': 'DIGEST - {count} alerte(s) pendant les heures calmes',
+  'list.more': '… et {count} autres',
+  'digest.daily': 'Digest quotidien',
+  'digest.weekly': 'Digest hebdomadaire',
+  'digest.since': 'Depuis le',
+  'digest.newRelations': 'Nouvelles relations',
+  'digest.reviewsReceived': 'Reviews reçues',
+  'digest.negativeReviews': 'Reviews négatives',
+  'digest.defensesPosted': 'Défenses postées',
+  'digest.scoreChanges': 'Variations de score',
+
+  // Replies to button clicks
+  'action.notFound': 'Alerte introuvable',
+  'action.alreadyHandled': 'Alerte déjà traitée ({status})',
+  'action.notAllowed': "⛔ Vous n'êtes pas autorisé à traiter les alertes",
+  'action.processed': 'Action traitée !',
+  'action.unknown': 'Action inconnue',
+  'action.unsupported': 'Interaction non prise en charge',
+  'action.editDefense': '✏️ Modifier la défense : {url}',
+  'action.error': '❌ Erreur: {error}',
+
+  // Telegram bot commands (command.service.ts)
+  'command.status': 'Etat du scheduler et du token',
+  'command.run': 'Lancer un cycle de surveillance',
+  'command.pending': 'Alertes en attente',
+  'command.relations': 'Relations surveillées',
+  'command.stats': 'Statistiques',
+  'command.mute': "Couper les alertes d'une relation : /mute <relation> <30m|2h|1d|off>",
+  'command.token': 'Mettre à jour le token Privy : /token <jwt>',
+  'command.help': 'Liste des commandes',
+  'command.adminOnly': '⛔ Commande réservée aux administrateurs',
+  'command.yes': 'oui',
+  'command.no': 'non',
+  'command.never': 'jamais',
+  'command.statusTitle': 'STATUT',
+  'command.monitoring': 'Surveillance toutes les {minutes} min',
+  'command.cycleRunning': 'Cycle en cours: {value}',
+  'command.lastCycle': 'Dernier cycle: {date}',
+  'command.verify': 'Re-vérification des reviews',
+  'command.escalation': 'Escalade des alertes',
+  'command.tokenInvalid': 'Token: ❌ invalide ou expiré',
+  'command.tokenExpires': 'Token: {icon} expire le {date}',
+  'command.runStarted': '⏳ Cycle de surveillance lancé...',
+  'command.runDone': 'Cycle terminé',
+  'command.runDuration': 'en {seconds} s',
+  'command.relationsLabel': 'Relations',
+  'command.reviewsLabel': 'Reviews',
+  'command.negativeLabel': 'Négatives',
+  'command.alertsLabel': 'Alertes',
+  'command.errorsLabel': 'Erreurs',
+  'command.noPending': '✅ Aucune alerte en attente',
+  'command.pendingTitle': '{count} alerte(s) en attente',
+  'command.pendingShown': ' ({count} affichées)',
+  'command.noRelations': 'Aucune relation surveillée',
+  'command.relationsTitle': '{count} relation(s)',
+  'command.statsTitle': 'STATISTIQUES',
+  'command.statsRelations': 'Relations: {active} actives / {total}',
+  'command.statsReviews': 'Reviews: {total} ({negative} négatives)',
+  'command.statsAlerts': 'Alertes: {total} ({pending} en attente)',
+  'command.statsDefenses': 'Défenses: {posted} postées / {total}',
+  'command.muteUsage': 'Usage: /mute <relation> <30m|2h|1d|off>',
+  'command.relationNotFound': 'Relation introuvable: {query}',
+  'command.relationAmbiguous': "{count} relations correspondent, précisez l'adresse ou le userkey",
+  'command.unmuted': '🔔 Alertes réactivées pour {name}',
+  'command.invalidDuration': 'Durée invalide, exemples: 30m, 2h, 1d, off',
+  'command.muted': "🔇 Alertes coupées pour {name} jusqu'au {date}",
+  'command.tokenUsage': 'Usage: /token <jwt>',
+  'command.tokenRefused': '❌ Token refusé: {error}',
+  'command.tokenUpdated': '✅ Token mis à jour, expire le {date}',
+
+  // Defense edit flow of the Telegram "Modifier" button (defense-edit.service.ts)
+  'edit.noPendingDefense': 'Aucune défense en attente pour cette alerte',
+  'edit.title': 'MODIFIER LA DÉFENSE',
+  'edit.prompt': 'Répondez à ce message avec le nouveau commentaire, ou choisissez le score :',
+  'edit.previewTitle': 'APERÇU DE LA DÉFENSE',
+  'edit.previewPrompt': 'Répondez avec un autre commentaire pour le modifier, ou publiez :',
+  'edit.expired': 'Modification expirée',
+  'edit.otherUser': "Modification en cours par quelqu'un d'autre",
+  'edit.finished': 'Modification terminée',
+  'edit.stillPending': 'La défense reste en attente de confirmation',
+  'edit.invalidScore': 'Score invalide',
+  'edit.publishing': 'Publication en cours...',
+  'edit.posted': '🛡️ Défense postée',
+  'edit.failed': "❌ Échec de la défense, voir le message de l'alerte",
+  'edit.commentLength': 'Le commentaire doit faire entre 1 et {max} caractères',
+  'edit.publish': '✅ Publier',
+  'edit.cancel': '❌ Annuler',
+  'edit.deleted': 'supprimée',
+
+  // Pages opened from the email links
+  'email.openDashboard': 'Ouvrir le dashboard',
+  'email.invalidLink': 'Lien invalide ou expiré',
+  'email.openFromDashboard': "Ouvrez l'alerte depuis le dashboard.",
+  'email.ignoreConfirm': 'Ignorer cette alerte ?',
+  'email.alreadyHandled': 'Alerte déjà traitée',
+  'email.ignored': '👁️ Alerte ignorée',
+  'email.error': 'Erreur',
+  'email.ignoreFailed': "L'alerte n'a pas pu être ignorée.",
+};
+
+export type MessageKey = keyof typeof fr;
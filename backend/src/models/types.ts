@@ -3,6 +3,7 @@
 // Ethos API Types
 export interface EthosProfile {
   id: number;
+  profileId?: number; // present on /user/by/* responses, where id is the user id
   archived: boolean;
   createdAt: string;
   updatedAt: string;
@@ -13,6 +14,7 @@ export interface EthosProfile {
   avatar: string | null;
   description: string | null;
   primaryAddress: string;
+  userkeys?: string[]; // present on /user/by/* responses (profileId:, address:, service:x.com:...)
 }
 
 export interface EthosVouch {
@@ -26,15 +28,18 @@ export interface EthosVouch {
   createdAt: string;
   updatedAt: string;
   unvouchedAt: string | null;
-  // Added from API response - includes subject user details
-  subjectUser?: {
-    profileId: number;
-    displayName: string | null;
-    username: string | null;
-    avatarUrl: string | null;
-    primaryAddress?: string;
-    userkeys?: string[];
-  };
+  // Added from API response - includes subject and author user details
+  subjectUser?: EthosVouchUser;
+  authorUser?: EthosVouchUser;
+}
+
+export interface EthosVouchUser {
+  profileId: number;
+  displayName: string | null;
+  username: string | null;
+  avatarUrl: string | null;
+  primaryAddress?: string;
+  userkeys?: string[];
 }
 
 export interface EthosActivity {
@@ -87,8 +92,79 @@ export interface EthosScore {
 }
 
 // Internal Types
+
+// How a watched profile is related to the configured account:
+// outgoing = we vouch for them, incoming = they vouch for us, self = our own profile,
+// manual = added to the watchlist by hand
+export type RelationDirection = 'outgoing' | 'incoming' | 'self' | 'manual';
+
+// Directions that can be enabled through MONITOR_SCOPE (manual entries are always watched)
+export type MonitorScope = Exclude<RelationDirection, 'manual'>;
+
+export const MONITOR_SCOPES: MonitorScope[] = ['self', 'outgoing', 'incoming'];
+
+// A profile to watch, resolved from a vouch or from our own profile
+export interface WatchTarget {
+  relationId: string;
+  userkey: string;
+  direction: RelationDirection;
+  profile: { name?: string | null; address?: string; avatar?: string | null };
+}
+
+// Every profile to watch for the configured scope
+export interface WatchTargets {
+  targets: WatchTarget[];
+  activeIds: Set<string>; // relation ids of every live vouch, including deduplicated ones
+  removedVouches: Map<string, EthosVouch>; // archived/withdrawn vouches keyed by relation id
+  completeDirections: Set<MonitorScope>; // vouch lists fetched fully, safe to diff
+  errors: string[];
+}
+
+// Id of the account built from ETHOS_USER_KEY / ETHOS_PRIVY_TOKEN
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+// Where an account's alerts are delivered (unset fields use the global channels)
+export interface AlertRouting {
+  telegramChatId?: string | null;
+  discordWebhookUrl?: string | null;
+  slackChannelId?: string | null;
+  // Comma-separated email recipients
+  emailTo?: string | null;
+  matrixRoomId?: string | null;
+  ntfyTopic?: string | null;
+}
+
+// A monitored account with every setting resolved against the global config
+export interface AccountContext {
+  id: string;
+  name: string;
+  userkey: string;
+  token: string | null;
+  scope: MonitorScope[];
+  routing: AlertRouting;
+  autoDefense: {
+    enabled: boolean;
+    requireConfirm: boolean;
+    defaultScore: number;
+  };
+}
+
+// Likelihood that a review author is a throwaway/sybil account
+export type AttackerRisk = 'low' | 'medium' | 'high';
+
+// Credibility signals gathered from Ethos for the author of a negative review
+export interface AttackerCredibility {
+  risk: AttackerRisk;
+  signals: string[]; // human readable reasons behind the risk label
+  accountAgeDays: number | null;
+  score: number | null;
+  vouchesReceived: number | null;
+  reviewsGiven: number | null;
+  invitedBy: number | null;
+}
+
 export interface AlertPayload {
-  type: 'NEGATIVE_REVIEW' | 'SLASH' | 'UNVOUCH';
+  type: 'NEGATIVE_REVIEW' | 'SLASH' | 'UNVOUCH' | 'SCORE_DROP';
   target: {
     name: string | null;
     address: string;
@@ -99,12 +175,16 @@ export interface AlertPayload {
     name: string | null;
     address: string;
     profileId: number;
+    credibility?: AttackerCredibility | null;
   };
   score: number;
   comment: string | null;
   timestamp: Date;
   reviewId: string;
   relationId: string;
+  account?: { id: string; name: string };
+  scoreChange?: { previous: number; current: number };
+  escalated?: boolean; // raised by an alert rule
   autoDefense?: {
     enabled: boolean;
     requireConfirm: boolean;
@@ -113,6 +193,85 @@ export interface AlertPayload {
   };
 }
 
+// Delivery channels an alert can be routed to
+export type AlertChannelName = 'telegram' | 'discord' | 'slack' | 'email' | 'matrix' | 'ntfy' | 'twitter';
+
+export const ALERT_CHANNELS: AlertChannelName[] = ['telegram', 'discord', 'slack', 'email', 'matrix', 'ntfy', 'twitter'];
+
+// Languages of the message catalogs (alerts, dashboard, defense templates)
+export type Locale = 'fr' | 'en';
+
+export const LOCALES: Locale[] = ['fr', 'en'];
+
+// Message id of an alert per channel it was delivered to, and the channels where it waits for the end of quiet hours
+export type AlertDelivery = Partial<Record<AlertChannelName, string>> & { queued: AlertChannelName[] };
+
+// What happens to the prepared defense of a matched review
+export type RuleDefenseAction = 'none' | 'create' | 'post';
+
+// Conditions of an alert rule; every set condition must match
+export interface RuleConditions {
+  types?: ('NEGATIVE_REVIEW' | 'SLASH')[];
+  relationIds?: string[];
+  directions?: RelationDirection[];
+  attackers?: string[]; // author userkeys or addresses
+  attackerRisks?: AttackerRisk[];
+  keywords?: string[]; // comment contains any of them (case-insensitive)
+  minScore?: number;
+  maxScore?: number;
+  hours?: { from: number; to: number; timezone?: string }; // [from, to) hour window, may wrap midnight
+}
+
+// Actions of an alert rule
+export interface RuleActions {
+  suppress?: boolean;
+  escalate?: boolean; // deliver on every channel and flag the alert as high priority
+  channels?: AlertChannelName[];
+  defense?: RuleDefenseAction;
+  defenseScore?: number;
+  stop?: boolean; // do not evaluate lower-priority rules
+}
+
+// Everything a rule can look at for a negative review
+export interface RuleContext {
+  accountId: string;
+  type: 'NEGATIVE_REVIEW' | 'SLASH';
+  relationId: string;
+  direction: string;
+  authorKey: string;
+  authorAddr: string | null;
+  risk: AttackerRisk | null;
+  comment: string | null;
+  score: number;
+  at: Date;
+}
+
+// Merged outcome of the rules matching a review
+export interface RuleDecision {
+  suppress: boolean;
+  escalate: boolean;
+  channels: AlertChannelName[] | null; // null = every configured channel
+  defense: RuleDefenseAction | null; // null = account auto-defense settings
+  defenseScore: number | null;
+  matchedRules: { id: string; name: string }[];
+}
+
+// Daily window during which a channel only receives critical alerts (minutes since midnight)
+export interface QuietHours {
+  from: number;
+  to: number;
+}
+
+// Activity summary of an account over a digest period
+export interface DigestSummary {
+  since: Date;
+  newRelations: number;
+  reviewsReceived: number;
+  negativeReviews: number;
+  defensesPosted: number;
+  scoreChanges: { name: string | null; address: string; previous: number; current: number }[];
+}
+
 export interface DefensePayload {
   targetUserkey: string;
   score: number;
@@ -127,6 +286,8 @@ export interface MonitorResult {
   alertsSent: number;
   errors: string[];
   duration: number;
+  // Activity pages fetched per relation userkey
+  pagesByRelation: Record<string, number>;
 }
 
 // API Request/Response Types
@@ -135,6 +296,33 @@ export interface PaginatedRequest {
   offset?: number;
 }
 
+// Options for walking a paginated Ethos endpoint
+export interface PaginationOptions<T = unknown> {
+  pageSize?: number;
+  maxPages?: number;
+  offset?: number;
+  // Stop paging after a page for which this returns true (e.g. reached already-seen items)
+  stopWhen?: (page: T[]) => boolean;
+}
+
+// Result of walking every page of an Ethos endpoint
+export interface PagedResult<T> {
+  values: T[];
+  pages: number;
+  truncated: boolean; // true if maxPages was reached before the API was exhausted
+  error?: string; // set when a request failed and values are unreliable
+}
+
+// Per-relation high-water mark of processed activities
+export interface ActivityCursor {
+  at: Date;
+  id: string | null;
+}
+
+export interface MonitorOptions {
+  fullScan?: boolean; // ignore activity cursors and rescan every page
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -148,11 +336,91 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
-// Telegram Callback Data
+// A review author aggregated across every negative review/slash against our relations
+export interface AttackerSummary {
+  authorKey: string;
+  name: string | null;
+  address: string | null;
+  negativeReviews: number;
+  slashes: number;
+  targets: number; // distinct relations hit
+  firstSeen: Date;
+  lastSeen: Date;
+  ethosScore: number | null;
+  risk: AttackerRisk | null; // latest credibility assessment
+}
+
+// Consolidated alert for a coordinated attack
+export interface IncidentAlertPayload {
+  incidentId: string;
+  isNew: boolean; // false when new reviews joined an already alerted incident
+  account?: { id: string; name: string };
+  reviewCount: number;
+  newReviews: number;
+  startedAt: Date;
+  lastActivityAt: Date;
+  authors: { name: string | null; address: string | null; count: number }[];
+  targets: { name: string | null; address: string; count: number }[];
+}
+
+// Telegram Callback Data (also used for Discord button interactions)
 export interface TelegramCallbackData {
   action: 'confirm' | 'edit' | 'ignore';
   alertId: string;
   reviewId: string;
+  actor?: string; // Who clicked, e.g. "@alice (Telegram)"
+  chatId?: number; // Telegram chat and user of the click, used by the in-chat edit flow
+  userId?: number;
+}
+
+// Outcome of an alert, shown on its Telegram/Discord messages in place of the buttons
+export interface AlertOutcome {
+  status: 'CONFIRMED' | 'IGNORED' | 'POSTED' | 'FAILED' | 'EXPIRED';
+  actor?: string | null; // Unset for automatic transitions
+  at: Date;
+  reviewUrl?: string | null; // Posted defense
+  error?: string | null;
+}
+
+// Discord interaction fields used for alert buttons
+export interface DiscordUser {
+  id: string;
+  username: string;
+}
+
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  color?: number;
+  fields?: { name: string; value: string; inline?: boolean }[];
+  [key: string]: unknown;
+}
+
+export interface DiscordInteraction {
+  id: string;
+  application_id: string;
+  type: number;
+  token: string;
+  data?: { custom_id?: string };
+  member?: { user: DiscordUser; roles: string[] };
+  user?: DiscordUser; // Set instead of member in direct messages
+  message?: { id: string; embeds?: DiscordEmbed[] };
+}
+
+export interface SlackUser {
+  id: string;
+  username?: string;
+  name?: string;
+}
+
+// block_actions payload posted to the Slack interactivity endpoint
+export interface SlackInteraction {
+  type: string;
+  user: SlackUser;
+  channel?: { id: string };
+  message?: { ts: string };
+  response_url?: string;
+  actions?: { action_id: string; value?: string }[];
 }
 
 // Stats
@@ -173,28 +441,97 @@ export interface DefenseTemplate {
   messages: string[];
 }
 
-export const DEFENSE_TEMPLATES: DefenseTemplate[] = [
-  {
-    score: 3,
-    messages: [
-      "Trusted and reliable community member. I vouch for their credibility.",
-      "Known for integrity and positive contributions to the ecosystem.",
-      "Solid reputation backed by consistent positive interactions.",
-      "A valued member of the community with proven trustworthiness.",
-    ]
-  },
-  {
-    score: 2,
-    messages: [
-      "Positive experience with this community member.",
-      "Reliable and trustworthy in my interactions.",
-      "Good standing member of the community.",
-    ]
-  }
-];
+// Defense comments are posted publicly on Ethos, in the language of DEFENSE_LOCALE
+export const DEFENSE_TEMPLATES: Record<Locale, DefenseTemplate[]> = {
+  en: [
+    {
+      score: 3,
+      messages: [
+        "Trusted and reliable community member. I vouch for their credibility.",
+        "Known for integrity and positive contributions to the ecosystem.",
+        "Solid reputation backed by consistent positive interactions.",
+        "A valued member of the community with proven trustworthiness.",
+      ]
+    },
+    {
+      score: 2,
+      messages: [
+        "Positive experience with this community member.",
+        "Reliable and trustworthy in my interactions.",
+        "Good standing member of the community.",
+      ]
+    }
+  ],
+  fr: [
+    {
+      score: 3,
+      messages: [
+        "Membre de confiance et fiable de la communauté. Je me porte garant de sa crédibilité.",
+        "Reconnu pour son intégrité et ses contributions positives à l'écosystème.",
+        "Solide réputation fondée sur des interactions positives et régulières.",
+        "Un membre précieux de la communauté, d'une fiabilité éprouvée.",
+      ]
+    },
+    {
+      score: 2,
+      messages: [
+        "Expérience positive avec ce membre de la communauté.",
+        "Fiable et digne de confiance dans mes échanges.",
+        "Membre reconnu et respecté de la communauté.",
+      ]
+    }
+  ],
+};
 
-export function getRandomDefenseMessage(score: number = 3): { score: number; message: string } {
-  const template = DEFENSE_TEMPLATES.find(t => t.score === score) || DEFENSE_TEMPLATES[0];
+export function getRandomDefenseMessage(score: number = 3, locale: Locale = 'en'): { score: number; message: string } {
+  const templates = DEFENSE_TEMPLATES[locale] || DEFENSE_TEMPLATES.en;
+  const template = templates.find(t => t.score === score) || templates[0];
   const message = template.messages[Math.floor(Math.random() * template.messages.length)];
   return { score: template.score, message };
 }
+
+// Escalation steps of an alert nobody answered
+export type EscalationStep = 'reminder' | 'secondary' | 'expired' | 'defended';
+
+// An unanswered alert being escalated, as shown in reminder/escalation notifications
+export interface EscalationNotice {
+  step: EscalationStep;
+  type: AlertPayload['type'];
+  reviewId: string;
+  account?: { id: string; name: string };
+  target: { name: string | null; address: string };
+  attacker: { name: string | null; score: number } | null;
+  // Alerts of a coordinated attack are escalated together, as one notice
+  incident?: { id: string; reviewCount: number; targetCount: number };
+  pendingMinutes: number;
+}
+
+// Outbound webhook events, sent as a versioned envelope (WebhookEvent)
+export type WebhookEventType =
+  | 'review.detected'
+  | 'alert.created'
+  | 'defense.posted'
+  | 'defense.failed'
+  | 'token.expiring'
+  | 'monitor.failed';
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'review.detected',
+  'alert.created',
+  'defense.posted',
+  'defense.failed',
+  'token.expiring',
+  'monitor.failed',
+];
+
+// Bumped on breaking changes of the envelope or of an event's data
+export const WEBHOOK_EVENT_VERSION = 1;
+
+export interface WebhookEvent {
+  id: string;
+  version: number;
+  type: WebhookEventType;
+  createdAt: string;
+  accountId: string | null;
+  data: Record<string, unknown>;
+}
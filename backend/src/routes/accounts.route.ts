@@ -0,0 +1,242 @@
+import { Router, Request, Response } from 'express';
+import type { MonitoredAccount } from '@prisma/client';
+import db from '../services/database.service.js';
+import accountService from '../services/account.service.js';
+import tokenService from '../services/token.service.js';
+import logger from '../utils/logger.js';
+import { z } from 'zod';
+import { MONITOR_SCOPES, DEFAULT_ACCOUNT_ID } from '../models/types.js';
+
+const router = Router();
+
+// Validation schemas (null resets a setting to the global value)
+const settingsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  privyToken: z.string().min(50, 'Token too short').nullable(),
+  scope: z.array(z.enum(MONITOR_SCOPES as [string, ...string[]])).min(1).nullable(),
+  telegramChatId: z.string().trim().min(1).nullable(),
+  discordWebhookUrl: z.string().url().nullable(),
+  slackChannelId: z.string().trim().min(1).nullable(),
+  emailTo: z.string().trim().min(1)
+    .refine((value) => value.split(',').every((to) => z.string().email().safeParse(to.trim()).success), 'Invalid email address')
+    .nullable(),
+  matrixRoomId: z.string().trim().min(1).nullable(),
+  ntfyTopic: z.string().trim().regex(/^[\w-]{1,64}$/, 'Invalid ntfy topic').nullable(),
+  autoDefenseEnabled: z.boolean().nullable(),
+  autoDefenseRequireConfirm: z.boolean().nullable(),
+  autoDefenseDefaultScore: z.number().int().min(1).max(5).nullable(),
+  isActive: z.boolean(),
+});
+
+const createAccountSchema = settingsSchema.partial().extend({
+  name: z.string().trim().min(1).max(100),
+  userkey: z.string().trim().min(1),
+});
+
+// Tokens are changed through POST /:id/token so they get validated
+const updateAccountSchema = settingsSchema.omit({ privyToken: true }).partial();
+
+const updateTokenSchema = z.object({
+  token: z.string().min(50, 'Token too short'),
+});
+
+// Never expose stored tokens, only their status
+function serializeAccount(account: MonitoredAccount & { _count?: { relations: number } }) {
+  const { privyToken, ...rest } = account;
+  const token = privyToken || (account.id === DEFAULT_ACCOUNT_ID ? tokenService.getToken() : null);
+  const status = tokenService.getTokenStatus(token);
+
+  return {
+    ...rest,
+    scope: account.scope ? account.scope.split(',') : null,
+    isDefault: account.id === DEFAULT_ACCOUNT_ID,
+    token: {
+      configured: !!token,
+      valid: status.valid,
+      expiresAt: status.expiresAt?.toISOString() || null,
+    },
+  };
+}
+
+// GET /api/accounts - List monitored accounts
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    await accountService.ensureDefaultAccount();
+    const accounts = await db.getAccounts();
+
+    res.json({
+      success: true,
+      data: accounts.map(serializeAccount),
+      total: accounts.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching accounts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch accounts',
+    });
+  }
+});
+
+// POST /api/accounts - Add a monitored account
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validation = createAccountSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    const { scope, ...data } = validation.data;
+
+    if (await db.getAccountByUserkey(data.userkey)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Account already monitored',
+      });
+    }
+
+    const account = await db.createAccount({
+      ...data,
+      scope: scope ? scope.join(',') : scope,
+    });
+    logger.info(`Monitored account added: ${account.name} (${account.userkey})`);
+
+    res.json({
+      success: true,
+      data: serializeAccount(account),
+    });
+  } catch (error) {
+    logger.error('Error creating account:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create account',
+    });
+  }
+});
+
+// PATCH /api/accounts/:id - Update account settings
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateAccountSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    if (!(await db.getAccountById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Account not found',
+      });
+    }
+
+    const { scope, ...data } = validation.data;
+    const account = await db.updateAccount(id, {
+      ...data,
+      scope: scope ? scope.join(',') : scope,
+    });
+
+    res.json({
+      success: true,
+      data: serializeAccount(account),
+    });
+  } catch (error) {
+    logger.error('Error updating account:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update account',
+    });
+  }
+});
+
+// POST /api/accounts/:id/token - Update the Privy token used to post as this account
+router.post('/:id/token', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateTokenSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    if (!(await db.getAccountById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Account not found',
+      });
+    }
+
+    const result = await tokenService.updateAccountToken(id, validation.data.token);
+
+    if (result.success) {
+      res.json({
+        success: true,
+        message: 'Token updated successfully',
+        data: {
+          ...result.status,
+          expiresAt: result.status.expiresAt?.toISOString() || null,
+        },
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+    }
+  } catch (error) {
+    logger.error('Error updating account token:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update token',
+    });
+  }
+});
+
+// DELETE /api/accounts/:id - Stop monitoring an account (its relations are deleted)
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (id === DEFAULT_ACCOUNT_ID) {
+      return res.status(400).json({
+        success: false,
+        error: 'The default account is configured through ETHOS_USER_KEY',
+      });
+    }
+
+    if (!(await db.getAccountById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Account not found',
+      });
+    }
+
+    await db.deleteAccount(id);
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    logger.error('Error deleting account:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete account',
+    });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import db from '../services/database.service.js';
+import alertService from '../services/alert.service.js';
 import logger from '../utils/logger.js';
 
 // Type alias for string-based enums (SQLite doesn't support native enums)
@@ -13,6 +14,7 @@ router.get('/', async (req: Request, res: Response) => {
     const {
       status,
       relationId,
+      accountId,
       limit = '50',
       offset = '0',
     } = req.query;
@@ -20,6 +22,7 @@ router.get('/', async (req: Request, res: Response) => {
     const options = {
       status: status as AlertStatus | undefined,
       relationId: relationId as string | undefined,
+      accountId: accountId as string | undefined,
       limit: parseInt(limit as string, 10),
       offset: parseInt(offset as string, 10),
     };
@@ -47,6 +50,7 @@ router.get('/pending', async (req: Request, res: Response) => {
   try {
     const { data, total } = await db.getAlerts({
       status: 'PENDING',
+      accountId: req.query.accountId as string | undefined,
       limit: 100,
     });
 
@@ -111,6 +115,12 @@ router.patch('/:id', async (req: Request, res: Response) => {
 
     const alert = await db.updateAlertStatus(id, status as AlertStatus);
 
+    // Handling one channel's alert handles the review's alerts on every channel
+    if (status !== 'PENDING') {
+      await db.updateReviewAlertsStatus(alert.reviewId, status as AlertStatus);
+      await alertService.updateAlertMessages(alert.reviewId, { status, actor: 'Dashboard', at: new Date() });
+    }
+
     res.json({
       success: true,
       data: alert,
@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import attackerService from '../services/attacker.service.js';
+import logger from '../utils/logger.js';
+
+const router = Router();
+
+// GET /api/attackers - Index of review authors attacking our relations
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const {
+      accountId,
+      limit = '50',
+      offset = '0',
+    } = req.query;
+
+    const options = {
+      accountId: accountId as string | undefined,
+      limit: parseInt(limit as string, 10),
+      offset: parseInt(offset as string, 10),
+    };
+
+    const { data, total } = await attackerService.getAttackers(options);
+
+    res.json({
+      success: true,
+      data,
+      total,
+      limit: options.limit,
+      offset: options.offset,
+    });
+  } catch (error) {
+    logger.error('Error fetching attackers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch attackers',
+    });
+  }
+});
+
+// GET /api/attackers/:authorKey - One attacker's history against our relations
+router.get('/:authorKey', async (req: Request, res: Response) => {
+  try {
+    const attacker = await attackerService.getAttacker(
+      req.params.authorKey,
+      req.query.accountId as string | undefined
+    );
+
+    if (!attacker) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attacker not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: attacker,
+    });
+  } catch (error) {
+    logger.error('Error fetching attacker:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch attacker',
+    });
+  }
+});
+
+export default router;
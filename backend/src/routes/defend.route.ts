@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import db from '../services/database.service.js';
 import monitorService from '../services/monitor.service.js';
+import alertService from '../services/alert.service.js';
+import ethosService from '../services/ethos.service.js';
 import logger from '../utils/logger.js';
 import { z } from 'zod';
-import { getRandomDefenseMessage } from '../models/types.js';
+import { config_values } from '../config/env.js';
+import { getRandomDefenseMessage, LOCALES, type Locale } from '../models/types.js';
 
 const router = Router();
 
@@ -14,6 +17,7 @@ const defendSchema = z.object({
   comment: z.string().min(1).max(1000),
   reviewId: z.string().optional(),
   alertId: z.string().optional(),
+  accountId: z.string().optional(),
 });
 
 // POST /api/defend - Post a defense review
@@ -29,14 +33,15 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
-    const { targetUserkey, score, comment, reviewId, alertId } = validation.data;
+    const { targetUserkey, score, comment, reviewId, alertId, accountId } = validation.data;
 
     // Post the defense
     const result = await monitorService.postCustomDefense(
       targetUserkey,
       score,
       comment,
-      reviewId
+      reviewId,
+      accountId
     );
 
     if (result.success) {
@@ -44,6 +49,15 @@ router.post('/', async (req: Request, res: Response) => {
       if (alertId) {
         await db.updateAlertStatus(alertId, 'CONFIRMED');
       }
+      if (reviewId) {
+        await db.updateReviewAlertsStatus(reviewId, 'CONFIRMED');
+        await alertService.updateAlertMessages(reviewId, {
+          status: 'POSTED',
+          actor: 'Dashboard',
+          at: new Date(),
+          reviewUrl: result.reviewId ? ethosService.getReviewUrl(result.reviewId) : null,
+        });
+      }
 
       res.json({
         success: true,
@@ -77,7 +91,7 @@ router.post('/confirm/:alertId', async (req: Request, res: Response) => {
       });
     }
 
-    const success = await monitorService.executeDefense(alertId, alert.reviewId);
+    const success = await monitorService.executeDefense(alertId, alert.reviewId, 'Dashboard');
 
     if (success) {
       res.json({
@@ -102,8 +116,10 @@ router.post('/confirm/:alertId', async (req: Request, res: Response) => {
 // GET /api/defend/suggest - Get defense suggestion for a target
 router.get('/suggest', async (req: Request, res: Response) => {
   try {
-    const { score = '3' } = req.query;
-    const suggestion = getRandomDefenseMessage(parseInt(score as string, 10));
+    const { score = '3', locale } = req.query;
+    // Defaults to the language of the posted defenses (DEFENSE_LOCALE)
+    const language = LOCALES.includes(locale as Locale) ? locale as Locale : config_values.i18n.defenseLocale;
+    const suggestion = getRandomDefenseMessage(parseInt(score as string, 10), language);
 
     res.json({
       success: true,
@@ -121,7 +137,10 @@ router.get('/suggest', async (req: Request, res: Response) => {
 // GET /api/defend/pending - Get pending defenses
 router.get('/pending', async (req: Request, res: Response) => {
   try {
-    const { data: alerts } = await db.getAlerts({ status: 'PENDING' });
+    const { data: alerts } = await db.getAlerts({
+      status: 'PENDING',
+      accountId: req.query.accountId as string | undefined,
+    });
 
     const pending = await Promise.all(
       alerts.map(async (alert) => {
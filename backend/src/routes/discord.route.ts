@@ -0,0 +1,39 @@
+import express, { Router, Request, Response } from 'express';
+import discordService from '../services/discord.service.js';
+import logger from '../utils/logger.js';
+import type { DiscordInteraction } from '../models/types.js';
+
+const router = Router();
+
+// POST /api/discord/interactions - Discord application interactions endpoint (alert buttons).
+// Responses follow the Discord interaction format, not the API envelope.
+router.post('/interactions', express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+  if (!discordService.isEnabled()) {
+    return res.status(404).json({
+      success: false,
+      error: 'Discord interactions disabled',
+    });
+  }
+
+  const signature = req.header('X-Signature-Ed25519');
+  const timestamp = req.header('X-Signature-Timestamp');
+  if (!Buffer.isBuffer(req.body) || !discordService.verifySignature(req.body, signature, timestamp)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid request signature',
+    });
+  }
+
+  try {
+    const interaction = JSON.parse(req.body.toString('utf-8')) as DiscordInteraction;
+    res.json(await discordService.handleInteraction(interaction));
+  } catch (error) {
+    logger.error('Error handling Discord interaction:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to handle interaction',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { config_values } from '../config/env.js';
+import db from '../services/database.service.js';
+import alertService from '../services/alert.service.js';
+import emailService from '../services/email.service.js';
+import logger from '../utils/logger.js';
+import { channelLocale, t } from '../utils/i18n.js';
+
+const router = Router();
+
+// Pages are shown in the language of the email alerts
+const locale = channelLocale('email');
+
+// These routes are opened from an email client: they answer small HTML pages instead of JSON
+function renderPage(res: Response, status: number, title: string, body: string) {
+  res.status(status).type('html').send(`<!DOCTYPE html>
+<html lang="${locale}">
+  <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>
+  <body style="margin:0;padding:48px 24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;text-align:center">
+    <h1 style="font-size:20px;color:#111827">${title}</h1>
+    ${body}
+    <p><a href="${config_values.frontend.url}/alerts" style="color:#6b7280;font-size:14px">${t(locale, 'email.openDashboard')}</a></p>
+  </body>
+</html>`);
+}
+
+function renderInvalidLink(res: Response) {
+  renderPage(res, 403, t(locale, 'email.invalidLink'), `<p style="color:#6b7280">${t(locale, 'email.openFromDashboard')}</p>`);
+}
+
+function isValidLink(req: Request, action: 'defend' | 'ignore'): boolean {
+  return emailService.verifyLink(action, req.params.reviewId, req.query.expires as string | undefined, req.query.signature as string | undefined);
+}
+
+// GET /api/email/defend/:reviewId - Signed link of the email alerts, opens the defense page
+router.get('/defend/:reviewId', (req: Request, res: Response) => {
+  if (!isValidLink(req, 'defend')) {
+    return renderInvalidLink(res);
+  }
+
+  res.redirect(`${config_values.frontend.url}/defend/${encodeURIComponent(req.params.reviewId)}`);
+});
+
+// GET /api/email/ignore/:reviewId - Confirmation page: link scanners of mail servers follow GET links,
+// the alert is only ignored by the form below
+router.get('/ignore/:reviewId', (req: Request, res: Response) => {
+  if (!isValidLink(req, 'ignore')) {
+    return renderInvalidLink(res);
+  }
+
+  renderPage(res, 200, t(locale, 'email.ignoreConfirm'), `
+    <form method="post">
+      <button type="submit" style="padding:10px 24px;border:0;border-radius:6px;background:#dc2626;color:#ffffff;font-size:14px;font-weight:600;cursor:pointer">👁️ ${t(locale, 'button.ignore')}</button>
+    </form>`);
+});
+
+// POST /api/email/ignore/:reviewId - Ignore the pending alert of the review (same as the chat buttons)
+router.post('/ignore/:reviewId', async (req: Request, res: Response) => {
+  if (!isValidLink(req, 'ignore')) {
+    return renderInvalidLink(res);
+  }
+
+  try {
+    const { reviewId } = req.params;
+    const alert = await db.getPendingAlertOfReview(reviewId);
+    if (!alert) {
+      return renderPage(res, 409, t(locale, 'email.alreadyHandled'), '');
+    }
+
+    await alertService.handleAction({ action: 'ignore', alertId: alert.id, reviewId, actor: 'Email' });
+    renderPage(res, 200, t(locale, 'email.ignored'), '');
+  } catch (error) {
+    logger.error('Error ignoring alert from email:', error);
+    renderPage(res, 500, t(locale, 'email.error'), `<p style="color:#6b7280">${t(locale, 'email.ignoreFailed')}</p>`);
+  }
+});
+
+export default router;
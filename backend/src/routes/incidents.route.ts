@@ -0,0 +1,98 @@
+import { Router, Request, Response } from 'express';
+import db from '../services/database.service.js';
+import logger from '../utils/logger.js';
+
+// Type alias for string-based enums (SQLite doesn't support native enums)
+type IncidentStatus = 'OPEN' | 'RESOLVED';
+
+const router = Router();
+
+// GET /api/incidents - List coordinated attack incidents, most recent first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const {
+      status,
+      accountId,
+      limit = '50',
+      offset = '0',
+    } = req.query;
+
+    const options = {
+      status: status as IncidentStatus | undefined,
+      accountId: accountId as string | undefined,
+      limit: parseInt(limit as string, 10),
+      offset: parseInt(offset as string, 10),
+    };
+
+    const { data, total } = await db.getIncidents(options);
+
+    res.json({
+      success: true,
+      data,
+      total,
+      limit: options.limit,
+      offset: options.offset,
+    });
+  } catch (error) {
+    logger.error('Error fetching incidents:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch incidents',
+    });
+  }
+});
+
+// GET /api/incidents/:id - Get incident details with its reviews
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const incident = await db.getIncidentById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({
+        success: false,
+        error: 'Incident not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: incident,
+    });
+  } catch (error) {
+    logger.error('Error fetching incident:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch incident',
+    });
+  }
+});
+
+// PATCH /api/incidents/:id - Resolve or reopen an incident
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (!status || !['OPEN', 'RESOLVED'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid status',
+      });
+    }
+
+    const incident = await db.updateIncidentStatus(id, status as IncidentStatus);
+
+    res.json({
+      success: true,
+      data: incident,
+    });
+  } catch (error) {
+    logger.error('Error updating incident:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update incident',
+    });
+  }
+});
+
+export default router;
@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
 import db from '../services/database.service.js';
 import ethosService from '../services/ethos.service.js';
+import monitorService from '../services/monitor.service.js';
 import logger from '../utils/logger.js';
+import { z } from 'zod';
 
 const router = Router();
 
@@ -9,7 +11,9 @@ const router = Router();
 router.get('/', async (req: Request, res: Response) => {
   try {
     const activeOnly = req.query.active !== 'false';
-    const relations = await db.getRelations(activeOnly);
+    const relations = await db.getRelations(activeOnly, {
+      accountId: req.query.accountId as string | undefined,
+    });
 
     res.json({
       success: true,
@@ -25,6 +29,71 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// Schema for watchlist additions
+const watchlistSchema = z.object({
+  query: z.string().trim().min(1),
+  accountId: z.string().optional(),
+});
+
+// POST /api/relations/watchlist - Watch a profile by userkey, address or Ethos username
+router.post('/watchlist', async (req: Request, res: Response) => {
+  try {
+    const validation = watchlistSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    const relation = await monitorService.addToWatchlist(validation.data.query, validation.data.accountId);
+
+    if (!relation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Profile not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: relation,
+    });
+  } catch (error) {
+    logger.error('Error adding to watchlist:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add to watchlist',
+    });
+  }
+});
+
+// DELETE /api/relations/watchlist/:id - Stop watching a manual watchlist entry
+router.delete('/watchlist/:id', async (req: Request, res: Response) => {
+  try {
+    const removed = await monitorService.removeFromWatchlist(req.params.id);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Watchlist entry not found',
+      });
+    }
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    logger.error('Error removing from watchlist:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove from watchlist',
+    });
+  }
+});
+
 // GET /api/relations/:id - Get relation details
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -57,33 +126,38 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// POST /api/relations/refresh - Refresh relations from Ethos
+// GET /api/relations/:id/scores - Ethos score history (?days= limits the window)
+router.get('/:id/scores', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const days = parseInt(req.query.days as string, 10);
+    const since = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+    const history = await db.getScoreHistory(id, since);
+
+    res.json({
+      success: true,
+      data: history,
+      total: history.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching score history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch score history',
+    });
+  }
+});
+
+// POST /api/relations/refresh - Refresh relations from Ethos (honors each account's scope)
 router.post('/refresh', async (req: Request, res: Response) => {
   try {
-    const { config_values } = await import('../config/env.js');
-    const vouches = await ethosService.getVouches(config_values.ethos.userKey);
-
-    let updated = 0;
-    for (const vouch of vouches) {
-      const userkey = ethosService.profileIdToUserkey(vouch.subjectProfileId);
-      const profile = await ethosService.getProfile(userkey);
-
-      if (profile) {
-        await db.upsertRelation({
-          id: vouch.id.toString(),
-          userkey,
-          name: profile.name || profile.username,
-          address: profile.primaryAddress,
-          avatarUrl: profile.avatar,
-        });
-        updated++;
-      }
-    }
+    const { total, updated } = await monitorService.refreshRelations(req.query.accountId as string | undefined);
 
     res.json({
       success: true,
       data: {
-        total: vouches.length,
+        total,
         updated,
       },
     });
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import db from '../services/database.service.js';
+import monitorService from '../services/monitor.service.js';
 import logger from '../utils/logger.js';
 
 const router = Router();
@@ -10,6 +11,7 @@ router.get('/', async (req: Request, res: Response) => {
     const {
       negative,
       relationId,
+      accountId,
       limit = '50',
       offset = '0',
     } = req.query;
@@ -17,6 +19,7 @@ router.get('/', async (req: Request, res: Response) => {
     const options = {
       negative: negative === 'true' ? true : negative === 'false' ? false : undefined,
       relationId: relationId as string | undefined,
+      accountId: accountId as string | undefined,
       limit: parseInt(limit as string, 10),
       offset: parseInt(offset as string, 10),
     };
@@ -49,6 +52,7 @@ router.get('/negative', async (req: Request, res: Response) => {
 
     const { data, total } = await db.getReviews({
       negative: true,
+      accountId: req.query.accountId as string | undefined,
       limit: parseInt(limit as string, 10),
       offset: parseInt(offset as string, 10),
     });
@@ -70,7 +74,7 @@ router.get('/negative', async (req: Request, res: Response) => {
 // GET /api/reviews/stats - Get review statistics
 router.get('/stats', async (req: Request, res: Response) => {
   try {
-    const stats = await db.getStats();
+    const stats = await db.getStats(req.query.accountId as string | undefined);
 
     res.json({
       success: true,
@@ -92,4 +96,40 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/reviews/:id/revisions - Previous versions of an edited review
+router.get('/:id/revisions', async (req: Request, res: Response) => {
+  try {
+    const revisions = await db.getReviewRevisions(req.params.id);
+
+    res.json({
+      success: true,
+      data: revisions,
+    });
+  } catch (error) {
+    logger.error('Error fetching review revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch review revisions',
+    });
+  }
+});
+
+// POST /api/reviews/verify - Re-check stored negative reviews against Ethos now
+router.post('/verify', async (req: Request, res: Response) => {
+  try {
+    const summary = await monitorService.verifyStoredReviews();
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    logger.error('Error verifying reviews:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify reviews',
+    });
+  }
+});
+
 export default router;
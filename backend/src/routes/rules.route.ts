@@ -0,0 +1,248 @@
+import { Router, Request, Response } from 'express';
+import db from '../services/database.service.js';
+import ruleService from '../services/rule.service.js';
+import logger from '../utils/logger.js';
+import { z } from 'zod';
+import { ALERT_CHANNELS } from '../models/types.js';
+
+const router = Router();
+
+// Validation schemas
+const hourSchema = z.number().int().min(0).max(24);
+
+const conditionsSchema = z.object({
+  types: z.array(z.enum(['NEGATIVE_REVIEW', 'SLASH'])).optional(),
+  relationIds: z.array(z.string().min(1)).optional(),
+  directions: z.array(z.enum(['outgoing', 'incoming', 'self', 'manual'])).optional(),
+  attackers: z.array(z.string().trim().min(1)).optional(),
+  attackerRisks: z.array(z.enum(['low', 'medium', 'high'])).optional(),
+  keywords: z.array(z.string().trim().min(1)).optional(),
+  minScore: z.number().int().optional(),
+  maxScore: z.number().int().optional(),
+  hours: z.object({
+    from: hourSchema,
+    to: hourSchema,
+    timezone: z.string().min(1).optional(),
+  }).optional(),
+}).strict();
+
+const actionsSchema = z.object({
+  suppress: z.boolean().optional(),
+  escalate: z.boolean().optional(),
+  channels: z.array(z.enum(ALERT_CHANNELS as [string, ...string[]])).optional(),
+  defense: z.enum(['none', 'create', 'post']).optional(),
+  defenseScore: z.number().int().min(1).max(5).optional(),
+  stop: z.boolean().optional(),
+}).strict();
+
+const ruleSchema = z.object({
+  accountId: z.string().min(1).nullable(),
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean(),
+  priority: z.number().int(),
+  conditions: conditionsSchema,
+  actions: actionsSchema,
+});
+
+const createRuleSchema = ruleSchema.partial().extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+const previewSchema = z.object({
+  ruleId: z.string().optional(),
+  rule: z.object({
+    conditions: conditionsSchema,
+    actions: actionsSchema.default({}),
+  }).optional(),
+  accountId: z.string().optional(),
+  days: z.number().int().min(1).max(365).default(30),
+});
+
+// GET /api/rules - List alert rules (?accountId= also includes rules for every account)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const rules = await ruleService.getRules(req.query.accountId as string | undefined);
+
+    res.json({
+      success: true,
+      data: rules,
+      total: rules.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching rules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch rules',
+    });
+  }
+});
+
+// POST /api/rules/preview - Replay a draft rule, a saved rule or every enabled rule on past reviews
+router.post('/preview', async (req: Request, res: Response) => {
+  try {
+    const validation = previewSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    const { ruleId, accountId, days } = validation.data;
+    let rule = validation.data.rule;
+
+    if (ruleId) {
+      const saved = await ruleService.getRule(ruleId);
+      if (!saved) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule not found',
+        });
+      }
+      rule = { conditions: saved.conditions, actions: saved.actions };
+    }
+
+    const preview = await ruleService.preview({
+      accountId,
+      days,
+      rule: rule as Parameters<typeof ruleService.preview>[0]['rule'],
+    });
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    logger.error('Error previewing rules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview rules',
+    });
+  }
+});
+
+// GET /api/rules/:id - Get a rule
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const rule = await ruleService.getRule(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rule not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Error fetching rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch rule',
+    });
+  }
+});
+
+// POST /api/rules - Create a rule
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validation = createRuleSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    const rule = await ruleService.createRule(
+      validation.data as Parameters<typeof ruleService.createRule>[0]
+    );
+    logger.info(`Alert rule created: ${rule.name}`);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Error creating rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create rule',
+    });
+  }
+});
+
+// PATCH /api/rules/:id - Update a rule
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = ruleSchema.partial().safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    if (!(await db.getAlertRuleById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rule not found',
+      });
+    }
+
+    const rule = await ruleService.updateRule(
+      id,
+      validation.data as Parameters<typeof ruleService.updateRule>[1]
+    );
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Error updating rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update rule',
+    });
+  }
+});
+
+// DELETE /api/rules/:id - Delete a rule
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await db.getAlertRuleById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rule not found',
+      });
+    }
+
+    await db.deleteAlertRule(id);
+
+    res.json({
+      success: true,
+      message: 'Rule deleted',
+    });
+  } catch (error) {
+    logger.error('Error deleting rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete rule',
+    });
+  }
+});
+
+export default router;
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { promises as fs } from 'fs';
 import path from 'path';
 import logger from '../utils/logger.js';
+import { parseChannelLocales, parseMonitorScope, parseQuietHours } from '../config/env.js';
+import { ALERT_CHANNELS, LOCALES, type Locale } from '../models/types.js';
 
 const router = Router();
 
@@ -35,13 +37,24 @@ async function writeEnvFile(env: Record<string, string>): Promise<void> {
 
   // Group settings logically
   const groups = {
-    server: ['PORT', 'NODE_ENV', 'FRONTEND_URL'],
-    ethos: ['ETHOS_API_URL', 'ETHOS_PRIVY_TOKEN', 'ETHOS_USER_KEY', 'ETHOS_CLIENT_ID'],
-    telegram: ['TELEGRAM_BOT_TOKEN', 'TELEGRAM_CHAT_ID'],
-    discord: ['DISCORD_WEBHOOK_URL'],
-    twitter: ['TWITTER_API_KEY', 'TWITTER_API_SECRET', 'TWITTER_ACCESS_TOKEN', 'TWITTER_ACCESS_SECRET'],
+    server: ['PORT', 'NODE_ENV', 'FRONTEND_URL', 'BACKEND_URL'],
+    ethos: ['ETHOS_API_URL', 'ETHOS_PRIVY_TOKEN', 'ETHOS_USER_KEY', 'ETHOS_CLIENT_ID', 'ETHOS_PAGE_SIZE', 'ETHOS_MAX_PAGES'],
+    telegram: ['TELEGRAM_BOT_TOKEN', 'TELEGRAM_CHAT_ID', 'TELEGRAM_ADMIN_IDS'],
+    discord: ['DISCORD_WEBHOOK_URL', 'DISCORD_PUBLIC_KEY', 'DISCORD_ALLOWED_USER_IDS', 'DISCORD_ALLOWED_ROLE_IDS'],
+    slack: ['SLACK_BOT_TOKEN', 'SLACK_CHANNEL_ID', 'SLACK_SIGNING_SECRET', 'SLACK_ALLOWED_USER_IDS'],
+    matrix: ['MATRIX_HOMESERVER_URL', 'MATRIX_ACCESS_TOKEN', 'MATRIX_ROOM_ID'],
+    ntfy: ['NTFY_SERVER_URL', 'NTFY_TOPIC', 'NTFY_TOKEN'],
+    email: ['SMTP_HOST', 'SMTP_PORT', 'SMTP_SECURE', 'SMTP_USER', 'SMTP_PASSWORD', 'EMAIL_FROM', 'EMAIL_TO', 'EMAIL_LINK_SECRET'],
+    notifications: [
+      'QUIET_HOURS_TELEGRAM', 'QUIET_HOURS_DISCORD', 'QUIET_HOURS_SLACK', 'QUIET_HOURS_EMAIL',
+      'QUIET_HOURS_MATRIX', 'QUIET_HOURS_NTFY', 'QUIET_HOURS_TWITTER', 'QUIET_HOURS_TIMEZONE', 'DIGEST_FREQUENCY', 'DIGEST_HOUR',
+    ],
+    escalation: ['ESCALATION_RENOTIFY_MINUTES', 'ESCALATION_SECONDARY_MINUTES', 'ESCALATION_TELEGRAM_CHAT_ID', 'ESCALATION_DISCORD_WEBHOOK_URL', 'ESCALATION_FINAL_MINUTES', 'ESCALATION_FINAL_ACTION'],
+    webhooks: ['WEBHOOK_MAX_ATTEMPTS', 'WEBHOOK_TIMEOUT_MS'],
+    i18n: ['ALERT_LOCALE', 'ALERT_LOCALES', 'DASHBOARD_LOCALE', 'DEFENSE_LOCALE', 'DISPLAY_TIMEZONE'],
+    twitter: ['TWITTER_API_KEY', 'TWITTER_API_SECRET', 'TWITTER_ACCESS_TOKEN', 'TWITTER_ACCESS_SECRET', 'TWITTER_DM_RECIPIENT_ID', 'TWITTER_PUBLIC_MODE'],
     database: ['DATABASE_URL'],
-    monitor: ['MONITOR_INTERVAL_MINUTES', 'AUTO_DEFENSE_ENABLED', 'AUTO_DEFENSE_REQUIRE_CONFIRM', 'AUTO_DEFENSE_DEFAULT_SCORE'],
+    monitor: ['MONITOR_INTERVAL_MINUTES', 'MONITOR_SCOPE', 'SCORE_DROP_THRESHOLD', 'SCORE_DROP_PERCENT', 'INCIDENT_WINDOW_MINUTES', 'INCIDENT_MIN_REVIEWS', 'INCIDENT_MIN_TARGETS', 'REVIEW_RECHECK_INTERVAL_MINUTES', 'REVIEW_RECHECK_MAX_AGE_DAYS', 'AUTO_DEFENSE_ENABLED', 'AUTO_DEFENSE_REQUIRE_CONFIRM', 'AUTO_DEFENSE_DEFAULT_SCORE'],
   };
 
   const addedKeys = new Set<string>();
@@ -90,12 +103,43 @@ router.get('/', async (req: Request, res: Response) => {
           enabled: !!env.DISCORD_WEBHOOK_URL,
           webhookUrl: maskValue(env.DISCORD_WEBHOOK_URL),
         },
+        slack: {
+          enabled: !!env.SLACK_BOT_TOKEN && !!env.SLACK_CHANNEL_ID,
+          botToken: maskValue(env.SLACK_BOT_TOKEN),
+          channelId: env.SLACK_CHANNEL_ID || '',
+          signingSecret: maskValue(env.SLACK_SIGNING_SECRET),
+        },
+        email: {
+          enabled: !!env.SMTP_HOST && !!env.EMAIL_TO,
+          host: env.SMTP_HOST || '',
+          port: parseInt(env.SMTP_PORT || '587', 10),
+          secure: env.SMTP_SECURE === 'true',
+          user: env.SMTP_USER || '',
+          password: maskValue(env.SMTP_PASSWORD),
+          from: env.EMAIL_FROM || '',
+          to: env.EMAIL_TO || '',
+          linkSecret: maskValue(env.EMAIL_LINK_SECRET),
+        },
+        matrix: {
+          enabled: !!env.MATRIX_HOMESERVER_URL && !!env.MATRIX_ACCESS_TOKEN && !!env.MATRIX_ROOM_ID,
+          homeserverUrl: env.MATRIX_HOMESERVER_URL || '',
+          accessToken: maskValue(env.MATRIX_ACCESS_TOKEN),
+          roomId: env.MATRIX_ROOM_ID || '',
+        },
+        ntfy: {
+          enabled: !!env.NTFY_TOPIC,
+          serverUrl: env.NTFY_SERVER_URL || 'https://ntfy.sh',
+          topic: env.NTFY_TOPIC || '',
+          token: maskValue(env.NTFY_TOKEN),
+        },
         twitter: {
           enabled: !!env.TWITTER_API_KEY,
           apiKey: maskValue(env.TWITTER_API_KEY),
           apiSecret: maskValue(env.TWITTER_API_SECRET),
           accessToken: maskValue(env.TWITTER_ACCESS_TOKEN),
           accessSecret: maskValue(env.TWITTER_ACCESS_SECRET),
+          dmRecipientId: env.TWITTER_DM_RECIPIENT_ID || '',
+          publicMode: env.TWITTER_PUBLIC_MODE || 'off',
         },
       },
       autoDefense: {
@@ -104,6 +148,30 @@ router.get('/', async (req: Request, res: Response) => {
         defaultScore: parseInt(env.AUTO_DEFENSE_DEFAULT_SCORE || '3', 10),
       },
       monitorInterval: parseInt(env.MONITOR_INTERVAL_MINUTES || '5', 10),
+      monitorScope: parseMonitorScope(env.MONITOR_SCOPE || 'outgoing'),
+      alertSchedule: {
+        quietHours: {
+          telegram: env.QUIET_HOURS_TELEGRAM || '',
+          discord: env.QUIET_HOURS_DISCORD || '',
+          slack: env.QUIET_HOURS_SLACK || '',
+          email: env.QUIET_HOURS_EMAIL || '',
+          matrix: env.QUIET_HOURS_MATRIX || '',
+          ntfy: env.QUIET_HOURS_NTFY || '',
+          twitter: env.QUIET_HOURS_TWITTER || '',
+          timezone: env.QUIET_HOURS_TIMEZONE || 'UTC',
+        },
+        digest: {
+          frequency: env.DIGEST_FREQUENCY || 'off',
+          hour: parseInt(env.DIGEST_HOUR || '9', 10),
+        },
+      },
+      i18n: {
+        alertLocale: env.ALERT_LOCALE || 'fr',
+        channelLocales: parseChannelLocales(env.ALERT_LOCALES || ''),
+        dashboardLocale: env.DASHBOARD_LOCALE || 'en',
+        defenseLocale: env.DEFENSE_LOCALE || 'en',
+        timezone: env.DISPLAY_TIMEZONE || '',
+      },
     };
 
     res.json({ success: true, data: settings });
@@ -116,7 +184,7 @@ router.get('/', async (req: Request, res: Response) => {
 // POST /api/settings - Save settings
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { notifications, autoDefense, monitorInterval } = req.body;
+    const { notifications, autoDefense, monitorInterval, monitorScope, alertSchedule, i18n } = req.body;
     const env = await readEnvFile();
 
     // Update Telegram settings (only if new values provided, not masked)
@@ -144,6 +212,94 @@ router.post('/', async (req: Request, res: Response) => {
       }
     }
 
+    // Update Slack settings
+    if (notifications?.slack) {
+      if (notifications.slack.botToken && !notifications.slack.botToken.includes('****')) {
+        env.SLACK_BOT_TOKEN = notifications.slack.botToken;
+      }
+      if (notifications.slack.channelId) {
+        env.SLACK_CHANNEL_ID = notifications.slack.channelId;
+      }
+      if (notifications.slack.signingSecret && !notifications.slack.signingSecret.includes('****')) {
+        env.SLACK_SIGNING_SECRET = notifications.slack.signingSecret;
+      }
+      if (notifications.slack.enabled === false) {
+        delete env.SLACK_BOT_TOKEN;
+        delete env.SLACK_CHANNEL_ID;
+        delete env.SLACK_SIGNING_SECRET;
+      }
+    }
+
+    // Update email settings
+    if (notifications?.email) {
+      if (notifications.email.host) {
+        env.SMTP_HOST = notifications.email.host;
+      }
+      const port = parseInt(notifications.email.port, 10);
+      if (port > 0 && port <= 65535) {
+        env.SMTP_PORT = String(port);
+      }
+      if (notifications.email.secure !== undefined) {
+        env.SMTP_SECURE = String(notifications.email.secure === true);
+      }
+      if (notifications.email.user !== undefined) {
+        env.SMTP_USER = notifications.email.user;
+      }
+      if (notifications.email.password && !notifications.email.password.includes('****')) {
+        env.SMTP_PASSWORD = notifications.email.password;
+      }
+      if (notifications.email.from) {
+        env.EMAIL_FROM = notifications.email.from;
+      }
+      if (notifications.email.to) {
+        env.EMAIL_TO = notifications.email.to;
+      }
+      if (notifications.email.linkSecret && !notifications.email.linkSecret.includes('****')) {
+        env.EMAIL_LINK_SECRET = notifications.email.linkSecret;
+      }
+      if (notifications.email.enabled === false) {
+        delete env.SMTP_HOST;
+        delete env.SMTP_USER;
+        delete env.SMTP_PASSWORD;
+        delete env.EMAIL_TO;
+      }
+    }
+
+    // Update Matrix settings
+    if (notifications?.matrix) {
+      if (notifications.matrix.homeserverUrl) {
+        env.MATRIX_HOMESERVER_URL = notifications.matrix.homeserverUrl;
+      }
+      if (notifications.matrix.accessToken && !notifications.matrix.accessToken.includes('****')) {
+        env.MATRIX_ACCESS_TOKEN = notifications.matrix.accessToken;
+      }
+      if (notifications.matrix.roomId) {
+        env.MATRIX_ROOM_ID = notifications.matrix.roomId;
+      }
+      if (notifications.matrix.enabled === false) {
+        delete env.MATRIX_HOMESERVER_URL;
+        delete env.MATRIX_ACCESS_TOKEN;
+        delete env.MATRIX_ROOM_ID;
+      }
+    }
+
+    // Update ntfy settings
+    if (notifications?.ntfy) {
+      if (notifications.ntfy.serverUrl) {
+        env.NTFY_SERVER_URL = notifications.ntfy.serverUrl;
+      }
+      if (notifications.ntfy.topic) {
+        env.NTFY_TOPIC = notifications.ntfy.topic;
+      }
+      if (notifications.ntfy.token && !notifications.ntfy.token.includes('****')) {
+        env.NTFY_TOKEN = notifications.ntfy.token;
+      }
+      if (notifications.ntfy.enabled === false) {
+        delete env.NTFY_TOPIC;
+        delete env.NTFY_TOKEN;
+      }
+    }
+
     // Update Twitter settings
     if (notifications?.twitter) {
       if (notifications.twitter.apiKey && !notifications.twitter.apiKey.includes('****')) {
@@ -158,6 +314,12 @@ router.post('/', async (req: Request, res: Response) => {
       if (notifications.twitter.accessSecret && !notifications.twitter.accessSecret.includes('****')) {
         env.TWITTER_ACCESS_SECRET = notifications.twitter.accessSecret;
       }
+      if (notifications.twitter.dmRecipientId !== undefined) {
+        env.TWITTER_DM_RECIPIENT_ID = String(notifications.twitter.dmRecipientId).trim();
+      }
+      if (['off', 'reply', 'quote'].includes(notifications.twitter.publicMode)) {
+        env.TWITTER_PUBLIC_MODE = notifications.twitter.publicMode;
+      }
       if (notifications.twitter.enabled === false) {
         delete env.TWITTER_API_KEY;
         delete env.TWITTER_API_SECRET;
@@ -178,6 +340,54 @@ router.post('/', async (req: Request, res: Response) => {
       env.MONITOR_INTERVAL_MINUTES = String(monitorInterval);
     }
 
+    // Update monitoring scope
+    if (Array.isArray(monitorScope)) {
+      env.MONITOR_SCOPE = parseMonitorScope(monitorScope.join(',')).join(',');
+    }
+
+    // Update quiet hours (empty or invalid windows disable them) and digest
+    if (alertSchedule?.quietHours) {
+      for (const channel of ALERT_CHANNELS) {
+        const window = String(alertSchedule.quietHours[channel] || '');
+        env[`QUIET_HOURS_${channel.toUpperCase()}`] = parseQuietHours(window) ? window.trim() : '';
+      }
+      if (alertSchedule.quietHours.timezone) {
+        env.QUIET_HOURS_TIMEZONE = String(alertSchedule.quietHours.timezone).trim();
+      }
+    }
+    if (alertSchedule?.digest) {
+      if (['off', 'daily', 'weekly'].includes(alertSchedule.digest.frequency)) {
+        env.DIGEST_FREQUENCY = alertSchedule.digest.frequency;
+      }
+      const hour = parseInt(alertSchedule.digest.hour, 10);
+      if (hour >= 0 && hour <= 23) {
+        env.DIGEST_HOUR = String(hour);
+      }
+    }
+
+    // Update languages (unknown locales are ignored) and display timezone
+    if (i18n) {
+      const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+      if (isLocale(i18n.alertLocale)) {
+        env.ALERT_LOCALE = i18n.alertLocale;
+      }
+      if (isLocale(i18n.dashboardLocale)) {
+        env.DASHBOARD_LOCALE = i18n.dashboardLocale;
+      }
+      if (isLocale(i18n.defenseLocale)) {
+        env.DEFENSE_LOCALE = i18n.defenseLocale;
+      }
+      if (i18n.channelLocales && typeof i18n.channelLocales === 'object') {
+        const pairs = Object.entries(i18n.channelLocales).map(([channel, locale]) => `${channel}:${locale}`);
+        env.ALERT_LOCALES = Object.entries(parseChannelLocales(pairs.join(',')))
+          .map(([channel, locale]) => `${channel}:${locale}`)
+          .join(',');
+      }
+      if (i18n.timezone !== undefined) {
+        env.DISPLAY_TIMEZONE = String(i18n.timezone).trim();
+      }
+    }
+
     await writeEnvFile(env);
     logger.info('Settings saved successfully');
 
@@ -237,19 +447,123 @@ router.post('/test/:channel', async (req: Request, res: Response) => {
         break;
       }
 
+      case 'slack': {
+        if (!env.SLACK_BOT_TOKEN || !env.SLACK_CHANNEL_ID) {
+          return res.status(400).json({
+            success: false,
+            error: 'Slack not configured. Please enter Bot Token and Channel ID first.'
+          });
+        }
+
+        // Slack answers HTTP 200 with ok: false on errors
+        const { default: axios } = await import('axios');
+        const response = await axios.post('https://slack.com/api/chat.postMessage', {
+          channel: env.SLACK_CHANNEL_ID,
+          text: testMessage,
+        }, {
+          headers: { Authorization: `Bearer ${env.SLACK_BOT_TOKEN}` },
+        });
+        if (!response.data?.ok) {
+          throw new Error(response.data?.error || 'Slack API error');
+        }
+
+        res.json({ success: true, message: 'Slack test sent!' });
+        break;
+      }
+
+      case 'email': {
+        if (!env.SMTP_HOST || !env.EMAIL_TO) {
+          return res.status(400).json({
+            success: false,
+            error: 'Email not configured. Please enter SMTP host and recipients first.'
+          });
+        }
+
+        const { default: nodemailer } = await import('nodemailer');
+        const transporter = nodemailer.createTransport({
+          host: env.SMTP_HOST,
+          port: parseInt(env.SMTP_PORT || '587', 10),
+          secure: env.SMTP_SECURE === 'true',
+          ...(env.SMTP_USER ? { auth: { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } } : {}),
+        });
+        await transporter.sendMail({
+          from: env.EMAIL_FROM || 'Ethos Monitor <ethos-monitor@localhost>',
+          to: env.EMAIL_TO,
+          subject: '🧪 Test Notification',
+          text: testMessage,
+        });
+
+        res.json({ success: true, message: 'Email test sent!' });
+        break;
+      }
+
+      case 'matrix': {
+        if (!env.MATRIX_HOMESERVER_URL || !env.MATRIX_ACCESS_TOKEN || !env.MATRIX_ROOM_ID) {
+          return res.status(400).json({
+            success: false,
+            error: 'Matrix not configured. Please enter Homeserver URL, Access Token and Room ID first.'
+          });
+        }
+
+        const { default: axios } = await import('axios');
+        const { randomUUID } = await import('crypto');
+        const homeserverUrl = env.MATRIX_HOMESERVER_URL.replace(/\/$/, '');
+        await axios.put(
+          `${homeserverUrl}/_matrix/client/v3/rooms/${encodeURIComponent(env.MATRIX_ROOM_ID)}/send/m.room.message/${randomUUID()}`,
+          { msgtype: 'm.text', body: testMessage },
+          { headers: { Authorization: `Bearer ${env.MATRIX_ACCESS_TOKEN}` } }
+        );
+
+        res.json({ success: true, message: 'Matrix test sent!' });
+        break;
+      }
+
+      case 'ntfy': {
+        if (!env.NTFY_TOPIC) {
+          return res.status(400).json({
+            success: false,
+            error: 'ntfy not configured. Please enter a topic first.'
+          });
+        }
+
+        const { default: axios } = await import('axios');
+        await axios.post((env.NTFY_SERVER_URL || 'https://ntfy.sh').replace(/\/$/, ''), {
+          topic: env.NTFY_TOPIC,
+          title: '🧪 Test Notification',
+          message: testMessage,
+        }, {
+          headers: env.NTFY_TOKEN ? { Authorization: `Bearer ${env.NTFY_TOKEN}` } : {},
+        });
+
+        res.json({ success: true, message: 'ntfy test sent!' });
+        break;
+      }
+
       case 'twitter': {
-        if (!env.TWITTER_API_KEY || !env.TWITTER_API_SECRET) {
+        if (!env.TWITTER_API_KEY || !env.TWITTER_API_SECRET || !env.TWITTER_ACCESS_TOKEN || !env.TWITTER_ACCESS_SECRET) {
           return res.status(400).json({
             success: false,
-            error: 'Twitter not configured. Please enter API credentials first.'
+            error: 'Twitter not configured. Please enter API credentials and access tokens first.'
           });
         }
 
-        // Twitter DM requires more setup, just validate credentials exist
-        res.json({
-          success: true,
-          message: 'Twitter credentials saved. DM functionality requires additional setup.'
+        const { TwitterApi } = await import('twitter-api-v2');
+        const client = new TwitterApi({
+          appKey: env.TWITTER_API_KEY,
+          appSecret: env.TWITTER_API_SECRET,
+          accessToken: env.TWITTER_ACCESS_TOKEN,
+          accessSecret: env.TWITTER_ACCESS_SECRET,
         });
+
+        // Without a DM recipient only the credentials can be checked (public posts are not tested)
+        if (!env.TWITTER_DM_RECIPIENT_ID) {
+          const me = await client.v2.me();
+          res.json({ success: true, message: `Twitter credentials valid (@${me.data.username}). Set a DM recipient to test alerts.` });
+          break;
+        }
+
+        await client.v2.sendDmToParticipant(env.TWITTER_DM_RECIPIENT_ID, { text: testMessage });
+        res.json({ success: true, message: 'Twitter DM test sent!' });
         break;
       }
 
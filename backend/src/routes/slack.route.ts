@@ -0,0 +1,46 @@
+import express, { Router, Request, Response } from 'express';
+import slackService from '../services/slack.service.js';
+import logger from '../utils/logger.js';
+import type { SlackInteraction } from '../models/types.js';
+
+const router = Router();
+
+// POST /api/slack/interactions - Slack interactivity request URL (alert buttons).
+// The body is a form with a JSON "payload" field; Slack only needs an empty 200.
+router.post('/interactions', express.raw({ type: 'application/x-www-form-urlencoded' }), async (req: Request, res: Response) => {
+  if (!slackService.isEnabled()) {
+    return res.status(404).json({
+      success: false,
+      error: 'Slack interactions disabled',
+    });
+  }
+
+  const signature = req.header('X-Slack-Signature');
+  const timestamp = req.header('X-Slack-Request-Timestamp');
+  if (!Buffer.isBuffer(req.body) || !slackService.verifySignature(req.body, signature, timestamp)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid request signature',
+    });
+  }
+
+  let interaction: SlackInteraction;
+  try {
+    const payload = new URLSearchParams(req.body.toString('utf-8')).get('payload');
+    interaction = JSON.parse(payload || '') as SlackInteraction;
+  } catch (error) {
+    logger.error('Invalid Slack interaction payload:', error);
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid interaction payload',
+    });
+  }
+
+  res.status(200).end();
+
+  slackService.handleInteraction(interaction).catch((error) => {
+    logger.error('Error handling Slack interaction:', error);
+  });
+});
+
+export default router;
@@ -0,0 +1,226 @@
+import { Router, Request, Response } from 'express';
+import db from '../services/database.service.js';
+import webhookService, { type Webhook } from '../services/webhook.service.js';
+import logger from '../utils/logger.js';
+import { z } from 'zod';
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_VERSION } from '../models/types.js';
+
+const router = Router();
+
+// Validation schemas (events: empty list = every event)
+const webhookSchema = z.object({
+  accountId: z.string().min(1).nullable(),
+  name: z.string().trim().min(1).max(100),
+  url: z.string().url(),
+  secret: z.string().min(16, 'Secret too short'),
+  events: z.array(z.enum(WEBHOOK_EVENTS as [string, ...string[]])),
+  enabled: z.boolean(),
+});
+
+const createWebhookSchema = webhookSchema.partial().extend({
+  name: z.string().trim().min(1).max(100),
+  url: z.string().url(),
+});
+
+// The secret is only returned when the webhook is created
+function serializeWebhook(webhook: Webhook) {
+  const { secret, ...rest } = webhook;
+  return { ...rest, hasSecret: !!secret };
+}
+
+// GET /api/webhooks - List webhooks (?accountId= also includes webhooks for every account)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const webhooks = await webhookService.getWebhooks(req.query.accountId as string | undefined);
+
+    res.json({
+      success: true,
+      data: webhooks.map(serializeWebhook),
+      total: webhooks.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching webhooks:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhooks',
+    });
+  }
+});
+
+// GET /api/webhooks/events - Event types and current envelope version
+router.get('/events', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      version: WEBHOOK_EVENT_VERSION,
+      events: WEBHOOK_EVENTS,
+    },
+  });
+});
+
+// GET /api/webhooks/:id - Get a webhook
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const webhook = await webhookService.getWebhook(req.params.id);
+
+    if (!webhook) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: serializeWebhook(webhook),
+    });
+  } catch (error) {
+    logger.error('Error fetching webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhook',
+    });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Delivery attempts, newest first (?status=SUCCESS|RETRYING|FAILED, ?eventId=)
+router.get('/:id/deliveries', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const {
+      status,
+      eventId,
+      limit = '50',
+      offset = '0',
+    } = req.query;
+
+    if (!(await db.getWebhookById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    const options = {
+      status: status as 'SUCCESS' | 'RETRYING' | 'FAILED' | undefined,
+      eventId: eventId as string | undefined,
+      limit: parseInt(limit as string, 10),
+      offset: parseInt(offset as string, 10),
+    };
+
+    const { data, total } = await db.getWebhookDeliveries(id, options);
+
+    res.json({
+      success: true,
+      data: data.map((delivery) => ({ ...delivery, payload: JSON.parse(delivery.payload) })),
+      total,
+      limit: options.limit,
+      offset: options.offset,
+    });
+  } catch (error) {
+    logger.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhook deliveries',
+    });
+  }
+});
+
+// POST /api/webhooks - Create a webhook (a secret is generated if none is given)
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validation = createWebhookSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    const webhook = await webhookService.createWebhook(
+      validation.data as Parameters<typeof webhookService.createWebhook>[0]
+    );
+    logger.info(`Webhook created: ${webhook.name}`);
+
+    res.json({
+      success: true,
+      data: { ...serializeWebhook(webhook), secret: webhook.secret },
+    });
+  } catch (error) {
+    logger.error('Error creating webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create webhook',
+    });
+  }
+});
+
+// PATCH /api/webhooks/:id - Update a webhook
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = webhookSchema.partial().safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validation.error.issues,
+      });
+    }
+
+    if (!(await db.getWebhookById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    const webhook = await webhookService.updateWebhook(
+      id,
+      validation.data as Parameters<typeof webhookService.updateWebhook>[1]
+    );
+
+    res.json({
+      success: true,
+      data: serializeWebhook(webhook),
+    });
+  } catch (error) {
+    logger.error('Error updating webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update webhook',
+    });
+  }
+});
+
+// DELETE /api/webhooks/:id - Delete a webhook and its delivery history
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await db.getWebhookById(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    await db.deleteWebhook(id);
+
+    res.json({
+      success: true,
+      message: 'Webhook deleted',
+    });
+  } catch (error) {
+    logger.error('Error deleting webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook',
+    });
+  }
+});
+
+export default router;
@@ -2,15 +2,30 @@ import cron from 'node-cron';
 import { config_values } from '../config/env.js';
 import logger from '../utils/logger.js';
 import monitorService from '../services/monitor.service.js';
+import alertService from '../services/alert.service.js';
+import digestService from '../services/digest.service.js';
+import escalationService from '../services/escalation.service.js';
+import webhookService from '../services/webhook.service.js';
+import type { MonitorOptions } from '../models/types.js';
 
 class Scheduler {
   private monitorJob: cron.ScheduledTask | null = null;
   private cleanupJob: cron.ScheduledTask | null = null;
+  private verifyJob: cron.ScheduledTask | null = null;
+  private quietHoursJob: cron.ScheduledTask | null = null;
+  private digestJob: cron.ScheduledTask | null = null;
+  private escalationJob: cron.ScheduledTask | null = null;
+  private webhookJob: cron.ScheduledTask | null = null;
 
   // Start all scheduled jobs
   start() {
     this.startMonitorJob();
     this.startCleanupJob();
+    this.startVerifyJob();
+    this.startQuietHoursJob();
+    this.startDigestJob();
+    this.startEscalationJob();
+    this.startWebhookJob();
     logger.info('Scheduler started');
   }
 
@@ -42,6 +57,99 @@ class Scheduler {
     }, 5000); // Wait 5 seconds for services to initialize
   }
 
+  // Review verification job - re-checks stored negative reviews every N minutes
+  private startVerifyJob() {
+    const intervalMinutes = config_values.monitor.recheck.intervalMinutes;
+    if (!intervalMinutes || intervalMinutes <= 0) {
+      logger.info('Review verification job disabled');
+      return;
+    }
+
+    // Cron minute steps only go up to 59, use hour steps beyond that
+    const cronExpression = intervalMinutes < 60
+      ? `*/${intervalMinutes} * * * *`
+      : `0 */${Math.max(1, Math.round(intervalMinutes / 60))} * * *`;
+
+    this.verifyJob = cron.schedule(cronExpression, async () => {
+      try {
+        await monitorService.verifyStoredReviews();
+      } catch (error) {
+        logger.error('Review verification failed:', error);
+      }
+    });
+
+    logger.info(`Review verification job scheduled: every ${intervalMinutes} minutes`);
+  }
+
+  // Quiet hours job - delivers queued alerts once a channel's quiet period is over
+  private startQuietHoursJob() {
+    const { quietHours } = config_values.notifications;
+    if (!Object.values(quietHours).some(Boolean)) return;
+
+    this.quietHoursJob = cron.schedule('*/5 * * * *', async () => {
+      try {
+        await alertService.flushQueuedAlerts();
+      } catch (error) {
+        logger.error('Quiet hours digest failed:', error);
+      }
+    });
+
+    logger.info('Quiet hours job scheduled: every 5 minutes');
+  }
+
+  // Digest job - daily or weekly (Mondays) activity summary at DIGEST_HOUR
+  private startDigestJob() {
+    const { digest, timezone } = config_values.notifications;
+    if (digest.frequency === 'off') {
+      logger.info('Digest job disabled');
+      return;
+    }
+
+    const frequency = digest.frequency;
+    const cronExpression = `0 ${digest.hour} * * ${frequency === 'weekly' ? '1' : '*'}`;
+
+    this.digestJob = cron.schedule(cronExpression, async () => {
+      try {
+        await digestService.sendDigests(frequency);
+      } catch (error) {
+        logger.error('Digest failed:', error);
+      }
+    }, { timezone });
+
+    logger.info(`Digest job scheduled: ${frequency} at ${digest.hour}h (${timezone})`);
+  }
+
+  // Escalation job - reminds, escalates then expires or defends unanswered alerts
+  private startEscalationJob() {
+    if (!escalationService.isEnabled()) {
+      logger.info('Escalation job disabled');
+      return;
+    }
+
+    this.escalationJob = cron.schedule('*/5 * * * *', async () => {
+      try {
+        await escalationService.run();
+      } catch (error) {
+        logger.error('Alert escalation failed:', error);
+      }
+    });
+
+    logger.info('Escalation job scheduled: every 5 minutes');
+  }
+
+  // Webhook job - retries failed webhook deliveries once their backoff delay is over
+  private startWebhookJob() {
+    this.webhookJob = cron.schedule('* * * * *', async () => {
+      try {
+        await webhookService.retryDue();
+      } catch (error) {
+        logger.error('Webhook retries failed:', error);
+      }
+    });
+
+    logger.info('Webhook retry job scheduled: every minute');
+  }
+
   // Cleanup job - runs daily at midnight
   private startCleanupJob() {
     this.cleanupJob = cron.schedule('0 0 * * *', async () => {
@@ -68,20 +176,45 @@ class Scheduler {
       this.cleanupJob.stop();
       this.cleanupJob = null;
     }
+    if (this.verifyJob) {
+      this.verifyJob.stop();
+      this.verifyJob = null;
+    }
+    if (this.quietHoursJob) {
+      this.quietHoursJob.stop();
+      this.quietHoursJob = null;
+    }
+    if (this.digestJob) {
+      this.digestJob.stop();
+      this.digestJob = null;
+    }
+    if (this.escalationJob) {
+      this.escalationJob.stop();
+      this.escalationJob = null;
+    }
+    if (this.webhookJob) {
+      this.webhookJob.stop();
+      this.webhookJob = null;
+    }
     logger.info('Scheduler stopped');
   }
 
   // Manually trigger monitor
-  async triggerMonitor() {
-    return monitorService.runMonitorCycle();
+  async triggerMonitor(options?: MonitorOptions) {
+    return monitorService.runMonitorCycle(options);
   }
 
   // Get scheduler status
-  getStatus() {
+  async getStatus() {
     return {
       monitorRunning: this.monitorJob !== null,
       cleanupRunning: this.cleanupJob !== null,
-      ...monitorService.getStatus(),
+      verifyRunning: this.verifyJob !== null,
+      quietHoursRunning: this.quietHoursJob !== null,
+      digestRunning: this.digestJob !== null,
+      escalationRunning: this.escalationJob !== null,
+      webhookRetryRunning: this.webhookJob !== null,
+      ...(await monitorService.getStatus()),
     };
   }
 }
@@ -0,0 +1,79 @@
+import type { MonitoredAccount } from '@prisma/client';
+import { config_values, parseMonitorScope } from '../config/env.js';
+import logger from '../utils/logger.js';
+import tokenService from './token.service.js';
+import db from './database.service.js';
+import type { AccountContext } from '../models/types.js';
+import { DEFAULT_ACCOUNT_ID } from '../models/types.js';
+
+class AccountService {
+  // Make sure the .env account exists and owns pre multi-account relations
+  async ensureDefaultAccount() {
+    return db.ensureDefaultAccount(config_values.ethos.userKey);
+  }
+
+  // Resolved settings of every active account, default account first
+  async getActiveContexts(): Promise<AccountContext[]> {
+    await this.ensureDefaultAccount();
+    const accounts = await db.getAccounts(true);
+    return accounts.map((account) => this.toContext(account));
+  }
+
+  // Resolved settings of one account (defaults to the .env account)
+  async getContext(accountId: string = DEFAULT_ACCOUNT_ID): Promise<AccountContext | null> {
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      return this.toContext(await this.ensureDefaultAccount());
+    }
+
+    const account = await db.getAccountById(accountId);
+    if (!account) {
+      logger.warn(`Monitored account not found: ${accountId}`);
+      return null;
+    }
+    return this.toContext(account);
+  }
+
+  // Token used to post as an account; the default account uses the .env token.
+  // Throws when there is none: the Ethos client would otherwise post as the default account
+  async getToken(accountId: string | null | undefined): Promise<string> {
+    const id = accountId || DEFAULT_ACCOUNT_ID;
+    const account = await db.getAccountById(id);
+    const token = account?.privyToken || (id === DEFAULT_ACCOUNT_ID ? tokenService.getToken() : null);
+    if (!token) {
+      throw new Error(`No token configured for account ${id}`);
+    }
+    return token;
+  }
+
+  // Relation and review ids of the default account keep their original format
+  scopeId(context: AccountContext, id: string): string {
+    return context.id === DEFAULT_ACCOUNT_ID ? id : `${context.id}:${id}`;
+  }
+
+  // Fill unset account settings from the global configuration
+  private toContext(account: MonitoredAccount): AccountContext {
+    return {
+      id: account.id,
+      name: account.name,
+      userkey: account.userkey,
+      token: account.privyToken || (account.id === DEFAULT_ACCOUNT_ID ? tokenService.getToken() : null),
+      scope: account.scope ? parseMonitorScope(account.scope) : config_values.monitor.scope,
+      routing: {
+        telegramChatId: account.telegramChatId,
+        discordWebhookUrl: account.discordWebhookUrl,
+        slackChannelId: account.slackChannelId,
+        emailTo: account.emailTo,
+        matrixRoomId: account.matrixRoomId,
+        ntfyTopic: account.ntfyTopic,
+      },
+      autoDefense: {
+        enabled: account.autoDefenseEnabled ?? config_values.autoDefense.enabled,
+        requireConfirm: account.autoDefenseRequireConfirm ?? config_values.autoDefense.requireConfirm,
+        defaultScore: account.autoDefenseDefaultScore ?? config_values.autoDefense.defaultScore,
+      },
+    };
+  }
+}
+
+export const accountService = new AccountService();
+export default accountService;
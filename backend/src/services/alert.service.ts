@@ -1,15 +1,89 @@
 import { Telegraf, Markup } from 'telegraf';
+import crypto from 'crypto';
 import axios from 'axios';
-import { TwitterApi } from 'twitter-api-v2';
+import { ApiResponseError, TwitterApi } from 'twitter-api-v2';
 import { config_values } from '../config/env.js';
 import logger from '../utils/logger.js';
-import type { AlertPayload, TelegramCallbackData } from '../models/types.js';
+import { getMinutesOfDay, isInTimeWindow } from '../utils/time.js';
+import { escapeForChannel, escapeHtml, escapeSlack } from '../utils/html.js';
+import { channelLocale, formatDateTime, t } from '../utils/i18n.js';
+import type { AlertChannelName, AlertDelivery, AlertOutcome, AlertPayload, AlertRouting, AttackerCredibility, EscalationNotice, IncidentAlertPayload, Locale, TelegramCallbackData } from '../models/types.js';
 import db from './database.service.js';
+import accountService from './account.service.js';
+import ethosService from './ethos.service.js';
+import emailService, { type EmailContent } from './email.service.js';
+import { ALERT_CHANNELS, DEFAULT_ACCOUNT_ID } from '../models/types.js';
+
+type DeliveredAlert = Awaited<ReturnType<typeof db.getAlertMessages>>[number];
+
+const ALERT_EMOJIS: Record<AlertPayload['type'], string> = {
+  NEGATIVE_REVIEW: '🚨',
+  SLASH: '⚡',
+  UNVOUCH: '💔',
+  SCORE_DROP: '📉',
+};
+
+// Discord embed colors: red for slash, orange for negative, purple for unvouch, yellow for score drop
+const ALERT_COLORS: Record<AlertPayload['type'], number> = {
+  NEGATIVE_REVIEW: 0xFFA500,
+  SLASH: 0xFF0000,
+  UNVOUCH: 0x9B59B6,
+  SCORE_DROP: 0xF1C40F,
+};
+
+const CALLBACK_ACTIONS: TelegramCallbackData['action'][] = ['confirm', 'edit', 'ignore'];
+
+// Discord embed colors of handled alerts: green when defended, red on failure, grey otherwise
+const OUTCOME_COLORS: Record<AlertOutcome['status'], number> = {
+  CONFIRMED: 0x2ECC71,
+  POSTED: 0x2ECC71,
+  FAILED: 0xE74C3C,
+  IGNORED: 0x95A5A6,
+  EXPIRED: 0x95A5A6,
+};
+
+// Alerts that only inform: nothing to defend, no author to show for a score drop
+const INFO_ALERTS: AlertPayload['type'][] = ['UNVOUCH', 'SCORE_DROP'];
+
+// ntfy priorities (1 min - 5 urgent): slashes ring through do-not-disturb
+const NTFY_PRIORITIES: Record<AlertPayload['type'], number> = {
+  SLASH: 5,
+  NEGATIVE_REVIEW: 4,
+  UNVOUCH: 3,
+  SCORE_DROP: 3,
+};
+
+const MAX_TWEET_LENGTH = 280;
+// Pause after a rate limit error without reset time
+const TWITTER_RATE_LIMIT_PAUSE_MS = 15 * 60 * 1000;
+
+// Slack attachment colors are hex strings
+const toHexColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+const INCIDENT_COLOR = 0xFF0000;
+// Emails of notifications (digests, escalation notices) have no alert type
+const NOTIFICATION_COLOR = 0x3B82F6;
+
+// sendNotification(..., 'all') leaves emails out: digests are mailed with their own layout
+const NOTIFICATION_CHANNELS = ALERT_CHANNELS.filter((channel) => channel !== 'email');
+
+// Bold text and links in the markup of each channel, plain text where there is none
+const bold = (channel: AlertChannelName, text: string) =>
+  channel === 'telegram' ? `<b>${text}</b>` : channel === 'discord' ? `**${text}**` : channel === 'slack' ? `*${text}*` : text;
+const link = (channel: AlertChannelName, label: string, url: string) =>
+  channel === 'telegram' ? `<a href="${escapeHtml(url)}">${label}</a>` : channel === 'slack' ? `<${url}|${label}>` : `${label}: ${url}`;
+
+// Alert type in the message catalog of the channel
+const alertLabel = (locale: Locale, type: AlertPayload['type']) => t(locale, `alert.type.${type}`);
 
 class AlertService {
   private telegramBot: Telegraf | null = null;
   private twitterClient: TwitterApi | null = null;
-  private callbackHandlers: Map<string, (data: TelegramCallbackData) => Promise<void>> = new Map();
+  // Sending to X is paused until then after a rate limit
+  private twitterPausedUntil = 0;
+  // X user id of Ethos profiles (null: no linked X account)
+  private twitterUserIds: Map<number, string | null> = new Map();
+  private callbackHandlers: Map<string, (data: TelegramCallbackData) => Promise<boolean | void>> = new Map();
 
   constructor() {
     this.initTelegram();
@@ -18,7 +92,8 @@ class AlertService {
 
   // Initialize Telegram Bot
   private initTelegram() {
-    if (!config_values.telegram.enabled || !config_values.telegram.botToken) {
+    // A bot token is enough: accounts can route alerts to their own chat
+    if (!config_values.telegram.botToken) {
       logger.info('Telegram notifications disabled');
       return;
     }
@@ -27,25 +102,44 @@ class AlertService {
       this.telegramBot = new Telegraf(config_values.telegram.botToken);
 
       // Handle callback queries (button clicks)
-      this.telegramBot.on('callback_query', async (ctx) => {
+      this.telegramBot.on('callback_query', async (ctx, next) => {
         try {
           const callbackQuery = ctx.callbackQuery;
           // Type guard: 'data' property only exists on DataQuery, not GameQuery
           if (!('data' in callbackQuery) || !callbackQuery.data) return;
-          const data = callbackQuery.data;
 
-          const parsed = JSON.parse(data) as TelegramCallbackData;
+          // Other buttons (e.g. the defense edit flow) are handled by later middlewares
+          if (!this.isAlertCallback(callbackQuery.data)) return next();
+
+          const locale = channelLocale('telegram');
+          const resolved = await this.resolveCallbackData(callbackQuery.data);
+          if (!resolved) {
+            await ctx.answerCbQuery(t(locale, 'action.notFound'));
+            return;
+          }
+          if (resolved.status !== 'PENDING' && resolved.data.action !== 'edit') {
+            await ctx.answerCbQuery(t(locale, 'action.alreadyHandled', { status: resolved.status }));
+            return;
+          }
+
+          const from = ctx.from;
+          const parsed = {
+            ...resolved.data,
+            actor: `${from.username ? `@${from.username}` : from.first_name} (Telegram)`,
+            chatId: ctx.chat?.id,
+            userId: from.id,
+          };
           const handler = this.callbackHandlers.get(parsed.action);
 
           if (handler) {
             await handler(parsed);
-            await ctx.answerCbQuery('Action processed!');
+            await ctx.answerCbQuery(t(locale, 'action.processed'));
           } else {
-            await ctx.answerCbQuery('Unknown action');
+            await ctx.answerCbQuery(t(locale, 'action.unknown'));
           }
         } catch (error) {
           logger.error('Telegram callback error:', error);
-          await ctx.answerCbQuery('Error processing action');
+          await ctx.answerCbQuery(t(channelLocale('telegram'), 'action.error', { error: error instanceof Error ? error.message : String(error) }).slice(0, 200));
         }
       });
 
@@ -81,38 +175,116 @@ class AlertService {
     }
   }
 
-  // Register callback handler for Telegram buttons
-  onCallback(action: string, handler: (data: TelegramCallbackData) => Promise<void>) {
+  private isAlertCallback(data: string): boolean {
+    return CALLBACK_ACTIONS.includes(data.split(':')[0] as TelegramCallbackData['action']);
+  }
+
+  // Callback data is "<action>:<alertId>" (Telegram allows 64 bytes), the review comes from the stored alert
+  private async resolveCallbackData(data: string): Promise<{ data: TelegramCallbackData; status: string } | null> {
+    const [action, alertId] = data.split(':');
+    if (!CALLBACK_ACTIONS.includes(action as TelegramCallbackData['action']) || !alertId) return null;
+
+    const alert = await db.getAlertById(alertId);
+    if (!alert) return null;
+
+    return {
+      data: { action: action as TelegramCallbackData['action'], alertId: alert.id, reviewId: alert.reviewId },
+      status: alert.status,
+    };
+  }
+
+  // Bot used by the chat commands, null when Telegram is not configured
+  getTelegramBot(): Telegraf | null {
+    return this.telegramBot;
+  }
+
+  // Register callback handler for Telegram buttons (handlers return false when the action failed)
+  onCallback(action: string, handler: (data: TelegramCallbackData) => Promise<boolean | void>) {
     this.callbackHandlers.set(action, handler);
   }
 
-  // Send alert to all configured channels
-  async sendAlert(payload: AlertPayload): Promise<{ telegram?: string; discord?: string; twitter?: string }> {
-    const results: { telegram?: string; discord?: string; twitter?: string } = {};
+  // Run the handler of a button action coming from another channel (Discord interactions)
+  async handleAction(data: TelegramCallbackData): Promise<boolean> {
+    const handler = this.callbackHandlers.get(data.action);
+    if (!handler) {
+      throw new Error(`Unknown action: ${data.action}`);
+    }
+    return (await handler(data)) !== false;
+  }
+
+  // Send alert to all configured channels (or only the given ones), using the account's destinations when set.
+  // Telegram buttons point to the alert stored beforehand, without it Telegram is skipped.
+  async sendAlert(
+    payload: AlertPayload,
+    routing?: AlertRouting,
+    channels?: AlertChannelName[] | null,
+    telegramAlertId?: string
+  ): Promise<AlertDelivery> {
+    const results: AlertDelivery = { queued: [] };
+    const allowed = (channels || ALERT_CHANNELS).filter((channel) => channel !== 'telegram' || telegramAlertId);
+    const destinations = await this.resolveDestinations(
+      allowed,
+      routing,
+      this.isCritical(payload),
+      (locale) => this.formatQueuedLine(payload, locale),
+      results
+    );
 
     try {
       // Send to all channels in parallel
       const promises: Promise<void>[] = [];
 
-      if (config_values.telegram.enabled) {
+      if (destinations.telegram && telegramAlertId) {
         promises.push(
-          this.sendTelegramAlert(payload).then((msgId) => {
+          this.sendTelegramAlert(payload, destinations.telegram, telegramAlertId).then((msgId) => {
             results.telegram = msgId;
           })
         );
       }
 
-      if (config_values.discord.enabled) {
+      if (destinations.discord) {
         promises.push(
-          this.sendDiscordAlert(payload).then((msgId) => {
+          this.sendDiscordAlert(payload, destinations.discord).then((msgId) => {
             results.discord = msgId;
           })
         );
       }
 
-      if (config_values.twitter.enabled) {
+      if (destinations.slack) {
+        promises.push(
+          this.sendSlackAlert(payload, destinations.slack).then((ts) => {
+            results.slack = ts;
+          })
+        );
+      }
+
+      if (destinations.email) {
         promises.push(
-          this.sendTwitterAlert(payload).then((msgId) => {
+          this.sendEmailAlert(payload, destinations.email).then((msgId) => {
+            results.email = msgId;
+          })
+        );
+      }
+
+      if (destinations.matrix) {
+        promises.push(
+          this.sendMatrixAlert(payload, destinations.matrix).then((eventId) => {
+            results.matrix = eventId;
+          })
+        );
+      }
+
+      if (destinations.ntfy) {
+        promises.push(
+          this.sendNtfyAlert(payload, destinations.ntfy).then((msgId) => {
+            results.ntfy = msgId;
+          })
+        );
+      }
+
+      if (destinations.twitter) {
+        promises.push(
+          this.sendTwitterAlert(payload, destinations.twitter).then((msgId) => {
             results.twitter = msgId;
           })
         );
@@ -126,16 +298,384 @@ class AlertService {
     return results;
   }
 
+  // Where a channel delivers the messages of an account: its own destination or the global one,
+  // undefined when the channel is not configured. X DMs always go to TWITTER_DM_RECIPIENT_ID
+  getDestination(channel: AlertChannelName, routing?: AlertRouting): string | undefined {
+    switch (channel) {
+      case 'telegram':
+        return this.telegramBot ? routing?.telegramChatId || config_values.telegram.chatId : undefined;
+      case 'discord':
+        return routing?.discordWebhookUrl || config_values.discord.webhookUrl;
+      case 'slack':
+        return config_values.slack.enabled ? routing?.slackChannelId || config_values.slack.channelId : undefined;
+      case 'email':
+        return emailService.isEnabled() ? routing?.emailTo || config_values.email.to.join(',') : undefined;
+      case 'matrix':
+        return config_values.matrix.enabled ? routing?.matrixRoomId || config_values.matrix.roomId : undefined;
+      case 'ntfy':
+        return config_values.ntfy.enabled ? routing?.ntfyTopic || config_values.ntfy.topic : undefined;
+      case 'twitter':
+        return this.twitterClient ? config_values.twitter.dmRecipientId : undefined;
+    }
+  }
+
+  // Destination of each allowed channel. During a channel's quiet hours non-critical messages are
+  // queued for the end-of-quiet digest instead, and the channel is reported as queued
+  private async resolveDestinations(
+    channels: AlertChannelName[],
+    routing: AlertRouting | undefined,
+    critical: boolean,
+    formatQueued: (locale: Locale) => string,
+    results: AlertDelivery
+  ): Promise<Partial<Record<AlertChannelName, string>>> {
+    const destinations: Partial<Record<AlertChannelName, string>> = {};
+
+    for (const channel of channels) {
+      const destination = this.getDestination(channel, routing);
+      if (!destination) continue;
+
+      if (!critical && this.isQuietTime(channel)) {
+        await db.queueAlert({ channel: channel.toUpperCase(), target: destination, message: formatQueued(channelLocale(channel)) });
+        results.queued.push(channel);
+      } else {
+        destinations[channel] = destination;
+      }
+    }
+
+    return destinations;
+  }
+
+  // Slashes and escalated alerts are delivered even during quiet hours
+  isCritical(payload: AlertPayload): boolean {
+    return payload.type === 'SLASH' || !!payload.escalated;
+  }
+
+  // True if the channel is inside its configured quiet hours
+  isQuietTime(channel: AlertChannelName, at = new Date()): boolean {
+    const window = config_values.notifications.quietHours[channel];
+    if (!window) return false;
+
+    try {
+      return isInTimeWindow(getMinutesOfDay(at, config_values.notifications.timezone), window.from, window.to);
+    } catch (error) {
+      logger.warn(`Invalid QUIET_HOURS_TIMEZONE ${config_values.notifications.timezone}:`, error);
+      return false;
+    }
+  }
+
+  // One-line summary of an alert for the quiet hours digest
+  private formatQueuedLine(payload: AlertPayload, locale: Locale): string {
+    const account = payload.account && payload.account.id !== DEFAULT_ACCOUNT_ID ? `[${payload.account.name}] ` : '';
+    const target = payload.target.name || payload.target.address.slice(0, 10);
+    const detail = payload.scoreChange
+      ? `${payload.scoreChange.previous} → ${payload.scoreChange.current}`
+      : `${payload.attacker.name || payload.attacker.address.slice(0, 10)} (${payload.score})`;
+
+    return `${ALERT_EMOJIS[payload.type]} ${account}${alertLabel(locale, payload.type)} - ${target} : ${detail}`;
+  }
+
+  // One-line summary of an incident for the quiet hours digest
+  private formatQueuedIncidentLine(payload: IncidentAlertPayload, locale: Locale): string {
+    const account = payload.account && payload.account.id !== DEFAULT_ACCOUNT_ID ? `[${payload.account.name}] ` : '';
+    return `🚨🚨 ${account}${t(locale, payload.isNew ? 'incident.new' : 'incident.update')} : ${this.formatIncidentSummary(payload, locale)}`;
+  }
+
+  // Deliver alerts queued during quiet hours, one digest per destination whose quiet period is over
+  async flushQueuedAlerts(): Promise<number> {
+    const queued = await db.getQueuedAlerts();
+    const groups = new Map<string, typeof queued>();
+    for (const item of queued) {
+      const key = `${item.channel}|${item.target}`;
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+
+    let delivered = 0;
+    for (const items of groups.values()) {
+      const channel = items[0].channel.toLowerCase() as AlertChannelName;
+      if (this.isQuietTime(channel)) continue;
+
+      const locale = channelLocale(channel);
+      const lines = items.slice(0, 30).map((item) => `• ${item.message}`);
+      if (items.length > lines.length) lines.push(t(locale, 'list.more', { count: items.length - lines.length }));
+      const title = t(locale, 'queued.title', { count: items.length });
+      const dashboard = link(channel, t(locale, 'link.dashboard'), `${config_values.frontend.url}/alerts`);
+
+      try {
+        await this.sendText(channel, `🌙 ${bold(channel, title)}\n\n${lines.join('\n')}\n\n📊 ${dashboard}`, items[0].target);
+        await db.deleteQueuedAlerts(items.map((i) => i.id));
+        delivered += items.length;
+      } catch (error) {
+        logger.error(`Failed to deliver quiet hours digest on ${channel}:`, error);
+      }
+    }
+
+    if (delivered > 0) logger.info(`Delivered ${delivered} alerts queued during quiet hours`);
+    return delivered;
+  }
+
+  // Remind about an unanswered alert, escalate it or report its final outcome.
+  // Returns the channels the notice was delivered on.
+  async sendEscalationNotice(
+    notice: EscalationNotice,
+    channels: AlertChannelName[],
+    routing?: AlertRouting
+  ): Promise<AlertChannelName[]> {
+    const delivered: AlertChannelName[] = [];
+
+    for (const channel of channels) {
+      const destination = this.getDestination(channel, routing);
+      if (!destination) continue;
+
+      try {
+        await this.sendText(channel, this.formatEscalationNotice(notice, channel), destination);
+        delivered.push(channel);
+      } catch (error) {
+        logger.error(`Failed to send escalation notice on ${channel}:`, error);
+      }
+    }
+
+    return delivered;
+  }
+
+  private formatEscalationNotice(notice: EscalationNotice, channel: AlertChannelName): string {
+    const locale = channelLocale(channel);
+    const hours = Math.floor(notice.pendingMinutes / 60);
+    const pending = hours > 0 ? `${hours} h ${notice.pendingMinutes % 60} min` : `${notice.pendingMinutes} min`;
+    const escape = (text: string) => escapeForChannel(channel, text);
+
+    const lines = [
+      bold(channel, `${t(locale, `escalation.${notice.step}`)} - ${alertLabel(locale, notice.type)}`),
+      '',
+    ];
+    if (notice.account && notice.account.id !== DEFAULT_ACCOUNT_ID) {
+      lines.push(`🪪 ${t(locale, 'field.account')}: ${escape(notice.account.name)}`);
+    }
+    if (notice.incident) {
+      lines.push(`⚔️ ${t(locale, 'escalation.incident', { reviews: notice.incident.reviewCount, targets: notice.incident.targetCount })}`);
+    } else {
+      lines.push(`📛 ${t(locale, 'field.target')}: ${escape(notice.target.name || notice.target.address.slice(0, 10))}`);
+      if (notice.attacker) {
+        lines.push(`👤 ${t(locale, 'field.attacker')}: ${escape(notice.attacker.name || t(locale, 'alert.unknown'))} (${notice.attacker.score})`);
+      }
+    }
+    lines.push(`⏳ ${t(locale, 'escalation.pending', { duration: pending })}`);
+
+    const url = notice.incident ? `${config_values.frontend.url}/incidents` : `${config_values.frontend.url}/defend/${notice.reviewId}`;
+    lines.push('', `📊 ${link(channel, t(locale, 'link.dashboard'), url)}`);
+
+    return lines.join('\n');
+  }
+
+  // Send one consolidated alert for a coordinated attack instead of one per review, on all configured
+  // channels (or only the given ones). Unless one of its reviews is critical, it waits for the end of quiet hours.
+  async sendIncidentAlert(
+    payload: IncidentAlertPayload,
+    routing?: AlertRouting,
+    channels?: AlertChannelName[] | null,
+    critical = false
+  ): Promise<AlertDelivery> {
+    const results: AlertDelivery = { queued: [] };
+    const destinations = await this.resolveDestinations(
+      channels || ALERT_CHANNELS,
+      routing,
+      critical,
+      (locale) => this.formatQueuedIncidentLine(payload, locale),
+      results
+    );
+    const dashboardUrl = `${config_values.frontend.url}/incidents`;
+
+    const promises: Promise<void>[] = [];
+
+    if (this.telegramBot && destinations.telegram) {
+      const locale = channelLocale('telegram');
+      promises.push(
+        this.telegramBot.telegram.sendMessage(destinations.telegram, this.formatIncidentTelegramMessage(payload, locale), {
+          parse_mode: 'HTML',
+          ...Markup.inlineKeyboard([[Markup.button.url(`📊 ${t(locale, 'link.dashboard')}`, dashboardUrl)]]),
+        }).then((result) => {
+          logger.info(`Telegram incident alert sent: ${result.message_id}`);
+          results.telegram = result.message_id.toString();
+        }).catch((error) => {
+          logger.error('Failed to send Telegram incident alert:', error);
+        })
+      );
+    }
+
+    if (destinations.discord) {
+      const locale = channelLocale('discord');
+      promises.push(
+        axios.post(destinations.discord + '?wait=true', {
+          embeds: [this.formatIncidentDiscordEmbed(payload, locale)],
+          components: [{
+            type: 1,
+            components: [{ type: 2, style: 5, label: `📊 ${t(locale, 'link.dashboard')}`, url: dashboardUrl }],
+          }],
+        }).then((response) => {
+          logger.info(`Discord incident alert sent: ${response.data?.id}`);
+          results.discord = response.data?.id;
+        }).catch((error) => {
+          logger.error('Failed to send Discord incident alert:', error);
+        })
+      );
+    }
+
+    for (const channel of ['slack', 'email', 'matrix', 'ntfy', 'twitter'] as const) {
+      const destination = destinations[channel];
+      if (!destination) continue;
+      promises.push(
+        this.sendIncidentMessage(channel, payload, destination, critical).then((messageId) => {
+          logger.info(`${channel} incident alert sent: ${messageId}`);
+          results[channel] = messageId;
+        }).catch((error) => {
+          logger.error(`Failed to send ${channel} incident alert:`, error);
+        })
+      );
+    }
+
+    await Promise.allSettled(promises);
+    return results;
+  }
+
+  // Incident alert of the channels without a dedicated layout, built from the same fields
+  private async sendIncidentMessage(
+    channel: 'slack' | 'email' | 'matrix' | 'ntfy' | 'twitter',
+    payload: IncidentAlertPayload,
+    destination: string,
+    critical: boolean
+  ): Promise<string | undefined> {
+    const locale = channelLocale(channel);
+    const title = `🚨🚨 ${t(locale, payload.isNew ? 'incident.new' : 'incident.update')}`;
+    const fields = this.formatIncidentFields(payload, locale);
+    const dashboard = { label: `📊 ${t(locale, 'link.dashboard')}`, url: `${config_values.frontend.url}/incidents` };
+
+    switch (channel) {
+      case 'slack': {
+        const result = await this.callSlack('chat.postMessage', {
+          channel: destination,
+          text: title,
+          attachments: [
+            {
+              color: toHexColor(INCIDENT_COLOR),
+              blocks: [
+                { type: 'header', text: { type: 'plain_text', text: title.slice(0, 150) } },
+                { type: 'section', fields: fields.map((field) => ({ type: 'mrkdwn', text: `*${field.label}*\n${escapeSlack(field.value)}` })) },
+                {
+                  type: 'actions',
+                  elements: [{ type: 'button', text: { type: 'plain_text', text: dashboard.label }, action_id: 'dashboard', url: dashboard.url }],
+                },
+              ],
+            },
+          ],
+        });
+        return result.ts;
+      }
+      case 'email':
+        return emailService.send({ subject: title, title, color: INCIDENT_COLOR, fields, actions: [dashboard] }, destination);
+      case 'matrix':
+        return this.sendMatrixEvent(this.formatMatrixMessage(title, fields, [dashboard]), destination);
+      case 'ntfy': {
+        const response = await this.postNtfy({
+          topic: destination,
+          title,
+          message: fields.map((field) => `${field.label}: ${field.value}`).join('\n'),
+          priority: critical ? 5 : 4,
+          click: dashboard.url,
+          actions: [{ action: 'view', label: t(locale, 'link.dashboard'), url: dashboard.url, clear: true }],
+        });
+        return response.data?.id;
+      }
+      case 'twitter':
+        return this.sendTwitterDm(
+          destination,
+          `${title}\n\n${fields.map((field) => `${field.label}: ${field.value}`).join('\n')}\n\n${dashboard.label}: ${dashboard.url}`
+        );
+    }
+  }
+
+  // Same content as the Discord incident embed, as plain text fields
+  private formatIncidentFields(payload: IncidentAlertPayload, locale: Locale): { label: string; value: string }[] {
+    const list = (items: { name: string | null; address: string | null; count: number }[]) =>
+      items.slice(0, 10).map((i) => `• ${i.name || i.address || t(locale, 'alert.unknown')} (${i.count})`).join('\n');
+
+    return [
+      ...(payload.account ? [{ label: `🪪 ${t(locale, 'field.account')}`, value: payload.account.name }] : []),
+      { label: `⚔️ ${t(locale, 'field.attack')}`, value: this.formatIncidentSummary(payload, locale) },
+      { label: `⏰ ${t(locale, 'field.period')}`, value: `${formatDateTime(payload.startedAt, locale)} → ${formatDateTime(payload.lastActivityAt, locale)}` },
+      { label: `👤 ${t(locale, 'field.attackers')}`, value: list(payload.authors) },
+      { label: `📛 ${t(locale, 'field.targets')}`, value: list(payload.targets) },
+    ];
+  }
+
+  // Format Telegram incident message
+  private formatIncidentTelegramMessage(payload: IncidentAlertPayload, locale: Locale): string {
+    const short = (address: string | null) => address ? ` <code>${address.slice(0, 6)}...${address.slice(-4)}</code>` : '';
+    const unknown = t(locale, 'alert.unknown');
+
+    let message = `🚨🚨 <b>${t(locale, payload.isNew ? 'incident.new' : 'incident.update')}</b>\n\n`;
+    if (payload.account) {
+      message += `🪪 <b>${t(locale, 'field.account')}:</b> ${escapeHtml(payload.account.name)}\n\n`;
+    }
+    message += `⚔️ ${this.formatIncidentSummary(payload, locale)}\n`;
+    message += `⏰ ${formatDateTime(payload.startedAt, locale)} → ${formatDateTime(payload.lastActivityAt, locale)}\n\n`;
+
+    message += `👤 <b>${t(locale, 'field.attackers')}:</b>\n`;
+    for (const author of payload.authors.slice(0, 10)) {
+      message += `   • ${escapeHtml(author.name || unknown)}${short(author.address)} (${author.count})\n`;
+    }
+    message += `\n📛 <b>${t(locale, 'field.targets')}:</b>\n`;
+    for (const target of payload.targets.slice(0, 10)) {
+      message += `   • ${escapeHtml(target.name || unknown)}${short(target.address)} (${target.count})\n`;
+    }
+
+    return message;
+  }
+
+  // Format Discord incident embed
+  private formatIncidentDiscordEmbed(payload: IncidentAlertPayload, locale: Locale) {
+    const list = (items: { name: string | null; address: string | null; count: number }[]) =>
+      items.slice(0, 10).map((i) => `• ${i.name || i.address || t(locale, 'alert.unknown')} (${i.count})`).join('\n').slice(0, 1024);
+
+    return {
+      title: `🚨 ${t(locale, payload.isNew ? 'incident.new' : 'incident.update')}`,
+      description: this.formatIncidentSummary(payload, locale),
+      color: INCIDENT_COLOR,
+      fields: [
+        ...(payload.account ? [{ name: `🪪 ${t(locale, 'field.account')}`, value: payload.account.name, inline: false }] : []),
+        { name: `👤 ${t(locale, 'field.attackers')}`, value: list(payload.authors), inline: true },
+        { name: `📛 ${t(locale, 'field.targets')}`, value: list(payload.targets), inline: true },
+      ],
+      url: `${config_values.frontend.url}/incidents`,
+      footer: {
+        text: t(locale, 'incident.period', {
+          from: formatDateTime(payload.startedAt, locale),
+          to: formatDateTime(payload.lastActivityAt, locale),
+        }),
+      },
+      timestamp: payload.lastActivityAt.toISOString(),
+    };
+  }
+
+  // Attack counts of an incident
+  private formatIncidentSummary(payload: IncidentAlertPayload, locale: Locale): string {
+    return t(locale, 'incident.summary', {
+      reviews: payload.reviewCount,
+      newReviews: payload.newReviews,
+      authors: payload.authors.length,
+      targets: payload.targets.length,
+    });
+  }
+
   // Send Telegram alert with inline buttons
-  private async sendTelegramAlert(payload: AlertPayload): Promise<string | undefined> {
-    if (!this.telegramBot || !config_values.telegram.chatId) return;
+  private async sendTelegramAlert(payload: AlertPayload, chatId: string, alertId: string): Promise<string | undefined> {
+    if (!this.telegramBot) return;
 
-    const message = this.formatTelegramMessage(payload);
-    const buttons = this.createTelegramButtons(payload);
+    const locale = channelLocale('telegram');
+    const message = this.formatTelegramMessage(payload, locale);
+    const buttons = this.createTelegramButtons(payload, alertId, locale);
 
     try {
       const result = await this.telegramBot.telegram.sendMessage(
-        config_values.telegram.chatId,
+        chatId,
         message,
         {
           parse_mode: 'HTML',
@@ -152,28 +692,39 @@ class AlertService {
   }
 
   // Format Telegram message
-  private formatTelegramMessage(payload: AlertPayload): string {
-    const emoji = payload.type === 'SLASH' ? '⚡' : '🚨';
-    const typeLabel = payload.type === 'SLASH' ? 'SLASH DÉTECTÉ' : 'REVIEW NÉGATIVE';
+  private formatTelegramMessage(payload: AlertPayload, locale: Locale): string {
+    const emoji = ALERT_EMOJIS[payload.type];
+    const unknown = t(locale, 'alert.unknown');
 
-    let message = `${emoji} <b>ALERTE ETHOS - ${typeLabel}</b>\n\n`;
-    message += `📛 <b>Cible:</b> ${payload.target.name || 'Unknown'}\n`;
+    let message = payload.escalated ? `🔥 <b>${t(locale, 'alert.highPriority')}</b>\n` : '';
+    message += `${emoji} <b>${t(locale, 'alert.title', { type: alertLabel(locale, payload.type) })}</b>\n\n`;
+    if (payload.account && payload.account.id !== DEFAULT_ACCOUNT_ID) {
+      message += `🪪 <b>${t(locale, 'field.account')}:</b> ${escapeHtml(payload.account.name)}\n\n`;
+    }
+    message += `📛 <b>${t(locale, 'field.target')}:</b> ${escapeHtml(payload.target.name || unknown)}\n`;
     message += `   <code>${payload.target.address.slice(0, 6)}...${payload.target.address.slice(-4)}</code>\n\n`;
-    message += `👤 <b>Attaquant:</b> ${payload.attacker.name || 'Unknown'}\n`;
-    message += `   <code>${payload.attacker.address.slice(0, 6)}...${payload.attacker.address.slice(-4)}</code>\n\n`;
-    message += `⭐ <b>Score:</b> ${payload.score}\n`;
+    if (payload.scoreChange) {
+      message += `📉 <b>${t(locale, 'field.ethosScore')}:</b> ${payload.scoreChange.previous} → ${payload.scoreChange.current} (${payload.score})\n`;
+    } else {
+      message += `👤 <b>${this.authorLabel(payload.type, locale)}:</b> ${escapeHtml(payload.attacker.name || unknown)}\n`;
+      message += `   <code>${payload.attacker.address.slice(0, 6)}...${payload.attacker.address.slice(-4)}</code>\n`;
+      if (payload.attacker.credibility) {
+        message += `🎭 <b>${t(locale, 'field.credibility')}:</b> ${escapeHtml(this.formatCredibility(payload.attacker.credibility, locale))}\n`;
+      }
+      message += `\n⭐ <b>${t(locale, 'field.score')}:</b> ${payload.score}\n`;
+    }
 
-    if (payload.comment) {
-      message += `💬 <b>Commentaire:</b>\n<i>"${payload.comment.slice(0, 200)}${payload.comment.length > 200 ? '...' : ''}"</i>\n\n`;
+    if (payload.comment && !payload.scoreChange) {
+      message += `💬 <b>${t(locale, 'field.comment')}:</b>\n<i>"${escapeHtml(payload.comment.slice(0, 200))}${payload.comment.length > 200 ? '...' : ''}"</i>\n\n`;
     }
 
-    message += `🔗 <a href="${payload.target.profileUrl}">Voir le profil</a>\n`;
-    message += `⏰ <b>Détecté:</b> ${payload.timestamp.toLocaleString('fr-FR')}\n`;
+    message += `🔗 <a href="${escapeHtml(payload.target.profileUrl)}">${t(locale, 'link.profile')}</a>\n`;
+    message += `⏰ <b>${t(locale, 'field.detected')}:</b> ${formatDateTime(payload.timestamp, locale)}\n`;
 
     if (payload.autoDefense?.enabled) {
       message += `\n━━━━━━━━━━━━━━━━━━━━━━\n`;
-      message += `🤖 <b>Auto-défense proposée:</b>\n`;
-      message += `<i>"${payload.autoDefense.suggestedComment}"</i>\n`;
+      message += `🤖 <b>${t(locale, 'field.suggestedAutoDefense')}:</b>\n`;
+      message += `<i>"${escapeHtml(payload.autoDefense.suggestedComment)}"</i>\n`;
       message += `Score: +${payload.autoDefense.suggestedScore}\n`;
       message += `━━━━━━━━━━━━━━━━━━━━━━`;
     }
@@ -181,51 +732,67 @@ class AlertService {
     return message;
   }
 
-  // Create Telegram inline buttons
-  private createTelegramButtons(payload: AlertPayload) {
-    const callbackData = (action: string): string =>
-      JSON.stringify({
-        action,
-        alertId: payload.reviewId, // Will be updated with actual alert ID
-        reviewId: payload.reviewId,
-      });
+  // Risk label followed by the signals that raised it (worded in ALERT_LOCALE when assessed)
+  private formatCredibility(credibility: AttackerCredibility, locale: Locale): string {
+    const label = t(locale, `risk.${credibility.risk}`);
+    return credibility.signals.length > 0 ? `${label} (${credibility.signals.join(', ')})` : label;
+  }
+
+  // Whoever removed a vouch is its author, the others attack
+  private authorLabel(type: AlertPayload['type'], locale: Locale): string {
+    return t(locale, type === 'UNVOUCH' ? 'field.author' : 'field.attacker');
+  }
+
+  // Create Telegram inline buttons for the stored alert
+  private createTelegramButtons(payload: AlertPayload, alertId: string, locale: Locale) {
+    const callbackData = (action: TelegramCallbackData['action']): string => `${action}:${alertId}`;
+    const dashboard = `📊 ${t(locale, 'link.dashboard')}`;
+
+    // Nothing to defend against an unvouch or a score drop, only acknowledge it
+    if (INFO_ALERTS.includes(payload.type)) {
+      return Markup.inlineKeyboard([
+        [
+          Markup.button.callback(`👁️ ${t(locale, 'button.ignore')}`, callbackData('ignore')),
+          Markup.button.url(dashboard, `${config_values.frontend.url}/alerts`),
+        ],
+      ]);
+    }
 
     if (payload.autoDefense?.requireConfirm) {
       return Markup.inlineKeyboard([
         [
-          Markup.button.callback('✅ Confirmer défense', callbackData('confirm')),
-          Markup.button.callback('✏️ Modifier', callbackData('edit')),
+          Markup.button.callback(`✅ ${t(locale, 'button.confirmDefense')}`, callbackData('confirm')),
+          Markup.button.callback(`✏️ ${t(locale, 'button.edit')}`, callbackData('edit')),
         ],
         [
-          Markup.button.callback('❌ Ignorer', callbackData('ignore')),
+          Markup.button.callback(`❌ ${t(locale, 'button.ignore')}`, callbackData('ignore')),
         ],
         [
-          Markup.button.url('📊 Dashboard', `${config_values.frontend.url}/defend/${payload.reviewId}`),
+          Markup.button.url(dashboard, `${config_values.frontend.url}/defend/${payload.reviewId}`),
         ],
       ]);
     }
 
     return Markup.inlineKeyboard([
       [
-        Markup.button.callback('🛡️ Défendre', callbackData('confirm')),
-        Markup.button.callback('👁️ Ignorer', callbackData('ignore')),
+        Markup.button.callback(`🛡️ ${t(locale, 'button.defend')}`, callbackData('confirm')),
+        Markup.button.callback(`👁️ ${t(locale, 'button.ignore')}`, callbackData('ignore')),
       ],
       [
-        Markup.button.url('📊 Dashboard', `${config_values.frontend.url}/alerts`),
+        Markup.button.url(dashboard, `${config_values.frontend.url}/alerts`),
       ],
     ]);
   }
 
   // Send Discord alert with embed
-  private async sendDiscordAlert(payload: AlertPayload): Promise<string | undefined> {
-    if (!config_values.discord.webhookUrl) return;
-
-    const embed = this.formatDiscordEmbed(payload);
+  private async sendDiscordAlert(payload: AlertPayload, webhookUrl: string): Promise<string | undefined> {
+    const locale = channelLocale('discord');
+    const embed = this.formatDiscordEmbed(payload, locale);
 
     try {
-      const response = await axios.post(config_values.discord.webhookUrl + '?wait=true', {
+      const response = await axios.post(webhookUrl + '?wait=true', {
         embeds: [embed],
-        components: this.createDiscordButtons(payload),
+        components: this.createDiscordButtons(payload, locale),
       });
 
       logger.info(`Discord alert sent: ${response.data?.id}`);
@@ -237,18 +804,29 @@ class AlertService {
   }
 
   // Format Discord embed
-  private formatDiscordEmbed(payload: AlertPayload) {
-    const color = payload.type === 'SLASH' ? 0xFF0000 : 0xFFA500; // Red for slash, orange for negative
+  private formatDiscordEmbed(payload: AlertPayload, locale: Locale) {
+    const color = ALERT_COLORS[payload.type];
+    const unknown = t(locale, 'alert.unknown');
 
     const fields = [
-      { name: '📛 Cible', value: `${payload.target.name || 'Unknown'}\n\`${payload.target.address}\``, inline: true },
-      { name: '👤 Attaquant', value: `${payload.attacker.name || 'Unknown'}\n\`${payload.attacker.address}\``, inline: true },
-      { name: '⭐ Score', value: payload.score.toString(), inline: true },
+      ...(payload.account && payload.account.id !== DEFAULT_ACCOUNT_ID
+        ? [{ name: `🪪 ${t(locale, 'field.account')}`, value: payload.account.name, inline: false }]
+        : []),
+      { name: `📛 ${t(locale, 'field.target')}`, value: `${payload.target.name || unknown}\n\`${payload.target.address}\``, inline: true },
+      ...(payload.scoreChange
+        ? [{ name: `📉 ${t(locale, 'field.ethosScore')}`, value: `${payload.scoreChange.previous} → ${payload.scoreChange.current} (${payload.score})`, inline: true }]
+        : [
+            { name: `👤 ${this.authorLabel(payload.type, locale)}`, value: `${payload.attacker.name || unknown}\n\`${payload.attacker.address}\``, inline: true },
+            { name: `⭐ ${t(locale, 'field.score')}`, value: payload.score.toString(), inline: true },
+          ]),
+      ...(payload.attacker.credibility
+        ? [{ name: `🎭 ${t(locale, 'field.credibility')}`, value: this.formatCredibility(payload.attacker.credibility, locale).slice(0, 1024), inline: false }]
+        : []),
     ];
 
-    if (payload.comment) {
+    if (payload.comment && !payload.scoreChange) {
       fields.push({
-        name: '💬 Commentaire',
+        name: `💬 ${t(locale, 'field.comment')}`,
         value: payload.comment.slice(0, 1024),
         inline: false,
       });
@@ -256,26 +834,48 @@ class AlertService {
 
     if (payload.autoDefense?.enabled) {
       fields.push({
-        name: '🤖 Défense proposée',
-        value: `"${payload.autoDefense.suggestedComment}"\nScore: +${payload.autoDefense.suggestedScore}`,
+        name: `🤖 ${t(locale, 'field.suggestedDefense')}`,
+        value: `"${payload.autoDefense.suggestedComment}"\n${t(locale, 'field.score')}: +${payload.autoDefense.suggestedScore}`,
         inline: false,
       });
     }
 
     return {
-      title: `🚨 ALERTE ETHOS - ${payload.type === 'SLASH' ? 'SLASH' : 'REVIEW NÉGATIVE'}`,
+      title: this.formatAlertTitle(payload, locale),
       color,
       fields,
       url: payload.target.profileUrl,
       footer: {
-        text: `Détecté: ${payload.timestamp.toLocaleString('fr-FR')}`,
+        text: `${t(locale, 'field.detected')}: ${formatDateTime(payload.timestamp, locale)}`,
       },
       timestamp: payload.timestamp.toISOString(),
     };
   }
 
-  // Create Discord buttons (note: requires Discord bot for interactions)
-  private createDiscordButtons(payload: AlertPayload) {
+  // Create Discord buttons (clicks reach DiscordService when the webhook belongs to an application)
+  private createDiscordButtons(payload: AlertPayload, locale: Locale) {
+    if (INFO_ALERTS.includes(payload.type)) {
+      return [
+        {
+          type: 1,
+          components: [
+            {
+              type: 2,
+              style: 2, // Secondary (grey)
+              label: `👁️ ${t(locale, 'button.ignore')}`,
+              custom_id: `ignore_${payload.reviewId}`,
+            },
+            {
+              type: 2,
+              style: 5,
+              label: `📊 ${t(locale, 'link.dashboard')}`,
+              url: `${config_values.frontend.url}/alerts`,
+            },
+          ],
+        },
+      ];
+    }
+
     return [
       {
         type: 1, // Action row
@@ -283,19 +883,19 @@ class AlertService {
           {
             type: 2, // Button
             style: 3, // Success (green)
-            label: '✅ Confirmer',
+            label: `✅ ${t(locale, 'button.confirm')}`,
             custom_id: `defend_${payload.reviewId}`,
           },
           {
             type: 2,
             style: 1, // Primary (blue)
-            label: '✏️ Modifier',
+            label: `✏️ ${t(locale, 'button.edit')}`,
             custom_id: `edit_${payload.reviewId}`,
           },
           {
             type: 2,
             style: 4, // Danger (red)
-            label: '❌ Ignorer',
+            label: `❌ ${t(locale, 'button.ignore')}`,
             custom_id: `ignore_${payload.reviewId}`,
           },
         ],
@@ -306,7 +906,7 @@ class AlertService {
           {
             type: 2,
             style: 5, // Link
-            label: '📊 Dashboard',
+            label: `📊 ${t(locale, 'link.dashboard')}`,
             url: `${config_values.frontend.url}/defend/${payload.reviewId}`,
           },
         ],
@@ -314,38 +914,599 @@ class AlertService {
     ];
   }
 
-  // Send Twitter DM alert
-  private async sendTwitterAlert(payload: AlertPayload): Promise<string | undefined> {
+  // Call a Slack Web API method with the bot token (errors come back as HTTP 200 with ok: false)
+  private async callSlack(method: string, body: Record<string, unknown>) {
+    const response = await axios.post(`https://slack.com/api/${method}`, body, {
+      headers: { Authorization: `Bearer ${config_values.slack.botToken}` },
+    });
+    if (!response.data?.ok) {
+      throw new Error(`Slack ${method} failed: ${response.data?.error || 'unknown error'}`);
+    }
+    return response.data;
+  }
+
+  // Send Slack alert with Block Kit buttons; the message ts identifies it for button clicks and updates
+  private async sendSlackAlert(payload: AlertPayload, channelId: string): Promise<string | undefined> {
+    const locale = channelLocale('slack');
+
+    try {
+      const result = await this.callSlack('chat.postMessage', {
+        channel: channelId,
+        text: `${ALERT_EMOJIS[payload.type]} ${t(locale, 'alert.title', { type: alertLabel(locale, payload.type) })} : ${payload.target.name || payload.target.address}`,
+        attachments: [
+          {
+            color: toHexColor(ALERT_COLORS[payload.type]),
+            blocks: [...this.formatSlackBlocks(payload, locale), this.createSlackButtons(payload, locale)],
+          },
+        ],
+      });
+
+      logger.info(`Slack alert sent: ${result.ts}`);
+      return result.ts;
+    } catch (error) {
+      logger.error('Failed to send Slack alert:', error);
+      return undefined;
+    }
+  }
+
+  // Format Slack blocks, same content as the Discord embed
+  private formatSlackBlocks(payload: AlertPayload, locale: Locale) {
+    const unknown = t(locale, 'alert.unknown');
+    const fields = [
+      ...(payload.account && payload.account.id !== DEFAULT_ACCOUNT_ID
+        ? [`*🪪 ${t(locale, 'field.account')}*\n${escapeSlack(payload.account.name)}`]
+        : []),
+      `*📛 ${t(locale, 'field.target')}*\n${escapeSlack(payload.target.name || unknown)}\n\`${payload.target.address}\``,
+      ...(payload.scoreChange
+        ? [`*📉 ${t(locale, 'field.ethosScore')}*\n${payload.scoreChange.previous} → ${payload.scoreChange.current} (${payload.score})`]
+        : [
+            `*👤 ${this.authorLabel(payload.type, locale)}*\n${escapeSlack(payload.attacker.name || unknown)}\n\`${payload.attacker.address}\``,
+            `*⭐ ${t(locale, 'field.score')}*\n${payload.score}`,
+          ]),
+    ];
+
+    const blocks: Record<string, unknown>[] = [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: this.formatAlertTitle(payload, locale).slice(0, 150),
+        },
+      },
+      { type: 'section', fields: fields.map((text) => ({ type: 'mrkdwn', text })) },
+    ];
+
+    if (payload.attacker.credibility) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*🎭 ${t(locale, 'field.credibility')}*\n${escapeSlack(this.formatCredibility(payload.attacker.credibility, locale))}` },
+      });
+    }
+
+    if (payload.comment && !payload.scoreChange) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*💬 ${t(locale, 'field.comment')}*\n>${escapeSlack(payload.comment.slice(0, 1000))}` },
+      });
+    }
+
+    if (payload.autoDefense?.enabled) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*🤖 ${t(locale, 'field.suggestedDefense')}*\n"${escapeSlack(payload.autoDefense.suggestedComment)}"\n${t(locale, 'field.score')}: +${payload.autoDefense.suggestedScore}`,
+        },
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `<${payload.target.profileUrl}|${t(locale, 'link.profile')}> • ${t(locale, 'field.detected')}: ${formatDateTime(payload.timestamp, locale)}`,
+        },
+      ],
+    });
+
+    return blocks;
+  }
+
+  // Create Slack buttons (clicks reach SlackService when the signing secret is configured)
+  private createSlackButtons(payload: AlertPayload, locale: Locale) {
+    const button = (text: string, actionId: string, style?: 'primary' | 'danger') => ({
+      type: 'button',
+      text: { type: 'plain_text', text },
+      action_id: actionId,
+      value: payload.reviewId,
+      ...(style ? { style } : {}),
+    });
+    const link = (url: string) => ({
+      type: 'button',
+      text: { type: 'plain_text', text: `📊 ${t(locale, 'link.dashboard')}` },
+      action_id: 'dashboard',
+      url,
+    });
+
+    if (INFO_ALERTS.includes(payload.type)) {
+      return {
+        type: 'actions',
+        elements: [button(`👁️ ${t(locale, 'button.ignore')}`, 'ignore'), link(`${config_values.frontend.url}/alerts`)],
+      };
+    }
+
+    return {
+      type: 'actions',
+      elements: [
+        button(`✅ ${t(locale, 'button.confirm')}`, 'confirm', 'primary'),
+        button(`❌ ${t(locale, 'button.ignore')}`, 'ignore', 'danger'),
+        link(`${config_values.frontend.url}/defend/${payload.reviewId}`),
+      ],
+    };
+  }
+
+  // Send email alert; emails can't be edited, so the outcome is only shown on the other channels
+  private async sendEmailAlert(payload: AlertPayload, to: string): Promise<string | undefined> {
+    try {
+      const messageId = await emailService.send(this.formatEmail(payload, channelLocale('email')), to);
+      logger.info(`Email alert sent: ${messageId}`);
+      return messageId;
+    } catch (error) {
+      logger.error('Failed to send email alert:', error);
+      return undefined;
+    }
+  }
+
+  // Title shared by the Discord, Slack, email, Matrix and ntfy alerts
+  private formatAlertTitle(payload: AlertPayload, locale: Locale): string {
+    const priority = payload.escalated ? `🔥 ${t(locale, 'alert.highPriority')} - ` : '';
+    return `${priority}${ALERT_EMOJIS[payload.type]} ${t(locale, 'alert.title', { type: alertLabel(locale, payload.type) })}`;
+  }
+
+  // Same fields as the Discord embed, as plain text for the email, Matrix and ntfy alerts
+  private formatAlertFields(payload: AlertPayload, locale: Locale): { label: string; value: string }[] {
+    const unknown = t(locale, 'alert.unknown');
+    return [
+      ...(payload.account && payload.account.id !== DEFAULT_ACCOUNT_ID ? [{ label: `🪪 ${t(locale, 'field.account')}`, value: payload.account.name }] : []),
+      { label: `📛 ${t(locale, 'field.target')}`, value: `${payload.target.name || unknown}\n${payload.target.address}` },
+      ...(payload.scoreChange
+        ? [{ label: `📉 ${t(locale, 'field.ethosScore')}`, value: `${payload.scoreChange.previous} → ${payload.scoreChange.current} (${payload.score})` }]
+        : [
+            { label: `👤 ${this.authorLabel(payload.type, locale)}`, value: `${payload.attacker.name || unknown}\n${payload.attacker.address}` },
+            { label: `⭐ ${t(locale, 'field.score')}`, value: payload.score.toString() },
+          ]),
+      ...(payload.attacker.credibility
+        ? [{ label: `🎭 ${t(locale, 'field.credibility')}`, value: this.formatCredibility(payload.attacker.credibility, locale) }]
+        : []),
+      ...(payload.comment && !payload.scoreChange ? [{ label: `💬 ${t(locale, 'field.comment')}`, value: payload.comment }] : []),
+      ...(payload.autoDefense?.enabled
+        ? [{
+            label: `🤖 ${t(locale, 'field.suggestedDefense')}`,
+            value: `"${payload.autoDefense.suggestedComment}"\n${t(locale, 'field.score')}: +${payload.autoDefense.suggestedScore}`,
+          }]
+        : []),
+    ];
+  }
+
+  // Signed defend/ignore links when EMAIL_LINK_SECRET is set
+  private formatEmail(payload: AlertPayload, locale: Locale): EmailContent {
+    const ignoreUrl = emailService.createLink('ignore', payload.reviewId);
+    const actions = INFO_ALERTS.includes(payload.type)
+      ? [{ label: `📊 ${t(locale, 'link.dashboard')}`, url: `${config_values.frontend.url}/alerts` }]
+      : [{
+          label: `🛡️ ${t(locale, 'button.defend')}`,
+          url: emailService.createLink('defend', payload.reviewId) || `${config_values.frontend.url}/defend/${payload.reviewId}`,
+        }];
+    if (ignoreUrl) {
+      actions.push({ label: `👁️ ${t(locale, 'button.ignore')}`, url: ignoreUrl });
+    }
+    if (payload.target.profileUrl) {
+      actions.push({ label: `🔗 ${t(locale, 'link.ethosProfile')}`, url: payload.target.profileUrl });
+    }
+
+    const title = this.formatAlertTitle(payload, locale);
+    return {
+      subject: `${title} : ${payload.target.name || payload.target.address}`,
+      title,
+      color: ALERT_COLORS[payload.type],
+      fields: this.formatAlertFields(payload, locale),
+      actions,
+      footer: `${t(locale, 'field.detected')}: ${formatDateTime(payload.timestamp, locale)}`,
+    };
+  }
+
+  // Send a message event to a Matrix room; the transaction id makes the request idempotent
+  private async sendMatrixEvent(content: Record<string, unknown>, roomId: string): Promise<string> {
+    const { homeserverUrl, accessToken } = config_values.matrix;
+    const response = await axios.put(
+      `${homeserverUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.room.message/${crypto.randomUUID()}`,
+      content,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+    return response.data.event_id;
+  }
+
+  // Send Matrix alert as formatted text (Matrix has no buttons, actions are dashboard links)
+  private async sendMatrixAlert(payload: AlertPayload, roomId: string): Promise<string | undefined> {
+    const locale = channelLocale('matrix');
+    const dashboardUrl = INFO_ALERTS.includes(payload.type)
+      ? `${config_values.frontend.url}/alerts`
+      : `${config_values.frontend.url}/defend/${payload.reviewId}`;
+
+    try {
+      const eventId = await this.sendMatrixEvent(this.formatMatrixMessage(
+        this.formatAlertTitle(payload, locale),
+        this.formatAlertFields(payload, locale),
+        [
+          { label: `📊 ${t(locale, 'link.dashboard')}`, url: dashboardUrl },
+          ...(payload.target.profileUrl ? [{ label: `🔗 ${t(locale, 'link.ethosProfile')}`, url: payload.target.profileUrl }] : []),
+        ]
+      ), roomId);
+
+      logger.info(`Matrix alert sent: ${eventId}`);
+      return eventId;
+    } catch (error) {
+      logger.error('Failed to send Matrix alert:', error);
+      return undefined;
+    }
+  }
+
+  // m.room.message content with a plain body and its HTML version
+  private formatMatrixMessage(title: string, fields: { label: string; value: string }[], links: { label: string; url: string }[]) {
+    const body = [
+      title,
+      '',
+      ...fields.map((field) => `${field.label}: ${field.value}`),
+      '',
+      ...links.map((link) => `${link.label}: ${link.url}`),
+    ].join('\n');
+
+    const html = [
+      `<h4>${escapeHtml(title)}</h4>`,
+      ...fields.map((field) => `<b>${escapeHtml(field.label)}</b><br>${escapeHtml(field.value).replace(/\n/g, '<br>')}`),
+      links.map((link) => `<a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a>`).join(' · '),
+    ].join('<br><br>');
+
+    return { msgtype: 'm.text', body, format: 'org.matrix.custom.html', formatted_body: html };
+  }
+
+  // Publish a JSON message to the ntfy server, with the access token of protected topics
+  private async postNtfy(message: Record<string, unknown>) {
+    const { serverUrl, token } = config_values.ntfy;
+    return axios.post(serverUrl, message, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  // Send ntfy push with the priority of the alert type and a dashboard action
+  private async sendNtfyAlert(payload: AlertPayload, topic: string): Promise<string | undefined> {
+    const locale = channelLocale('ntfy');
+    const dashboardUrl = INFO_ALERTS.includes(payload.type)
+      ? `${config_values.frontend.url}/alerts`
+      : `${config_values.frontend.url}/defend/${payload.reviewId}`;
+
+    try {
+      const response = await this.postNtfy({
+        topic,
+        title: this.formatAlertTitle(payload, locale),
+        message: this.formatAlertFields(payload, locale).map((field) => `${field.label}: ${field.value}`).join('\n'),
+        priority: payload.escalated ? 5 : NTFY_PRIORITIES[payload.type],
+        click: dashboardUrl,
+        actions: [
+          {
+            action: 'view',
+            label: t(locale, INFO_ALERTS.includes(payload.type) ? 'link.dashboard' : 'button.defend'),
+            url: dashboardUrl,
+            clear: true,
+          },
+          ...(payload.target.profileUrl ? [{ action: 'view', label: t(locale, 'link.ethosProfile'), url: payload.target.profileUrl }] : []),
+        ],
+      });
+
+      logger.info(`ntfy alert sent: ${response.data?.id}`);
+      return response.data?.id;
+    } catch (error) {
+      logger.error('Failed to send ntfy alert:', error);
+      return undefined;
+    }
+  }
+
+  // Send X/Twitter alert as a DM to the recipient. The public support of TWITTER_PUBLIC_MODE is not
+  // part of the alert: it is posted with the defense, see postTwitterSupport
+  private async sendTwitterAlert(payload: AlertPayload, dmRecipientId: string): Promise<string | undefined> {
     if (!this.twitterClient) return;
+    if (Date.now() < this.twitterPausedUntil) {
+      logger.warn(`X API rate limited until ${new Date(this.twitterPausedUntil).toISOString()}, X alert skipped`);
+      return undefined;
+    }
 
     try {
-      // Note: Twitter DM requires conversation setup
-      // This is a simplified version - may need adjustment based on Twitter API v2 requirements
-      const message = this.formatTwitterMessage(payload);
+      const result = await this.twitterClient.v2.sendDmToParticipant(dmRecipientId, { text: this.formatTwitterMessage(payload, channelLocale('twitter')) });
+      logger.info(`X DM alert sent: ${result.dm_event_id}`);
+      return result.dm_event_id;
+    } catch (error) {
+      this.handleTwitterError(error, 'send X DM alert');
+      return undefined;
+    }
+  }
+
+  // Reply to or quote the latest post of the defended relation's X account with the posted defense
+  // (TWITTER_PUBLIC_MODE). Only called once the defense is posted, so it goes through the same
+  // confirmation; returns the id of the X post
+  async postTwitterSupport(target: { name: string | null; address: string; profileId: number }, comment: string): Promise<string | undefined> {
+    const { publicMode } = config_values.twitter;
+    if (!this.twitterClient || publicMode === 'off') return undefined;
+    if (Date.now() < this.twitterPausedUntil) {
+      logger.warn(`X API rate limited until ${new Date(this.twitterPausedUntil).toISOString()}, public ${publicMode} skipped`);
+      return undefined;
+    }
+
+    try {
+      const xUserId = await this.resolveTwitterUserId(target.profileId);
+      if (!xUserId) {
+        logger.info(`No X account linked to ${target.name || target.address}, public ${publicMode} skipped`);
+        return undefined;
+      }
+
+      const timeline = await this.twitterClient.v2.userTimeline(xUserId, { max_results: 5, exclude: ['replies', 'retweets'] });
+      const latest = timeline.tweets[0];
+      if (!latest) {
+        logger.info(`No recent X post from ${target.name || xUserId}, public ${publicMode} skipped`);
+        return undefined;
+      }
 
-      // For now, we'll log instead of actually sending
-      // To send DMs, you'd need the recipient's Twitter ID and proper permissions
-      logger.info(`Twitter alert formatted (DM not sent): ${message.slice(0, 100)}...`);
+      // Links count as 23 characters on X
+      const text = `${comment.slice(0, MAX_TWEET_LENGTH - 25)}\n\n${ethosService.getProfileUrl(target.address)}`;
+      const result = publicMode === 'reply'
+        ? await this.twitterClient.v2.reply(text, latest.id)
+        : await this.twitterClient.v2.quote(text, latest.id);
 
-      return 'twitter_dm_disabled';
+      logger.info(`X ${publicMode} posted for ${target.name || xUserId}: ${result.data.id}`);
+      return result.data.id;
     } catch (error) {
-      logger.error('Failed to send Twitter alert:', error);
+      this.handleTwitterError(error, `post X ${publicMode}`);
       return undefined;
     }
   }
 
-  // Format Twitter message
-  private formatTwitterMessage(payload: AlertPayload): string {
-    const emoji = payload.type === 'SLASH' ? '⚡' : '🚨';
-    let message = `${emoji} ALERTE ETHOS\n\n`;
-    message += `Cible: ${payload.target.name || payload.target.address.slice(0, 10)}...\n`;
-    message += `Attaquant: ${payload.attacker.name || payload.attacker.address.slice(0, 10)}...\n`;
-    message += `Score: ${payload.score}\n\n`;
-    message += `Dashboard: ${config_values.frontend.url}/defend/${payload.reviewId}`;
+  // X user id from the userkeys of the Ethos profile (service:x.com:<id> or service:x.com:username:<handle>)
+  private async resolveTwitterUserId(profileId: number): Promise<string | null> {
+    if (!profileId) return null;
+    if (this.twitterUserIds.has(profileId)) return this.twitterUserIds.get(profileId)!;
+
+    const user = await ethosService.getUserByProfileId(profileId);
+    let xUserId: string | null = null;
+    for (const userkey of user?.userkeys || []) {
+      const byId = userkey.match(/^service:x\.com:(\d+)$/);
+      if (byId) {
+        xUserId = byId[1];
+        break;
+      }
+      const byUsername = userkey.match(/^service:x\.com:username:(.+)$/);
+      if (byUsername) {
+        xUserId = (await this.twitterClient!.v2.userByUsername(byUsername[1])).data?.id || null;
+        break;
+      }
+    }
+
+    this.twitterUserIds.set(profileId, xUserId);
+    return xUserId;
+  }
+
+  // Send a plain DM (notifications, incidents), errors are thrown to the caller
+  private async sendTwitterDm(recipientId: string, text: string): Promise<string | undefined> {
+    if (!this.twitterClient) return;
+    if (Date.now() < this.twitterPausedUntil) {
+      throw new Error(`X API rate limited until ${new Date(this.twitterPausedUntil).toISOString()}`);
+    }
+
+    try {
+      const result = await this.twitterClient.v2.sendDmToParticipant(recipientId, { text });
+      return result.dm_event_id;
+    } catch (error) {
+      this.pauseOnRateLimit(error, 'send X DM');
+      throw error;
+    }
+  }
+
+  // On a rate limit (HTTP 429) nothing is sent to X until the limit resets
+  private handleTwitterError(error: unknown, action: string) {
+    if (!this.pauseOnRateLimit(error, action)) {
+      logger.error(`Failed to ${action}:`, error);
+    }
+  }
+
+  private pauseOnRateLimit(error: unknown, action: string): boolean {
+    if (!(error instanceof ApiResponseError && error.rateLimitError)) return false;
+
+    const limits = [error.rateLimit, error.rateLimit?.userDay, error.rateLimit?.day];
+    const resets = limits.filter((limit) => limit && limit.remaining === 0).map((limit) => limit!.reset * 1000);
+    this.twitterPausedUntil = resets.length > 0 ? Math.max(...resets) : Date.now() + TWITTER_RATE_LIMIT_PAUSE_MS;
+    logger.warn(`X API rate limit reached (${action}), X alerts paused until ${new Date(this.twitterPausedUntil).toISOString()}`);
+    return true;
+  }
+
+  // Format X/Twitter DM
+  private formatTwitterMessage(payload: AlertPayload, locale: Locale): string {
+    let message = `${this.formatAlertTitle(payload, locale)}\n\n`;
+    for (const field of this.formatAlertFields(payload, locale)) {
+      message += `${field.label}: ${field.value}\n`;
+    }
+    message += `\n${t(locale, 'link.dashboard')}: ${config_values.frontend.url}/defend/${payload.reviewId}`;
+    return message;
+  }
+
+  // Show the outcome of a review's alerts on their chat messages, removing the buttons
+  async updateAlertMessages(reviewId: string, outcome: AlertOutcome) {
+    try {
+      const alerts = await db.getAlertMessages(reviewId);
+      if (alerts.length === 0) return;
+
+      const account = await accountService.getContext(alerts[0].relation.accountId || DEFAULT_ACCOUNT_ID);
+      const chatId = this.getDestination('telegram', account?.routing);
+      const webhookUrl = this.getDestination('discord', account?.routing);
+      const slackChannelId = this.getDestination('slack', account?.routing);
+      const matrixRoomId = this.getDestination('matrix', account?.routing);
+
+      for (const alert of alerts) {
+        if (alert.channel === 'TELEGRAM' && chatId) {
+          await this.updateTelegramMessage(chatId, Number(alert.messageId), this.formatOutcomeTelegramMessage(alert, outcome));
+        } else if (alert.channel === 'DISCORD' && webhookUrl) {
+          await this.updateDiscordMessage(webhookUrl, alert.messageId!, this.formatOutcomeDiscordEmbed(alert, outcome));
+        } else if (alert.channel === 'SLACK' && slackChannelId) {
+          await this.updateSlackMessage(slackChannelId, alert.messageId!, alert, outcome);
+        } else if (alert.channel === 'MATRIX' && matrixRoomId) {
+          await this.updateMatrixMessage(matrixRoomId, alert.messageId!, alert, outcome);
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to update alert messages of review ${reviewId}:`, error);
+    }
+  }
+
+  // Outcome line: who acted and when
+  private formatOutcomeStatus(outcome: AlertOutcome, locale: Locale): string {
+    const date = formatDateTime(outcome.at, locale);
+    return outcome.actor ? t(locale, 'outcome.by', { actor: outcome.actor, date }) : t(locale, 'outcome.auto', { date });
+  }
+
+  // Outcome title followed by the alert type
+  private formatOutcomeTitle(type: AlertPayload['type'], outcome: AlertOutcome, locale: Locale): string {
+    return `${t(locale, `outcome.${outcome.status}`)} - ${alertLabel(locale, type)}`;
+  }
+
+  private formatOutcomeTelegramMessage(alert: DeliveredAlert, outcome: AlertOutcome): string {
+    const type = alert.type as AlertPayload['type'];
+    const locale = channelLocale('telegram');
+    const unknown = t(locale, 'alert.unknown');
+
+    let message = `<b>${t(locale, `outcome.${outcome.status}`)}</b>\n`;
+    message += `${ALERT_EMOJIS[type]} <b>${alertLabel(locale, type)}</b>\n\n`;
+    message += `📛 <b>${t(locale, 'field.target')}:</b> ${escapeHtml(alert.relation.name || unknown)}\n`;
+    if (type === 'SCORE_DROP') {
+      message += `📉 ${escapeHtml(alert.review.comment || '')}\n`;
+    } else {
+      message += `👤 <b>${this.authorLabel(type, locale)}:</b> ${escapeHtml(alert.review.authorName || unknown)} (${alert.review.score})\n`;
+      if (alert.review.comment) {
+        message += `💬 <i>"${escapeHtml(alert.review.comment.slice(0, 200))}${alert.review.comment.length > 200 ? '...' : ''}"</i>\n`;
+      }
+    }
+
+    message += `\n📌 <b>${this.formatOutcomeStatus(outcome, locale)}</b>\n`;
+    if (outcome.error) {
+      message += `⚠️ ${escapeHtml(outcome.error.slice(0, 200))}\n`;
+    }
+    if (outcome.reviewUrl) {
+      message += `🛡️ <a href="${escapeHtml(outcome.reviewUrl)}">${t(locale, 'link.postedDefense')}</a>\n`;
+    }
+    message += `📊 <a href="${config_values.frontend.url}/defend/${alert.reviewId}">${t(locale, 'link.dashboard')}</a>`;
+
     return message;
   }
 
-  // Update Telegram message (e.g., after action)
+  private formatOutcomeDiscordEmbed(alert: DeliveredAlert, outcome: AlertOutcome) {
+    const type = alert.type as AlertPayload['type'];
+    const locale = channelLocale('discord');
+    const unknown = t(locale, 'alert.unknown');
+
+    const fields = [
+      { name: `📛 ${t(locale, 'field.target')}`, value: `${alert.relation.name || unknown}\n\`${alert.relation.address}\``, inline: true },
+      ...(type === 'SCORE_DROP'
+        ? [{ name: `📉 ${t(locale, 'field.ethosScore')}`, value: alert.review.comment || '-', inline: true }]
+        : [{ name: `👤 ${this.authorLabel(type, locale)}`, value: `${alert.review.authorName || unknown} (${alert.review.score})`, inline: true }]),
+      { name: `📌 ${t(locale, 'field.status')}`, value: this.formatOutcomeStatus(outcome, locale), inline: false },
+      ...(outcome.error ? [{ name: `⚠️ ${t(locale, 'field.error')}`, value: outcome.error.slice(0, 1024), inline: false }] : []),
+      ...(outcome.reviewUrl ? [{ name: `🛡️ ${t(locale, 'field.postedDefense')}`, value: outcome.reviewUrl, inline: false }] : []),
+    ];
+
+    return {
+      title: this.formatOutcomeTitle(type, outcome, locale),
+      color: OUTCOME_COLORS[outcome.status],
+      fields,
+      url: `${config_values.frontend.url}/defend/${alert.reviewId}`,
+      timestamp: outcome.at.toISOString(),
+    };
+  }
+
+  // Replace a Slack alert with its outcome, without the buttons
+  private async updateSlackMessage(channelId: string, ts: string, alert: DeliveredAlert, outcome: AlertOutcome) {
+    const type = alert.type as AlertPayload['type'];
+    const locale = channelLocale('slack');
+    const unknown = t(locale, 'alert.unknown');
+    const title = this.formatOutcomeTitle(type, outcome, locale);
+    const subject = type === 'SCORE_DROP'
+      ? `*📉 ${t(locale, 'field.ethosScore')}*\n${escapeSlack(alert.review.comment || '-')}`
+      : `*👤 ${this.authorLabel(type, locale)}*\n${escapeSlack(alert.review.authorName || unknown)} (${alert.review.score})`;
+
+    const lines = [
+      `*📌 ${t(locale, 'field.status')}*\n${this.formatOutcomeStatus(outcome, locale)}`,
+      ...(outcome.error ? [`*⚠️ ${t(locale, 'field.error')}*\n${escapeSlack(outcome.error.slice(0, 1000))}`] : []),
+      ...(outcome.reviewUrl ? [`<${outcome.reviewUrl}|🛡️ ${t(locale, 'link.postedDefense')}>`] : []),
+      `<${config_values.frontend.url}/defend/${alert.reviewId}|📊 ${t(locale, 'link.dashboard')}>`,
+    ];
+
+    try {
+      await this.callSlack('chat.update', {
+        channel: channelId,
+        ts,
+        text: title,
+        attachments: [
+          {
+            color: toHexColor(OUTCOME_COLORS[outcome.status]),
+            blocks: [
+              { type: 'header', text: { type: 'plain_text', text: title } },
+              {
+                type: 'section',
+                fields: [
+                  { type: 'mrkdwn', text: `*📛 ${t(locale, 'field.target')}*\n${escapeSlack(alert.relation.name || unknown)}\n\`${alert.relation.address}\`` },
+                  { type: 'mrkdwn', text: subject },
+                ],
+              },
+              { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+            ],
+          },
+        ],
+      });
+    } catch (error) {
+      logger.error('Failed to update Slack message:', error);
+    }
+  }
+
+  // Replace a Matrix alert with its outcome through an edit event (m.replace)
+  private async updateMatrixMessage(roomId: string, eventId: string, alert: DeliveredAlert, outcome: AlertOutcome) {
+    const type = alert.type as AlertPayload['type'];
+    const locale = channelLocale('matrix');
+    const unknown = t(locale, 'alert.unknown');
+    const content = this.formatMatrixMessage(
+      this.formatOutcomeTitle(type, outcome, locale),
+      [
+        { label: `📛 ${t(locale, 'field.target')}`, value: `${alert.relation.name || unknown}\n${alert.relation.address}` },
+        type === 'SCORE_DROP'
+          ? { label: `📉 ${t(locale, 'field.ethosScore')}`, value: alert.review.comment || '-' }
+          : { label: `👤 ${this.authorLabel(type, locale)}`, value: `${alert.review.authorName || unknown} (${alert.review.score})` },
+        { label: `📌 ${t(locale, 'field.status')}`, value: this.formatOutcomeStatus(outcome, locale) },
+        ...(outcome.error ? [{ label: `⚠️ ${t(locale, 'field.error')}`, value: outcome.error.slice(0, 1000) }] : []),
+      ],
+      [
+        ...(outcome.reviewUrl ? [{ label: `🛡️ ${t(locale, 'link.postedDefense')}`, url: outcome.reviewUrl }] : []),
+        { label: `📊 ${t(locale, 'link.dashboard')}`, url: `${config_values.frontend.url}/defend/${alert.reviewId}` },
+      ]
+    );
+
+    try {
+      await this.sendMatrixEvent({
+        ...content,
+        body: `* ${content.body}`,
+        'm.new_content': content,
+        'm.relates_to': { rel_type: 'm.replace', event_id: eventId },
+      }, roomId);
+    } catch (error) {
+      logger.error('Failed to update Matrix message:', error);
+    }
+  }
+
+  // Update Telegram message (e.g., after action); without reply markup the buttons are removed
   async updateTelegramMessage(chatId: string, messageId: number, text: string) {
     if (!this.telegramBot) return;
 
@@ -362,22 +1523,72 @@ class AlertService {
     }
   }
 
-  // Send simple notification
-  async sendNotification(message: string, channel: 'telegram' | 'discord' | 'all' = 'all') {
-    if (channel === 'telegram' || channel === 'all') {
-      if (this.telegramBot && config_values.telegram.chatId) {
-        await this.telegramBot.telegram.sendMessage(
-          config_values.telegram.chatId,
-          message,
-          { parse_mode: 'HTML' }
-        );
+  // Replace the embed of a Discord webhook message and remove its buttons
+  async updateDiscordMessage(webhookUrl: string, messageId: string, embed: Record<string, unknown>) {
+    try {
+      await axios.patch(`${webhookUrl}/messages/${messageId}`, {
+        embeds: [embed],
+        components: [],
+      });
+    } catch (error) {
+      logger.error('Failed to update Discord message:', error);
+    }
+  }
+
+  // Send simple notification to one channel or to all of them; a function message is formatted for the
+  // locale and markup of each channel. Errors of a single channel are thrown, those of 'all' are only logged
+  async sendNotification(
+    message: string | ((locale: Locale, channel: AlertChannelName) => string),
+    channel: AlertChannelName | 'all' = 'all',
+    routing?: AlertRouting
+  ) {
+    const send = async (target: AlertChannelName) => {
+      const destination = this.getDestination(target, routing);
+      if (destination) {
+        await this.sendText(target, typeof message === 'string' ? message : message(channelLocale(target), target), destination);
       }
+    };
+
+    if (channel !== 'all') {
+      await send(channel);
+      return;
     }
 
-    if (channel === 'discord' || channel === 'all') {
-      if (config_values.discord.webhookUrl) {
-        await axios.post(config_values.discord.webhookUrl, { content: message });
+    const results = await Promise.allSettled(NOTIFICATION_CHANNELS.map(send));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error(`Failed to send notification on ${NOTIFICATION_CHANNELS[index]}:`, result.reason);
+      }
+    });
+  }
+
+  // Send a text message (HTML on Telegram, see bold/link) to a destination of the channel
+  private async sendText(channel: AlertChannelName, text: string, destination: string) {
+    switch (channel) {
+      case 'telegram':
+        await this.telegramBot?.telegram.sendMessage(destination, text, { parse_mode: 'HTML' });
+        break;
+      case 'discord':
+        await axios.post(destination, { content: text.slice(0, 2000) });
+        break;
+      case 'slack':
+        await this.callSlack('chat.postMessage', { channel: destination, text });
+        break;
+      case 'email': {
+        // The first line is the title of the message
+        const [title, ...lines] = text.split('\n');
+        await emailService.send({ subject: title, title, color: NOTIFICATION_COLOR, fields: [], lines, actions: [] }, destination);
+        break;
       }
+      case 'matrix':
+        await this.sendMatrixEvent({ msgtype: 'm.text', body: text }, destination);
+        break;
+      case 'ntfy':
+        await this.postNtfy({ topic: destination, message: text });
+        break;
+      case 'twitter':
+        await this.sendTwitterDm(destination, text);
+        break;
     }
   }
 
@@ -0,0 +1,79 @@
+import logger from '../utils/logger.js';
+import ethosService from './ethos.service.js';
+import db from './database.service.js';
+import type { AttackerRisk, AttackerSummary } from '../models/types.js';
+
+type Attack = Awaited<ReturnType<typeof db.getAttacks>>[number];
+
+class AttackerService {
+  // Every author of negative reviews/slashes against our relations, most active first
+  async getAttackers(options?: {
+    accountId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ data: AttackerSummary[]; total: number }> {
+    const attacks = await db.getAttacks({ accountId: options?.accountId });
+
+    const byAuthor = new Map<string, Attack[]>();
+    for (const attack of attacks) {
+      const list = byAuthor.get(attack.authorKey) || [];
+      list.push(attack);
+      byAuthor.set(attack.authorKey, list);
+    }
+
+    const summaries = Array.from(byAuthor.entries())
+      .map(([authorKey, list]) => this.summarize(authorKey, list))
+      .sort((a, b) =>
+        (b.negativeReviews + b.slashes) - (a.negativeReviews + a.slashes) ||
+        b.lastSeen.getTime() - a.lastSeen.getTime()
+      );
+
+    // Only the requested page is enriched with live Ethos scores
+    const offset = options?.offset || 0;
+    const page = summaries.slice(offset, offset + (options?.limit || 50));
+    await Promise.all(page.map((summary) => this.attachScore(summary)));
+
+    return { data: page, total: summaries.length };
+  }
+
+  // One author's summary and full history against our relations
+  async getAttacker(authorKey: string, accountId?: string) {
+    const attacks = await db.getAttacks({ authorKey, accountId });
+    if (attacks.length === 0) return null;
+
+    const summary = this.summarize(authorKey, attacks);
+    await this.attachScore(summary);
+
+    return { ...summary, attacks };
+  }
+
+  // Aggregate the attacks of one author (attacks are sorted newest first)
+  private summarize(authorKey: string, attacks: Attack[]): AttackerSummary {
+    const latest = attacks[0];
+
+    return {
+      authorKey,
+      name: latest.authorName || attacks.find((a) => a.authorName)?.authorName || null,
+      address: latest.authorAddr || attacks.find((a) => a.authorAddr)?.authorAddr || null,
+      negativeReviews: attacks.filter((a) => a.type === 'review').length,
+      slashes: attacks.filter((a) => a.type === 'slash').length,
+      targets: new Set(attacks.map((a) => a.relationId)).size,
+      firstSeen: attacks[attacks.length - 1].createdAt,
+      lastSeen: latest.createdAt,
+      ethosScore: null,
+      risk: (attacks.find((a) => a.attackerRisk)?.attackerRisk as AttackerRisk | undefined) ?? null,
+    };
+  }
+
+  private async attachScore(summary: AttackerSummary): Promise<void> {
+    try {
+      const score = await ethosService.getScore(summary.authorKey);
+      summary.ethosScore = score?.score ?? null;
+    } catch (error) {
+      logger.warn(`Failed to get score for attacker ${summary.authorKey}:`, error);
+    }
+  }
+}
+
+export const attackerService = new AttackerService();
+export default attackerService;
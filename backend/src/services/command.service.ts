@@ -0,0 +1,267 @@
+import { Markup, type Context } from 'telegraf';
+import { config_values } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { parseDuration } from '../utils/time.js';
+import { escapeHtml } from '../utils/html.js';
+import { channelLocale, formatDateTime, t, type MessageKey } from '../utils/i18n.js';
+import db from './database.service.js';
+import alertService from './alert.service.js';
+import monitorService from './monitor.service.js';
+import tokenService from './token.service.js';
+import scheduler from '../scheduler/cron.js';
+
+type CommandHandler = (ctx: Context, args: string[]) => Promise<void>;
+
+// Alerts listed by /pending, one message each
+const PENDING_LIMIT = 10;
+// Relations listed by /relations
+const RELATIONS_LIMIT = 40;
+
+class CommandService {
+  private commands: Record<string, { description: MessageKey; handler: CommandHandler }> = {
+    status: { description: 'command.status', handler: (ctx) => this.status(ctx) },
+    run: { description: 'command.run', handler: (ctx) => this.run(ctx) },
+    pending: { description: 'command.pending', handler: (ctx) => this.pending(ctx) },
+    relations: { description: 'command.relations', handler: (ctx) => this.relations(ctx) },
+    stats: { description: 'command.stats', handler: (ctx) => this.stats(ctx) },
+    mute: { description: 'command.mute', handler: (ctx, args) => this.mute(ctx, args) },
+    token: { description: 'command.token', handler: (ctx, args) => this.token(ctx, args) },
+    help: { description: 'command.help', handler: (ctx) => this.help(ctx) },
+  };
+
+  // Replies are in the language of the Telegram alerts
+  private get locale() {
+    return channelLocale('telegram');
+  }
+
+  // Register the chat commands on the alert bot, only for the configured admins
+  start() {
+    const bot = alertService.getTelegramBot();
+    if (!bot) return;
+
+    if (config_values.telegram.adminIds.length === 0) {
+      logger.info('Telegram commands disabled (no TELEGRAM_ADMIN_IDS)');
+      return;
+    }
+
+    for (const [name, { handler }] of Object.entries(this.commands)) {
+      bot.command(name, async (ctx) => {
+        if (!this.isAdmin(ctx)) {
+          logger.warn(`Telegram command /${name} refused for user ${ctx.from?.id} in chat ${ctx.chat?.id}`);
+          await ctx.reply(t(this.locale, 'command.adminOnly'));
+          return;
+        }
+
+        try {
+          await handler(ctx, this.getArgs(ctx));
+        } catch (error) {
+          logger.error(`Telegram command /${name} failed:`, error);
+          await ctx.reply(t(this.locale, 'action.error', { error: error instanceof Error ? error.message : String(error) }));
+        }
+      });
+    }
+    bot.start((ctx) => this.isAdmin(ctx) ? this.help(ctx) : undefined);
+
+    bot.telegram.setMyCommands(
+      Object.entries(this.commands).map(([command, { description }]) => ({ command, description: t(this.locale, description) }))
+    ).catch((error) => logger.warn('Failed to publish Telegram commands:', error));
+
+    logger.info('Telegram commands enabled');
+  }
+
+  // Accepted from an admin user anywhere, or from anyone in an admin chat
+  private isAdmin(ctx: Context): boolean {
+    const { adminIds } = config_values.telegram;
+    return [ctx.from?.id, ctx.chat?.id].some((id) => id !== undefined && adminIds.includes(String(id)));
+  }
+
+  private getArgs(ctx: Context): string[] {
+    const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+    return text.split(/\s+/).slice(1).filter(Boolean);
+  }
+
+  private async help(ctx: Context) {
+    const lines = Object.entries(this.commands).map(([name, { description }]) => `/${name} - ${escapeHtml(t(this.locale, description))}`);
+    await ctx.reply(`🤖 <b>Ethos Monitor</b>\n\n${lines.join('\n')}`, { parse_mode: 'HTML' });
+  }
+
+  private async status(ctx: Context) {
+    const status = await scheduler.getStatus();
+    const token = tokenService.getStatus();
+    const locale = this.locale;
+    const yesNo = (value: boolean) => (value ? '✅' : '❌');
+
+    let message = `📡 <b>${t(locale, 'command.statusTitle')}</b>\n\n`;
+    message += `${yesNo(status.monitorRunning)} ${t(locale, 'command.monitoring', { minutes: status.intervalMinutes })}\n`;
+    message += `🔄 ${t(locale, 'command.cycleRunning', { value: t(locale, status.isRunning ? 'command.yes' : 'command.no') })}\n`;
+    message += `⏰ ${t(locale, 'command.lastCycle', { date: status.lastRunAt ? formatDateTime(status.lastRunAt, locale) : t(locale, 'command.never') })}\n`;
+    message += `${yesNo(status.verifyRunning)} ${t(locale, 'command.verify')}\n`;
+    message += `${yesNo(status.escalationRunning)} ${t(locale, 'command.escalation')}\n\n`;
+
+    if (!token.valid || token.isExpired) {
+      message += `🔑 ${t(locale, 'command.tokenInvalid')}`;
+    } else {
+      message += `🔑 ${t(locale, 'command.tokenExpires', {
+        icon: token.isExpiringSoon ? '⚠️' : '✅',
+        date: token.expiresAt ? formatDateTime(token.expiresAt, locale) : '-',
+      })}`;
+    }
+
+    await ctx.reply(message, { parse_mode: 'HTML' });
+  }
+
+  private async run(ctx: Context) {
+    const locale = this.locale;
+    await ctx.reply(t(locale, 'command.runStarted'));
+    const result = await monitorService.runMonitorCycle();
+
+    let message = `✅ <b>${t(locale, 'command.runDone')}</b> ${t(locale, 'command.runDuration', { seconds: Math.round(result.duration / 1000) })}\n\n`;
+    message += `👥 ${t(locale, 'command.relationsLabel')}: ${result.relationsChecked}\n`;
+    message += `📝 ${t(locale, 'command.reviewsLabel')}: ${result.reviewsFound}\n`;
+    message += `🚨 ${t(locale, 'command.negativeLabel')}: ${result.newNegative}\n`;
+    message += `📨 ${t(locale, 'command.alertsLabel')}: ${result.alertsSent}`;
+    if (result.errors.length > 0) {
+      message += `\n⚠️ ${t(locale, 'command.errorsLabel')}: ${result.errors.length}\n${escapeHtml(result.errors.slice(0, 3).join('\n').slice(0, 1000))}`;
+    }
+
+    await ctx.reply(message, { parse_mode: 'HTML' });
+  }
+
+  // One message per pending review, with the same buttons as the alert
+  private async pending(ctx: Context) {
+    const locale = this.locale;
+    const { data, total } = await db.getAlerts({ status: 'PENDING', limit: 100 });
+    const seen = new Set<string>();
+    const alerts = data.filter((a) => !seen.has(a.reviewId) && seen.add(a.reviewId)).slice(0, PENDING_LIMIT);
+
+    if (alerts.length === 0) {
+      await ctx.reply(t(locale, 'command.noPending'));
+      return;
+    }
+
+    await ctx.reply(
+      `⏳ <b>${t(locale, 'command.pendingTitle', { count: total })}</b>${alerts.length < seen.size ? t(locale, 'command.pendingShown', { count: alerts.length }) : ''}`,
+      { parse_mode: 'HTML' }
+    );
+
+    for (const alert of alerts) {
+      const defendable = alert.type === 'NEGATIVE_REVIEW' || alert.type === 'SLASH';
+      const detail = alert.type === 'SCORE_DROP'
+        ? alert.review.comment || ''
+        : `${alert.review.authorName || t(locale, 'alert.unknown')} (${alert.review.score})`;
+
+      await ctx.reply(
+        `<b>${t(locale, `alert.type.${alert.type}` as MessageKey)}</b> - ${escapeHtml(alert.relation.name || alert.relation.address.slice(0, 10))}\n${escapeHtml(detail)}\n⏰ ${formatDateTime(alert.sentAt, locale)}`,
+        {
+          parse_mode: 'HTML',
+          ...Markup.inlineKeyboard([
+            [
+              ...(defendable ? [Markup.button.callback(`🛡️ ${t(locale, 'button.defend')}`, `confirm:${alert.id}`)] : []),
+              Markup.button.callback(`👁️ ${t(locale, 'button.ignore')}`, `ignore:${alert.id}`),
+              Markup.button.url(`📊 ${t(locale, 'link.dashboard')}`, `${config_values.frontend.url}/defend/${alert.reviewId}`),
+            ],
+          ]),
+        }
+      );
+    }
+  }
+
+  private async relations(ctx: Context) {
+    const locale = this.locale;
+    const relations = await db.getRelations(true);
+    if (relations.length === 0) {
+      await ctx.reply(t(locale, 'command.noRelations'));
+      return;
+    }
+
+    const now = new Date();
+    const lines = relations.slice(0, RELATIONS_LIMIT).map((r) => {
+      const muted = r.mutedUntil && r.mutedUntil > now ? ` 🔇 ${formatDateTime(r.mutedUntil, locale)}` : '';
+      return `• ${escapeHtml(r.name || r.address.slice(0, 10))} (${r.direction}) - ${r.score}${muted}`;
+    });
+    if (relations.length > lines.length) lines.push(t(locale, 'list.more', { count: relations.length - lines.length }));
+
+    await ctx.reply(`👥 <b>${t(locale, 'command.relationsTitle', { count: relations.length })}</b>\n\n${lines.join('\n')}`, { parse_mode: 'HTML' });
+  }
+
+  private async stats(ctx: Context) {
+    const locale = this.locale;
+    const stats = await db.getStats();
+
+    let message = `📊 <b>${t(locale, 'command.statsTitle')}</b>\n\n`;
+    message += `👥 ${t(locale, 'command.statsRelations', { active: stats.activeRelations, total: stats.totalRelations })}\n`;
+    message += `📝 ${t(locale, 'command.statsReviews', { total: stats.totalReviews, negative: stats.negativeReviews })}\n`;
+    message += `🚨 ${t(locale, 'command.statsAlerts', { total: stats.totalAlerts, pending: stats.pendingAlerts })}\n`;
+    message += `🛡️ ${t(locale, 'command.statsDefenses', { posted: stats.successfulDefenses, total: stats.defensesSent })}`;
+
+    await ctx.reply(message, { parse_mode: 'HTML' });
+  }
+
+  // /mute <relation> <duration|off>: the relation is matched by name, address, userkey or id
+  private async mute(ctx: Context, args: string[]) {
+    const locale = this.locale;
+    if (args.length < 2) {
+      await ctx.reply(t(locale, 'command.muteUsage'));
+      return;
+    }
+
+    const duration = args[args.length - 1].toLowerCase();
+    const query = args.slice(0, -1).join(' ').toLowerCase();
+    const matches = (await db.getRelations(true)).filter((r) =>
+      [r.id, r.userkey, r.address, r.name].some((v) => v?.toLowerCase() === query)
+    );
+
+    if (matches.length === 0) {
+      await ctx.reply(t(locale, 'command.relationNotFound', { query }));
+      return;
+    }
+    if (matches.length > 1) {
+      await ctx.reply(t(locale, 'command.relationAmbiguous', { count: matches.length }));
+      return;
+    }
+
+    const relation = matches[0];
+    const label = relation.name || relation.address.slice(0, 10);
+
+    if (duration === 'off') {
+      await db.setRelationMutedUntil(relation.id, null);
+      await ctx.reply(t(locale, 'command.unmuted', { name: label }));
+      return;
+    }
+
+    const ms = parseDuration(duration);
+    if (!ms) {
+      await ctx.reply(t(locale, 'command.invalidDuration'));
+      return;
+    }
+
+    const until = new Date(Date.now() + ms);
+    await db.setRelationMutedUntil(relation.id, until);
+    logger.info(`Relation ${relation.userkey} muted until ${until.toISOString()} from Telegram`);
+    await ctx.reply(t(locale, 'command.muted', { name: label, date: formatDateTime(until, locale) }));
+  }
+
+  // /token <jwt>: the message holding the token is deleted from the chat
+  private async token(ctx: Context, args: string[]) {
+    const locale = this.locale;
+    if (args.length !== 1) {
+      await ctx.reply(t(locale, 'command.tokenUsage'));
+      return;
+    }
+
+    await ctx.deleteMessage().catch(() => {
+      logger.warn('Could not delete the Telegram message containing the token');
+    });
+
+    const result = await tokenService.updateToken(args[0]);
+    if (!result.success) {
+      await ctx.reply(t(locale, 'command.tokenRefused', { error: result.error || '-' }));
+      return;
+    }
+
+    await ctx.reply(t(locale, 'command.tokenUpdated', { date: result.status.expiresAt ? formatDateTime(result.status.expiresAt, locale) : '-' }));
+  }
+}
+
+export const commandService = new CommandService();
+export default commandService;
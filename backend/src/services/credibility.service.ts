@@ -0,0 +1,132 @@
+import logger from '../utils/logger.js';
+import ethosService from './ethos.service.js';
+import { config_values } from '../config/env.js';
+import { t } from '../utils/i18n.js';
+import type { AttackerCredibility, AttackerRisk, EthosProfile } from '../models/types.js';
+
+// Accounts younger than this are considered fresh
+const YOUNG_ACCOUNT_DAYS = 30;
+const RECENT_ACCOUNT_DAYS = 90;
+// Ethos scores start around 1200; below these the author has little standing
+const LOW_SCORE = 1200;
+const VERY_LOW_SCORE = 800;
+// Inviters followed when looking for a chain of fresh accounts
+const MAX_INVITE_DEPTH = 3;
+// Assessments are reused for repeated reviews by the same author
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+class CredibilityService {
+  private cache = new Map<string, { at: number; value: AttackerCredibility | null }>();
+
+  // Assess how likely a review author is a throwaway/sybil account from its Ethos profile,
+  // score, invitation chain, vouches received and review volume. Null when Ethos has no data.
+  async assess(authorKey: string): Promise<AttackerCredibility | null> {
+    const cached = this.cache.get(authorKey);
+    if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.value;
+
+    let value: AttackerCredibility | null = null;
+    try {
+      value = await this.compute(authorKey);
+    } catch (error) {
+      logger.warn(`Failed to assess credibility of ${authorKey}:`, error);
+    }
+
+    this.cache.set(authorKey, { at: Date.now(), value });
+    return value;
+  }
+
+  private async compute(authorKey: string): Promise<AttackerCredibility | null> {
+    const [profile, score] = await Promise.all([
+      ethosService.getProfile(authorKey).catch(() => null),
+      ethosService.getScore(authorKey),
+    ]);
+    if (!profile && !score) return null;
+
+    let points = 0;
+    // Signals are stored with the review, in the default alert language
+    const locale = config_values.i18n.alertLocale;
+    const signals: string[] = [];
+
+    const accountAgeDays = profile ? this.getAgeDays(profile) : null;
+    if (accountAgeDays !== null && accountAgeDays < YOUNG_ACCOUNT_DAYS) {
+      points += 2;
+      signals.push(t(locale, 'signal.youngAccount', { days: accountAgeDays }));
+    } else if (accountAgeDays !== null && accountAgeDays < RECENT_ACCOUNT_DAYS) {
+      points += 1;
+      signals.push(t(locale, 'signal.recentAccount', { days: accountAgeDays }));
+    }
+
+    if (score && score.score < VERY_LOW_SCORE) {
+      points += 2;
+      signals.push(t(locale, 'signal.veryLowScore', { score: score.score }));
+    } else if (score && score.score < LOW_SCORE) {
+      points += 1;
+      signals.push(t(locale, 'signal.lowScore', { score: score.score }));
+    }
+
+    if (score && score.vouchesReceived === 0) {
+      points += 1;
+      signals.push(t(locale, 'signal.noVouch'));
+    }
+
+    // Mostly gives reviews without being reviewed itself
+    if (score && score.reviewsGiven >= 10 && score.reviewsGiven > 5 * (score.reviewsReceived + 1)) {
+      points += 1;
+      signals.push(t(locale, 'signal.reviewsRatio', { given: score.reviewsGiven, received: score.reviewsReceived }));
+    }
+
+    const freshInviters = profile ? await this.countFreshInviters(profile) : 0;
+    if (freshInviters > 0) {
+      points += freshInviters;
+      signals.push(t(locale, 'signal.freshInviters', { count: freshInviters }));
+    }
+
+    return {
+      risk: this.toRisk(points),
+      signals,
+      accountAgeDays,
+      score: score?.score ?? null,
+      vouchesReceived: score?.vouchesReceived ?? null,
+      reviewsGiven: score?.reviewsGiven ?? null,
+      invitedBy: profile?.invitedBy ?? null,
+    };
+  }
+
+  // Walk up the invitation chain while inviters are themselves fresh accounts
+  private async countFreshInviters(profile: EthosProfile): Promise<number> {
+    let count = 0;
+    let inviterId = profile.invitedBy;
+
+    while (inviterId && count < MAX_INVITE_DEPTH) {
+      const inviter = await ethosService.getProfile(`profileId:${inviterId}`).catch(() => null);
+      const age = inviter ? this.getAgeDays(inviter) : null;
+      if (!inviter || age === null || age >= YOUNG_ACCOUNT_DAYS) break;
+      count++;
+      inviterId = inviter.invitedBy;
+    }
+
+    return count;
+  }
+
+  // Profile age in days (createdAt may be an ISO date or a Unix timestamp)
+  private getAgeDays(profile: EthosProfile): number | null {
+    const raw = profile.createdAt as string | number | undefined;
+    if (raw === undefined || raw === null) return null;
+
+    const date = typeof raw === 'number' || /^\d+$/.test(raw)
+      ? new Date(Number(raw) * 1000)
+      : new Date(raw);
+    if (isNaN(date.getTime())) return null;
+
+    return Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000));
+  }
+
+  private toRisk(points: number): AttackerRisk {
+    if (points >= 4) return 'high';
+    if (points >= 2) return 'medium';
+    return 'low';
+  }
+}
+
+export const credibilityService = new CredibilityService();
+export default credibilityService;
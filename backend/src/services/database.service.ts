@@ -1,19 +1,132 @@
 import { PrismaClient } from '@prisma/client';
+import type { AttackerCredibility, RelationDirection, RuleActions, RuleConditions, WebhookEventType } from '../models/types.js';
+import { DEFAULT_ACCOUNT_ID } from '../models/types.js';
 
 // Type aliases for string-based enums (SQLite doesn't support native enums)
-type AlertType = 'NEGATIVE_REVIEW' | 'SLASH' | 'UNVOUCH';
-type AlertChannel = 'TELEGRAM' | 'DISCORD' | 'TWITTER' | 'ALL';
+type AlertType = 'NEGATIVE_REVIEW' | 'SLASH' | 'UNVOUCH' | 'SCORE_DROP';
+type AlertChannel = 'TELEGRAM' | 'DISCORD' | 'SLACK' | 'EMAIL' | 'MATRIX' | 'NTFY' | 'TWITTER' | 'ALL';
 type AlertStatus = 'PENDING' | 'CONFIRMED' | 'IGNORED' | 'EXPIRED';
-type DefenseStatus = 'PENDING' | 'CONFIRMED' | 'POSTED' | 'FAILED';
+type DefenseStatus = 'PENDING' | 'CONFIRMED' | 'POSTED' | 'FAILED' | 'EXPIRED';
+type ReviewStatus = 'active' | 'edited' | 'archived' | 'retracted';
+type IncidentStatus = 'OPEN' | 'RESOLVED';
+type WebhookDeliveryStatus = 'SUCCESS' | 'RETRYING' | 'FAILED';
 import logger from '../utils/logger.js';
 
 const prisma = new PrismaClient();
 
+// Slashes are stored with score 0 but are attacks like negative reviews
+const isNegativeReview = (type: string | undefined, score: number) => type === 'slash' || score < 0;
+
+// Score drops are stored as Review rows for their alerts to reference, but are not reviews:
+// they are left out wherever reviews are listed or counted
+const NOT_SCORE_DROP = { type: { not: 'score_drop' } };
+
+// Editable account settings, null means "use the global value"
+interface AccountSettings {
+  name?: string;
+  privyToken?: string | null;
+  scope?: string | null;
+  telegramChatId?: string | null;
+  discordWebhookUrl?: string | null;
+  slackChannelId?: string | null;
+  emailTo?: string | null;
+  matrixRoomId?: string | null;
+  ntfyTopic?: string | null;
+  autoDefenseEnabled?: boolean | null;
+  autoDefenseRequireConfirm?: boolean | null;
+  autoDefenseDefaultScore?: number | null;
+  isActive?: boolean;
+}
+
+// Editable alert rule fields
+interface AlertRuleData {
+  accountId?: string | null;
+  name?: string;
+  enabled?: boolean;
+  priority?: number;
+  conditions?: RuleConditions;
+  actions?: RuleActions;
+}
+
+// Editable webhook fields
+interface WebhookData {
+  accountId?: string | null;
+  name?: string;
+  url?: string;
+  secret?: string;
+  events?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+// Conditions and actions are stored as JSON strings
+function serializeRuleData(data: AlertRuleData) {
+  const { conditions, actions, ...rest } = data;
+  return {
+    ...rest,
+    ...(conditions ? { conditions: JSON.stringify(conditions) } : {}),
+    ...(actions ? { actions: JSON.stringify(actions) } : {}),
+  };
+}
+
 export const db = {
+  // Accounts
+  async ensureDefaultAccount(userkey: string) {
+    const account = await prisma.monitoredAccount.upsert({
+      where: { id: DEFAULT_ACCOUNT_ID },
+      update: { userkey },
+      create: { id: DEFAULT_ACCOUNT_ID, name: 'Default', userkey },
+    });
+
+    // Relations stored before multi-account belong to the default account
+    await prisma.relation.updateMany({
+      where: { accountId: null },
+      data: { accountId: DEFAULT_ACCOUNT_ID },
+    });
+
+    return account;
+  },
+
+  async getAccounts(activeOnly = false) {
+    return prisma.monitoredAccount.findMany({
+      where: activeOnly ? { isActive: true } : undefined,
+      include: {
+        _count: {
+          select: { relations: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  async getAccountById(id: string) {
+    return prisma.monitoredAccount.findUnique({ where: { id } });
+  },
+
+  async getAccountByUserkey(userkey: string) {
+    return prisma.monitoredAccount.findUnique({ where: { userkey } });
+  },
+
+  async createAccount(data: AccountSettings & { name: string; userkey: string }) {
+    return prisma.monitoredAccount.create({ data });
+  },
+
+  async updateAccount(id: string, data: AccountSettings) {
+    return prisma.monitoredAccount.update({
+      where: { id },
+      data,
+    });
+  },
+
+  async deleteAccount(id: string) {
+    return prisma.monitoredAccount.delete({ where: { id } });
+  },
+
   // Relations
   async upsertRelation(data: {
     id: string;
+    accountId: string;
     userkey: string;
+    direction?: RelationDirection;
     name?: string | null;
     address: string;
     avatarUrl?: string | null;
@@ -25,11 +138,15 @@ export const db = {
         name: data.name,
         avatarUrl: data.avatarUrl,
         score: data.score,
+        direction: data.direction,
+        isActive: true,
         updatedAt: new Date(),
       },
       create: {
         id: data.id,
+        accountId: data.accountId,
         userkey: data.userkey,
+        direction: data.direction,
         name: data.name,
         address: data.address,
         avatarUrl: data.avatarUrl,
@@ -38,17 +155,23 @@ export const db = {
     });
   },
 
-  async getRelations(activeOnly = true) {
+  async getRelations(activeOnly = true, filter?: { direction?: RelationDirection; accountId?: string }) {
+    const where: Record<string, unknown> = {};
+    if (activeOnly) where.isActive = true;
+    if (filter?.direction) where.direction = filter.direction;
+    if (filter?.accountId) where.accountId = filter.accountId;
+
     return prisma.relation.findMany({
-      where: activeOnly ? { isActive: true } : undefined,
+      where,
       include: {
         reviews: {
+          where: NOT_SCORE_DROP,
           orderBy: { createdAt: 'desc' },
           take: 5,
         },
         _count: {
           select: {
-            reviews: true,
+            reviews: { where: NOT_SCORE_DROP },
             alerts: true,
           },
         },
@@ -62,6 +185,7 @@ export const db = {
       where: { id },
       include: {
         reviews: {
+          where: NOT_SCORE_DROP,
           orderBy: { createdAt: 'desc' },
         },
         alerts: {
@@ -71,6 +195,69 @@ export const db = {
     });
   },
 
+  async setRelationActive(id: string, isActive: boolean) {
+    return prisma.relation.update({
+      where: { id },
+      data: { isActive },
+    });
+  },
+
+  async updateRelationCursor(id: string, cursor: { at: Date; id: string | null }) {
+    return prisma.relation.update({
+      where: { id },
+      data: {
+        lastActivityAt: cursor.at,
+        lastActivityId: cursor.id,
+      },
+    });
+  },
+
+  async setRelationMutedUntil(id: string, mutedUntil: Date | null) {
+    return prisma.relation.update({
+      where: { id },
+      data: { mutedUntil },
+    });
+  },
+
+  async isRelationMuted(id: string) {
+    const relation = await prisma.relation.findUnique({
+      where: { id },
+      select: { mutedUntil: true },
+    });
+    return !!relation?.mutedUntil && relation.mutedUntil > new Date();
+  },
+
+  async updateRelationScore(id: string, score: number) {
+    return prisma.relation.update({
+      where: { id },
+      data: { score },
+    });
+  },
+
+  // Score history
+  async createScoreSnapshot(relationId: string, score: number) {
+    return prisma.scoreSnapshot.create({
+      data: { relationId, score },
+    });
+  },
+
+  async getLatestScoreSnapshot(relationId: string) {
+    return prisma.scoreSnapshot.findFirst({
+      where: { relationId },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  async getScoreHistory(relationId: string, since?: Date) {
+    return prisma.scoreSnapshot.findMany({
+      where: {
+        relationId,
+        ...(since ? { createdAt: { gte: since } } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
   // Reviews
   async reviewExists(activityId: string) {
     const review = await prisma.review.findUnique({
@@ -82,6 +269,7 @@ export const db = {
   async createReview(data: {
     id: string;
     relationId: string;
+    type?: string;
     authorKey: string;
     authorName?: string | null;
     authorAddr?: string | null;
@@ -94,7 +282,7 @@ export const db = {
     return prisma.review.create({
       data: {
         ...data,
-        isNegative: data.score < 0,
+        isNegative: isNegativeReview(data.type, data.score),
       },
     });
   },
@@ -102,12 +290,14 @@ export const db = {
   async getReviews(options?: {
     negative?: boolean;
     relationId?: string;
+    accountId?: string;
     limit?: number;
     offset?: number;
   }) {
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = { ...NOT_SCORE_DROP };
     if (options?.negative !== undefined) where.isNegative = options.negative;
     if (options?.relationId) where.relationId = options.relationId;
+    if (options?.accountId) where.relation = { accountId: options.accountId };
 
     const [data, total] = await Promise.all([
       prisma.review.findMany({
@@ -125,6 +315,100 @@ export const db = {
     return { data, total };
   },
 
+  async getReviewById(id: string) {
+    return prisma.review.findUnique({
+      where: { id },
+      include: {
+        relation: true,
+      },
+    });
+  },
+
+  // Stored negative reviews and slashes that may still be edited or withdrawn
+  async updateReviewCredibility(id: string, credibility: AttackerCredibility) {
+    return prisma.review.update({
+      where: { id },
+      data: {
+        attackerRisk: credibility.risk,
+        attackerSignals: credibility.signals.join('; ') || null,
+      },
+    });
+  },
+
+  async getReviewsToVerify(since: Date) {
+    return prisma.review.findMany({
+      where: {
+        type: { in: ['review', 'slash'] },
+        status: { in: ['active', 'edited'] },
+        isNegative: true,
+        activityId: { not: null },
+        createdAt: { gte: since },
+      },
+      include: {
+        relation: true,
+      },
+      orderBy: { verifiedAt: 'asc' },
+    });
+  },
+
+  async updateReviewVerification(
+    review: { id: string; type: string },
+    data: { status?: ReviewStatus; score?: number; comment?: string | null }
+  ) {
+    return prisma.review.update({
+      where: { id: review.id },
+      data: {
+        ...data,
+        ...(data.score !== undefined ? { isNegative: isNegativeReview(review.type, data.score) } : {}),
+        verifiedAt: new Date(),
+      },
+    });
+  },
+
+  async createReviewRevision(data: { reviewId: string; score: number; comment?: string | null }) {
+    return prisma.reviewRevision.create({ data });
+  },
+
+  async getReviewRevisions(reviewId: string) {
+    return prisma.reviewRevision.findMany({
+      where: { reviewId },
+      orderBy: { detectedAt: 'asc' },
+    });
+  },
+
+  // Expire pending alerts and defenses of a review whose attack was withdrawn
+  async expireReviewResponses(reviewId: string) {
+    const [alerts, defenses] = await Promise.all([
+      prisma.alert.updateMany({
+        where: { reviewId, status: 'PENDING' },
+        data: { status: 'EXPIRED', respondedAt: new Date() },
+      }),
+      prisma.defense.updateMany({
+        where: { reviewId, status: { in: ['PENDING', 'CONFIRMED'] } },
+        data: { status: 'EXPIRED' },
+      }),
+    ]);
+
+    return { alerts: alerts.count, defenses: defenses.count };
+  },
+
+  // Negative reviews and slashes, optionally for one author or account
+  async getAttacks(options?: { authorKey?: string; accountId?: string; since?: Date }) {
+    return prisma.review.findMany({
+      where: {
+        type: { in: ['review', 'slash'] },
+        isNegative: true,
+        ...(options?.authorKey ? { authorKey: options.authorKey } : {}),
+        ...(options?.accountId ? { relation: { accountId: options.accountId } } : {}),
+        ...(options?.since ? { createdAt: { gte: options.since } } : {}),
+      },
+      include: {
+        relation: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
   async markReviewAlerted(id: string) {
     return prisma.review.update({
       where: { id },
@@ -132,6 +416,117 @@ export const db = {
     });
   },
 
+  // Alert rules (accountId null applies to every account)
+  async getAlertRules(options?: { accountId?: string; enabledOnly?: boolean }) {
+    return prisma.alertRule.findMany({
+      where: {
+        ...(options?.accountId ? { OR: [{ accountId: null }, { accountId: options.accountId }] } : {}),
+        ...(options?.enabledOnly ? { enabled: true } : {}),
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+  },
+
+  async getAlertRuleById(id: string) {
+    return prisma.alertRule.findUnique({ where: { id } });
+  },
+
+  async createAlertRule(data: AlertRuleData & { name: string }) {
+    return prisma.alertRule.create({ data: { ...serializeRuleData(data), name: data.name } });
+  },
+
+  async updateAlertRule(id: string, data: AlertRuleData) {
+    return prisma.alertRule.update({
+      where: { id },
+      data: serializeRuleData(data),
+    });
+  },
+
+  async deleteAlertRule(id: string) {
+    return prisma.alertRule.delete({ where: { id } });
+  },
+
+  // Incidents
+  async createIncident(data: { accountId: string; startedAt: Date; lastActivityAt: Date }) {
+    return prisma.incident.create({ data });
+  },
+
+  // Attach reviews to an incident and refresh its counters
+  async attachReviewsToIncident(incidentId: string, reviewIds: string[]) {
+    await prisma.review.updateMany({
+      where: { id: { in: reviewIds } },
+      data: { incidentId },
+    });
+
+    const reviews = await prisma.review.findMany({
+      where: { incidentId },
+      select: { authorKey: true, relationId: true, createdAt: true },
+    });
+    const times = reviews.map(r => r.createdAt.getTime());
+
+    return prisma.incident.update({
+      where: { id: incidentId },
+      data: {
+        reviewCount: reviews.length,
+        authorCount: new Set(reviews.map(r => r.authorKey)).size,
+        targetCount: new Set(reviews.map(r => r.relationId)).size,
+        startedAt: new Date(Math.min(...times)),
+        lastActivityAt: new Date(Math.max(...times)),
+      },
+    });
+  },
+
+  // Move the reviews and alerts of other incidents into one, then delete them
+  async mergeIncidents(incidentId: string, otherIds: string[]) {
+    await prisma.$transaction([
+      prisma.review.updateMany({ where: { incidentId: { in: otherIds } }, data: { incidentId } }),
+      prisma.alert.updateMany({ where: { incidentId: { in: otherIds } }, data: { incidentId } }),
+      prisma.incident.deleteMany({ where: { id: { in: otherIds } } }),
+    ]);
+  },
+
+  async getIncidents(options?: {
+    status?: IncidentStatus;
+    accountId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const where: Record<string, unknown> = {};
+    if (options?.status) where.status = options.status;
+    if (options?.accountId) where.accountId = options.accountId;
+
+    const [data, total] = await Promise.all([
+      prisma.incident.findMany({
+        where,
+        orderBy: { lastActivityAt: 'desc' },
+        take: options?.limit || 50,
+        skip: options?.offset || 0,
+      }),
+      prisma.incident.count({ where }),
+    ]);
+
+    return { data, total };
+  },
+
+  async getIncidentById(id: string) {
+    return prisma.incident.findUnique({
+      where: { id },
+      include: {
+        reviews: {
+          include: { relation: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+  },
+
+  async updateIncidentStatus(id: string, status: IncidentStatus) {
+    return prisma.incident.update({
+      where: { id },
+      data: { status },
+    });
+  },
+
   // Alerts
   async createAlert(data: {
     reviewId: string;
@@ -139,19 +534,33 @@ export const db = {
     type: AlertType;
     channel: AlertChannel;
     messageId?: string;
+    incidentId?: string;
   }) {
     return prisma.alert.create({ data });
   },
 
+  async updateAlertMessageId(id: string, messageId: string) {
+    return prisma.alert.update({
+      where: { id },
+      data: { messageId },
+    });
+  },
+
+  async deleteAlert(id: string) {
+    return prisma.alert.delete({ where: { id } });
+  },
+
   async getAlerts(options?: {
     status?: AlertStatus;
     relationId?: string;
+    accountId?: string;
     limit?: number;
     offset?: number;
   }) {
     const where: Record<string, unknown> = {};
     if (options?.status) where.status = options.status;
     if (options?.relationId) where.relationId = options.relationId;
+    if (options?.accountId) where.relation = { accountId: options.accountId };
 
     const [data, total] = await Promise.all([
       prisma.alert.findMany({
@@ -190,6 +599,64 @@ export const db = {
     });
   },
 
+  // Alert delivered as a given channel message
+  async getAlertByMessageId(channel: AlertChannel, messageId: string) {
+    return prisma.alert.findFirst({
+      where: { channel, messageId },
+      include: {
+        review: true,
+        relation: true,
+      },
+    });
+  },
+
+  // Alert of a review still waiting for an answer (on any channel)
+  async getPendingAlertOfReview(reviewId: string) {
+    return prisma.alert.findFirst({
+      where: { reviewId, status: 'PENDING' },
+      orderBy: { sentAt: 'asc' },
+    });
+  },
+
+  // Alerts of a review delivered as their own message: incident messages are shared by
+  // every review of the incident and are never replaced by the outcome of one of them
+  async getAlertMessages(reviewId: string) {
+    return prisma.alert.findMany({
+      where: { reviewId, messageId: { not: null }, incidentId: null },
+      include: {
+        review: true,
+        relation: true,
+      },
+    });
+  },
+
+  // Pending alerts sent before a date, oldest first, for escalation
+  async getUnansweredAlerts(sentBefore: Date) {
+    return prisma.alert.findMany({
+      where: { status: 'PENDING', sentAt: { lte: sentBefore } },
+      include: {
+        review: true,
+        relation: true,
+      },
+      orderBy: { sentAt: 'asc' },
+    });
+  },
+
+  // Escalation level applies to every pending alert of a review (one per channel)
+  async updateAlertEscalation(reviewId: string, escalationLevel: number) {
+    return prisma.alert.updateMany({
+      where: { reviewId, status: 'PENDING' },
+      data: { escalationLevel, escalatedAt: new Date() },
+    });
+  },
+
+  async updateReviewAlertsStatus(reviewId: string, status: AlertStatus) {
+    return prisma.alert.updateMany({
+      where: { reviewId, status: 'PENDING' },
+      data: { status, respondedAt: new Date() },
+    });
+  },
+
   // Defenses
   async createDefense(data: {
     reviewId: string;
@@ -209,7 +676,7 @@ export const db = {
   async updateDefenseStatus(
     id: string,
     status: DefenseStatus,
-    extra?: { ethosReviewId?: string; txHash?: string; error?: string }
+    extra?: { ethosReviewId?: string; txHash?: string; twitterPostId?: string; error?: string }
   ) {
     return prisma.defense.update({
       where: { id },
@@ -221,6 +688,13 @@ export const db = {
     });
   },
 
+  async updateDefenseContent(id: string, data: { score?: number; comment?: string }) {
+    return prisma.defense.update({
+      where: { id },
+      data,
+    });
+  },
+
   async getPendingDefense(reviewId: string) {
     return prisma.defense.findFirst({
       where: {
@@ -231,7 +705,11 @@ export const db = {
   },
 
   // Stats
-  async getStats() {
+  async getStats(accountId?: string) {
+    const byRelation = accountId ? { accountId } : {};
+    const byParent = accountId ? { relation: { accountId } } : {};
+    const byReview = accountId ? { review: { relation: { accountId } } } : {};
+
     const [
       totalRelations,
       activeRelations,
@@ -242,14 +720,14 @@ export const db = {
       defensesSent,
       successfulDefenses,
     ] = await Promise.all([
-      prisma.relation.count(),
-      prisma.relation.count({ where: { isActive: true } }),
-      prisma.review.count(),
-      prisma.review.count({ where: { isNegative: true } }),
-      prisma.alert.count(),
-      prisma.alert.count({ where: { status: 'PENDING' } }),
-      prisma.defense.count(),
-      prisma.defense.count({ where: { status: 'POSTED' } }),
+      prisma.relation.count({ where: byRelation }),
+      prisma.relation.count({ where: { ...byRelation, isActive: true } }),
+      prisma.review.count({ where: { ...byParent, ...NOT_SCORE_DROP } }),
+      prisma.review.count({ where: { ...byParent, isNegative: true } }),
+      prisma.alert.count({ where: byParent }),
+      prisma.alert.count({ where: { ...byParent, status: 'PENDING' } }),
+      prisma.defense.count({ where: byReview }),
+      prisma.defense.count({ where: { ...byReview, status: 'POSTED' } }),
     ]);
 
     return {
@@ -264,6 +742,139 @@ export const db = {
     };
   },
 
+  // Alerts queued during quiet hours
+  async queueAlert(data: { channel: string; target: string; message: string }) {
+    return prisma.queuedAlert.create({ data });
+  },
+
+  async getQueuedAlerts() {
+    return prisma.queuedAlert.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  async deleteQueuedAlerts(ids: string[]) {
+    return prisma.queuedAlert.deleteMany({
+      where: { id: { in: ids } },
+    });
+  },
+
+  // Activity counters of an account since a date, for digests
+  async getDigestCounts(accountId: string, since: Date) {
+    const byAccount = { relation: { accountId } };
+
+    const [newRelations, reviewsReceived, negativeReviews, defensesPosted] = await Promise.all([
+      prisma.relation.count({ where: { accountId, createdAt: { gte: since } } }),
+      prisma.review.count({ where: { ...byAccount, type: { in: ['review', 'slash'] }, createdAt: { gte: since } } }),
+      prisma.review.count({ where: { ...byAccount, type: { in: ['review', 'slash'] }, isNegative: true, createdAt: { gte: since } } }),
+      prisma.defense.count({ where: { review: byAccount, status: 'POSTED', postedAt: { gte: since } } }),
+    ]);
+
+    return { newRelations, reviewsReceived, negativeReviews, defensesPosted };
+  },
+
+  // Score snapshots of an account's relations since a date, oldest first
+  async getScoreSnapshotsSince(accountId: string, since: Date) {
+    return prisma.scoreSnapshot.findMany({
+      where: {
+        createdAt: { gte: since },
+        relation: { accountId },
+      },
+      include: { relation: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  // Webhooks (accountId null receives the events of every account, events are stored as JSON)
+  async getWebhooks(options?: { accountId?: string; enabledOnly?: boolean }) {
+    return prisma.webhook.findMany({
+      where: {
+        ...(options?.accountId ? { OR: [{ accountId: null }, { accountId: options.accountId }] } : {}),
+        ...(options?.enabledOnly ? { enabled: true } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  async getWebhookById(id: string) {
+    return prisma.webhook.findUnique({ where: { id } });
+  },
+
+  async createWebhook(data: WebhookData & { name: string; url: string; secret: string }) {
+    const { events, ...rest } = data;
+    return prisma.webhook.create({
+      data: { ...rest, events: JSON.stringify(events || []) },
+    });
+  },
+
+  async updateWebhook(id: string, data: WebhookData) {
+    const { events, ...rest } = data;
+    return prisma.webhook.update({
+      where: { id },
+      data: { ...rest, ...(events ? { events: JSON.stringify(events) } : {}) },
+    });
+  },
+
+  async deleteWebhook(id: string) {
+    return prisma.webhook.delete({ where: { id } });
+  },
+
+  async createWebhookDelivery(data: {
+    webhookId: string;
+    eventId: string;
+    event: string;
+    payload: string;
+    attempt: number;
+    status: WebhookDeliveryStatus;
+    responseStatus?: number;
+    error?: string;
+    duration: number;
+    nextAttemptAt?: Date;
+  }) {
+    return prisma.webhookDelivery.create({ data });
+  },
+
+  // Failed attempts whose retry is due, with their webhook
+  async getDueWebhookRetries(now: Date) {
+    return prisma.webhookDelivery.findMany({
+      where: { status: 'RETRYING', nextAttemptAt: { lte: now } },
+      include: { webhook: true },
+      orderBy: { nextAttemptAt: 'asc' },
+    });
+  },
+
+  // A retried attempt stays in the history as failed
+  async closeWebhookRetry(id: string) {
+    return prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: 'FAILED', nextAttemptAt: null },
+    });
+  },
+
+  async getWebhookDeliveries(webhookId: string, options?: { status?: WebhookDeliveryStatus; eventId?: string; limit?: number; offset?: number }) {
+    const where = {
+      webhookId,
+      ...(options?.status ? { status: options.status } : {}),
+      ...(options?.eventId ? { eventId: options.eventId } : {}),
+    };
+
+    const [data, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: options?.limit || 50,
+        skip: options?.offset || 0,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { data, total };
+  },
+
+  async getWebhookDeliveryById(id: string) {
+    return prisma.webhookDelivery.findUnique({ where: { id }, include: { webhook: true } });
+  },
+
   // Monitor Logs
   async logMonitorRun(data: {
     relationsChecked: number;
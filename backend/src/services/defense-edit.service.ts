@@ -0,0 +1,234 @@
+import { Markup, type Context, type Telegraf } from 'telegraf';
+import logger from '../utils/logger.js';
+import { escapeHtml } from '../utils/html.js';
+import { channelLocale, t } from '../utils/i18n.js';
+import db from './database.service.js';
+import alertService from './alert.service.js';
+import type { TelegramCallbackData } from '../models/types.js';
+
+interface EditSession {
+  alertId: string;
+  reviewId: string;
+  defenseId: string;
+  userId?: number;
+  actor?: string;
+  score: number;
+  comment: string;
+  // Last prompt/preview message, its buttons are removed when a newer one is sent
+  messageId?: number;
+  expiresAt: number;
+}
+
+// An edit left unfinished is dropped after this delay
+const SESSION_TTL_MS = 30 * 60 * 1000;
+// Same bounds as the dashboard defense form
+const MAX_COMMENT_LENGTH = 1000;
+const SCORES = [1, 2, 3];
+
+// Edit buttons: "dscore:<alertId>:<score>", "dpost:<alertId>", "dcancel:<alertId>"
+const EDIT_CALLBACK = /^(dscore|dpost|dcancel):([^:]+)(?::(\d))?$/;
+
+class DefenseEditService {
+  private bot: Telegraf | null = null;
+  // One edit at a time per Telegram chat
+  private sessions: Map<number, EditSession> = new Map();
+
+  // Handle the "Edit" button of Telegram alerts with an edit flow in the chat
+  start() {
+    this.bot = alertService.getTelegramBot();
+    if (!this.bot) return;
+
+    alertService.onCallback('edit', (data) => this.begin(data));
+
+    this.bot.action(EDIT_CALLBACK, async (ctx) => {
+      try {
+        const [, action, alertId, score] = ctx.match;
+        await this.handleButton(ctx, action, alertId, Number(score));
+      } catch (error) {
+        logger.error('Defense edit callback error:', error);
+        await ctx.answerCbQuery(t(channelLocale('telegram'), 'action.error', { error: error instanceof Error ? error.message : String(error) }).slice(0, 200));
+      }
+    });
+
+    // The new comment comes as a reply to the last prompt/preview: other messages of the chat
+    // (commands, conversation) never overwrite the defense
+    this.bot.on('text', async (ctx, next) => {
+      const session = this.getSession(ctx.chat.id);
+      if (
+        !session
+        || !session.messageId
+        || ctx.message.reply_to_message?.message_id !== session.messageId
+        || ctx.message.text.startsWith('/')
+        || (session.userId && session.userId !== ctx.from.id)
+      ) {
+        return next();
+      }
+
+      try {
+        await this.updateComment(ctx, session, ctx.message.text.trim());
+      } catch (error) {
+        logger.error('Defense edit error:', error);
+        await ctx.reply(t(channelLocale('telegram'), 'action.error', { error: error instanceof Error ? error.message : String(error) }));
+      }
+    });
+  }
+
+  // Start editing the pending defense of the alert's review
+  private async begin(data: TelegramCallbackData): Promise<boolean> {
+    logger.info(`Edit requested for review ${data.reviewId}`);
+    if (!this.bot || data.chatId === undefined) return false;
+    const locale = channelLocale('telegram');
+
+    const alert = await db.getAlertById(data.alertId);
+    const defense = await db.getPendingDefense(data.reviewId);
+    if (!alert || alert.status !== 'PENDING' || !defense) {
+      await this.bot.telegram.sendMessage(data.chatId, t(locale, 'edit.noPendingDefense'));
+      return false;
+    }
+
+    const previous = this.sessions.get(data.chatId);
+    if (previous) await this.clearButtons(data.chatId, previous);
+
+    const session: EditSession = {
+      alertId: data.alertId,
+      reviewId: data.reviewId,
+      defenseId: defense.id,
+      userId: data.userId,
+      actor: data.actor,
+      score: defense.score,
+      comment: defense.comment,
+      expiresAt: Date.now() + SESSION_TTL_MS,
+    };
+    this.sessions.set(data.chatId, session);
+
+    let message = `✏️ <b>${t(locale, 'edit.title')}</b>\n\n`;
+    message += this.formatDefense(session);
+    message += `\n\n${t(locale, 'edit.prompt')}`;
+
+    const sent = await this.bot.telegram.sendMessage(data.chatId, message, {
+      parse_mode: 'HTML',
+      ...this.createButtons(session, false),
+    });
+    session.messageId = sent.message_id;
+    return true;
+  }
+
+  private async handleButton(ctx: Context, action: string, alertId: string, score: number) {
+    const locale = channelLocale('telegram');
+    const chatId = ctx.chat?.id;
+    const session = chatId !== undefined ? this.getSession(chatId) : null;
+    if (chatId === undefined || !session || session.alertId !== alertId) {
+      await ctx.answerCbQuery(t(locale, 'edit.expired'));
+      await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+      return;
+    }
+    if (session.userId && session.userId !== ctx.from?.id) {
+      await ctx.answerCbQuery(t(locale, 'edit.otherUser'));
+      return;
+    }
+
+    if (action === 'dcancel') {
+      this.sessions.delete(chatId);
+      await ctx.answerCbQuery(t(locale, 'edit.finished'));
+      await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+      await ctx.reply(t(locale, 'edit.stillPending'));
+      return;
+    }
+
+    if (action === 'dscore') {
+      if (!SCORES.includes(score)) {
+        await ctx.answerCbQuery(t(locale, 'edit.invalidScore'));
+        return;
+      }
+      session.score = score;
+      session.expiresAt = Date.now() + SESSION_TTL_MS;
+      await db.updateDefenseContent(session.defenseId, { score });
+      await ctx.answerCbQuery(`Score +${score}`);
+      await ctx.editMessageText(this.formatPreview(session), { parse_mode: 'HTML', ...this.createButtons(session, true) });
+      session.messageId = ctx.callbackQuery?.message?.message_id;
+      return;
+    }
+
+    // dpost: the alert may have been handled from another channel in the meantime
+    this.sessions.delete(chatId);
+    await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+
+    const alert = await db.getAlertById(session.alertId);
+    if (!alert || alert.status !== 'PENDING') {
+      await ctx.answerCbQuery(t(locale, 'action.alreadyHandled', { status: alert?.status || t(locale, 'edit.deleted') }));
+      return;
+    }
+
+    await ctx.answerCbQuery(t(locale, 'edit.publishing'));
+    logger.info(`Edited defense confirmed for review ${session.reviewId}`);
+    const posted = await alertService.handleAction({
+      action: 'confirm',
+      alertId: session.alertId,
+      reviewId: session.reviewId,
+      actor: session.actor,
+    });
+    await ctx.reply(t(locale, posted ? 'edit.posted' : 'edit.failed'));
+  }
+
+  private async updateComment(ctx: Context, session: EditSession, comment: string) {
+    const chatId = ctx.chat!.id;
+    if (!comment || comment.length > MAX_COMMENT_LENGTH) {
+      await ctx.reply(t(channelLocale('telegram'), 'edit.commentLength', { max: MAX_COMMENT_LENGTH }));
+      return;
+    }
+
+    session.comment = comment;
+    session.expiresAt = Date.now() + SESSION_TTL_MS;
+    await db.updateDefenseContent(session.defenseId, { comment });
+
+    await this.clearButtons(chatId, session);
+    const sent = await ctx.reply(this.formatPreview(session), { parse_mode: 'HTML', ...this.createButtons(session, true) });
+    session.messageId = sent.message_id;
+  }
+
+  private getSession(chatId: number): EditSession | null {
+    const session = this.sessions.get(chatId);
+    if (!session) return null;
+    if (session.expiresAt < Date.now()) {
+      this.sessions.delete(chatId);
+      return null;
+    }
+    return session;
+  }
+
+  private async clearButtons(chatId: number, session: EditSession) {
+    if (!this.bot || !session.messageId) return;
+    await this.bot.telegram.editMessageReplyMarkup(chatId, session.messageId, undefined, undefined).catch(() => undefined);
+  }
+
+  private formatDefense(session: EditSession): string {
+    return `⭐ ${t(channelLocale('telegram'), 'field.score')}: +${session.score}\n💬 ${escapeHtml(session.comment)}`;
+  }
+
+  private formatPreview(session: EditSession): string {
+    const locale = channelLocale('telegram');
+    let message = `👀 <b>${t(locale, 'edit.previewTitle')}</b>\n\n`;
+    message += this.formatDefense(session);
+    message += `\n\n${t(locale, 'edit.previewPrompt')}`;
+    return message;
+  }
+
+  // Score buttons, then publish (preview only) and cancel
+  private createButtons(session: EditSession, preview: boolean) {
+    const locale = channelLocale('telegram');
+    const scoreButtons = SCORES.map((score) =>
+      Markup.button.callback(`${score === session.score ? '• ' : ''}+${score}`, `dscore:${session.alertId}:${score}`)
+    );
+
+    return Markup.inlineKeyboard([
+      scoreButtons,
+      [
+        ...(preview ? [Markup.button.callback(t(locale, 'edit.publish'), `dpost:${session.alertId}`)] : []),
+        Markup.button.callback(t(locale, 'edit.cancel'), `dcancel:${session.alertId}`),
+      ],
+    ]);
+  }
+}
+
+export const defenseEditService = new DefenseEditService();
+export default defenseEditService;
@@ -0,0 +1,124 @@
+import { config_values } from '../config/env.js';
+import logger from '../utils/logger.js';
+import alertService from './alert.service.js';
+import accountService from './account.service.js';
+import db from './database.service.js';
+import emailService, { type EmailContent } from './email.service.js';
+import { channelLocale, formatDateTime, t } from '../utils/i18n.js';
+import { escapeForChannel } from '../utils/html.js';
+import type { AccountContext, AlertChannelName, DigestSummary, Locale } from '../models/types.js';
+import { DEFAULT_ACCOUNT_ID } from '../models/types.js';
+
+type DigestFrequency = 'daily' | 'weekly';
+
+class DigestService {
+  // Send the activity digest of every active account through its alert channels
+  async sendDigests(frequency: DigestFrequency): Promise<void> {
+    const days = frequency === 'weekly' ? 7 : 1;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    for (const account of await accountService.getActiveContexts()) {
+      try {
+        const summary = await this.buildSummary(account.id, since);
+        await alertService.sendNotification((locale, channel) => this.format(account, summary, frequency, locale, channel), 'all', account.routing);
+        if (emailService.isEnabled()) {
+          await emailService.send(this.formatEmail(account, summary, frequency, channelLocale('email')), account.routing.emailTo);
+        }
+        logger.info(`[${account.name}] ${frequency} digest sent`);
+      } catch (error) {
+        logger.error(`[${account.name}] Failed to send ${frequency} digest:`, error);
+      }
+    }
+  }
+
+  // Activity of an account since a date, with the relations whose score moved
+  async buildSummary(accountId: string, since: Date): Promise<DigestSummary> {
+    const [counts, snapshots] = await Promise.all([
+      db.getDigestCounts(accountId, since),
+      db.getScoreSnapshotsSince(accountId, since),
+    ]);
+
+    // First and last snapshot of each relation over the period
+    const byRelation = new Map<string, { first: typeof snapshots[number]; last: typeof snapshots[number] }>();
+    for (const snapshot of snapshots) {
+      const entry = byRelation.get(snapshot.relationId);
+      if (entry) entry.last = snapshot;
+      else byRelation.set(snapshot.relationId, { first: snapshot, last: snapshot });
+    }
+
+    const scoreChanges = Array.from(byRelation.values())
+      .filter(({ first, last }) => first.score !== last.score)
+      .map(({ first, last }) => ({
+        name: last.relation.name,
+        address: last.relation.address,
+        previous: first.score,
+        current: last.score,
+      }))
+      .sort((a, b) => Math.abs(b.current - b.previous) - Math.abs(a.current - a.previous));
+
+    return { since, ...counts, scoreChanges };
+  }
+
+  private format(
+    account: AccountContext,
+    summary: DigestSummary,
+    frequency: DigestFrequency,
+    locale: Locale,
+    channel: AlertChannelName
+  ): string {
+    let message = `📰 ${t(locale, `digest.${frequency}`).toUpperCase()}\n`;
+    if (account.id !== DEFAULT_ACCOUNT_ID) {
+      message += `🪪 ${t(locale, 'field.account')}: ${escapeForChannel(channel, account.name)}\n`;
+    }
+    message += `${t(locale, 'digest.since')} ${formatDateTime(summary.since, locale)}\n\n`;
+    message += `👥 ${t(locale, 'digest.newRelations')}: ${summary.newRelations}\n`;
+    message += `💬 ${t(locale, 'digest.reviewsReceived')}: ${summary.reviewsReceived}\n`;
+    message += `🚨 ${t(locale, 'digest.negativeReviews')}: ${summary.negativeReviews}\n`;
+    message += `🛡️ ${t(locale, 'digest.defensesPosted')}: ${summary.defensesPosted}\n`;
+
+    if (summary.scoreChanges.length > 0) {
+      message += `\n📈 ${t(locale, 'digest.scoreChanges')}:\n`;
+      for (const line of this.formatScoreChanges(summary, locale, (name) => escapeForChannel(channel, name))) {
+        message += `   ${line}\n`;
+      }
+    }
+
+    return message;
+  }
+
+  // Ten largest score changes, one line each; names go through escape for the channel markup
+  private formatScoreChanges(summary: DigestSummary, locale: Locale, escape = (name: string) => name): string[] {
+    const lines = summary.scoreChanges.slice(0, 10).map((change) => {
+      const delta = change.current - change.previous;
+      return `• ${escape(change.name || change.address.slice(0, 10))}: ${change.previous} → ${change.current} (${delta > 0 ? '+' : ''}${delta})`;
+    });
+    if (summary.scoreChanges.length > 10) {
+      lines.push(t(locale, 'list.more', { count: summary.scoreChanges.length - 10 }));
+    }
+    return lines;
+  }
+
+  private formatEmail(account: AccountContext, summary: DigestSummary, frequency: DigestFrequency, locale: Locale): EmailContent {
+    const title = `📰 ${t(locale, `digest.${frequency}`)}`;
+    const lines = this.formatScoreChanges(summary, locale);
+
+    return {
+      subject: `${title} Ethos Monitor${account.id !== DEFAULT_ACCOUNT_ID ? ` - ${account.name}` : ''}`,
+      title,
+      color: 0x3b82f6,
+      fields: [
+        ...(account.id !== DEFAULT_ACCOUNT_ID ? [{ label: `🪪 ${t(locale, 'field.account')}`, value: account.name }] : []),
+        { label: `📅 ${t(locale, 'digest.since')}`, value: formatDateTime(summary.since, locale) },
+        { label: `👥 ${t(locale, 'digest.newRelations')}`, value: String(summary.newRelations) },
+        { label: `💬 ${t(locale, 'digest.reviewsReceived')}`, value: String(summary.reviewsReceived) },
+        { label: `🚨 ${t(locale, 'digest.negativeReviews')}`, value: String(summary.negativeReviews) },
+        { label: `🛡️ ${t(locale, 'digest.defensesPosted')}`, value: String(summary.defensesPosted) },
+      ],
+      lines: lines.length > 0 ? [`📈 ${t(locale, 'digest.scoreChanges')} :`, ...lines] : undefined,
+      actions: [{ label: `📊 ${t(locale, 'link.dashboard')}`, url: config_values.frontend.url }],
+    };
+  }
+}
+
+export const digestService = new DigestService();
+export default digestService;
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { config_values } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { channelLocale, t } from '../utils/i18n.js';
+import db from './database.service.js';
+import alertService from './alert.service.js';
+import type { DiscordInteraction, DiscordUser, TelegramCallbackData } from '../models/types.js';
+
+// Discord interaction and response types
+const INTERACTION_PING = 1;
+const INTERACTION_MESSAGE_COMPONENT = 3;
+const RESPONSE_PONG = 1;
+const RESPONSE_CHANNEL_MESSAGE = 4;
+const RESPONSE_DEFERRED_UPDATE_MESSAGE = 6;
+const FLAG_EPHEMERAL = 64;
+
+// DER header of an Ed25519 public key, followed by the raw 32-byte key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Button custom_id prefixes (see AlertService.createDiscordButtons) and their callback action
+const BUTTON_ACTIONS: Record<string, TelegramCallbackData['action']> = {
+  defend: 'confirm',
+  edit: 'edit',
+  ignore: 'ignore',
+};
+
+class DiscordService {
+  private publicKey: crypto.KeyObject | null = null;
+
+  constructor() {
+    const { enabled, publicKey } = config_values.discord.interactions;
+    if (!enabled) return;
+
+    try {
+      this.publicKey = crypto.createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+        format: 'der',
+        type: 'spki',
+      });
+      logger.info('Discord interactions enabled');
+      const { allowedUserIds, allowedRoleIds } = config_values.discord.interactions;
+      if (allowedUserIds.length === 0 && allowedRoleIds.length === 0) {
+        logger.warn('DISCORD_ALLOWED_USER_IDS and DISCORD_ALLOWED_ROLE_IDS are empty, nobody can act on alerts from Discord');
+      }
+    } catch (error) {
+      logger.error('Invalid DISCORD_PUBLIC_KEY, Discord interactions disabled:', error);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.publicKey !== null;
+  }
+
+  // Check the Ed25519 signature Discord puts on every interaction request
+  verifySignature(rawBody: Buffer, signature?: string, timestamp?: string): boolean {
+    if (!this.publicKey || !signature || !timestamp) return false;
+
+    try {
+      return crypto.verify(
+        null,
+        Buffer.concat([Buffer.from(timestamp, 'utf-8'), rawBody]),
+        this.publicKey,
+        Buffer.from(signature, 'hex')
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  // Build the immediate response to an interaction; button actions finish in the background
+  async handleInteraction(interaction: DiscordInteraction): Promise<Record<string, unknown>> {
+    if (interaction.type === INTERACTION_PING) {
+      return { type: RESPONSE_PONG };
+    }
+
+    if (interaction.type !== INTERACTION_MESSAGE_COMPONENT) {
+      return this.reply(t(channelLocale('discord'), 'action.unsupported'));
+    }
+
+    // Review ids contain underscores themselves: only the first one separates the action
+    const customId = interaction.data?.custom_id || '';
+    const separator = customId.indexOf('_');
+    const action = BUTTON_ACTIONS[customId.slice(0, separator)];
+    const reviewId = customId.slice(separator + 1);
+    const locale = channelLocale('discord');
+    if (!action || !reviewId) {
+      return this.reply(t(locale, 'action.unknown'));
+    }
+
+    if (action === 'edit') {
+      return this.reply(t(locale, 'action.editDefense', { url: `${config_values.frontend.url}/defend/${reviewId}` }));
+    }
+
+    const user = this.getUser(interaction);
+    if (!this.isAuthorized(interaction)) {
+      logger.warn(`Discord user ${user?.username || 'unknown'} is not allowed to ${action} alerts`);
+      return this.reply(t(locale, 'action.notAllowed'));
+    }
+
+    const alert = interaction.message ? await db.getAlertByMessageId('DISCORD', interaction.message.id) : null;
+    if (!alert || alert.reviewId !== reviewId) {
+      return this.reply(t(locale, 'action.notFound'));
+    }
+    if (alert.status !== 'PENDING') {
+      return this.reply(t(locale, 'action.alreadyHandled', { status: alert.status }));
+    }
+
+    // Posting a defense can take longer than the 3 seconds Discord waits for a response
+    this.runAction({ action, alertId: alert.id, reviewId, actor: `@${user?.username || 'unknown'} (Discord)` });
+
+    return { type: RESPONSE_DEFERRED_UPDATE_MESSAGE };
+  }
+
+  // The outcome is shown on the alert message by the action handlers (AlertService.updateAlertMessages)
+  private async runAction(data: TelegramCallbackData) {
+    try {
+      await alertService.handleAction(data);
+    } catch (error) {
+      logger.error(`Discord ${data.action} action failed:`, error);
+    }
+  }
+
+  // Actions are denied unless the user or one of their roles is on an allow list
+  private isAuthorized(interaction: DiscordInteraction): boolean {
+    const { allowedUserIds, allowedRoleIds } = config_values.discord.interactions;
+    const user = this.getUser(interaction);
+    if (user && allowedUserIds.includes(user.id)) return true;
+
+    return (interaction.member?.roles || []).some((role) => allowedRoleIds.includes(role));
+  }
+
+  private getUser(interaction: DiscordInteraction): DiscordUser | null {
+    return interaction.member?.user || interaction.user || null;
+  }
+
+  // Message only visible to the user who clicked
+  private reply(content: string) {
+    return {
+      type: RESPONSE_CHANNEL_MESSAGE,
+      data: { content, flags: FLAG_EPHEMERAL },
+    };
+  }
+}
+
+export const discordService = new DiscordService();
+export default discordService;
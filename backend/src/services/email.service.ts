@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import nodemailer, { type Transporter } from 'nodemailer';
+import { config_values, parseIdList } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { escapeHtml } from '../utils/html.js';
+
+export type EmailLinkAction = 'defend' | 'ignore';
+
+// Message built by the alert and digest templates, rendered as HTML and plain text
+export interface EmailContent {
+  subject: string;
+  title: string;
+  color: number;
+  fields: { label: string; value: string }[];
+  // Preformatted lines (digest score changes), kept as is
+  lines?: string[];
+  actions: { label: string; url: string }[];
+  footer?: string;
+}
+
+// Signed links stay valid this long after the email is sent
+const LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const toHexColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+class EmailService {
+  private transporter: Transporter | null = null;
+
+  constructor() {
+    this.initTransporter();
+  }
+
+  private initTransporter() {
+    if (!config_values.email.enabled) {
+      logger.warn('Email not configured, email alerts disabled');
+      return;
+    }
+
+    const { host, port, secure, user, password } = config_values.email.smtp;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      // Servers without authentication (local relay) only need the host
+      ...(user ? { auth: { user, pass: password } } : {}),
+    });
+    logger.info(`Email alerts enabled (${host}:${port})`);
+  }
+
+  isEnabled(): boolean {
+    return !!this.transporter;
+  }
+
+  // Send to the given comma-separated recipients (an account's) or the configured ones, returns the Message-ID
+  async send(content: EmailContent, to?: string | null): Promise<string | undefined> {
+    if (!this.transporter) return;
+
+    const info = await this.transporter.sendMail({
+      from: config_values.email.from,
+      to: to ? parseIdList(to).join(', ') : config_values.email.to.join(', '),
+      subject: content.subject,
+      text: this.renderText(content),
+      html: this.renderHtml(content),
+    });
+    return info.messageId;
+  }
+
+  // One-click link to an email action, null when EMAIL_LINK_SECRET is not set
+  createLink(action: EmailLinkAction, reviewId: string): string | null {
+    if (!config_values.email.linkSecret) return null;
+
+    const expires = Date.now() + LINK_TTL_MS;
+    const query = new URLSearchParams({ expires: String(expires), signature: this.sign(action, reviewId, expires) });
+    return `${config_values.server.publicUrl}/api/email/${action}/${encodeURIComponent(reviewId)}?${query}`;
+  }
+
+  verifyLink(action: EmailLinkAction, reviewId: string, expires?: string, signature?: string): boolean {
+    if (!config_values.email.linkSecret || !expires || !signature) return false;
+
+    const expiresAt = Number(expires);
+    if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) return false;
+
+    const expected = this.sign(action, reviewId, expiresAt);
+    return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  // Base64url HMAC-SHA256 of "<action>:<reviewId>:<expires>"
+  private sign(action: EmailLinkAction, reviewId: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', config_values.email.linkSecret)
+      .update(`${action}:${reviewId}:${expires}`)
+      .digest('base64url');
+  }
+
+  private renderText(content: EmailContent): string {
+    let text = `${content.title}\n\n`;
+    for (const field of content.fields) {
+      text += `${field.label}: ${field.value}\n`;
+    }
+    if (content.lines?.length) {
+      text += `\n${content.lines.join('\n')}\n`;
+    }
+    if (content.actions.length > 0) {
+      text += '\n';
+      for (const action of content.actions) {
+        text += `${action.label}: ${action.url}\n`;
+      }
+    }
+    if (content.footer) {
+      text += `\n${content.footer}\n`;
+    }
+    return text;
+  }
+
+  // Table layout with inline styles, the only one mail clients render reliably
+  private renderHtml(content: EmailContent): string {
+    const color = toHexColor(content.color);
+    const multiline = (value: string) => escapeHtml(value).replace(/\n/g, '<br>');
+
+    const fields = content.fields
+      .map((field) => `
+          <tr>
+            <td style="padding:6px 0;color:#6b7280;font-size:13px;vertical-align:top;width:160px">${escapeHtml(field.label)}</td>
+            <td style="padding:6px 0;color:#111827;font-size:14px">${multiline(field.value)}</td>
+          </tr>`)
+      .join('');
+
+    const lines = content.lines?.length
+      ? `<p style="margin:16px 0 0;color:#111827;font-size:14px;line-height:1.6">${content.lines.map(escapeHtml).join('<br>')}</p>`
+      : '';
+
+    const actions = content.actions
+      .map((action, index) => `<a href="${escapeHtml(action.url)}" style="display:inline-block;margin:0 8px 8px 0;padding:10px 16px;border-radius:6px;font-size:14px;font-weight:600;text-decoration:none;${
+        index === 0 ? `background:${color};color:#ffffff` : 'background:#f3f4f6;color:#111827'
+      }">${escapeHtml(action.label)}</a>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;border-top:4px solid ${color}">
+      <tr>
+        <td style="padding:24px">
+          <h1 style="margin:0 0 16px;font-size:18px;color:#111827">${escapeHtml(content.title)}</h1>
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${fields}
+          </table>
+          ${lines}
+          ${actions ? `<div style="margin-top:24px">${actions}</div>` : ''}
+          ${content.footer ? `<p style="margin:24px 0 0;color:#9ca3af;font-size:12px">${escapeHtml(content.footer)}</p>` : ''}
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+  }
+}
+
+export const emailService = new EmailService();
+export default emailService;
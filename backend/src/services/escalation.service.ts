@@ -0,0 +1,198 @@
+import { config_values } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { t } from '../utils/i18n.js';
+import db from './database.service.js';
+import alertService from './alert.service.js';
+import accountService from './account.service.js';
+import monitorService from './monitor.service.js';
+import { ALERT_CHANNELS, DEFAULT_ACCOUNT_ID } from '../models/types.js';
+import type { AccountContext, AlertChannelName, EscalationNotice, EscalationStep } from '../models/types.js';
+
+type UnansweredAlert = Awaited<ReturnType<typeof db.getUnansweredAlerts>>[number];
+
+// Alert.escalationLevel values
+const LEVEL_REMINDED = 1;
+const LEVEL_SECONDARY = 2;
+const LEVEL_FINAL = 3;
+
+// Shown on the alert messages for transitions made by the escalation policy
+const escalationActor = () => t(config_values.i18n.alertLocale, 'escalation.actor');
+
+// Only attacks are worth a reminder; unanswered unvouches and score drops simply expire
+const DEFENDABLE_TYPES = ['NEGATIVE_REVIEW', 'SLASH'];
+
+class EscalationService {
+  // True if at least one escalation step is configured
+  isEnabled(): boolean {
+    const { renotifyMinutes, secondaryMinutes, finalMinutes } = config_values.escalation;
+    return renotifyMinutes > 0 || secondaryMinutes > 0 || finalMinutes > 0;
+  }
+
+  // Move every unanswered alert to its next due escalation step
+  async run() {
+    const summary = { reminded: 0, escalated: 0, expired: 0, defended: 0 };
+    const { renotifyMinutes, secondaryMinutes, finalMinutes } = config_values.escalation;
+    const delays = [renotifyMinutes, secondaryMinutes, finalMinutes].filter((m) => m > 0);
+    if (delays.length === 0) return summary;
+
+    const now = Date.now();
+    const alerts = await db.getUnansweredAlerts(new Date(now - Math.min(...delays) * 60 * 1000));
+
+    // A review has one alert per channel: they are escalated together. The reviews of a
+    // coordinated attack share one incident message and are escalated as one group too
+    const groups = new Map<string, UnansweredAlert[]>();
+    for (const alert of alerts) {
+      const key = alert.incidentId ? `incident:${alert.incidentId}` : alert.reviewId;
+      groups.set(key, [...(groups.get(key) || []), alert]);
+    }
+
+    const accounts = new Map<string, AccountContext | null>();
+    for (const group of groups.values()) {
+      try {
+        const step = this.getNextStep(group, now);
+        if (!step) continue;
+
+        const accountId = group[0].relation.accountId || DEFAULT_ACCOUNT_ID;
+        if (!accounts.has(accountId)) {
+          accounts.set(accountId, await accountService.getContext(accountId));
+        }
+        const account = accounts.get(accountId) ?? null;
+
+        if (step === 'reminder') {
+          if (await this.remind(group, account, now)) summary.reminded++;
+        } else if (step === 'secondary') {
+          if (await this.escalate(group, account, now)) summary.escalated++;
+        } else {
+          const outcomes = await this.finalize(group, account, now);
+          summary.expired += outcomes.expired;
+          summary.defended += outcomes.defended;
+        }
+      } catch (error) {
+        logger.error(`Failed to escalate alerts of review ${group[0].reviewId}:`, error);
+      }
+    }
+
+    if (summary.reminded + summary.escalated + summary.expired + summary.defended > 0) {
+      logger.info(`Escalation: ${summary.reminded} reminded, ${summary.escalated} escalated, ${summary.expired} expired, ${summary.defended} defended`);
+    }
+    return summary;
+  }
+
+  // Step due for the alerts of a review, null if nothing is due yet
+  private getNextStep(group: UnansweredAlert[], now: number): 'reminder' | 'secondary' | 'final' | null {
+    const { renotifyMinutes, secondaryMinutes, finalMinutes } = config_values.escalation;
+    const minutes = this.getPendingMinutes(group, now);
+    const level = Math.max(...group.map((a) => a.escalationLevel));
+
+    if (finalMinutes > 0 && minutes >= finalMinutes) return 'final';
+    if (!DEFENDABLE_TYPES.includes(group[0].type)) return null;
+    if (secondaryMinutes > 0 && minutes >= secondaryMinutes && level < LEVEL_SECONDARY && this.getSecondaryChannels().length > 0) {
+      return 'secondary';
+    }
+    if (renotifyMinutes > 0 && minutes >= renotifyMinutes && level < LEVEL_REMINDED) return 'reminder';
+    return null;
+  }
+
+  // Re-notify the account's channels; waits for the end of quiet hours if every channel is quiet
+  private async remind(group: UnansweredAlert[], account: AccountContext | null, now: number): Promise<boolean> {
+    const channels = this.getPrimaryChannels(account);
+    if (channels.length === 0) return false;
+
+    const delivered = await alertService.sendEscalationNotice(this.toNotice('reminder', group, account, now), channels, account?.routing);
+    if (delivered.length === 0) return false;
+
+    await this.setLevel(group, LEVEL_REMINDED);
+    return true;
+  }
+
+  // Hand the alert over to the secondary chat/webhook, even during quiet hours
+  private async escalate(group: UnansweredAlert[], account: AccountContext | null, now: number): Promise<boolean> {
+    const { secondary } = config_values.escalation;
+    const delivered = await alertService.sendEscalationNotice(
+      this.toNotice('secondary', group, account, now),
+      this.getSecondaryChannels(),
+      { telegramChatId: secondary.telegramChatId, discordWebhookUrl: secondary.discordWebhookUrl }
+    );
+    if (delivered.length === 0) return false;
+
+    await this.setLevel(group, LEVEL_SECONDARY);
+    return true;
+  }
+
+  // Final timeout: post the prepared defense of each review if configured and available, otherwise expire it.
+  // One notice is sent for the group, "defended" only when every review was defended
+  private async finalize(group: UnansweredAlert[], account: AccountContext | null, now: number): Promise<{ expired: number; defended: number }> {
+    await this.setLevel(group, LEVEL_FINAL);
+
+    const outcomes = { expired: 0, defended: 0 };
+    for (const reviewId of this.getReviewIds(group)) {
+      const alert = group.find((a) => a.reviewId === reviewId)!;
+      let defended = false;
+      if (config_values.escalation.finalAction === 'defend' && DEFENDABLE_TYPES.includes(alert.type)) {
+        const defense = await db.getPendingDefense(reviewId);
+        defended = !!defense && await monitorService.executeDefense(alert.id, reviewId, escalationActor());
+      }
+
+      if (defended) {
+        outcomes.defended++;
+      } else {
+        await db.expireReviewResponses(reviewId);
+        await alertService.updateAlertMessages(reviewId, { status: 'EXPIRED', actor: escalationActor(), at: new Date() });
+        outcomes.expired++;
+      }
+    }
+
+    const step = outcomes.expired === 0 ? 'defended' : 'expired';
+    await alertService.sendEscalationNotice(this.toNotice(step, group, account, now), this.getPrimaryChannels(account), account?.routing);
+    return outcomes;
+  }
+
+  private async setLevel(group: UnansweredAlert[], level: number) {
+    for (const reviewId of this.getReviewIds(group)) {
+      await db.updateAlertEscalation(reviewId, level);
+    }
+  }
+
+  private getReviewIds(group: UnansweredAlert[]): string[] {
+    return [...new Set(group.map((a) => a.reviewId))];
+  }
+
+  // Account channels that are configured and outside their quiet hours
+  private getPrimaryChannels(account: AccountContext | null): AlertChannelName[] {
+    return ALERT_CHANNELS.filter((channel) => alertService.getDestination(channel, account?.routing) && !alertService.isQuietTime(channel));
+  }
+
+  // The secondary level only exists on Telegram and Discord (ESCALATION_TELEGRAM_CHAT_ID, ESCALATION_DISCORD_WEBHOOK_URL)
+  private getSecondaryChannels(): AlertChannelName[] {
+    const { secondary } = config_values.escalation;
+    const channels: AlertChannelName[] = [];
+    if (config_values.telegram.botToken && secondary.telegramChatId) channels.push('telegram');
+    if (secondary.discordWebhookUrl) channels.push('discord');
+    return channels;
+  }
+
+  private getPendingMinutes(group: UnansweredAlert[], now: number): number {
+    const sentAt = Math.min(...group.map((a) => a.sentAt.getTime()));
+    return Math.floor((now - sentAt) / (60 * 1000));
+  }
+
+  private toNotice(step: EscalationStep, group: UnansweredAlert[], account: AccountContext | null, now: number): EscalationNotice {
+    const { review, relation, type, incidentId } = group[0];
+
+    return {
+      step,
+      type: type as EscalationNotice['type'],
+      reviewId: review.id,
+      account: account ? { id: account.id, name: account.name } : undefined,
+      target: { name: relation.name, address: relation.address },
+      attacker: type === 'SCORE_DROP' ? null : { name: review.authorName, score: review.score },
+      incident: incidentId
+        ? { id: incidentId, reviewCount: this.getReviewIds(group).length, targetCount: new Set(group.map((a) => a.relationId)).size }
+        : undefined,
+      pendingMinutes: this.getPendingMinutes(group, now),
+    };
+  }
+}
+
+export const escalationService = new EscalationService();
+export default escalationService;
@@ -7,8 +7,35 @@ import type {
   EthosActivity,
   EthosScore,
   ActivityType,
+  PaginationOptions,
+  PagedResult,
 } from '../models/types.js';
 
+// Raw vouch item as returned by POST /api/v2/vouches
+interface VouchResponse {
+  id?: number;
+  archived?: boolean;
+  authorProfileId: number;
+  subjectProfileId: number;
+  comment?: string | null;
+  staked?: string;
+  activityChecksum?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  unvouchedAt?: string | null;
+  subjectUser?: VouchUserResponse;
+  authorUser?: VouchUserResponse;
+}
+
+interface VouchUserResponse {
+  profileId: number;
+  displayName?: string;
+  username?: string;
+  avatarUrl?: string;
+  primaryAddress?: string;
+  userkeys?: string[];
+}
+
 class EthosService {
   private client: AxiosInstance;
   private baseUrl: string;
@@ -91,45 +118,87 @@ class EthosService {
     }
   }
 
-  // Get vouches (relations) for a user
-  async getVouches(userkey: string): Promise<EthosVouch[]> {
+  // Get user by Ethos profile id
+  async getUserByProfileId(profileId: number): Promise<EthosProfile | null> {
+    try {
+      const response = await this.client.get(`/api/v2/user/by/profile-id/${profileId}`);
+      return response.data;
+    } catch (error) {
+      if ((error as AxiosError).response?.status === 404) {
+        logger.warn(`No user found for profile ${profileId}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Get user by Ethos username
+  async getUserByUsername(username: string): Promise<EthosProfile | null> {
+    try {
+      const response = await this.client.get(`/api/v2/user/by/username/${encodeURIComponent(username)}`);
+      return response.data;
+    } catch (error) {
+      if ((error as AxiosError).response?.status === 404) {
+        logger.warn(`No user found for username ${username}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Find a profile from a userkey, a wallet address or an Ethos username
+  async findProfile(query: string): Promise<EthosProfile | null> {
+    const value = query.trim();
+
+    if (/^0x[a-fA-F0-9]{40}$/.test(value)) {
+      return this.getUserByWallet(value);
+    }
+
+    // Userkeys look like profileId:123, address:0x..., service:x.com:username:handle
+    if (/^(profileId|address|service):/.test(value)) {
+      return this.getProfile(value);
+    }
+
+    return this.getUserByUsername(value.replace(/^@/, ''));
+  }
+
+  // Get vouches given by a user (outgoing relations), walking every page
+  async getVouches(userkey: string, options?: PaginationOptions<VouchResponse>): Promise<PagedResult<EthosVouch>> {
+    return this.fetchVouches(userkey, 'authorProfileIds', options);
+  }
+
+  // Get vouches received by a user (incoming relations), walking every page
+  async getReceivedVouches(userkey: string, options?: PaginationOptions<VouchResponse>): Promise<PagedResult<EthosVouch>> {
+    return this.fetchVouches(userkey, 'subjectProfileIds', options);
+  }
+
+  private async fetchVouches(
+    userkey: string,
+    filter: 'authorProfileIds' | 'subjectProfileIds',
+    options?: PaginationOptions<VouchResponse>
+  ): Promise<PagedResult<EthosVouch>> {
     try {
       // Extract profileId from userkey
       const profileId = this.extractProfileId(userkey);
       if (!profileId) {
         logger.warn(`Cannot extract profileId from userkey: ${userkey}`);
-        return [];
+        return { values: [], pages: 0, truncated: false, error: `Unsupported userkey: ${userkey}` };
       }
 
-      // Use POST /api/v2/vouches with authorProfileIds array
-      const response = await this.client.post('/api/v2/vouches', {
-        authorProfileIds: [profileId],
-        limit: 100,
-      });
+      // Use POST /api/v2/vouches filtered by author or subject profile ids
+      const result = await this.paginate<VouchResponse>(async (limit, offset) => {
+        const response = await this.client.post('/api/v2/vouches', {
+          [filter]: [profileId],
+          limit,
+          offset,
+        });
+        return this.toPage(response.data);
+      }, options);
 
-      const vouches = response.data?.values || response.data || [];
-      logger.info(`Found ${vouches.length} vouches for profileId ${profileId}`);
+      logger.info(`Found ${result.values.length} vouches (${filter}) for profileId ${profileId} (${result.pages} pages)`);
 
       // Convert API response to EthosVouch format
-      return vouches.map((v: {
-        id?: number;
-        archived?: boolean;
-        authorProfileId: number;
-        subjectProfileId: number;
-        comment?: string | null;
-        staked?: string;
-        activityChecksum?: string;
-        createdAt?: string;
-        updatedAt?: string;
-        unvouchedAt?: string | null;
-        subjectUser?: {
-          profileId: number;
-          displayName?: string;
-          username?: string;
-          avatarUrl?: string;
-          primaryAddress?: string;
-        };
-      }) => ({
+      const vouches = result.values.map((v): EthosVouch => ({
         id: v.id || v.subjectProfileId,
         archived: v.archived || false,
         authorProfileId: v.authorProfileId,
@@ -141,11 +210,14 @@ class EthosService {
         updatedAt: v.updatedAt || new Date().toISOString(),
         unvouchedAt: v.unvouchedAt || null,
         // Include user info for easier processing
-        subjectUser: v.subjectUser,
+        subjectUser: v.subjectUser as EthosVouch['subjectUser'],
+        authorUser: v.authorUser as EthosVouch['authorUser'],
       }));
+
+      return { ...result, values: vouches };
     } catch (error) {
       logger.error(`Failed to get vouches for ${userkey}:`, error);
-      return [];
+      return { values: [], pages: 0, truncated: false, error: String(error) };
     }
   }
 
@@ -172,59 +244,45 @@ class EthosService {
     }
   }
 
-  // Get received activities (reviews, slashes, etc.)
+  // Get received activities (reviews, slashes, etc.), walking every page
   async getReceivedActivities(
     userkey: string,
     types: ActivityType[] = ['review', 'slash'],
-    options?: { limit?: number; offset?: number }
-  ): Promise<EthosActivity[]> {
+    options?: PaginationOptions<EthosActivity>
+  ): Promise<PagedResult<EthosActivity>> {
     try {
-      const response = await this.client.post('/api/v2/activities/profile/received', {
-        userkey,
-        types,
-        pagination: {
-          limit: options?.limit || 50,
-          offset: options?.offset || 0,
-        },
-      });
-      // API returns 'values' array
-      const activities = response.data?.values || response.data?.activities || [];
-      if (!Array.isArray(activities)) {
-        logger.warn(`Unexpected activities response for ${userkey}:`, typeof activities);
-        return [];
-      }
-      return activities;
+      return await this.paginate<EthosActivity>(async (limit, offset) => {
+        const response = await this.client.post('/api/v2/activities/profile/received', {
+          userkey,
+          types,
+          pagination: { limit, offset },
+        });
+        return this.toPage(response.data, 'activities');
+      }, options);
     } catch (error) {
       logger.error(`Failed to get received activities for ${userkey}:`, error);
-      return [];
+      return { values: [], pages: 0, truncated: false, error: String(error) };
     }
   }
 
-  // Get given activities (reviews posted by user)
+  // Get given activities (reviews posted by user), walking every page
   async getGivenActivities(
     userkey: string,
     types: ActivityType[] = ['review'],
-    options?: { limit?: number; offset?: number }
-  ): Promise<EthosActivity[]> {
+    options?: PaginationOptions<EthosActivity>
+  ): Promise<PagedResult<EthosActivity>> {
     try {
-      const response = await this.client.post('/api/v2/activities/profile/given', {
-        userkey,
-        types,
-        pagination: {
-          limit: options?.limit || 50,
-          offset: options?.offset || 0,
-        },
-      });
-      // API returns 'values' array
-      const activities = response.data?.values || response.data?.activities || [];
-      if (!Array.isArray(activities)) {
-        logger.warn(`Unexpected activities response for ${userkey}:`, typeof activities);
-        return [];
-      }
-      return activities;
+      return await this.paginate<EthosActivity>(async (limit, offset) => {
+        const response = await this.client.post('/api/v2/activities/profile/given', {
+          userkey,
+          types,
+          pagination: { limit, offset },
+        });
+        return this.toPage(response.data, 'activities');
+      }, options);
     } catch (error) {
       logger.error(`Failed to get given activities for ${userkey}:`, error);
-      return [];
+      return { values: [], pages: 0, truncated: false, error: String(error) };
     }
   }
 
@@ -243,11 +301,12 @@ class EthosService {
     }
   }
 
-  // Post a review (defense)
+  // Post a review (defense) as the account owning the token
   async postReview(
     targetUserkey: string,
     score: number,
-    comment: string
+    comment: string,
+    token: string
   ): Promise<{ success: boolean; reviewId?: string; txHash?: string; error?: string }> {
     try {
       // Note: This endpoint may require specific authentication
@@ -256,7 +315,7 @@ class EthosService {
         target: targetUserkey,
         score,
         comment,
-      });
+      }, { headers: { Authorization: `Bearer ${token}` } });
 
       logger.info(`Review posted for ${targetUserkey}: score=${score}`);
       return {
@@ -278,16 +337,75 @@ class EthosService {
     }
   }
 
+  // Walk a paginated endpoint until the API is exhausted or maxPages is reached
+  private async paginate<T>(
+    fetchPage: (limit: number, offset: number) => Promise<{ values: T[]; total?: number }>,
+    options?: PaginationOptions<T>
+  ): Promise<PagedResult<T>> {
+    const pageSize = options?.pageSize || config_values.ethos.pageSize;
+    const maxPages = options?.maxPages || config_values.ethos.maxPages;
+    const values: T[] = [];
+    let offset = options?.offset || 0;
+    let pages = 0;
+
+    while (pages < maxPages) {
+      const page = await fetchPage(pageSize, offset);
+      pages++;
+      values.push(...page.values);
+      offset += page.values.length;
+
+      // A short page or reaching the reported total means there is nothing left
+      const exhausted = page.values.length < pageSize
+        || (page.total !== undefined && offset >= page.total);
+      if (exhausted || options?.stopWhen?.(page.values)) {
+        return { values, pages, truncated: false };
+      }
+    }
+
+    logger.warn(`Pagination stopped after ${maxPages} pages (${values.length} items), results may be incomplete`);
+    return { values, pages, truncated: true };
+  }
+
+  // Normalize a list response (bare array or { values, total }) into a page
+  private toPage<T>(data: unknown, fallbackKey?: string): { values: T[]; total?: number } {
+    if (Array.isArray(data)) {
+      return { values: data };
+    }
+
+    const body = (data || {}) as Record<string, unknown>;
+    const values = body.values ?? (fallbackKey ? body[fallbackKey] : undefined) ?? [];
+    if (!Array.isArray(values)) {
+      logger.warn('Unexpected list response from Ethos API:', typeof values);
+      return { values: [] };
+    }
+
+    return {
+      values,
+      total: typeof body.total === 'number' ? body.total : undefined,
+    };
+  }
+
   // Get profile URL
   getProfileUrl(addressOrProfileId: string | number): string {
     return `https://app.ethos.network/profile/${addressOrProfileId}`;
   }
 
+  // Get review URL
+  getReviewUrl(reviewId: string | number): string {
+    return `https://app.ethos.network/activity/review/${reviewId}`;
+  }
+
   // Helper to create userkey from profile ID
   profileIdToUserkey(profileId: number): string {
     return `profileId:${profileId}`;
   }
 
+  // Profile id of a "profileId:<id>" userkey (relation userkeys), 0 for other userkeys
+  userkeyToProfileId(userkey: string): number {
+    const match = userkey.match(/^profileId:(\d+)$/);
+    return match ? parseInt(match[1], 10) : 0;
+  }
+
   // Helper to create userkey from address
   addressToUserkey(address: string): string {
     return `address:${address}`;
@@ -0,0 +1,141 @@
+import { config_values } from '../config/env.js';
+import logger from '../utils/logger.js';
+import db from './database.service.js';
+import type { AccountContext, IncidentAlertPayload } from '../models/types.js';
+import { DEFAULT_ACCOUNT_ID } from '../models/types.js';
+
+type Attack = Awaited<ReturnType<typeof db.getAttacks>>[number];
+
+// A coordinated attack found among new negative reviews
+export interface DetectedIncident {
+  payload: IncidentAlertPayload;
+  reviewIds: string[]; // new reviews covered by the incident alert
+}
+
+class IncidentService {
+  // Group new negative reviews with recent attacks on the account's relations.
+  // Two attacks are linked when they are within the window and share an author or a target;
+  // a linked group becomes an incident once it is large enough and spans enough targets.
+  async detect(
+    account: AccountContext,
+    newReviews: { id: string; createdAt: Date }[]
+  ): Promise<DetectedIncident[]> {
+    const { windowMinutes, minReviews, minTargets } = config_values.monitor.incident;
+    if (newReviews.length === 0 || windowMinutes <= 0) return [];
+
+    const windowMs = windowMinutes * 60 * 1000;
+    const earliest = Math.min(...newReviews.map((r) => r.createdAt.getTime()));
+    const attacks = (await db.getAttacks({
+      accountId: account.id,
+      since: new Date(earliest - windowMs),
+    })).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const newIds = new Set(newReviews.map((r) => r.id));
+    const detected: DetectedIncident[] = [];
+
+    for (const group of this.linkAttacks(attacks, windowMs)) {
+      const fresh = group.filter((a) => newIds.has(a.id));
+      if (fresh.length === 0) continue;
+      if (group.length < minReviews) continue;
+      if (new Set(group.map((a) => a.relationId)).size < minTargets) continue;
+
+      try {
+        detected.push(await this.record(account, group, fresh));
+      } catch (error) {
+        logger.error('Failed to record incident:', error);
+      }
+    }
+
+    return detected;
+  }
+
+  // Connected groups of attacks (attacks must be sorted oldest first)
+  private linkAttacks(attacks: Attack[], windowMs: number): Attack[][] {
+    const parent = attacks.map((_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+
+    for (let i = 0; i < attacks.length; i++) {
+      for (let j = i + 1; j < attacks.length; j++) {
+        if (attacks[j].createdAt.getTime() - attacks[i].createdAt.getTime() > windowMs) break;
+        if (attacks[i].authorKey === attacks[j].authorKey || attacks[i].relationId === attacks[j].relationId) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+
+    const groups = new Map<number, Attack[]>();
+    attacks.forEach((attack, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), attack]);
+    });
+    return Array.from(groups.values());
+  }
+
+  // Create the incident or extend the one already covering part of the group. A group
+  // joining several incidents merges them into the one holding its oldest attack.
+  private async record(account: AccountContext, group: Attack[], fresh: Attack[]): Promise<DetectedIncident> {
+    const existingIds = [...new Set(group.map((a) => a.incidentId).filter((id): id is string => !!id))];
+    const existingId = existingIds[0];
+
+    let incidentId: string;
+    if (existingId) {
+      incidentId = existingId;
+      if (existingIds.length > 1) {
+        await db.mergeIncidents(incidentId, existingIds.slice(1));
+        logger.info(`Incidents ${existingIds.slice(1).join(', ')} merged into ${incidentId}`);
+      }
+      await db.updateIncidentStatus(incidentId, 'OPEN');
+    } else {
+      const incident = await db.createIncident({
+        accountId: account.id,
+        startedAt: group[0].createdAt,
+        lastActivityAt: group[group.length - 1].createdAt,
+      });
+      incidentId = incident.id;
+    }
+
+    const incident = await db.attachReviewsToIncident(incidentId, group.map((a) => a.id));
+    logger.warn(`Incident ${incidentId}: ${incident.reviewCount} attacks by ${incident.authorCount} authors on ${incident.targetCount} relations`);
+
+    return {
+      payload: {
+        incidentId,
+        isNew: !existingId,
+        account: account.id !== DEFAULT_ACCOUNT_ID ? { id: account.id, name: account.name } : undefined,
+        reviewCount: incident.reviewCount,
+        newReviews: fresh.length,
+        startedAt: incident.startedAt,
+        lastActivityAt: incident.lastActivityAt,
+        authors: this.countBy(group, (a) => a.authorKey).map(([, list]) => ({
+          name: list[0].authorName,
+          address: list[0].authorAddr,
+          count: list.length,
+        })),
+        targets: this.countBy(group, (a) => a.relationId).map(([, list]) => ({
+          name: list[0].relation.name,
+          address: list[0].relation.address,
+          count: list.length,
+        })),
+      },
+      reviewIds: fresh.map((a) => a.id),
+    };
+  }
+
+  // Group attacks by key, largest groups first
+  private countBy(attacks: Attack[], key: (attack: Attack) => string): [string, Attack[]][] {
+    const groups = new Map<string, Attack[]>();
+    for (const attack of attacks) {
+      groups.set(key(attack), [...(groups.get(key(attack)) || []), attack]);
+    }
+    return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+  }
+}
+
+export const incidentService = new IncidentService();
+export default incidentService;
@@ -2,9 +2,39 @@ import { config_values } from '../config/env.js';
 import logger from '../utils/logger.js';
 import ethosService from './ethos.service.js';
 import alertService from './alert.service.js';
+import accountService from './account.service.js';
+import incidentService, { type DetectedIncident } from './incident.service.js';
+import credibilityService from './credibility.service.js';
+import ruleService from './rule.service.js';
+import webhookService from './webhook.service.js';
 import db from './database.service.js';
-import type { MonitorResult, AlertPayload, EthosActivity } from '../models/types.js';
-import { getRandomDefenseMessage } from '../models/types.js';
+import { t } from '../utils/i18n.js';
+import { escapeForChannel } from '../utils/html.js';
+import type {
+  AccountContext,
+  ActivityType,
+  AlertChannelName,
+  AlertDelivery,
+  MonitorResult,
+  MonitorOptions,
+  AlertPayload,
+  EthosActivity,
+  EthosVouch,
+  ActivityCursor,
+  Locale,
+  RelationDirection,
+  RuleDecision,
+  WatchTarget,
+  WatchTargets,
+} from '../models/types.js';
+import { getRandomDefenseMessage, ALERT_CHANNELS, DEFAULT_ACCOUNT_ID } from '../models/types.js';
+
+// A negative review alert held back until the account's scan is complete
+interface PendingAlert {
+  payload: AlertPayload;
+  createdAt: Date;
+  decision: RuleDecision;
+}
 
 class MonitorService {
   private isRunning = false;
@@ -15,26 +45,26 @@ class MonitorService {
     this.registerCallbackHandlers();
   }
 
-  // Register handlers for Telegram button clicks
+  // Register handlers for Telegram and Discord button clicks
   private registerCallbackHandlers() {
     alertService.onCallback('confirm', async (data) => {
       logger.info(`Defense confirmed for review ${data.reviewId}`);
-      await this.executeDefense(data.alertId, data.reviewId);
+      return this.executeDefense(data.alertId, data.reviewId, data.actor);
     });
 
     alertService.onCallback('ignore', async (data) => {
       logger.info(`Alert ignored for review ${data.reviewId}`);
       await db.updateAlertStatus(data.alertId, 'IGNORED');
+      await db.updateReviewAlertsStatus(data.reviewId, 'IGNORED');
+      await alertService.updateAlertMessages(data.reviewId, { status: 'IGNORED', actor: data.actor, at: new Date() });
+      return true;
     });
 
-    alertService.onCallback('edit', async (data) => {
-      logger.info(`Edit requested for review ${data.reviewId}`);
-      // User will be redirected to dashboard via URL button
-    });
+    // 'edit' is handled by DefenseEditService (in-chat edit flow on Telegram)
   }
 
   // Main monitoring cycle
-  async runMonitorCycle(): Promise<MonitorResult> {
+  async runMonitorCycle(options?: MonitorOptions): Promise<MonitorResult> {
     if (this.isRunning) {
       logger.warn('Monitor cycle already running, skipping...');
       return {
@@ -44,6 +74,7 @@ class MonitorService {
         alertsSent: 0,
         errors: ['Cycle already running'],
         duration: 0,
+        pagesByRelation: {},
       };
     }
 
@@ -56,68 +87,21 @@ class MonitorService {
       alertsSent: 0,
       errors: [],
       duration: 0,
+      pagesByRelation: {},
     };
 
     try {
       logger.info('Starting monitor cycle...');
 
-      // 1. Get user's vouches (relations)
-      const userKey = config_values.ethos.userKey;
-      const vouches = await ethosService.getVouches(userKey);
-      logger.info(`Found ${vouches.length} relations to monitor`);
-
-      // 2. For each relation, check for new negative reviews
-      for (const vouch of vouches) {
+      const accounts = await accountService.getActiveContexts();
+      for (const account of accounts) {
         try {
-          const relationUserkey = ethosService.profileIdToUserkey(vouch.subjectProfileId);
-          result.relationsChecked++;
-
-          // Use subjectUser data from vouch response if available, otherwise fetch profile
-          let profileData: { name?: string | null; address?: string; avatar?: string | null } = {};
-
-          if (vouch.subjectUser) {
-            // Extract address from userkeys or primaryAddress
-            const addressKey = vouch.subjectUser.userkeys?.find((k) => k.startsWith('address:'));
-            profileData = {
-              name: vouch.subjectUser.displayName || vouch.subjectUser.username,
-              address: vouch.subjectUser.primaryAddress || (addressKey ? addressKey.replace('address:', '') : undefined),
-              avatar: vouch.subjectUser.avatarUrl,
-            };
-          }
-
-          // Fallback to fetching profile if subjectUser data is incomplete
-          if (!profileData.address) {
-            const profile = await ethosService.getProfile(relationUserkey);
-            if (!profile) continue;
-            profileData = {
-              name: profile.name || profile.username,
-              address: profile.primaryAddress,
-              avatar: profile.avatar,
-            };
-          }
-
-          if (!profileData.address) continue;
-
-          await db.upsertRelation({
-            id: vouch.id?.toString() || vouch.subjectProfileId.toString(),
-            userkey: relationUserkey,
-            name: profileData.name,
-            address: profileData.address,
-            avatarUrl: profileData.avatar,
-          });
-
-          // Get received reviews for this relation
-          const activities = await ethosService.getReceivedActivities(relationUserkey, ['review', 'slash']);
-          result.reviewsFound += activities.length;
-
-          // Process each activity
-          for (const activity of activities) {
-            await this.processActivity(activity, vouch.id.toString(), result);
-          }
+          await this.runAccountCycle(account, options, result);
         } catch (error) {
-          const errorMsg = `Error processing relation ${vouch.subjectProfileId}: ${error}`;
+          const errorMsg = `Error monitoring account ${account.name}: ${error}`;
           logger.error(errorMsg);
           result.errors.push(errorMsg);
+          webhookService.emit('monitor.failed', { error: errorMsg }, account.id);
         }
       }
 
@@ -138,6 +122,7 @@ class MonitorService {
     } catch (error) {
       logger.error('Monitor cycle failed:', error);
       result.errors.push(`Cycle failed: ${error}`);
+      webhookService.emit('monitor.failed', { error: `Cycle failed: ${error}` });
     } finally {
       this.isRunning = false;
     }
@@ -145,62 +130,473 @@ class MonitorService {
     return result;
   }
 
+  // Scan every relation of one monitored account
+  private async runAccountCycle(
+    account: AccountContext,
+    options: MonitorOptions | undefined,
+    result: MonitorResult
+  ): Promise<void> {
+    // 1. Resolve every profile to watch for the account's scope
+    const watch = await this.resolveWatchTargets(account);
+    result.errors.push(...watch.errors);
+    logger.info(`[${account.name}] Found ${watch.targets.length} relations to monitor (scope: ${account.scope.join(', ')})`);
+
+    // 2. Detect relations that are no longer vouched (only for fully fetched vouch lists)
+    await this.detectRemovedRelations(account, watch, result);
+
+    // 3. For each relation, check for new negative reviews and unvouches
+    const pending: PendingAlert[] = [];
+    for (const target of watch.targets) {
+      try {
+        result.relationsChecked++;
+
+        const relation = await this.upsertTarget(account, target);
+        if (!relation) continue;
+
+        await this.snapshotScore(account, relation, result);
+        await this.scanRelation(account, relation, options, result, pending);
+      } catch (error) {
+        const errorMsg = `Error processing relation ${target.userkey}: ${error}`;
+        logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    // 4. Alert on the new negative reviews, grouping coordinated attacks into incidents
+    await this.flushAlerts(account, pending, result);
+  }
+
+  // Send the negative review alerts held back during the scan: reviews belonging to a
+  // coordinated attack get one incident alert, the others are alerted individually.
+  // Each dispatch fails on its own, the scan cursors have already moved past these reviews.
+  private async flushAlerts(account: AccountContext, pending: PendingAlert[], result: MonitorResult): Promise<void> {
+    if (pending.length === 0) return;
+
+    // Muted relations get no alert, alone or within an incident
+    const muted = new Set<string>();
+    for (const { payload } of pending) {
+      if (await db.isRelationMuted(payload.relationId)) {
+        logger.info(`Alert muted for relation ${payload.relationId} (review ${payload.reviewId})`);
+        muted.add(payload.reviewId);
+      }
+    }
+
+    let incidents: DetectedIncident[] = [];
+    try {
+      incidents = await incidentService.detect(
+        account,
+        pending.map((p) => ({ id: p.payload.reviewId, createdAt: p.createdAt }))
+      );
+    } catch (error) {
+      const errorMsg = `Incident detection failed for ${account.name}: ${error}`;
+      logger.error(errorMsg);
+      result.errors.push(errorMsg);
+    }
+
+    const grouped = new Set<string>();
+    for (const incident of incidents) {
+      const items = pending.filter((p) => incident.reviewIds.includes(p.payload.reviewId));
+      items.forEach((p) => grouped.add(p.payload.reviewId));
+
+      const alerted = items.filter((p) => !muted.has(p.payload.reviewId));
+      if (alerted.length === 0) continue;
+      try {
+        await this.dispatchIncidentAlert(incident, alerted, account, result);
+      } catch (error) {
+        const errorMsg = `Incident alert failed for ${incident.payload.incidentId}: ${error}`;
+        logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    for (const { payload, decision } of pending) {
+      if (grouped.has(payload.reviewId) || muted.has(payload.reviewId)) continue;
+      try {
+        await this.dispatchAlert(payload, account, result, decision.escalate ? null : decision.channels);
+        await db.markReviewAlerted(payload.reviewId);
+      } catch (error) {
+        const errorMsg = `Alert failed for review ${payload.reviewId}: ${error}`;
+        logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+  }
+
+  // Sync Relation rows with each account's scope without scanning activities
+  async refreshRelations(accountId?: string): Promise<{ total: number; updated: number }> {
+    const accounts = (await accountService.getActiveContexts())
+      .filter((account) => !accountId || account.id === accountId);
+
+    let total = 0;
+    let updated = 0;
+    for (const account of accounts) {
+      const watch = await this.resolveWatchTargets(account);
+      total += watch.targets.length;
+
+      for (const target of watch.targets) {
+        const relation = await this.upsertTarget(account, target);
+        if (relation) updated++;
+      }
+    }
+
+    return { total, updated };
+  }
+
+  // Resolve every profile to watch for an account's monitoring scope
+  private async resolveWatchTargets(account: AccountContext): Promise<WatchTargets> {
+    const userKey = account.userkey;
+    const scope = account.scope;
+    const watch: WatchTargets = {
+      targets: [],
+      activeIds: new Set(),
+      removedVouches: new Map(),
+      completeDirections: new Set(),
+      errors: [],
+    };
+
+    // A profile reachable through several scopes is watched once, first scope wins
+    const seen = new Set<string>();
+    const add = (target: WatchTarget) => {
+      watch.activeIds.add(target.relationId);
+      if (seen.has(target.userkey)) return;
+      seen.add(target.userkey);
+      watch.targets.push(target);
+    };
+
+    if (scope.includes('self')) {
+      const self = await ethosService.getProfile(userKey);
+      if (self) {
+        add({
+          relationId: accountService.scopeId(account, `self_${self.id}`),
+          userkey: ethosService.profileIdToUserkey(self.id),
+          direction: 'self',
+          profile: {
+            name: self.name || self.username,
+            address: self.primaryAddress,
+            avatar: self.avatar,
+          },
+        });
+      } else {
+        watch.errors.push(`[${account.name}] Own profile ${userKey} not found, skipping self monitoring`);
+      }
+    }
+
+    for (const direction of ['outgoing', 'incoming'] as const) {
+      if (!scope.includes(direction)) continue;
+
+      const list = direction === 'outgoing'
+        ? await ethosService.getVouches(userKey)
+        : await ethosService.getReceivedVouches(userKey);
+
+      if (list.truncated) {
+        watch.errors.push(`[${account.name}] ${direction} vouch list truncated at ${list.values.length} (ETHOS_MAX_PAGES reached)`);
+      }
+      if (list.error) {
+        watch.errors.push(`[${account.name}] ${direction} vouch list unavailable, skipping unvouch detection: ${list.error}`);
+      }
+      if (!list.truncated && !list.error) {
+        watch.completeDirections.add(direction);
+      }
+
+      for (const vouch of list.values) {
+        // Archived or unvouched entries are removals, not relations to monitor
+        if (vouch.archived || vouch.unvouchedAt) {
+          watch.removedVouches.set(this.getRelationId(account, vouch), vouch);
+          continue;
+        }
+        add(this.targetFromVouch(account, vouch, direction));
+      }
+    }
+
+    // Manual watchlist entries are always watched, whatever the scope
+    const manual = await db.getRelations(true, { direction: 'manual', accountId: account.id });
+    for (const relation of manual) {
+      add({
+        relationId: relation.id,
+        userkey: relation.userkey,
+        direction: 'manual',
+        profile: {
+          name: relation.name,
+          address: relation.address,
+          avatar: relation.avatarUrl,
+        },
+      });
+    }
+
+    return watch;
+  }
+
+  // Add a profile to an account's manual watchlist from a userkey, address or Ethos username
+  async addToWatchlist(query: string, accountId: string = DEFAULT_ACCOUNT_ID) {
+    const account = await accountService.getContext(accountId);
+    if (!account) return null;
+
+    const profile = await ethosService.findProfile(query);
+    if (!profile) return null;
+
+    const profileId = profile.profileId ?? profile.id;
+    return this.upsertTarget(account, {
+      relationId: accountService.scopeId(account, `manual_${profileId}`),
+      userkey: ethosService.profileIdToUserkey(profileId),
+      direction: 'manual',
+      profile: {
+        name: profile.name || profile.username,
+        address: profile.primaryAddress,
+        avatar: profile.avatar,
+      },
+    });
+  }
+
+  // Stop watching a manual watchlist entry; vouch-derived relations are left alone
+  async removeFromWatchlist(id: string): Promise<boolean> {
+    const relation = await db.getRelationById(id);
+    if (!relation || relation.direction !== 'manual') return false;
+
+    await db.setRelationActive(id, false);
+    return true;
+  }
+
+  // Build a watch target from the other side of a vouch
+  private targetFromVouch(account: AccountContext, vouch: EthosVouch, direction: 'outgoing' | 'incoming'): WatchTarget {
+    const user = direction === 'outgoing' ? vouch.subjectUser : vouch.authorUser;
+    const profileId = direction === 'outgoing' ? vouch.subjectProfileId : vouch.authorProfileId;
+
+    // Extract address from userkeys or primaryAddress
+    const addressKey = user?.userkeys?.find((k) => k.startsWith('address:'));
+
+    return {
+      relationId: this.getRelationId(account, vouch),
+      userkey: ethosService.profileIdToUserkey(profileId),
+      direction,
+      profile: user
+        ? {
+            name: user.displayName || user.username,
+            address: user.primaryAddress || (addressKey ? addressKey.replace('address:', '') : undefined),
+            avatar: user.avatarUrl,
+          }
+        : {},
+    };
+  }
+
+  // Store a watch target as a Relation, fetching the profile if vouch data is incomplete
+  private async upsertTarget(account: AccountContext, target: WatchTarget) {
+    let profileData = target.profile;
+
+    if (!profileData.address) {
+      const profile = await ethosService.getProfile(target.userkey);
+      if (!profile) return null;
+      profileData = {
+        name: profile.name || profile.username,
+        address: profile.primaryAddress,
+        avatar: profile.avatar,
+      };
+    }
+
+    if (!profileData.address) return null;
+
+    return db.upsertRelation({
+      id: target.relationId,
+      accountId: account.id,
+      userkey: target.userkey,
+      direction: target.direction,
+      name: profileData.name,
+      address: profileData.address,
+      avatarUrl: profileData.avatar,
+    });
+  }
+
+  // Store the relation's current Ethos score and alert when it dropped past a threshold
+  private async snapshotScore(
+    account: AccountContext,
+    relation: { id: string; userkey: string; name: string | null; address: string },
+    result: MonitorResult
+  ): Promise<void> {
+    const ethosScore = await ethosService.getScore(relation.userkey);
+    if (!ethosScore) return;
+
+    const current = ethosScore.score;
+    const previous = await db.getLatestScoreSnapshot(relation.id);
+    await db.createScoreSnapshot(relation.id, current);
+    await db.updateRelationScore(relation.id, current);
+
+    if (!previous || !this.isScoreDrop(previous.score, current)) return;
+
+    const drop = previous.score - current;
+    const percent = previous.score > 0 ? (drop / previous.score) * 100 : 0;
+    logger.info(`Score drop for ${relation.userkey}: ${previous.score} -> ${current}`);
+
+    // Record the drop as an activity so the alert has something to point at
+    const review = await db.createReview({
+      id: `score_drop_${relation.id}_${Date.now()}`,
+      relationId: relation.id,
+      type: 'score_drop',
+      authorKey: relation.userkey,
+      authorName: relation.name,
+      authorAddr: relation.address,
+      score: 0,
+      comment: `Score ${previous.score} → ${current} (-${drop}, -${percent.toFixed(1)}%)`,
+      createdAt: new Date(),
+    });
+
+    const subject = {
+      name: relation.name,
+      address: relation.address,
+      profileId: ethosService.userkeyToProfileId(relation.userkey),
+    };
+
+    await this.dispatchAlert({
+      type: 'SCORE_DROP',
+      target: {
+        ...subject,
+        profileUrl: ethosService.getProfileUrl(relation.address),
+      },
+      attacker: subject,
+      score: current - previous.score,
+      comment: review.comment,
+      timestamp: new Date(),
+      reviewId: review.id,
+      relationId: relation.id,
+      account: { id: account.id, name: account.name },
+      scoreChange: { previous: previous.score, current },
+    }, account, result);
+    await db.markReviewAlerted(review.id);
+  }
+
+  // True if the score fell by at least the absolute or the percentage threshold
+  private isScoreDrop(previous: number, current: number): boolean {
+    const { absolute, percent } = config_values.monitor.scoreDrop;
+    const drop = previous - current;
+    if (drop <= 0) return false;
+
+    if (absolute > 0 && drop >= absolute) return true;
+    return percent > 0 && previous > 0 && (drop / previous) * 100 >= percent;
+  }
+
+  // Fetch and process activities received by a relation since its cursor
+  private async scanRelation(
+    account: AccountContext,
+    relation: { id: string; userkey: string; lastActivityAt: Date | null; lastActivityId: string | null },
+    options: MonitorOptions | undefined,
+    result: MonitorResult,
+    pending: PendingAlert[]
+  ): Promise<void> {
+    // Only fetch activities newer than the relation's cursor (unless full scan)
+    const cursor: ActivityCursor | null = !options?.fullScan && relation.lastActivityAt
+      ? { at: relation.lastActivityAt, id: relation.lastActivityId }
+      : null;
+
+    // Activities come newest first, so stop paging at the first already-seen page
+    const activities = await ethosService.getReceivedActivities(relation.userkey, ['review', 'slash', 'unvouch'], {
+      stopWhen: cursor ? (page) => page.some((a) => this.isBeforeCursor(a, cursor)) : undefined,
+    });
+    const fresh = cursor
+      ? activities.values.filter((a) => !this.isBeforeCursor(a, cursor))
+      : activities.values;
+    result.reviewsFound += fresh.length;
+    result.pagesByRelation[relation.userkey] = activities.pages;
+
+    // Process each new activity
+    for (const activity of fresh) {
+      await this.processActivity(account, activity, relation.id, result, pending);
+    }
+
+    // Advance the cursor only once every new activity was processed
+    const newest = this.getNewestCursor(fresh);
+    if (newest && (!cursor || newest.at > cursor.at)) {
+      await db.updateRelationCursor(relation.id, newest);
+    }
+  }
+
+  // Relation rows are keyed by vouch id
+  private getRelationId(account: AccountContext, vouch: EthosVouch): string {
+    return accountService.scopeId(account, vouch.id?.toString() || vouch.subjectProfileId.toString());
+  }
+
+  // Get activity ID from data.id (API structure)
+  private getActivityId(activity: EthosActivity): string {
+    return String(activity.data?.id || activity.id || `${activity.type}_${Date.now()}`);
+  }
+
+  // True if the activity is older than the cursor or is the cursor itself
+  private isBeforeCursor(activity: EthosActivity, cursor: ActivityCursor): boolean {
+    if (cursor.id && this.getActivityId(activity) === cursor.id) return true;
+    return this.parseActivityTimestamp(activity) < cursor.at;
+  }
+
+  // Build a cursor from the most recent activity in a batch
+  private getNewestCursor(activities: EthosActivity[]): ActivityCursor | null {
+    let newest: ActivityCursor | null = null;
+    for (const activity of activities) {
+      const at = this.parseActivityTimestamp(activity);
+      if (!newest || at > newest.at) {
+        newest = { at, id: this.getActivityId(activity) };
+      }
+    }
+    return newest;
+  }
+
   // Process a single activity
   private async processActivity(
+    account: AccountContext,
     activity: EthosActivity,
     relationId: string,
-    result: MonitorResult
+    result: MonitorResult,
+    pending: PendingAlert[]
   ): Promise<void> {
-    // Get activity ID from data.id (API structure)
-    const activityId = String(activity.data?.id || activity.id || `${activity.type}_${Date.now()}`);
+    const activityId = this.getActivityId(activity);
+    // Unvouch ids come from the vouch table and can collide with review ids; the same
+    // activity can also reach several accounts, so keys are scoped per account
+    const activityKey = accountService.scopeId(
+      account,
+      activity.type === 'unvouch' ? `unvouch_${activityId}` : activityId
+    );
 
     // Check if already processed
-    const exists = await db.reviewExists(activityId);
+    const exists = await db.reviewExists(activityKey);
     if (exists) return;
 
-    // Convert score string to number (API returns "positive", "negative", "neutral")
-    let score = 0;
-    const scoreValue = activity.data?.score;
-    if (typeof scoreValue === 'string') {
-      if (scoreValue === 'negative') score = -1;
-      else if (scoreValue === 'positive') score = 1;
-      else score = 0; // neutral
-    } else if (typeof scoreValue === 'number') {
-      score = scoreValue;
-    }
-
+    const score = this.parseScore(activity);
+    const isUnvouch = activity.type === 'unvouch';
     const isNegative = score < 0 || activity.type === 'slash';
 
     // Create review record
     const review = await db.createReview({
-      id: `${activity.type}_${activityId}`,
+      id: accountService.scopeId(account, `${activity.type}_${activityId}`),
       relationId,
+      type: activity.type,
       authorKey: ethosService.profileIdToUserkey(activity.author.profileId),
       authorName: activity.author.name || activity.author.username,
       authorAddr: activity.author.primaryAddress,
       score,
       comment: activity.data?.comment || null,
-      activityId,
+      activityId: activityKey,
       createdAt: this.parseActivityTimestamp(activity),
     });
 
-    // If negative, send alert
-    if (isNegative) {
-      result.newNegative++;
+    if (!isNegative && !isUnvouch) return;
 
-      const relation = await db.getRelationById(relationId);
-      if (!relation) return;
+    const relation = await db.getRelationById(relationId);
+    if (!relation) return;
 
-      // Prepare auto-defense suggestion
-      const defense = getRandomDefenseMessage(config_values.autoDefense.defaultScore);
+    webhookService.emit('review.detected', {
+      reviewId: review.id,
+      type: activity.type,
+      score,
+      comment: review.comment,
+      createdAt: review.createdAt.toISOString(),
+      relation: { id: relation.id, name: relation.name, address: relation.address, direction: relation.direction },
+      author: { userkey: review.authorKey, name: review.authorName, address: review.authorAddr },
+    }, account.id);
 
-      const payload: AlertPayload = {
-        type: activity.type === 'slash' ? 'SLASH' : 'NEGATIVE_REVIEW',
+    // Someone withdrew their vouch for one of our relations
+    if (isUnvouch) {
+      await this.dispatchAlert({
+        type: 'UNVOUCH',
         target: {
           name: relation.name,
           address: relation.address,
           profileUrl: ethosService.getProfileUrl(relation.address),
-          profileId: parseInt(relationId),
+          profileId: ethosService.userkeyToProfileId(relation.userkey),
         },
         attacker: {
           name: activity.author.name || activity.author.username,
@@ -212,60 +608,426 @@ class MonitorService {
         timestamp: new Date(),
         reviewId: review.id,
         relationId,
-        autoDefense: config_values.autoDefense.enabled
-          ? {
-              enabled: true,
-              requireConfirm: config_values.autoDefense.requireConfirm,
-              suggestedScore: defense.score,
-              suggestedComment: defense.message,
-            }
-          : undefined,
-      };
+        account: { id: account.id, name: account.name },
+      }, account, result);
+      await db.markReviewAlerted(review.id);
+      return;
+    }
 
-      // Send alerts
-      const alertResults = await alertService.sendAlert(payload);
+    // If negative, send alert
+    result.newNegative++;
 
-      // Store alert records
-      if (alertResults.telegram) {
-        await db.createAlert({
-          reviewId: review.id,
-          relationId,
-          type: payload.type === 'SLASH' ? 'SLASH' : 'NEGATIVE_REVIEW',
-          channel: 'TELEGRAM',
-          messageId: alertResults.telegram,
-        });
-        result.alertsSent++;
+    // Flag throwaway/sybil authors
+    const credibility = await credibilityService.assess(review.authorKey);
+    if (credibility) {
+      await db.updateReviewCredibility(review.id, credibility);
+    }
+
+    const type = activity.type === 'slash' ? 'SLASH' : 'NEGATIVE_REVIEW';
+
+    // Alert rules can suppress, route or escalate the alert and override auto-defense
+    const decision = await ruleService.evaluate({
+      accountId: account.id,
+      type,
+      relationId,
+      direction: relation.direction,
+      authorKey: review.authorKey,
+      authorAddr: review.authorAddr,
+      risk: credibility?.risk ?? null,
+      comment: review.comment,
+      score,
+      at: review.createdAt,
+    });
+    if (decision.matchedRules.length > 0) {
+      logger.info(`Review ${review.id} matched rules: ${decision.matchedRules.map((r) => r.name).join(', ')}`);
+    }
+    const defenseAction = decision.defense ?? (account.autoDefense.enabled ? 'create' : 'none');
+
+    // Prepare auto-defense suggestion
+    const defense = getRandomDefenseMessage(decision.defenseScore ?? account.autoDefense.defaultScore, config_values.i18n.defenseLocale);
+
+    const payload: AlertPayload = {
+      type,
+      target: {
+        name: relation.name,
+        address: relation.address,
+        profileUrl: ethosService.getProfileUrl(relation.address),
+        profileId: ethosService.userkeyToProfileId(relation.userkey),
+      },
+      attacker: {
+        name: activity.author.name || activity.author.username,
+        address: activity.author.primaryAddress,
+        profileId: activity.author.profileId,
+        credibility,
+      },
+      score,
+      comment: activity.data?.comment || null,
+      timestamp: new Date(),
+      reviewId: review.id,
+      relationId,
+      account: { id: account.id, name: account.name },
+      escalated: decision.escalate || undefined,
+      autoDefense: defenseAction === 'create'
+        ? {
+            enabled: true,
+            requireConfirm: account.autoDefense.requireConfirm,
+            suggestedScore: defense.score,
+            suggestedComment: defense.message,
+          }
+        : undefined,
+    };
+
+    // Alerted once the whole account is scanned, to detect coordinated attacks
+    if (decision.suppress) {
+      logger.info(`Alert suppressed by rules for review ${review.id}`);
+    } else {
+      pending.push({ payload, createdAt: review.createdAt, decision });
+    }
+
+    // Create pending defense if auto-defense enabled (or requested by a rule)
+    if (defenseAction !== 'none') {
+      await db.createDefense({
+        reviewId: review.id,
+        targetKey: relation.userkey,
+        score: defense.score,
+        comment: defense.message,
+        status: 'PENDING',
+      });
+    }
+
+    // Rule asked to defend right away, without confirmation
+    if (defenseAction === 'post') {
+      const posted = await this.postCustomDefense(relation.userkey, defense.score, defense.message, review.id, account.id);
+      if (!posted.success) {
+        result.errors.push(`Auto-posted defense failed for review ${review.id}: ${posted.error}`);
       }
+    }
+  }
 
-      if (alertResults.discord) {
-        await db.createAlert({
-          reviewId: review.id,
-          relationId,
-          type: payload.type === 'SLASH' ? 'SLASH' : 'NEGATIVE_REVIEW',
-          channel: 'DISCORD',
-          messageId: alertResults.discord,
-        });
-        result.alertsSent++;
+  // Convert score string to number (API returns "positive", "negative", "neutral")
+  private parseScore(activity: EthosActivity): number {
+    const scoreValue = activity.data?.score;
+    if (typeof scoreValue === 'string') {
+      if (scoreValue === 'negative') return -1;
+      if (scoreValue === 'positive') return 1;
+      return 0; // neutral
+    }
+    return typeof scoreValue === 'number' ? scoreValue : 0;
+  }
+
+  // Re-fetch stored negative reviews to catch edits, archival and retraction
+  async verifyStoredReviews(): Promise<{ checked: number; edited: number; withdrawn: number; errors: string[] }> {
+    const summary = { checked: 0, edited: 0, withdrawn: 0, errors: [] as string[] };
+    const since = new Date(Date.now() - config_values.monitor.recheck.maxAgeDays * 24 * 60 * 60 * 1000);
+    const reviews = await db.getReviewsToVerify(since);
+    const accounts = new Map<string, AccountContext | null>();
+
+    for (const review of reviews) {
+      try {
+        summary.checked++;
+
+        // Activity keys of non-default accounts are prefixed with the account id
+        const activityId = review.activityId!.slice(review.activityId!.lastIndexOf(':') + 1);
+        const activity = await ethosService.getActivity(review.type as ActivityType, activityId);
+
+        const score = activity ? this.parseScore(activity) : review.score;
+        const comment = activity ? activity.data?.comment || null : review.comment;
+        const edited = !!activity && (score !== review.score || comment !== review.comment);
+
+        let status: 'active' | 'edited' | 'archived' | 'retracted' = review.status as 'active' | 'edited';
+        if (!activity) status = 'retracted';
+        else if (activity.data?.archived) status = 'archived';
+        else if (edited) status = 'edited';
+
+        if (edited) {
+          await db.createReviewRevision({ reviewId: review.id, score: review.score, comment: review.comment });
+          summary.edited++;
+        }
+        await db.updateReviewVerification(review, { status, score, comment });
+
+        if (status === review.status && !edited) continue;
+
+        // An archived, retracted or no longer negative review needs no defense anymore
+        // (slashes have no score, only their removal withdraws them)
+        const withdrawn = status === 'archived' || status === 'retracted' || (review.type === 'review' && score >= 0);
+        if (withdrawn) {
+          const expired = await db.expireReviewResponses(review.id);
+          await alertService.updateAlertMessages(review.id, { status: 'EXPIRED', at: new Date() });
+          summary.withdrawn++;
+          logger.info(`Review ${review.id} withdrawn (${status}), expired ${expired.alerts} alerts and ${expired.defenses} defenses`);
+        }
+
+        const accountId = review.relation.accountId || DEFAULT_ACCOUNT_ID;
+        if (!accounts.has(accountId)) {
+          accounts.set(accountId, await accountService.getContext(accountId));
+        }
+        await alertService.sendNotification(
+          (locale, channel) => this.formatReviewChange(review, status, score, comment, withdrawn, locale, channel),
+          'all',
+          accounts.get(accountId)?.routing
+        );
+      } catch (error) {
+        const errorMsg = `Error verifying review ${review.id}: ${error}`;
+        logger.error(errorMsg);
+        summary.errors.push(errorMsg);
+      }
+    }
+
+    logger.info(`Review verification: ${summary.checked} checked, ${summary.edited} edited, ${summary.withdrawn} withdrawn`);
+    return summary;
+  }
+
+  // Notification text for a review that changed after ingestion
+  private formatReviewChange(
+    review: { authorName: string | null; score: number; comment: string | null; relation: { name: string | null } },
+    status: string,
+    score: number,
+    comment: string | null,
+    withdrawn: boolean,
+    locale: Locale,
+    channel: AlertChannelName
+  ): string {
+    const escape = (text: string) => escapeForChannel(channel, text);
+    const title = status === 'archived' || status === 'retracted' ? t(locale, `review.${status}`) : t(locale, 'review.edited');
+    const unknown = t(locale, 'alert.unknown');
+
+    let message = `${title}\n\n`;
+    message += `📛 ${t(locale, 'field.target')}: ${escape(review.relation.name || unknown)}\n`;
+    message += `👤 ${t(locale, 'field.author')}: ${escape(review.authorName || unknown)}\n`;
+    if (status === 'edited') {
+      message += `⭐ ${t(locale, 'field.score')}: ${review.score} → ${score}\n`;
+      if (comment !== review.comment) {
+        message += `💬 ${t(locale, 'field.before')}: "${escape((review.comment || '').slice(0, 200))}"\n`;
+        message += `💬 ${t(locale, 'field.after')}: "${escape((comment || '').slice(0, 200))}"\n`;
+      }
+    }
+    if (withdrawn) {
+      message += `\n✅ ${t(locale, 'review.withdrawn')}`;
+    }
+    return message;
+  }
+
+  // Deactivate relations whose vouch disappeared (or was archived) and alert on each
+  private async detectRemovedRelations(
+    account: AccountContext,
+    watch: WatchTargets,
+    result: MonitorResult
+  ): Promise<void> {
+    const scope = account.scope;
+    const stored = await db.getRelations(true, { accountId: account.id });
+
+    const removed = [];
+    for (const relation of stored) {
+      const direction = relation.direction as RelationDirection;
+
+      // Watchlist entries are only ever removed by hand
+      if (direction === 'manual') continue;
+
+      // Relations from a direction that left the scope are dropped silently
+      if (!scope.includes(direction)) {
+        await db.setRelationActive(relation.id, false);
+        continue;
       }
 
-      // Create pending defense if auto-defense enabled
-      if (config_values.autoDefense.enabled) {
-        await db.createDefense({
+      if (direction === 'self' || !watch.completeDirections.has(direction)) continue;
+      if (!watch.activeIds.has(relation.id)) removed.push(relation);
+    }
+    if (removed.length === 0) return;
+
+    const self = await ethosService.getProfile(account.userkey);
+    const selfInfo = {
+      name: self?.name || self?.username || null,
+      address: self?.primaryAddress || '',
+      profileId: self?.id || 0,
+    };
+
+    for (const relation of removed) {
+      try {
+        const vouch = watch.removedVouches.get(relation.id);
+        const removedAt = vouch?.unvouchedAt ? new Date(vouch.unvouchedAt) : new Date();
+        const isIncoming = relation.direction === 'incoming';
+
+        await db.setRelationActive(relation.id, false);
+        logger.info(`Relation ${relation.userkey} (${relation.direction}) is no longer vouched, marked inactive`);
+
+        // The unvouch shows up as an activity on our own profile when self is watched
+        if (isIncoming && scope.includes('self')) continue;
+
+        const relationInfo = {
+          name: relation.name,
+          address: relation.address,
+          profileId: ethosService.userkeyToProfileId(relation.userkey),
+        };
+
+        // Outgoing: we removed our vouch. Incoming: the relation removed its vouch for us
+        const author = isIncoming ? relationInfo : selfInfo;
+        const target = isIncoming ? selfInfo : relationInfo;
+
+        // Record the removal as an activity so the alert has something to point at
+        const review = await db.createReview({
+          id: `unvouch_${relation.direction}_${relation.id}_${removedAt.getTime()}`,
+          relationId: relation.id,
+          type: 'unvouch',
+          authorKey: isIncoming ? relation.userkey : account.userkey,
+          authorName: author.name,
+          authorAddr: author.address || null,
+          score: 0,
+          comment: vouch?.archived ? 'Vouch archived' : 'Vouch removed',
+          createdAt: removedAt,
+        });
+
+        await this.dispatchAlert({
+          type: 'UNVOUCH',
+          target: {
+            ...target,
+            profileUrl: ethosService.getProfileUrl(target.address || target.profileId),
+          },
+          attacker: author,
+          score: 0,
+          comment: review.comment,
+          timestamp: new Date(),
           reviewId: review.id,
-          targetKey: relation.userkey,
-          score: defense.score,
-          comment: defense.message,
-          status: 'PENDING',
+          relationId: relation.id,
+          account: { id: account.id, name: account.name },
+        }, account, result);
+        await db.markReviewAlerted(review.id);
+      } catch (error) {
+        const errorMsg = `Error handling removed relation ${relation.userkey}: ${error}`;
+        logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+  }
+
+  // Send an alert on the account's channels and store one Alert row per delivered message
+  private async dispatchAlert(
+    payload: AlertPayload,
+    account: AccountContext,
+    result: MonitorResult,
+    channels?: AlertChannelName[] | null
+  ): Promise<void> {
+    if (await db.isRelationMuted(payload.relationId)) {
+      logger.info(`Alert muted for relation ${payload.relationId} (review ${payload.reviewId})`);
+      return;
+    }
+
+    // The Telegram alert is stored first so its buttons can reference it
+    const telegramAlert = await db.createAlert({
+      reviewId: payload.reviewId,
+      relationId: payload.relationId,
+      type: payload.type,
+      channel: 'TELEGRAM',
+    });
+
+    const alertResults = await alertService.sendAlert(payload, account.routing, channels, telegramAlert.id);
+
+    if (alertResults.telegram) {
+      await db.updateAlertMessageId(telegramAlert.id, alertResults.telegram);
+      result.alertsSent++;
+    } else if (!alertResults.queued.includes('telegram')) {
+      await db.deleteAlert(telegramAlert.id);
+    }
+
+    // Queued for the quiet hours digest: stored without a message to act on
+    if (alertResults.queued.includes('discord')) {
+      await db.createAlert({
+        reviewId: payload.reviewId,
+        relationId: payload.relationId,
+        type: payload.type,
+        channel: 'DISCORD',
+      });
+    }
+
+    if (alertResults.discord) {
+      await db.createAlert({
+        reviewId: payload.reviewId,
+        relationId: payload.relationId,
+        type: payload.type,
+        channel: 'DISCORD',
+        messageId: alertResults.discord,
+      });
+      result.alertsSent++;
+    }
+
+    // One alert per message delivered on the other channels
+    for (const channel of ['slack', 'email', 'matrix', 'ntfy', 'twitter'] as const) {
+      const messageId = alertResults[channel];
+      if (!messageId) continue;
+
+      await db.createAlert({
+        reviewId: payload.reviewId,
+        relationId: payload.relationId,
+        type: payload.type,
+        channel: channel.toUpperCase() as Uppercase<typeof channel>,
+        messageId,
+      });
+      result.alertsSent++;
+    }
+
+    this.emitAlertCreated(payload, account, alertResults);
+  }
+
+  // One alert for the reviews of an incident, on the channels the rules of at least one of them allow.
+  // Every review gets an Alert row per channel pointing at the shared message (none while queued).
+  private async dispatchIncidentAlert(
+    incident: DetectedIncident,
+    items: PendingAlert[],
+    account: AccountContext,
+    result: MonitorResult
+  ): Promise<void> {
+    const channels = items.some(({ decision }) => decision.escalate || !decision.channels)
+      ? null
+      : [...new Set(items.flatMap(({ decision }) => decision.channels || []))];
+    const critical = items.some(({ payload }) => alertService.isCritical(payload));
+    const alertResults = await alertService.sendIncidentAlert(incident.payload, account.routing, channels, critical);
+
+    for (const { payload } of items) {
+      for (const channel of ALERT_CHANNELS) {
+        const messageId = alertResults[channel];
+        if (!messageId && !alertResults.queued.includes(channel)) continue;
+
+        await db.createAlert({
+          reviewId: payload.reviewId,
+          relationId: payload.relationId,
+          type: payload.type,
+          channel: channel.toUpperCase() as Uppercase<AlertChannelName>,
+          messageId,
+          incidentId: incident.payload.incidentId,
         });
       }
+      await db.markReviewAlerted(payload.reviewId);
+    }
 
-      // Mark review as alerted
-      await db.markReviewAlerted(review.id);
+    result.alertsSent += ALERT_CHANNELS.filter((channel) => alertResults[channel]).length;
+
+    for (const { payload } of items) {
+      this.emitAlertCreated(payload, account, alertResults, incident.payload.incidentId);
     }
   }
 
-  // Execute defense (post positive review)
-  async executeDefense(alertId: string, reviewId: string): Promise<boolean> {
+  private emitAlertCreated(
+    payload: AlertPayload,
+    account: AccountContext,
+    delivered: Partial<AlertDelivery>,
+    incidentId?: string
+  ) {
+    webhookService.emit('alert.created', {
+      type: payload.type,
+      reviewId: payload.reviewId,
+      relationId: payload.relationId,
+      incidentId: incidentId ?? null,
+      target: payload.target,
+      attacker: payload.attacker,
+      score: payload.score,
+      comment: payload.comment,
+      escalated: !!payload.escalated,
+      channels: ALERT_CHANNELS.filter((channel) => delivered[channel]),
+      queued: delivered.queued || [],
+    }, account.id);
+  }
+
+  // Execute defense (post positive review); actor is who confirmed it, shown on the alert messages
+  async executeDefense(alertId: string, reviewId: string, actor?: string): Promise<boolean> {
     try {
       const alert = await db.getAlertById(alertId);
       if (!alert) {
@@ -282,8 +1044,9 @@ class MonitorService {
       // Update defense status to confirmed
       await db.updateDefenseStatus(pendingDefense.id, 'CONFIRMED');
 
-      // Post the review via Ethos API
-      const result = await ethosService.postReview(
+      // Post the review via Ethos API as the account that owns the relation
+      const result = await this.postAsAccount(
+        alert.relation.accountId,
         pendingDefense.targetKey,
         pendingDefense.score,
         pendingDefense.comment
@@ -293,15 +1056,26 @@ class MonitorService {
         await db.updateDefenseStatus(pendingDefense.id, 'POSTED', {
           ethosReviewId: result.reviewId,
           txHash: result.txHash,
+          twitterPostId: await this.postTwitterSupport(alert.relation, pendingDefense.comment),
         });
         await db.updateAlertStatus(alertId, 'CONFIRMED');
+        await db.updateReviewAlertsStatus(reviewId, 'CONFIRMED');
         logger.info(`Defense posted successfully for ${pendingDefense.targetKey}`);
+        await alertService.updateAlertMessages(reviewId, {
+          status: 'POSTED',
+          actor,
+          at: new Date(),
+          reviewUrl: result.reviewId ? ethosService.getReviewUrl(result.reviewId) : null,
+        });
+        this.emitDefense(alert.relation.accountId, { ...pendingDefense, actor }, result);
         return true;
       } else {
         await db.updateDefenseStatus(pendingDefense.id, 'FAILED', {
           error: result.error,
         });
         logger.error(`Defense failed for ${pendingDefense.targetKey}: ${result.error}`);
+        await alertService.updateAlertMessages(reviewId, { status: 'FAILED', actor, at: new Date(), error: result.error });
+        this.emitDefense(alert.relation.accountId, { ...pendingDefense, actor }, result);
         return false;
       }
     } catch (error) {
@@ -310,27 +1084,32 @@ class MonitorService {
     }
   }
 
-  // Manual defense with custom parameters
+  // Manual defense with custom parameters, posted as the given account or the review's account
   async postCustomDefense(
     targetUserkey: string,
     score: number,
     comment: string,
-    reviewId?: string
-  ): Promise<{ success: boolean; error?: string }> {
+    reviewId?: string,
+    accountId?: string
+  ): Promise<{ success: boolean; reviewId?: string; error?: string }> {
     try {
-      const result = await ethosService.postReview(targetUserkey, score, comment);
+      const review = !accountId && reviewId ? await db.getReviewById(reviewId) : null;
+      const result = await this.postAsAccount(accountId || review?.relation.accountId, targetUserkey, score, comment);
 
       if (result.success && reviewId) {
         // If linked to an existing review, update defense record
         const defense = await db.getPendingDefense(reviewId);
         if (defense) {
+          const relation = (review ?? await db.getReviewById(reviewId))?.relation;
           await db.updateDefenseStatus(defense.id, 'POSTED', {
             ethosReviewId: result.reviewId,
             txHash: result.txHash,
+            twitterPostId: relation ? await this.postTwitterSupport(relation, comment) : undefined,
           });
         }
       }
 
+      this.emitDefense(accountId || review?.relation.accountId || null, { reviewId: reviewId || null, targetKey: targetUserkey, score, comment }, result);
       return result;
     } catch (error) {
       logger.error('Custom defense error:', error);
@@ -338,6 +1117,57 @@ class MonitorService {
     }
   }
 
+  // Public support of the defended relation on X, once its defense is posted
+  private async postTwitterSupport(relation: { name: string | null; address: string; userkey: string }, comment: string) {
+    return alertService.postTwitterSupport(
+      { name: relation.name, address: relation.address, profileId: ethosService.userkeyToProfileId(relation.userkey) },
+      comment
+    );
+  }
+
+  // Post with the account's own token; an account without one fails instead of posting as the default account
+  private async postAsAccount(
+    accountId: string | null | undefined,
+    targetUserkey: string,
+    score: number,
+    comment: string
+  ): Promise<{ success: boolean; reviewId?: string; txHash?: string; error?: string }> {
+    let token: string;
+    try {
+      token = await accountService.getToken(accountId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Defense not posted for ${targetUserkey}: ${message}`);
+      return { success: false, error: message };
+    }
+    return ethosService.postReview(targetUserkey, score, comment, token);
+  }
+
+  private emitDefense(
+    accountId: string | null,
+    defense: { reviewId: string | null; targetKey: string; score: number; comment: string; actor?: string },
+    result: { success: boolean; reviewId?: string; txHash?: string; error?: string }
+  ) {
+    const data = {
+      reviewId: defense.reviewId,
+      target: defense.targetKey,
+      score: defense.score,
+      comment: defense.comment,
+      actor: defense.actor ?? null,
+    };
+
+    if (result.success) {
+      webhookService.emit('defense.posted', {
+        ...data,
+        ethosReviewId: result.reviewId ?? null,
+        reviewUrl: result.reviewId ? ethosService.getReviewUrl(result.reviewId) : null,
+        txHash: result.txHash ?? null,
+      }, accountId);
+    } else {
+      webhookService.emit('defense.failed', { ...data, error: result.error ?? null }, accountId);
+    }
+  }
+
   // Parse activity timestamp (API returns Unix seconds, not milliseconds)
   private parseActivityTimestamp(activity: EthosActivity): Date {
     // Try timestamp first (Unix seconds)
@@ -361,14 +1191,20 @@ class MonitorService {
     return new Date();
   }
 
-  // Get monitor status
-  getStatus() {
+  // Get monitor status, with the scope and auto-defense each active account resolves to
+  async getStatus() {
+    const accounts = await accountService.getActiveContexts();
     return {
       isRunning: this.isRunning,
       lastRunAt: this.lastRunAt,
       intervalMinutes: config_values.scheduler.intervalMinutes,
-      autoDefenseEnabled: config_values.autoDefense.enabled,
-      autoDefenseRequireConfirm: config_values.autoDefense.requireConfirm,
+      accounts: accounts.map((account) => ({
+        id: account.id,
+        name: account.name,
+        scope: account.scope,
+        autoDefenseEnabled: account.autoDefense.enabled,
+        autoDefenseRequireConfirm: account.autoDefense.requireConfirm,
+      })),
     };
   }
 }
@@ -0,0 +1,195 @@
+import logger from '../utils/logger.js';
+import { getMinutesOfDay, isInTimeWindow } from '../utils/time.js';
+import db from './database.service.js';
+import type {
+  AttackerRisk,
+  RuleActions,
+  RuleConditions,
+  RuleContext,
+  RuleDecision,
+} from '../models/types.js';
+
+type AlertRuleRow = NonNullable<Awaited<ReturnType<typeof db.getAlertRuleById>>>;
+type Attack = Awaited<ReturnType<typeof db.getAttacks>>[number];
+
+// An alert rule with its JSON columns parsed
+export interface AlertRule extends Omit<AlertRuleRow, 'conditions' | 'actions'> {
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+class RuleService {
+  async getRules(accountId?: string): Promise<AlertRule[]> {
+    const rows = await db.getAlertRules({ accountId });
+    return rows.map((row) => this.parse(row));
+  }
+
+  async getRule(id: string): Promise<AlertRule | null> {
+    const row = await db.getAlertRuleById(id);
+    return row ? this.parse(row) : null;
+  }
+
+  async createRule(data: Parameters<typeof db.createAlertRule>[0]): Promise<AlertRule> {
+    return this.parse(await db.createAlertRule(data));
+  }
+
+  async updateRule(id: string, data: Parameters<typeof db.updateAlertRule>[1]): Promise<AlertRule> {
+    return this.parse(await db.updateAlertRule(id, data));
+  }
+
+  // Evaluate the enabled rules of an account against a negative review
+  async evaluate(context: RuleContext): Promise<RuleDecision> {
+    try {
+      const rows = await db.getAlertRules({ accountId: context.accountId, enabledOnly: true });
+      return this.decide(rows.map((row) => this.parse(row)), context);
+    } catch (error) {
+      logger.error('Failed to evaluate alert rules:', error);
+      return this.decide([], context);
+    }
+  }
+
+  // Merge the actions of matching rules: each action is taken from the
+  // highest-priority (lowest number) matching rule that sets it
+  decide(rules: AlertRule[], context: RuleContext): RuleDecision {
+    const decision: RuleDecision = {
+      suppress: false,
+      escalate: false,
+      channels: null,
+      defense: null,
+      defenseScore: null,
+      matchedRules: [],
+    };
+    const decided = new Set<keyof RuleActions>();
+
+    for (const rule of rules) {
+      if (!this.matches(rule.conditions, context)) continue;
+      decision.matchedRules.push({ id: rule.id, name: rule.name });
+
+      const { actions } = rule;
+      const take = <K extends keyof RuleActions>(key: K, apply: (value: NonNullable<RuleActions[K]>) => void) => {
+        const value = actions[key];
+        if (value === undefined || value === null || decided.has(key)) return;
+        decided.add(key);
+        apply(value as NonNullable<RuleActions[K]>);
+      };
+
+      take('suppress', (v) => { decision.suppress = v; });
+      take('escalate', (v) => { decision.escalate = v; });
+      take('channels', (v) => { decision.channels = v; });
+      take('defense', (v) => { decision.defense = v; });
+      take('defenseScore', (v) => { decision.defenseScore = v; });
+
+      if (actions.stop) break;
+    }
+
+    return decision;
+  }
+
+  // True if every condition set on the rule matches
+  matches(conditions: RuleConditions, context: RuleContext): boolean {
+    if (conditions.types?.length && !conditions.types.includes(context.type)) return false;
+    if (conditions.relationIds?.length && !conditions.relationIds.includes(context.relationId)) return false;
+    if (conditions.directions?.length && !conditions.directions.some((d) => d === context.direction)) return false;
+
+    if (conditions.attackers?.length) {
+      const keys = [context.authorKey, context.authorAddr].filter(Boolean).map((k) => k!.toLowerCase());
+      if (!conditions.attackers.some((a) => keys.includes(a.toLowerCase()))) return false;
+    }
+
+    if (conditions.attackerRisks?.length && (!context.risk || !conditions.attackerRisks.includes(context.risk))) {
+      return false;
+    }
+
+    if (conditions.keywords?.length) {
+      const comment = (context.comment || '').toLowerCase();
+      if (!conditions.keywords.some((k) => comment.includes(k.toLowerCase()))) return false;
+    }
+
+    if (conditions.minScore !== undefined && context.score < conditions.minScore) return false;
+    if (conditions.maxScore !== undefined && context.score > conditions.maxScore) return false;
+
+    if (conditions.hours) {
+      const hour = this.getHour(context.at, conditions.hours.timezone);
+      if (!isInTimeWindow(hour, conditions.hours.from, conditions.hours.to)) return false;
+    }
+
+    return true;
+  }
+
+  // Replay rules against stored negative reviews to show what would have fired.
+  // With a draft rule only that rule is evaluated, otherwise the account's enabled rules.
+  async preview(options: {
+    accountId?: string;
+    days: number;
+    rule?: { conditions: RuleConditions; actions: RuleActions };
+  }) {
+    const since = new Date(Date.now() - options.days * 24 * 60 * 60 * 1000);
+    const attacks = await db.getAttacks({ accountId: options.accountId, since });
+
+    const savedRules = options.rule
+      ? []
+      : (await db.getAlertRules({ accountId: options.accountId, enabledOnly: true })).map((row) => this.parse(row));
+
+    const results = attacks
+      .map((attack) => {
+        const rules = options.rule
+          ? [{ id: 'preview', name: 'preview', ...options.rule } as AlertRule]
+          : savedRules.filter((r) => !r.accountId || r.accountId === attack.relation.accountId);
+        return { review: attack, decision: this.decide(rules, this.toContext(attack)) };
+      })
+      .filter((r) => r.decision.matchedRules.length > 0);
+
+    return {
+      reviewsChecked: attacks.length,
+      matched: results.length,
+      suppressed: results.filter((r) => r.decision.suppress).length,
+      escalated: results.filter((r) => r.decision.escalate).length,
+      results,
+    };
+  }
+
+  // Rule context of a stored review
+  private toContext(attack: Attack): RuleContext {
+    return {
+      accountId: attack.relation.accountId || '',
+      type: attack.type === 'slash' ? 'SLASH' : 'NEGATIVE_REVIEW',
+      relationId: attack.relationId,
+      direction: attack.relation.direction,
+      authorKey: attack.authorKey,
+      authorAddr: attack.authorAddr,
+      risk: attack.attackerRisk as AttackerRisk | null,
+      comment: attack.comment,
+      score: attack.score,
+      at: attack.createdAt,
+    };
+  }
+
+  // Hour of day in the rule's timezone (server timezone by default)
+  private getHour(date: Date, timezone?: string): number {
+    try {
+      return Math.floor(getMinutesOfDay(date, timezone) / 60);
+    } catch {
+      logger.warn(`Invalid rule timezone ${timezone}, using server time`);
+      return date.getHours();
+    }
+  }
+
+  private parse(row: AlertRuleRow): AlertRule {
+    return {
+      ...row,
+      conditions: this.parseJson<RuleConditions>(row.conditions),
+      actions: this.parseJson<RuleActions>(row.actions),
+    };
+  }
+
+  private parseJson<T>(value: string): T {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return {} as T;
+    }
+  }
+}
+
+export const ruleService = new RuleService();
+export default ruleService;
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { config_values } from '../config/env.js';
+import logger from '../utils/logger.js';
+import { channelLocale, t } from '../utils/i18n.js';
+import db from './database.service.js';
+import alertService from './alert.service.js';
+import type { SlackInteraction, TelegramCallbackData } from '../models/types.js';
+
+// Requests signed longer ago than this are rejected (replay protection, as advised by Slack)
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+// Button action_ids (see AlertService.createSlackButtons) and their callback action
+const BUTTON_ACTIONS: Record<string, TelegramCallbackData['action']> = {
+  confirm: 'confirm',
+  ignore: 'ignore',
+};
+
+class SlackService {
+  constructor() {
+    if (this.isEnabled() && config_values.slack.interactions.allowedUserIds.length === 0) {
+      logger.warn('SLACK_ALLOWED_USER_IDS is empty, nobody can act on alerts from Slack');
+    }
+  }
+
+  isEnabled(): boolean {
+    return config_values.slack.enabled && config_values.slack.interactions.enabled;
+  }
+
+  // Check the "v0=" HMAC-SHA256 signature of "v0:<timestamp>:<body>" made with the signing secret
+  verifySignature(rawBody: Buffer, signature?: string, timestamp?: string): boolean {
+    if (!this.isEnabled() || !signature || !timestamp) return false;
+    const sentAt = Number(timestamp);
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > MAX_REQUEST_AGE_SECONDS) return false;
+
+    const expected = 'v0=' + crypto
+      .createHmac('sha256', config_values.slack.interactions.signingSecret)
+      .update(`v0:${timestamp}:${rawBody.toString('utf-8')}`)
+      .digest('hex');
+
+    return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  // Slack expects an empty 200 within 3 seconds: actions run afterwards and errors are
+  // reported to the user through the interaction's response_url
+  async handleInteraction(interaction: SlackInteraction) {
+    if (interaction.type !== 'block_actions') return;
+
+    const button = interaction.actions?.[0];
+    const action = button ? BUTTON_ACTIONS[button.action_id] : undefined;
+    // Link buttons (dashboard) also send an interaction, there is nothing to do
+    if (!action || !button?.value) return;
+
+    const reviewId = button.value;
+    const user = interaction.user;
+    const locale = channelLocale('slack');
+    const { allowedUserIds } = config_values.slack.interactions;
+    if (!allowedUserIds.includes(user.id)) {
+      logger.warn(`Slack user ${user.username || user.id} is not allowed to ${action} alerts`);
+      await this.reply(interaction, t(locale, 'action.notAllowed'));
+      return;
+    }
+
+    const alert = interaction.message ? await db.getAlertByMessageId('SLACK', interaction.message.ts) : null;
+    if (!alert || alert.reviewId !== reviewId) {
+      await this.reply(interaction, t(locale, 'action.notFound'));
+      return;
+    }
+    if (alert.status !== 'PENDING') {
+      await this.reply(interaction, t(locale, 'action.alreadyHandled', { status: alert.status }));
+      return;
+    }
+
+    // The outcome is shown on the alert message by the action handlers (AlertService.updateAlertMessages)
+    try {
+      await alertService.handleAction({
+        action,
+        alertId: alert.id,
+        reviewId,
+        actor: `@${user.username || user.name || user.id} (Slack)`,
+      });
+    } catch (error) {
+      logger.error(`Slack ${action} action failed:`, error);
+      await this.reply(interaction, t(locale, 'action.error', { error: error instanceof Error ? error.message : String(error) }));
+    }
+  }
+
+  // Message only visible to the user who clicked
+  private async reply(interaction: SlackInteraction, text: string) {
+    if (!interaction.response_url) return;
+
+    try {
+      await axios.post(interaction.response_url, {
+        response_type: 'ephemeral',
+        replace_original: false,
+        text,
+      });
+    } catch (error) {
+      logger.error('Failed to reply to Slack interaction:', error);
+    }
+  }
+}
+
+export const slackService = new SlackService();
+export default slackService;
@@ -2,6 +2,9 @@ import jwt from 'jsonwebtoken';
 import { config_values } from '../config/env.js';
 import logger from '../utils/logger.js';
 import ethosService from './ethos.service.js';
+import db from './database.service.js';
+import webhookService from './webhook.service.js';
+import { DEFAULT_ACCOUNT_ID } from '../models/types.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -14,7 +17,7 @@ interface PrivyTokenPayload {
   exp: number;      // Expiration
 }
 
-interface TokenStatus {
+export interface TokenStatus {
   valid: boolean;
   expiresAt: Date | null;
   expiresIn: number | null; // seconds
@@ -29,6 +32,8 @@ class TokenService {
   private tokenPayload: PrivyTokenPayload | null = null;
   private checkInterval: NodeJS.Timeout | null = null;
   private onTokenExpiring: ((status: TokenStatus) => void) | null = null;
+  // Expiry states already sent to the webhooks ("<accountId>:<expiresAt>:<expired>")
+  private notifiedExpiries: Set<string> = new Set();
 
   constructor() {
     this.currentToken = config_values.ethos.privyToken || null;
@@ -54,7 +59,16 @@ class TokenService {
 
   // Get current token status
   getStatus(): TokenStatus {
-    if (!this.currentToken || !this.tokenPayload) {
+    return this.buildStatus(this.currentToken ? this.tokenPayload : null);
+  }
+
+  // Get the status of any token (e.g. another monitored account's)
+  getTokenStatus(token: string | null): TokenStatus {
+    return this.buildStatus(token ? (jwt.decode(token) as PrivyTokenPayload | null) : null);
+  }
+
+  private buildStatus(payload: PrivyTokenPayload | null): TokenStatus {
+    if (!payload) {
       return {
         valid: false,
         expiresAt: null,
@@ -67,18 +81,18 @@ class TokenService {
     }
 
     const now = Math.floor(Date.now() / 1000);
-    const expiresIn = this.tokenPayload.exp - now;
+    const expiresIn = payload.exp - now;
     const isExpired = expiresIn <= 0;
     const isExpiringSoon = expiresIn < 3600; // < 1 hour
 
     return {
       valid: !isExpired,
-      expiresAt: new Date(this.tokenPayload.exp * 1000),
+      expiresAt: new Date(payload.exp * 1000),
       expiresIn: Math.max(0, expiresIn),
       isExpired,
       isExpiringSoon,
-      userId: this.tokenPayload.sub,
-      sessionId: this.tokenPayload.sid,
+      userId: payload.sub,
+      sessionId: payload.sid,
     };
   }
 
@@ -131,6 +145,29 @@ class TokenService {
     }
   }
 
+  // Update the token of a monitored account; the default account keeps using .env
+  async updateAccountToken(
+    accountId: string,
+    newToken: string
+  ): Promise<{ success: boolean; status: TokenStatus; error?: string }> {
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      return this.updateToken(newToken);
+    }
+
+    const status = this.getTokenStatus(newToken);
+    if (!status.expiresAt) {
+      return { success: false, status, error: 'Invalid token format' };
+    }
+    if (status.isExpired) {
+      return { success: false, status, error: 'Token is already expired' };
+    }
+
+    await db.updateAccount(accountId, { privyToken: newToken });
+    logger.info(`Token updated for account ${accountId}, expires at ${status.expiresAt.toISOString()}`);
+
+    return { success: true, status };
+  }
+
   // Update .env file with new token
   private async updateEnvFile(newToken: string): Promise<void> {
     try {
@@ -180,12 +217,14 @@ class TokenService {
   // Check token expiration and trigger callback if needed
   private checkTokenExpiration(): void {
     const status = this.getStatus();
+    this.checkAccountTokens();
 
     if (status.isExpired) {
       logger.error('TOKEN EXPIRED! Please update your Privy token.');
       if (this.onTokenExpiring) {
         this.onTokenExpiring(status);
       }
+      this.emitTokenExpiring(DEFAULT_ACCOUNT_ID, status);
     } else if (status.isExpiringSoon) {
       const hoursLeft = Math.floor((status.expiresIn || 0) / 3600);
       const minutesLeft = Math.floor(((status.expiresIn || 0) % 3600) / 60);
@@ -193,6 +232,41 @@ class TokenService {
       if (this.onTokenExpiring) {
         this.onTokenExpiring(status);
       }
+      this.emitTokenExpiring(DEFAULT_ACCOUNT_ID, status);
+    }
+  }
+
+  // Checks run every 5 minutes: each token is reported once when expiring soon, once when expired
+  private emitTokenExpiring(accountId: string, status: TokenStatus): void {
+    const key = `${accountId}:${status.expiresAt?.getTime()}:${status.isExpired}`;
+    if (this.notifiedExpiries.has(key)) return;
+    this.notifiedExpiries.add(key);
+
+    webhookService.emit('token.expiring', {
+      expiresAt: status.expiresAt?.toISOString() || null,
+      expiresIn: status.expiresIn,
+      expired: status.isExpired,
+    }, accountId);
+  }
+
+  // Warn about expired or expiring tokens of the other monitored accounts
+  private async checkAccountTokens(): Promise<void> {
+    try {
+      const accounts = await db.getAccounts(true);
+      for (const account of accounts) {
+        if (account.id === DEFAULT_ACCOUNT_ID || !account.privyToken) continue;
+
+        const status = this.getTokenStatus(account.privyToken);
+        if (status.isExpired) {
+          logger.error(`TOKEN EXPIRED for account ${account.name}! Please update its Privy token.`);
+          this.emitTokenExpiring(account.id, status);
+        } else if (status.isExpiringSoon) {
+          logger.warn(`Token of account ${account.name} expiring soon! ${Math.floor((status.expiresIn || 0) / 60)}m remaining.`);
+          this.emitTokenExpiring(account.id, status);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to check account tokens:', error);
     }
   }
 
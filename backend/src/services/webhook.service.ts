@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { config_values } from '../config/env.js';
+import logger from '../utils/logger.js';
+import db from './database.service.js';
+import { WEBHOOK_EVENT_VERSION } from '../models/types.js';
+import type { WebhookEvent, WebhookEventType } from '../models/types.js';
+
+type WebhookRow = NonNullable<Awaited<ReturnType<typeof db.getWebhookById>>>;
+
+// A webhook with its event filter parsed
+export interface Webhook extends Omit<WebhookRow, 'events'> {
+  events: WebhookEventType[];
+}
+
+// Delay before the retry that follows attempt n: 1 min, 4 min, 16 min, 64 min...
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_FACTOR = 4;
+
+// Response bodies and errors kept in the delivery history
+const MAX_ERROR_LENGTH = 500;
+
+class WebhookService {
+  private isRetrying = false;
+
+  async getWebhooks(accountId?: string): Promise<Webhook[]> {
+    const rows = await db.getWebhooks({ accountId });
+    return rows.map((row) => this.parse(row));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    const row = await db.getWebhookById(id);
+    return row ? this.parse(row) : null;
+  }
+
+  // A random secret is generated when none is given
+  async createWebhook(data: Omit<Parameters<typeof db.createWebhook>[0], 'secret'> & { secret?: string }): Promise<Webhook> {
+    return this.parse(await db.createWebhook({ ...data, secret: data.secret || this.generateSecret() }));
+  }
+
+  async updateWebhook(id: string, data: Parameters<typeof db.updateWebhook>[1]): Promise<Webhook> {
+    return this.parse(await db.updateWebhook(id, data));
+  }
+
+  generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  // Hex HMAC-SHA256 of "<timestamp>.<body>", sent as "sha256=<hex>"
+  sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  // Send an event to the enabled webhooks subscribed to it, in the background.
+  // accountId null: the event is not tied to an account and goes to every webhook
+  emit(type: WebhookEventType, data: Record<string, unknown>, accountId: string | null = null): void {
+    const event: WebhookEvent = {
+      id: crypto.randomUUID(),
+      version: WEBHOOK_EVENT_VERSION,
+      type,
+      createdAt: new Date().toISOString(),
+      accountId,
+      data,
+    };
+
+    this.dispatch(event).catch((error) => {
+      logger.error(`Failed to dispatch webhook event ${type}:`, error);
+    });
+  }
+
+  private async dispatch(event: WebhookEvent) {
+    const rows = await db.getWebhooks({ accountId: event.accountId ?? undefined, enabledOnly: true });
+    const webhooks = rows
+      .map((row) => this.parse(row))
+      .filter((webhook) => webhook.events.length === 0 || webhook.events.includes(event.type));
+
+    // A slow or unreachable endpoint must not delay the others
+    const payload = JSON.stringify(event);
+    const results = await Promise.allSettled(webhooks.map((webhook) => this.deliver(webhook, event.id, event.type, payload, 1)));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error(`Failed to deliver ${event.type} to webhook ${webhooks[index].name}:`, result.reason);
+      }
+    });
+  }
+
+  // Retry the failed deliveries that are due (scheduler, every minute)
+  async retryDue() {
+    const summary = { retried: 0, delivered: 0 };
+    if (this.isRetrying) return summary;
+    this.isRetrying = true;
+
+    try {
+      const due = await db.getDueWebhookRetries(new Date());
+      for (const delivery of due) {
+        // The failed attempt is only closed once the next one is recorded: if recording fails, it is retried again
+        try {
+          if (delivery.webhook.enabled) {
+            summary.retried++;
+            if (await this.deliver(this.parse(delivery.webhook), delivery.eventId, delivery.event, delivery.payload, delivery.attempt + 1)) {
+              summary.delivered++;
+            }
+          }
+          await db.closeWebhookRetry(delivery.id);
+        } catch (error) {
+          logger.error(`Failed to retry webhook delivery ${delivery.id}:`, error);
+        }
+      }
+    } finally {
+      this.isRetrying = false;
+    }
+
+    if (summary.retried > 0) {
+      logger.info(`Webhook retries: ${summary.delivered}/${summary.retried} delivered`);
+    }
+    return summary;
+  }
+
+  // POST the event and record the attempt; failures are retried with backoff until WEBHOOK_MAX_ATTEMPTS
+  private async deliver(webhook: Webhook, eventId: string, event: string, payload: string, attempt: number): Promise<boolean> {
+    const { maxAttempts, timeoutMs } = config_values.webhooks;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await axios.post(webhook.url, payload, {
+        timeout: timeoutMs,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ethos-monitor-webhooks',
+          'X-Ethos-Monitor-Event': event,
+          'X-Ethos-Monitor-Event-Id': eventId,
+          'X-Ethos-Monitor-Attempt': String(attempt),
+          'X-Ethos-Monitor-Timestamp': String(timestamp),
+          'X-Ethos-Monitor-Signature': `sha256=${this.sign(webhook.secret, timestamp, payload)}`,
+        },
+      });
+      responseStatus = response.status;
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response) {
+        responseStatus = err.response.status;
+        const body = typeof err.response.data === 'string' ? err.response.data : JSON.stringify(err.response.data);
+        error = `HTTP ${err.response.status}: ${body || err.message}`.slice(0, MAX_ERROR_LENGTH);
+      } else {
+        error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+      }
+    }
+
+    const retry = !!error && attempt < maxAttempts;
+    await db.createWebhookDelivery({
+      webhookId: webhook.id,
+      eventId,
+      event,
+      payload,
+      attempt,
+      status: !error ? 'SUCCESS' : retry ? 'RETRYING' : 'FAILED',
+      responseStatus,
+      error,
+      duration: Date.now() - startTime,
+      nextAttemptAt: retry ? new Date(Date.now() + RETRY_BASE_MS * RETRY_FACTOR ** (attempt - 1)) : undefined,
+    });
+
+    if (error) {
+      logger.warn(`Webhook ${webhook.name} failed for ${event} (attempt ${attempt}/${maxAttempts}): ${error}`);
+    }
+    return !error;
+  }
+
+  private parse(row: WebhookRow): Webhook {
+    return { ...row, events: JSON.parse(row.events) as WebhookEventType[] };
+  }
+}
+
+export const webhookService = new WebhookService();
+export default webhookService;
@@ -0,0 +1,21 @@
+import type { AlertChannelName } from '../models/types.js';
+
+// Escape text for HTML content and attribute values (Telegram, Matrix, email)
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Slack mrkdwn only decodes these three entities, an escaped quote would show as "&quot;"
+export function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Escape user text for the markup sendText uses on the channel, other channels get plain text
+export function escapeForChannel(channel: AlertChannelName, text: string): string {
+  return channel === 'telegram' ? escapeHtml(text) : channel === 'slack' ? escapeSlack(text) : text;
+}
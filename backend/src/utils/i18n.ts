@@ -0,0 +1,34 @@
+import { config_values } from '../config/env.js';
+import { fr, type MessageKey } from '../locales/fr.js';
+import { en } from '../locales/en.js';
+import type { AlertChannelName, Locale } from '../models/types.js';
+
+export type { MessageKey } from '../locales/fr.js';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { fr, en };
+
+// Intl locale used for dates and numbers
+const INTL_LOCALES: Record<Locale, string> = {
+  fr: 'fr-FR',
+  en: 'en-US',
+};
+
+// Message of the catalog with its {name} placeholders replaced
+export function t(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = CATALOGS[locale]?.[key] ?? fr[key];
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// Language of the alerts sent on a channel (ALERT_LOCALES override, else ALERT_LOCALE)
+export function channelLocale(channel: AlertChannelName): Locale {
+  return config_values.i18n.channelLocales[channel] || config_values.i18n.alertLocale;
+}
+
+// Date and time in the locale's format and DISPLAY_TIMEZONE (server timezone when unset or invalid)
+export function formatDateTime(date: Date, locale: Locale): string {
+  try {
+    return date.toLocaleString(INTL_LOCALES[locale], { timeZone: config_values.i18n.timezone });
+  } catch {
+    return date.toLocaleString(INTL_LOCALES[locale]);
+  }
+}
@@ -0,0 +1,30 @@
+// Minutes since midnight of a date in the given timezone (server timezone by default).
+// Throws a RangeError for an unknown timezone.
+export function getMinutesOfDay(date: Date, timezone?: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+    timeZone: timezone || undefined,
+  }).formatToParts(date);
+
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value || '0', 10);
+  const minute = parseInt(parts.find((p) => p.type === 'minute')?.value || '0', 10);
+  return hour * 60 + minute;
+}
+
+// True if minutes fall in [from, to), the window may wrap past midnight
+export function isInTimeWindow(minutes: number, from: number, to: number): boolean {
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+// Parse a duration like 30m, 2h or 7d into milliseconds, null if invalid
+export function parseDuration(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*(m|min|h|d|j)$/);
+  if (!match) return null;
+
+  const amount = parseInt(match[1], 10);
+  const unit = match[2];
+  const minutes = unit === 'd' || unit === 'j' ? amount * 24 * 60 : unit === 'h' ? amount * 60 : amount;
+  return minutes > 0 ? minutes * 60 * 1000 : null;
+}
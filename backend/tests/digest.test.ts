@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import digestService from '../src/services/digest.service.js';
+import type { AccountContext, DigestSummary } from '../src/models/types.js';
+
+const account = { id: 'other', name: 'Team <A>' } as AccountContext;
+const summary: DigestSummary = {
+  since: new Date('2024-01-01T00:00:00Z'),
+  newRelations: 0,
+  reviewsReceived: 1,
+  negativeReviews: 1,
+  defensesPosted: 0,
+  scoreChanges: [{ name: 'R&D', address: '0xabc', previous: 1200, current: 1100 }],
+};
+
+describe('digestService.format', () => {
+  it('escapes account and relation names for Telegram HTML only', () => {
+    const telegram = digestService['format'](account, summary, 'daily', 'en', 'telegram');
+    expect(telegram).toContain('Team &lt;A&gt;');
+    expect(telegram).toContain('• R&amp;D: 1200 → 1100 (-100)');
+
+    const discord = digestService['format'](account, summary, 'daily', 'en', 'discord');
+    expect(discord).toContain('Team <A>');
+    expect(discord).toContain('• R&D: 1200 → 1100 (-100)');
+  });
+});
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DiscordInteraction } from '../src/models/types.js';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+// Discord gives the raw 32-byte key, the end of the SPKI encoding
+process.env.DISCORD_PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('hex');
+process.env.DISCORD_ALLOWED_USER_IDS = 'user-1';
+process.env.DISCORD_ALLOWED_ROLE_IDS = 'role-1';
+
+const signRequest = (timestamp: string, body: string) =>
+  crypto.sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+
+let discordService: typeof import('../src/services/discord.service.js').discordService;
+
+beforeAll(async () => {
+  discordService = (await import('../src/services/discord.service.js')).discordService;
+});
+
+describe('discordService.verifySignature', () => {
+  const body = '{"type":1}';
+  const timestamp = '1700000000';
+
+  it('accepts a request signed with the application key', () => {
+    expect(discordService.isEnabled()).toBe(true);
+    expect(discordService.verifySignature(Buffer.from(body), signRequest(timestamp, body), timestamp)).toBe(true);
+  });
+
+  it('rejects a modified body or timestamp', () => {
+    const signature = signRequest(timestamp, body);
+
+    expect(discordService.verifySignature(Buffer.from('{"type":2}'), signature, timestamp)).toBe(false);
+    expect(discordService.verifySignature(Buffer.from(body), signature, '1700000001')).toBe(false);
+  });
+
+  it('rejects a signature made with another key', () => {
+    const other = crypto.generateKeyPairSync('ed25519').privateKey;
+    const signature = crypto.sign(null, Buffer.from(timestamp + body), other).toString('hex');
+
+    expect(discordService.verifySignature(Buffer.from(body), signature, timestamp)).toBe(false);
+  });
+
+  it('rejects missing or malformed headers', () => {
+    expect(discordService.verifySignature(Buffer.from(body), undefined, timestamp)).toBe(false);
+    expect(discordService.verifySignature(Buffer.from(body), signRequest(timestamp, body), undefined)).toBe(false);
+    expect(discordService.verifySignature(Buffer.from(body), 'not-hex', timestamp)).toBe(false);
+  });
+});
+
+describe('discordService.isAuthorized', () => {
+  const interaction = (userId: string, roles: string[] = []) =>
+    ({ type: 3, member: { user: { id: userId, username: userId }, roles } }) as unknown as DiscordInteraction;
+
+  it('allows listed users and members with a listed role', () => {
+    expect(discordService['isAuthorized'](interaction('user-1'))).toBe(true);
+    expect(discordService['isAuthorized'](interaction('user-2', ['role-2', 'role-1']))).toBe(true);
+  });
+
+  it('denies everyone else', () => {
+    expect(discordService['isAuthorized'](interaction('user-2', ['role-2']))).toBe(false);
+    expect(discordService['isAuthorized']({ type: 3 } as unknown as DiscordInteraction)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+process.env.EMAIL_LINK_SECRET = 'email-link-secret';
+
+let emailService: typeof import('../src/services/email.service.js').emailService;
+
+beforeAll(async () => {
+  emailService = (await import('../src/services/email.service.js')).emailService;
+});
+
+// Query parameters of a signed link, as the email route receives them
+const parseLink = (link: string | null) => {
+  const url = new URL(link!);
+  return { path: url.pathname, expires: url.searchParams.get('expires')!, signature: url.searchParams.get('signature')! };
+};
+
+describe('emailService signed links', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates a link to the action that verifies', () => {
+    const { path, expires, signature } = parseLink(emailService.createLink('defend', 'review/1'));
+
+    expect(path).toBe('/api/email/defend/review%2F1');
+    expect(emailService.verifyLink('defend', 'review/1', expires, signature)).toBe(true);
+  });
+
+  it('rejects the signature for another action or review', () => {
+    const { expires, signature } = parseLink(emailService.createLink('defend', 'review-1'));
+
+    expect(emailService.verifyLink('ignore', 'review-1', expires, signature)).toBe(false);
+    expect(emailService.verifyLink('defend', 'review-2', expires, signature)).toBe(false);
+  });
+
+  it('rejects a changed expiry or a missing parameter', () => {
+    const { expires, signature } = parseLink(emailService.createLink('ignore', 'review-1'));
+
+    expect(emailService.verifyLink('ignore', 'review-1', String(Number(expires) + 1000), signature)).toBe(false);
+    expect(emailService.verifyLink('ignore', 'review-1', 'soon', signature)).toBe(false);
+    expect(emailService.verifyLink('ignore', 'review-1', undefined, signature)).toBe(false);
+    expect(emailService.verifyLink('ignore', 'review-1', expires, undefined)).toBe(false);
+  });
+
+  it('expires links after 7 days', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const { expires, signature } = parseLink(emailService.createLink('defend', 'review-1'));
+
+    vi.setSystemTime(new Date('2024-01-08T00:00:00Z'));
+    expect(emailService.verifyLink('defend', 'review-1', expires, signature)).toBe(true);
+    vi.setSystemTime(new Date('2024-01-08T00:00:00.001Z'));
+    expect(emailService.verifyLink('defend', 'review-1', expires, signature)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import type { AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ethosService from '../src/services/ethos.service.js';
+import logger from '../src/utils/logger.js';
+
+const post = vi.spyOn(ethosService['client'], 'post');
+
+// Queue one API response per page, in order
+const respond = (...pages: unknown[]) => {
+  for (const data of pages) {
+    post.mockResolvedValueOnce({ data } as AxiosResponse);
+  }
+};
+
+const items = (from: number, count: number) => Array.from({ length: count }, (_, i) => ({ id: String(from + i) }));
+
+// Offset sent with each request
+const offsets = () => post.mock.calls.map(([, body]) => (body as { pagination: { offset: number } }).pagination.offset);
+
+describe('ethosService pagination', () => {
+  beforeEach(() => {
+    post.mockReset();
+  });
+
+  afterEach(() => {
+    vi.mocked(logger.warn).mockClear();
+  });
+
+  it('walks pages until a short page', async () => {
+    respond({ values: items(0, 2) }, { values: items(2, 2) }, { values: items(4, 1) });
+
+    const result = await ethosService.getReceivedActivities('profileId:1', ['review'], { pageSize: 2 });
+
+    expect(result.values.map((a) => a.id)).toEqual(['0', '1', '2', '3', '4']);
+    expect(result).toMatchObject({ pages: 3, truncated: false });
+    expect(offsets()).toEqual([0, 2, 4]);
+  });
+
+  it('stops once the reported total is reached', async () => {
+    respond({ values: items(0, 2), total: 4 }, { values: items(2, 2), total: 4 });
+
+    const result = await ethosService.getReceivedActivities('profileId:1', ['review'], { pageSize: 2 });
+
+    expect(result).toMatchObject({ pages: 2, truncated: false });
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops early when stopWhen matches a page', async () => {
+    respond({ values: items(0, 2) }, { values: items(2, 2) }, { values: items(4, 2) });
+
+    const result = await ethosService.getReceivedActivities('profileId:1', ['review'], {
+      pageSize: 2,
+      stopWhen: (page) => page.some((a) => a.id === '3'),
+    });
+
+    expect(result.values).toHaveLength(4);
+    expect(result).toMatchObject({ pages: 2, truncated: false });
+  });
+
+  it('truncates at maxPages and warns', async () => {
+    respond({ values: items(0, 2) }, { values: items(2, 2) }, { values: items(4, 2) });
+
+    const result = await ethosService.getReceivedActivities('profileId:1', ['review'], { pageSize: 2, maxPages: 2 });
+
+    expect(result.values).toHaveLength(4);
+    expect(result).toMatchObject({ pages: 2, truncated: true });
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Pagination stopped after 2 pages'));
+  });
+
+  it('reads bare arrays, the activities key and ignores unexpected bodies', async () => {
+    respond(items(0, 1));
+    expect((await ethosService.getReceivedActivities('profileId:1', ['review'], { pageSize: 2 })).values).toEqual(items(0, 1));
+
+    respond({ activities: items(0, 1) });
+    expect((await ethosService.getReceivedActivities('profileId:1', ['review'], { pageSize: 2 })).values).toEqual(items(0, 1));
+
+    respond({ values: 'oops' });
+    expect((await ethosService.getReceivedActivities('profileId:1', ['review'], { pageSize: 2 })).values).toEqual([]);
+  });
+
+  it('returns the error with no values when a page fails', async () => {
+    respond({ values: items(0, 2) });
+    post.mockRejectedValueOnce(new Error('timeout'));
+
+    const result = await ethosService.getReceivedActivities('profileId:1', ['review'], { pageSize: 2 });
+
+    expect(result).toEqual({ values: [], pages: 0, truncated: false, error: 'Error: timeout' });
+  });
+
+  it('pages vouches filtered by profile id', async () => {
+    respond(
+      { values: [{ id: 1, authorProfileId: 1, subjectProfileId: 2 }, { id: 2, authorProfileId: 1, subjectProfileId: 3 }] },
+      { values: [{ id: 3, authorProfileId: 1, subjectProfileId: 4 }] }
+    );
+
+    const result = await ethosService.getVouches('profileId:1', { pageSize: 2 });
+
+    expect(result.values.map((v) => v.subjectProfileId)).toEqual([2, 3, 4]);
+    expect(result).toMatchObject({ pages: 2, truncated: false });
+    expect(post).toHaveBeenCalledWith('/api/v2/vouches', { authorProfileIds: [1], limit: 2, offset: 2 });
+  });
+});
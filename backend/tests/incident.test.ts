@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import db from '../src/services/database.service.js';
+import incidentService from '../src/services/incident.service.js';
+import type { AccountContext } from '../src/models/types.js';
+
+vi.mock('../src/services/database.service.js', () => ({
+  default: {
+    getAttacks: vi.fn(),
+    createIncident: vi.fn(),
+    updateIncidentStatus: vi.fn(),
+    attachReviewsToIncident: vi.fn(),
+    mergeIncidents: vi.fn(),
+  },
+}));
+
+const mockDb = vi.mocked(db);
+
+const account = { id: 'default', name: 'Default' } as AccountContext;
+const start = new Date('2024-01-01T12:00:00Z').getTime();
+
+// Attack on a relation, `minutes` after the start; the defaults need 3 attacks on 2 relations within 60 minutes
+const attack = (id: string, authorKey: string, relationId: string, minutes: number, incidentId: string | null = null) => ({
+  id,
+  authorKey,
+  authorName: authorKey,
+  authorAddr: null,
+  relationId,
+  relation: { name: relationId, address: null },
+  createdAt: new Date(start + minutes * 60 * 1000),
+  incidentId,
+});
+
+type Attacks = Awaited<ReturnType<typeof db.getAttacks>>;
+
+const detect = (attacks: ReturnType<typeof attack>[], newIds: string[]) => {
+  mockDb.getAttacks.mockResolvedValue(attacks as unknown as Attacks);
+  const newReviews = attacks.filter((a) => newIds.includes(a.id)).map((a) => ({ id: a.id, createdAt: a.createdAt }));
+  return incidentService.detect(account, newReviews);
+};
+
+describe('incidentService.detect', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.createIncident.mockResolvedValue({ id: 'incident-1' } as Awaited<ReturnType<typeof db.createIncident>>);
+    mockDb.attachReviewsToIncident.mockImplementation(async (_id, reviewIds) => ({
+      reviewCount: reviewIds.length,
+      authorCount: 0,
+      targetCount: 0,
+      startedAt: new Date(start),
+      lastActivityAt: new Date(start),
+    }) as Awaited<ReturnType<typeof db.attachReviewsToIncident>>);
+  });
+
+  it('links attacks sharing an author or a target, transitively', async () => {
+    // a1 and a2 share the author, a2 and a3 share the target
+    const detected = await detect([
+      attack('a1', 'alice', 'r1', 0),
+      attack('a2', 'alice', 'r2', 10),
+      attack('a3', 'bob', 'r2', 20),
+      attack('a4', 'carol', 'r3', 30),
+    ], ['a3', 'a4']);
+
+    expect(detected).toHaveLength(1);
+    expect(mockDb.attachReviewsToIncident).toHaveBeenCalledWith('incident-1', ['a1', 'a2', 'a3']);
+    expect(detected[0].reviewIds).toEqual(['a3']);
+    expect(detected[0].payload.isNew).toBe(true);
+  });
+
+  it('does not link attacks further apart than the window', async () => {
+    const detected = await detect([
+      attack('a1', 'alice', 'r1', 0),
+      attack('a2', 'alice', 'r2', 61),
+      attack('a3', 'alice', 'r3', 122),
+    ], ['a3']);
+
+    expect(detected).toEqual([]);
+    expect(mockDb.createIncident).not.toHaveBeenCalled();
+  });
+
+  it('ignores groups that are too small, on a single target or without new reviews', async () => {
+    expect(await detect([
+      attack('a1', 'alice', 'r1', 0),
+      attack('a2', 'alice', 'r2', 5),
+    ], ['a2'])).toEqual([]);
+
+    expect(await detect([
+      attack('a1', 'alice', 'r1', 0),
+      attack('a2', 'bob', 'r1', 5),
+      attack('a3', 'carol', 'r1', 10),
+    ], ['a3'])).toEqual([]);
+
+    expect(await detect([
+      attack('a1', 'alice', 'r1', 0),
+      attack('a2', 'alice', 'r2', 5),
+      attack('a3', 'alice', 'r3', 10),
+      attack('a4', 'dave', 'r4', 15),
+    ], ['a4'])).toEqual([]);
+
+    expect(mockDb.createIncident).not.toHaveBeenCalled();
+  });
+
+  it('extends the incident already covering part of the group', async () => {
+    const detected = await detect([
+      attack('a1', 'alice', 'r1', 0, 'incident-0'),
+      attack('a2', 'alice', 'r2', 5, 'incident-0'),
+      attack('a3', 'alice', 'r3', 10),
+    ], ['a3']);
+
+    expect(mockDb.createIncident).not.toHaveBeenCalled();
+    expect(mockDb.mergeIncidents).not.toHaveBeenCalled();
+    expect(mockDb.updateIncidentStatus).toHaveBeenCalledWith('incident-0', 'OPEN');
+    expect(detected[0].payload).toMatchObject({ incidentId: 'incident-0', isNew: false, reviewCount: 3, newReviews: 1 });
+  });
+
+  it('merges the incidents a group joins into the one with its oldest attack', async () => {
+    // a3 links the attacks of incident-0 and incident-1
+    const detected = await detect([
+      attack('a1', 'alice', 'r1', 0, 'incident-0'),
+      attack('a2', 'bob', 'r2', 5, 'incident-1'),
+      attack('a3', 'alice', 'r2', 10),
+    ], ['a3']);
+
+    expect(mockDb.mergeIncidents).toHaveBeenCalledWith('incident-0', ['incident-1']);
+    expect(mockDb.attachReviewsToIncident).toHaveBeenCalledWith('incident-0', ['a1', 'a2', 'a3']);
+    expect(detected[0].payload).toMatchObject({ incidentId: 'incident-0', isNew: false });
+  });
+});
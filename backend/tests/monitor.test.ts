@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import db from '../src/services/database.service.js';
+import ethosService from '../src/services/ethos.service.js';
+import monitorService from '../src/services/monitor.service.js';
+import type { AccountContext, EthosActivity, MonitorOptions, MonitorResult } from '../src/models/types.js';
+
+vi.mock('../src/services/database.service.js', () => ({
+  default: {
+    reviewExists: vi.fn(),
+    createReview: vi.fn(),
+    getRelationById: vi.fn(),
+    updateRelationCursor: vi.fn(),
+  },
+}));
+
+vi.mock('../src/services/alert.service.js', () => ({ default: { onCallback: vi.fn() } }));
+
+const mockDb = vi.mocked(db);
+const getReceivedActivities = vi.spyOn(ethosService, 'getReceivedActivities');
+
+const account = { id: 'default', name: 'Default' } as AccountContext;
+
+type Relation = { id: string; userkey: string; lastActivityAt: Date | null; lastActivityId: string | null };
+
+const relation = (overrides: Partial<Relation> = {}): Relation => ({
+  id: 'relation-1',
+  userkey: 'profileId:2',
+  lastActivityAt: null,
+  lastActivityId: null,
+  ...overrides,
+});
+
+// Positive review received at `seconds` (Unix time), stored without any alert
+const activity = (id: number, seconds: number): EthosActivity => ({
+  type: 'review',
+  data: { id, score: 'positive' },
+  timestamp: seconds,
+  author: { profileId: 3, name: 'Author', username: null, avatar: null, primaryAddress: '0xabc' },
+  subject: { profileId: 2, name: 'Relation', username: null, avatar: null, primaryAddress: '0xdef' },
+});
+
+// Scan a relation against one API result, activities newest first as Ethos returns them
+const scan = async (target: Relation, activities: EthosActivity[], options?: MonitorOptions, pages = 1) => {
+  getReceivedActivities.mockResolvedValueOnce({ values: activities, pages, truncated: false });
+  const result: MonitorResult = {
+    relationsChecked: 0,
+    reviewsFound: 0,
+    newNegative: 0,
+    alertsSent: 0,
+    errors: [],
+    duration: 0,
+    pagesByRelation: {},
+  };
+  await monitorService['scanRelation'](account, target, options, result, []);
+  return result;
+};
+
+describe('monitorService.scanRelation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.reviewExists.mockResolvedValue(false);
+    mockDb.createReview.mockImplementation(async (data) => data as Awaited<ReturnType<typeof db.createReview>>);
+  });
+
+  it('records the pages fetched for each relation', async () => {
+    const result = await scan(relation(), [activity(2, 200), activity(1, 100)], undefined, 3);
+
+    expect(result.pagesByRelation).toEqual({ 'profileId:2': 3 });
+    expect(result.reviewsFound).toBe(2);
+  });
+
+  it('processes every activity on the first scan and sets the cursor to the newest', async () => {
+    await scan(relation(), [activity(2, 200), activity(1, 100)]);
+
+    expect(getReceivedActivities.mock.calls[0][2]?.stopWhen).toBeUndefined();
+    expect(mockDb.createReview).toHaveBeenCalledTimes(2);
+    expect(mockDb.updateRelationCursor).toHaveBeenCalledWith('relation-1', { at: new Date(200 * 1000), id: '2' });
+  });
+
+  it('only processes activities after the cursor and stops paging at it', async () => {
+    const target = relation({ lastActivityAt: new Date(200 * 1000), lastActivityId: '2' });
+    const result = await scan(target, [activity(4, 400), activity(3, 300), activity(2, 200), activity(1, 100)]);
+
+    const { stopWhen } = getReceivedActivities.mock.calls[0][2]!;
+    expect(stopWhen!([activity(4, 400), activity(3, 300)])).toBe(false);
+    expect(stopWhen!([activity(2, 200)])).toBe(true);
+
+    expect(result.reviewsFound).toBe(2);
+    expect(mockDb.createReview.mock.calls.map(([data]) => data.activityId)).toEqual(['4', '3']);
+    expect(mockDb.updateRelationCursor).toHaveBeenCalledWith('relation-1', { at: new Date(400 * 1000), id: '4' });
+  });
+
+  it('keeps activities sharing the cursor timestamp under another id', async () => {
+    const target = relation({ lastActivityAt: new Date(200 * 1000), lastActivityId: '2' });
+    await scan(target, [activity(3, 200), activity(2, 200), activity(1, 199)]);
+
+    expect(mockDb.createReview.mock.calls.map(([data]) => data.activityId)).toEqual(['3']);
+    // Same timestamp: the cursor stays, the next scan finds activity 3 already stored
+    expect(mockDb.updateRelationCursor).not.toHaveBeenCalled();
+  });
+
+  it('does not move the cursor when processing fails partway', async () => {
+    mockDb.createReview
+      .mockImplementationOnce(async (data) => data as Awaited<ReturnType<typeof db.createReview>>)
+      .mockRejectedValueOnce(new Error('database locked'));
+    const target = relation({ lastActivityAt: new Date(100 * 1000), lastActivityId: '1' });
+
+    await expect(scan(target, [activity(3, 300), activity(2, 200), activity(1, 100)])).rejects.toThrow('database locked');
+    expect(mockDb.updateRelationCursor).not.toHaveBeenCalled();
+  });
+
+  it('ignores the cursor on a full scan', async () => {
+    const target = relation({ lastActivityAt: new Date(200 * 1000), lastActivityId: '2' });
+    mockDb.reviewExists.mockImplementation(async (id) => id === '2' || id === '1');
+    await scan(target, [activity(2, 200), activity(1, 100)], { fullScan: true });
+
+    expect(getReceivedActivities.mock.calls[0][2]?.stopWhen).toBeUndefined();
+    expect(mockDb.createReview).not.toHaveBeenCalled();
+    expect(mockDb.updateRelationCursor).toHaveBeenCalledWith('relation-1', { at: new Date(200 * 1000), id: '2' });
+  });
+});
+
+describe('monitorService.formatReviewChange', () => {
+  const review = { authorName: 'a<b', score: -1, comment: 'old & <i>', relation: { name: 'R&D' } };
+
+  it('escapes user content for Telegram HTML only', () => {
+    const telegram = monitorService['formatReviewChange'](review, 'edited', 0, 'new <b>', false, 'en', 'telegram');
+    expect(telegram).toContain('R&amp;D');
+    expect(telegram).toContain('a&lt;b');
+    expect(telegram).toContain('"old &amp; &lt;i&gt;"');
+    expect(telegram).toContain('"new &lt;b&gt;"');
+
+    const discord = monitorService['formatReviewChange'](review, 'edited', 0, 'new <b>', false, 'en', 'discord');
+    expect(discord).toContain('R&D');
+    expect(discord).toContain('"new <b>"');
+  });
+});
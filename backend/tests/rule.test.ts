@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import ruleService, { type AlertRule } from '../src/services/rule.service.js';
+import type { RuleActions, RuleConditions, RuleContext } from '../src/models/types.js';
+
+const context = (overrides: Partial<RuleContext> = {}): RuleContext => ({
+  accountId: 'default',
+  type: 'NEGATIVE_REVIEW',
+  relationId: 'relation-1',
+  direction: 'incoming',
+  authorKey: 'profileId:42',
+  authorAddr: '0xABC',
+  risk: 'high',
+  comment: 'This is a SCAM',
+  score: -1, // review score: -1 negative, 0 neutral, 1 positive
+  at: new Date('2024-01-01T22:30:00Z'),
+  ...overrides,
+});
+
+const rule = (id: string, conditions: RuleConditions, actions: RuleActions): AlertRule =>
+  ({ id, name: id, conditions, actions }) as AlertRule;
+
+describe('ruleService.matches', () => {
+  it('matches when no condition is set', () => {
+    expect(ruleService.matches({}, context())).toBe(true);
+  });
+
+  it('checks type, relation, direction and risk', () => {
+    expect(ruleService.matches({ types: ['SLASH'] }, context())).toBe(false);
+    expect(ruleService.matches({ types: ['SLASH'] }, context({ type: 'SLASH' }))).toBe(true);
+    expect(ruleService.matches({ relationIds: ['relation-2'] }, context())).toBe(false);
+    expect(ruleService.matches({ directions: ['incoming'] }, context())).toBe(true);
+    expect(ruleService.matches({ attackerRisks: ['high'] }, context())).toBe(true);
+    expect(ruleService.matches({ attackerRisks: ['high'] }, context({ risk: null }))).toBe(false);
+  });
+
+  it('matches attackers by userkey or address, case-insensitively', () => {
+    expect(ruleService.matches({ attackers: ['0xabc'] }, context())).toBe(true);
+    expect(ruleService.matches({ attackers: ['PROFILEID:42'] }, context({ authorAddr: null }))).toBe(true);
+    expect(ruleService.matches({ attackers: ['0xdef'] }, context())).toBe(false);
+  });
+
+  it('matches keywords in the comment, case-insensitively', () => {
+    expect(ruleService.matches({ keywords: ['scam'] }, context())).toBe(true);
+    expect(ruleService.matches({ keywords: ['fraud'] }, context())).toBe(false);
+    expect(ruleService.matches({ keywords: ['scam'] }, context({ comment: null }))).toBe(false);
+  });
+
+  it('checks the review score bounds inclusively', () => {
+    expect(ruleService.matches({ minScore: -1, maxScore: -1 }, context())).toBe(true);
+    expect(ruleService.matches({ minScore: 0 }, context())).toBe(false);
+    expect(ruleService.matches({ minScore: 0 }, context({ score: 0 }))).toBe(true);
+    expect(ruleService.matches({ maxScore: -1 }, context({ score: 0 }))).toBe(false);
+  });
+
+  it('checks the hour window in the rule timezone, across midnight', () => {
+    expect(ruleService.matches({ hours: { from: 22, to: 6, timezone: 'UTC' } }, context())).toBe(true);
+    expect(ruleService.matches({ hours: { from: 8, to: 20, timezone: 'UTC' } }, context())).toBe(false);
+    // 22:30 UTC is 07:30 in Tokyo
+    expect(ruleService.matches({ hours: { from: 7, to: 8, timezone: 'Asia/Tokyo' } }, context())).toBe(true);
+  });
+});
+
+describe('ruleService.decide', () => {
+  it('returns the default decision when no rule matches', () => {
+    const decision = ruleService.decide([rule('slash', { types: ['SLASH'] }, { suppress: true })], context());
+
+    expect(decision).toEqual({
+      suppress: false,
+      escalate: false,
+      channels: null,
+      defense: null,
+      defenseScore: null,
+      matchedRules: [],
+    });
+  });
+
+  it('takes each action from the first matching rule that sets it', () => {
+    const decision = ruleService.decide([
+      rule('high-risk', { attackerRisks: ['high'] }, { escalate: true, channels: ['telegram'] }),
+      rule('slash', { types: ['SLASH'] }, { suppress: true }),
+      rule('catch-all', {}, { escalate: false, channels: ['email'], defense: 'create', defenseScore: 2 }),
+    ], context());
+
+    expect(decision).toMatchObject({
+      suppress: false,
+      escalate: true,
+      channels: ['telegram'],
+      defense: 'create',
+      defenseScore: 2,
+    });
+    expect(decision.matchedRules.map((r) => r.id)).toEqual(['high-risk', 'catch-all']);
+  });
+
+  it('stops at a matching rule with stop set', () => {
+    const decision = ruleService.decide([
+      rule('scam', { keywords: ['scam'] }, { suppress: true, stop: true }),
+      rule('catch-all', {}, { escalate: true }),
+    ], context());
+
+    expect(decision.suppress).toBe(true);
+    expect(decision.escalate).toBe(false);
+    expect(decision.matchedRules.map((r) => r.id)).toEqual(['scam']);
+  });
+});
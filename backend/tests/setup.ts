@@ -0,0 +1,14 @@
+import { vi } from 'vitest';
+
+// Read by config/env.ts; set before any service is imported
+process.env.NODE_ENV = 'test';
+
+// Keep test runs quiet and out of logs/
+vi.mock('../src/utils/logger.js', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { logger, default: logger };
+});
+
+// Services are tested without Prisma, alert channels or network
+vi.mock('../src/services/database.service.js', () => ({ default: {} }));
+vi.mock('../src/services/alert.service.js', () => ({ default: {} }));
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+process.env.SLACK_BOT_TOKEN = 'xoxb-test';
+process.env.SLACK_CHANNEL_ID = 'C123';
+process.env.SLACK_SIGNING_SECRET = 'slack-signing-secret';
+process.env.SLACK_ALLOWED_USER_IDS = 'U123';
+
+let slackService: typeof import('../src/services/slack.service.js').slackService;
+
+beforeAll(async () => {
+  slackService = (await import('../src/services/slack.service.js')).slackService;
+});
+
+const signRequest = (timestamp: string, body: string, secret = 'slack-signing-secret') =>
+  'v0=' + crypto.createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex');
+
+describe('slackService.verifySignature', () => {
+  const body = 'payload=%7B%22type%22%3A%22block_actions%22%7D';
+  const now = 1700000000;
+  const timestamp = String(now);
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const at = (seconds: number) => {
+    vi.useFakeTimers();
+    vi.setSystemTime(seconds * 1000);
+  };
+
+  it('accepts a fresh request signed with the signing secret', () => {
+    at(now + 10);
+    expect(slackService.verifySignature(Buffer.from(body), signRequest(timestamp, body), timestamp)).toBe(true);
+  });
+
+  it('rejects a modified body or another secret', () => {
+    at(now);
+    expect(slackService.verifySignature(Buffer.from(body + 'x'), signRequest(timestamp, body), timestamp)).toBe(false);
+    expect(slackService.verifySignature(Buffer.from(body), signRequest(timestamp, body, 'other'), timestamp)).toBe(false);
+  });
+
+  it('rejects requests outside the 5 minute replay window', () => {
+    const signature = signRequest(timestamp, body);
+
+    at(now + 5 * 60);
+    expect(slackService.verifySignature(Buffer.from(body), signature, timestamp)).toBe(true);
+    at(now + 5 * 60 + 1);
+    expect(slackService.verifySignature(Buffer.from(body), signature, timestamp)).toBe(false);
+    at(now - 5 * 60 - 1);
+    expect(slackService.verifySignature(Buffer.from(body), signature, timestamp)).toBe(false);
+  });
+
+  it('rejects missing headers and non-numeric timestamps', () => {
+    at(now);
+    expect(slackService.verifySignature(Buffer.from(body), undefined, timestamp)).toBe(false);
+    expect(slackService.verifySignature(Buffer.from(body), signRequest(timestamp, body), undefined)).toBe(false);
+    expect(slackService.verifySignature(Buffer.from(body), signRequest('abc', body), 'abc')).toBe(false);
+  });
+});
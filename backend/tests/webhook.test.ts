@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import db from '../src/services/database.service.js';
+import webhookService from '../src/services/webhook.service.js';
+import { WEBHOOK_EVENT_VERSION, type WebhookEvent, type WebhookEventType } from '../src/models/types.js';
+
+vi.mock('../src/services/database.service.js', () => ({
+  default: {
+    getWebhooks: vi.fn(),
+    createWebhookDelivery: vi.fn(),
+  },
+}));
+
+const mockDb = vi.mocked(db);
+const post = vi.spyOn(axios, 'post');
+
+type WebhookRow = Awaited<ReturnType<typeof db.getWebhooks>>[number];
+
+const event = (type: WebhookEventType): WebhookEvent => ({
+  id: 'event-1',
+  version: WEBHOOK_EVENT_VERSION,
+  type,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  accountId: null,
+  data: { reviewId: 'review-1' },
+});
+
+const webhook = (name: string, events: WebhookEventType[]) =>
+  ({ id: name, name, url: `https://example.com/${name}`, secret: `${name}-secret`, events: JSON.stringify(events), enabled: true }) as WebhookRow;
+
+describe('webhookService.sign', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const body = JSON.stringify(event('review.detected'));
+    const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+    expect(webhookService.sign('secret', 1700000000, body)).toBe(expected);
+  });
+
+  it('changes with the secret, timestamp and body', () => {
+    const signature = webhookService.sign('secret', 1, 'body');
+
+    expect(webhookService.sign('other', 1, 'body')).not.toBe(signature);
+    expect(webhookService.sign('secret', 2, 'body')).not.toBe(signature);
+    expect(webhookService.sign('secret', 1, 'body!')).not.toBe(signature);
+  });
+
+  it('generates 32-byte hex secrets', () => {
+    expect(webhookService.generateSecret()).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('webhookService dispatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    post.mockResolvedValue({ status: 200 });
+  });
+
+  it('delivers to the webhooks subscribed to the event or to every event, signed with their secret', async () => {
+    mockDb.getWebhooks.mockResolvedValue([
+      webhook('reviews', ['review.detected']),
+      webhook('defenses', ['defense.posted', 'defense.failed']),
+      webhook('all', []),
+    ]);
+
+    await webhookService['dispatch'](event('review.detected'));
+
+    expect(post.mock.calls.map(([url]) => url)).toEqual(['https://example.com/reviews', 'https://example.com/all']);
+
+    const [, payload, request] = post.mock.calls[0];
+    const headers = request!.headers as Record<string, string>;
+    const signature = webhookService.sign('reviews-secret', Number(headers['X-Ethos-Monitor-Timestamp']), payload as string);
+    expect(headers['X-Ethos-Monitor-Event']).toBe('review.detected');
+    expect(headers['X-Ethos-Monitor-Signature']).toBe(`sha256=${signature}`);
+    expect(mockDb.createWebhookDelivery).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,300 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { UserCog, RefreshCw, Plus, Trash2, Key, CheckCircle, XCircle } from 'lucide-react';
+import api, { MonitoredAccount } from '@/lib/api';
+import { useI18n, MessageKey } from '@/lib/i18n';
+
+const emptyForm = {
+  name: '',
+  userkey: '',
+  privyToken: '',
+  telegramChatId: '',
+  discordWebhookUrl: '',
+  slackChannelId: '',
+  emailTo: '',
+  matrixRoomId: '',
+  ntfyTopic: '',
+};
+
+// Per-account destinations, empty = the global channel settings
+const routingFields: { key: Exclude<keyof typeof emptyForm, 'name' | 'userkey' | 'privyToken'>; label: MessageKey; placeholder: MessageKey }[] = [
+  { key: 'telegramChatId', label: 'accounts.telegramChat', placeholder: 'accounts.telegramChatPlaceholder' },
+  { key: 'discordWebhookUrl', label: 'accounts.discordWebhook', placeholder: 'accounts.discordWebhookPlaceholder' },
+  { key: 'slackChannelId', label: 'accounts.slackChannel', placeholder: 'accounts.slackChannelPlaceholder' },
+  { key: 'emailTo', label: 'accounts.emailTo', placeholder: 'accounts.emailToPlaceholder' },
+  { key: 'matrixRoomId', label: 'accounts.matrixRoom', placeholder: 'accounts.matrixRoomPlaceholder' },
+  { key: 'ntfyTopic', label: 'accounts.ntfyTopic', placeholder: 'accounts.ntfyTopicPlaceholder' },
+];
+
+export default function AccountsPage() {
+  const { t, formatDate } = useI18n();
+  const [accounts, setAccounts] = useState<MonitoredAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tokenInputs, setTokenInputs] = useState<Record<string, string>>({});
+
+  const fetchAccounts = async () => {
+    try {
+      const result = await api.getAccounts();
+      if (result.success && result.data) {
+        setAccounts(result.data);
+      }
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createAccount = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await api.createAccount({
+        name: form.name.trim(),
+        userkey: form.userkey.trim(),
+        privyToken: form.privyToken.trim() || undefined,
+        ...Object.fromEntries(routingFields.map((field) => [field.key, form[field.key].trim() || null])),
+      });
+      if (result.success) {
+        setForm(emptyForm);
+        await fetchAccounts();
+      } else {
+        setError(result.error || t('accounts.addFailed'));
+      }
+    } catch (error) {
+      console.error('Error creating account:', error);
+      setError(t('accounts.addFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateAccount = async (id: string, data: Parameters<typeof api.updateAccount>[1]) => {
+    try {
+      const result = await api.updateAccount(id, data);
+      if (result.success) {
+        await fetchAccounts();
+      }
+    } catch (error) {
+      console.error('Error updating account:', error);
+    }
+  };
+
+  const updateToken = async (id: string) => {
+    const token = tokenInputs[id]?.trim();
+    if (!token) return;
+
+    try {
+      const result = await api.updateAccountToken(id, token);
+      if (result.success) {
+        setTokenInputs((prev) => ({ ...prev, [id]: '' }));
+        await fetchAccounts();
+      } else {
+        setError(result.error || t('accounts.tokenFailed'));
+      }
+    } catch (error) {
+      console.error('Error updating token:', error);
+    }
+  };
+
+  const deleteAccount = async (account: MonitoredAccount) => {
+    if (!window.confirm(t('accounts.deleteConfirm', { name: account.name }))) return;
+
+    try {
+      const result = await api.deleteAccount(account.id);
+      if (result.success) {
+        setAccounts((prev) => prev.filter((a) => a.id !== account.id));
+      }
+    } catch (error) {
+      console.error('Error deleting account:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <RefreshCw className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center">
+          <UserCog className="w-8 h-8 mr-3 text-indigo-600" />
+          {t('nav.accounts')}
+        </h1>
+        <p className="text-slate-500 dark:text-slate-400 mt-1">
+          {t('accounts.subtitle', { count: accounts.length })}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Accounts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {accounts.map((account) => (
+          <div key={account.id} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-4">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-slate-900 dark:text-white truncate">{account.name}</h3>
+                  {account.isDefault && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">
+                      .env
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-500 dark:text-slate-400 font-mono truncate">{account.userkey}</p>
+                <p className="text-xs text-slate-400 mt-1">{t('accounts.relations', { count: account._count?.relations || 0 })}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => updateAccount(account.id, { isActive: !account.isActive })}
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    account.isActive
+                      ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                      : 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400'
+                  }`}
+                >
+                  {account.isActive ? t('accounts.active') : t('accounts.paused')}
+                </button>
+                {!account.isDefault && (
+                  <button
+                    onClick={() => deleteAccount(account)}
+                    title={t('accounts.delete')}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Token */}
+            <div className="flex items-center gap-2 text-sm">
+              {account.token.valid ? (
+                <CheckCircle className="w-4 h-4 text-green-600" />
+              ) : (
+                <XCircle className="w-4 h-4 text-red-600" />
+              )}
+              <span className="text-slate-600 dark:text-slate-300">
+                {!account.token.configured
+                  ? t('accounts.noToken')
+                  : account.token.valid
+                    ? t('accounts.tokenValid', { date: formatDate(account.token.expiresAt!) })
+                    : t('accounts.tokenExpired')}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={tokenInputs[account.id] || ''}
+                onChange={(e) => setTokenInputs((prev) => ({ ...prev, [account.id]: e.target.value }))}
+                placeholder={t('accounts.newToken')}
+                className={inputClass}
+              />
+              <button
+                onClick={() => updateToken(account.id)}
+                disabled={!tokenInputs[account.id]?.trim()}
+                className="flex items-center space-x-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                <Key className="w-4 h-4" />
+                <span>{t('accounts.update')}</span>
+              </button>
+            </div>
+
+            {/* Routing and auto-defense */}
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              {routingFields.map((field) => (
+                <div key={field.key} className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3">
+                  <p className="text-slate-500 dark:text-slate-400">{t(field.label)}</p>
+                  {/* Webhook URLs are secrets, only show whether one is set */}
+                  <p className={`text-slate-900 dark:text-white truncate ${field.key === 'discordWebhookUrl' ? '' : 'font-mono'}`}>
+                    {field.key === 'discordWebhookUrl'
+                      ? (account.discordWebhookUrl ? t('accounts.custom') : t('accounts.global'))
+                      : account[field.key] || t('accounts.global')}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={account.autoDefenseEnabled ?? true}
+                onChange={(e) => updateAccount(account.id, { autoDefenseEnabled: e.target.checked })}
+                className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              {t('accounts.autoDefense')} {account.autoDefenseEnabled === null && t('accounts.globalSetting')}
+            </label>
+          </div>
+        ))}
+      </div>
+
+      {/* Add Account */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <Plus className="w-5 h-5 text-indigo-600" />
+          <h2 className="font-semibold text-slate-900 dark:text-white">{t('accounts.add')}</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder={t('accounts.name')}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={form.userkey}
+            onChange={(e) => setForm((prev) => ({ ...prev, userkey: e.target.value }))}
+            placeholder={t('accounts.userkey')}
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={form.privyToken}
+            onChange={(e) => setForm((prev) => ({ ...prev, privyToken: e.target.value }))}
+            placeholder={t('accounts.privyToken')}
+            className={inputClass}
+          />
+          {routingFields.map((field) => (
+            <input
+              key={field.key}
+              type="text"
+              value={form[field.key]}
+              onChange={(e) => setForm((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              placeholder={t(field.placeholder)}
+              className={inputClass}
+            />
+          ))}
+        </div>
+        <button
+          onClick={createAccount}
+          disabled={!form.name.trim() || !form.userkey.trim() || isSaving}
+          className="mt-4 flex items-center space-x-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-5 h-5" />
+          <span>{isSaving ? t('relations.adding') : t('accounts.addAccount')}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,12 @@ import { useEffect, useState } from 'react';
 import { Bell, RefreshCw, Filter } from 'lucide-react';
 import api, { Alert } from '@/lib/api';
 import AlertCard from '@/components/AlertCard';
+import { useI18n } from '@/lib/i18n';
 
-type FilterStatus = 'all' | 'PENDING' | 'CONFIRMED' | 'IGNORED';
+type FilterStatus = 'all' | 'PENDING' | 'CONFIRMED' | 'IGNORED' | 'EXPIRED';
 
 export default function AlertsPage() {
+  const { t } = useI18n();
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<FilterStatus>('all');
@@ -59,6 +61,7 @@ export default function AlertsPage() {
     PENDING: alerts.filter(a => a.status === 'PENDING').length,
     CONFIRMED: alerts.filter(a => a.status === 'CONFIRMED').length,
     IGNORED: alerts.filter(a => a.status === 'IGNORED').length,
+    EXPIRED: alerts.filter(a => a.status === 'EXPIRED').length,
   };
 
   return (
@@ -68,10 +71,10 @@ export default function AlertsPage() {
         <div>
           <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center">
             <Bell className="w-8 h-8 mr-3 text-indigo-600" />
-            Alerts
+            {t('nav.alerts')}
           </h1>
           <p className="text-slate-500 dark:text-slate-400 mt-1">
-            {total} alerts tracked
+            {t('alerts.tracked', { count: total })}
           </p>
         </div>
       </div>
@@ -80,7 +83,7 @@ export default function AlertsPage() {
       <div className="flex items-center space-x-2">
         <Filter className="w-5 h-5 text-slate-400" />
         <div className="flex rounded-lg bg-slate-100 dark:bg-slate-800 p-1">
-          {(['all', 'PENDING', 'CONFIRMED', 'IGNORED'] as FilterStatus[]).map((f) => (
+          {(['all', 'PENDING', 'CONFIRMED', 'IGNORED', 'EXPIRED'] as FilterStatus[]).map((f) => (
             <button
               key={f}
               onClick={() => setFilter(f)}
@@ -92,7 +95,7 @@ export default function AlertsPage() {
                 }
               `}
             >
-              {f === 'all' ? 'All' : f.charAt(0) + f.slice(1).toLowerCase()}
+              {f === 'all' ? t('alerts.all') : t(`status.${f}`)}
               <span className="ml-2 text-xs text-slate-400">
                 ({statusCounts[f]})
               </span>
@@ -122,16 +125,10 @@ export default function AlertsPage() {
             <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-12 text-center">
               <Bell className="w-16 h-16 text-slate-400 mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">
-                No Alerts Found
+                {t('alerts.empty')}
               </h3>
               <p className="text-slate-500 dark:text-slate-400 mt-2">
-                {filter === 'PENDING'
-                  ? 'No pending alerts. All clear!'
-                  : filter === 'CONFIRMED'
-                  ? 'No confirmed defenses yet.'
-                  : filter === 'IGNORED'
-                  ? 'No ignored alerts.'
-                  : 'Alerts will appear here when negative reviews are detected.'}
+                {t(`alerts.empty.${filter}`)}
               </p>
             </div>
           )}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Crosshair, RefreshCw, ExternalLink } from 'lucide-react';
+import api, { Attacker, Review } from '@/lib/api';
+import { useI18n, MessageKey } from '@/lib/i18n';
+import RiskBadge from '@/components/RiskBadge';
+
+export default function AttackerPage() {
+  const { t, formatDate } = useI18n();
+  const params = useParams();
+  const authorKey = decodeURIComponent(params.key as string);
+
+  const [attacker, setAttacker] = useState<(Attacker & { attacks: Review[] }) | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAttacker = async () => {
+      try {
+        const result = await api.getAttacker(authorKey);
+        if (result.success && result.data) {
+          setAttacker(result.data);
+        }
+      } catch (error) {
+        console.error('Error fetching attacker:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAttacker();
+  }, [authorKey]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <RefreshCw className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!attacker) {
+    return (
+      <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-12 text-center">
+        <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">{t('attackers.notFound')}</h3>
+        <Link href="/attackers" className="text-indigo-600 dark:text-indigo-400 hover:underline mt-4 inline-block">
+          {t('attackers.back')}
+        </Link>
+      </div>
+    );
+  }
+
+  const stats: { label: MessageKey; value: number | string }[] = [
+    { label: 'attackers.negativeReviews', value: attacker.negativeReviews },
+    { label: 'attackers.slashes', value: attacker.slashes },
+    { label: 'attackers.targetsHit', value: attacker.targets },
+    { label: 'relations.ethosScore', value: attacker.ethosScore ?? '-' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/attackers"
+        className="inline-flex items-center space-x-2 text-slate-600 dark:text-slate-400 hover:text-indigo-600"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>{t('attackers.back')}</span>
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 rounded-xl bg-red-100 dark:bg-red-900/30">
+            <Crosshair className="w-8 h-8 text-red-600" />
+          </div>
+          <div>
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-slate-900 dark:text-white">{attacker.name || t('alert.unknown')}</h1>
+              <RiskBadge risk={attacker.risk} signals={attacker.attacks.find((a) => a.attackerSignals)?.attackerSignals} />
+            </div>
+            <p className="text-slate-500 dark:text-slate-400 font-mono text-sm">{attacker.address || attacker.authorKey}</p>
+          </div>
+        </div>
+        {attacker.address && (
+          <a
+            href={`https://app.ethos.network/profile/${attacker.address}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-1 text-indigo-600 dark:text-indigo-400 hover:underline text-sm"
+          >
+            <span>{t('relations.viewOnEthos')}</span>
+            <ExternalLink className="w-4 h-4" />
+          </a>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 text-center">
+            <p className="text-sm text-slate-500 dark:text-slate-400">{t(stat.label)}</p>
+            <p className="text-2xl font-bold text-slate-900 dark:text-white mt-1">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        {t('attackers.firstSeen', { date: formatDate(attacker.firstSeen) })}
+        {' · '}
+        {t('attackers.lastSeen', { date: formatDate(attacker.lastSeen) })}
+      </p>
+
+      {/* History */}
+      <div className="space-y-4">
+        {attacker.attacks.map((review) => (
+          <div
+            key={review.id}
+            className={`bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 border-l-4 ${review.type === 'slash' ? 'border-red-500' : 'border-orange-500'}`}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <div className="flex items-center space-x-3 mb-2">
+                  <span className="px-3 py-1 rounded-full text-sm font-bold bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                    {review.type === 'slash' ? t('attackers.slash') : review.score}
+                  </span>
+                  <span className="text-sm text-slate-500 dark:text-slate-400">
+                    {t('attackers.against')} <span className="font-medium text-slate-900 dark:text-white">
+                      {review.relation?.name || review.relation?.address.slice(0, 10) || t('alert.unknown')}
+                    </span>
+                  </span>
+                  {review.status !== 'active' && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+                      {t(`reviews.status.${review.status}`)}
+                    </span>
+                  )}
+                </div>
+                {review.comment && (
+                  <p className="text-slate-600 dark:text-slate-300">&ldquo;{review.comment}&rdquo;</p>
+                )}
+              </div>
+              <div className="text-right ml-4">
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  {formatDate(review.createdAt)}
+                </p>
+                <Link href={`/defend/${review.id}`} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline">
+                  {t('alert.details')}
+                </Link>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Crosshair, RefreshCw, ChevronRight } from 'lucide-react';
+import api, { Attacker } from '@/lib/api';
+import { useI18n } from '@/lib/i18n';
+import RiskBadge from '@/components/RiskBadge';
+
+export default function AttackersPage() {
+  const { t, formatDate } = useI18n();
+  const [attackers, setAttackers] = useState<Attacker[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAttackers = async () => {
+      try {
+        const result = await api.getAttackers({ limit: 100 });
+        if (result.success && result.data) {
+          setAttackers(result.data);
+          setTotal(result.total || result.data.length);
+        }
+      } catch (error) {
+        console.error('Error fetching attackers:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAttackers();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <RefreshCw className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center">
+          <Crosshair className="w-8 h-8 mr-3 text-red-600" />
+          {t('nav.attackers')}
+        </h1>
+        <p className="text-slate-500 dark:text-slate-400 mt-1">
+          {t('attackers.subtitle', { count: total })}
+        </p>
+      </div>
+
+      {/* Attackers Table */}
+      {attackers.length > 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="text-left px-6 py-3 font-medium">{t('attackers.author')}</th>
+                <th className="text-right px-4 py-3 font-medium">{t('attackers.negative')}</th>
+                <th className="text-right px-4 py-3 font-medium">{t('attackers.slashes')}</th>
+                <th className="text-right px-4 py-3 font-medium">{t('attackers.targets')}</th>
+                <th className="text-right px-4 py-3 font-medium">{t('relations.ethosScore')}</th>
+                <th className="text-left px-4 py-3 font-medium">{t('attackers.firstLastSeen')}</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {attackers.map((attacker) => (
+                <tr key={attacker.authorKey} className="hover:bg-slate-50 dark:hover:bg-slate-700/30">
+                  <td className="px-6 py-4">
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium text-slate-900 dark:text-white">{attacker.name || t('alert.unknown')}</p>
+                      <RiskBadge risk={attacker.risk} />
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 font-mono">
+                      {attacker.address
+                        ? `${attacker.address.slice(0, 6)}...${attacker.address.slice(-4)}`
+                        : attacker.authorKey}
+                    </p>
+                  </td>
+                  <td className="px-4 py-4 text-right font-bold text-red-600 dark:text-red-400">{attacker.negativeReviews}</td>
+                  <td className="px-4 py-4 text-right font-bold text-red-600 dark:text-red-400">{attacker.slashes}</td>
+                  <td className="px-4 py-4 text-right text-slate-900 dark:text-white">{attacker.targets}</td>
+                  <td className="px-4 py-4 text-right text-slate-900 dark:text-white">{attacker.ethosScore ?? '-'}</td>
+                  <td className="px-4 py-4 text-slate-500 dark:text-slate-400">
+                    {formatDate(attacker.firstSeen, 'P')}
+                    {' / '}
+                    {formatDate(attacker.lastSeen, 'P')}
+                  </td>
+                  <td className="px-4 py-4 text-right">
+                    <Link
+                      href={`/attackers/${encodeURIComponent(attacker.authorKey)}`}
+                      className="inline-flex items-center text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                      <span>{t('attackers.history')}</span>
+                      <ChevronRight className="w-4 h-4" />
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-12 text-center">
+          <Crosshair className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">
+            {t('attackers.empty')}
+          </h3>
+          <p className="text-slate-500 dark:text-slate-400 mt-2">
+            {t('attackers.emptyText')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
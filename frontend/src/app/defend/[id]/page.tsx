@@ -3,20 +3,20 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Shield, ArrowLeft, RefreshCw, AlertTriangle, User, ExternalLink } from 'lucide-react';
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
 import Link from 'next/link';
 import api, { Alert, Defense } from '@/lib/api';
 import DefendForm from '@/components/DefendForm';
+import { useI18n, MessageKey } from '@/lib/i18n';
 
 export default function DefendPage() {
   const params = useParams();
   const router = useRouter();
   const reviewId = params.id as string;
+  const { t, formatDate } = useI18n();
 
   const [alert, setAlert] = useState<(Alert & { pendingDefense?: Defense }) | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
 
   useEffect(() => {
     const fetchAlert = async () => {
@@ -42,11 +42,11 @@ export default function DefendPage() {
         }
 
         if (!alert) {
-          setError('Alert not found');
+          setError('defend.notFound');
         }
       } catch (err) {
         console.error('Error fetching alert:', err);
-        setError('Failed to load alert data');
+        setError('defend.loadFailed');
       } finally {
         setIsLoading(false);
       }
@@ -71,17 +71,17 @@ export default function DefendPage() {
         <div className="bg-red-50 dark:bg-red-900/20 rounded-xl p-8 text-center">
           <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-red-800 dark:text-red-200">
-            {error || 'Alert not found'}
+            {t(error || 'defend.notFound')}
           </h2>
           <p className="text-red-600 dark:text-red-400 mt-2 mb-6">
-            The alert you&apos;re looking for could not be found.
+            {t('defend.notFoundText')}
           </p>
           <Link
             href="/alerts"
             className="inline-flex items-center space-x-2 px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors"
           >
             <ArrowLeft className="w-5 h-5" />
-            <span>Back to Alerts</span>
+            <span>{t('defend.back')}</span>
           </Link>
         </div>
       </div>
@@ -98,7 +98,7 @@ export default function DefendPage() {
         className="inline-flex items-center space-x-2 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors"
       >
         <ArrowLeft className="w-5 h-5" />
-        <span>Back to Alerts</span>
+        <span>{t('defend.back')}</span>
       </Link>
 
       {/* Header */}
@@ -114,10 +114,10 @@ export default function DefendPage() {
         </div>
         <div>
           <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
-            Defend Against {isSlash ? 'Slash' : 'Negative Review'}
+            {t('defend.title', { type: t(`defend.type.${alert.type}`) })}
           </h1>
           <p className="text-slate-500 dark:text-slate-400">
-            Post a positive review to counter the negative impact
+            {t('defend.subtitle')}
           </p>
         </div>
       </div>
@@ -126,20 +126,20 @@ export default function DefendPage() {
         {/* Attack Details */}
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
           <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
-            Attack Details
+            {t('defend.attackDetails')}
           </h2>
 
           {/* Target */}
           {alert.relation && (
             <div className="mb-6">
-              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">Target</p>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">{t('defend.target')}</p>
               <div className="flex items-center space-x-3 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
                 <div className="w-12 h-12 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center text-white font-bold">
                   {alert.relation.name?.charAt(0).toUpperCase() || '?'}
                 </div>
                 <div className="flex-1">
                   <p className="font-medium text-slate-900 dark:text-white">
-                    {alert.relation.name || 'Unknown'}
+                    {alert.relation.name || t('alert.unknown')}
                   </p>
                   <p className="text-sm text-slate-500 dark:text-slate-400 font-mono">
                     {alert.relation.address.slice(0, 8)}...{alert.relation.address.slice(-6)}
@@ -160,14 +160,14 @@ export default function DefendPage() {
           {/* Attacker */}
           {alert.review && (
             <div className="mb-6">
-              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">Attacker</p>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">{t('defend.attacker')}</p>
               <div className="flex items-center space-x-3 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
                 <div className="w-12 h-12 rounded-full bg-red-200 dark:bg-red-800 flex items-center justify-center">
                   <User className="w-6 h-6 text-red-600 dark:text-red-400" />
                 </div>
                 <div className="flex-1">
                   <p className="font-medium text-slate-900 dark:text-white">
-                    {alert.review.authorName || 'Anonymous'}
+                    {alert.review.authorName || t('alert.anonymous')}
                   </p>
                   {alert.review.authorAddr && (
                     <p className="text-sm text-slate-500 dark:text-slate-400 font-mono">
@@ -182,14 +182,14 @@ export default function DefendPage() {
           {/* Review Content */}
           {alert.review && (
             <div className="mb-6">
-              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">Review</p>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">{t('defend.review')}</p>
               <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border-l-4 border-red-500">
                 <div className="flex items-center space-x-2 mb-2">
                   <span className="px-2 py-1 bg-red-200 dark:bg-red-800 text-red-800 dark:text-red-200 rounded font-bold text-sm">
                     {alert.review.score > 0 ? '+' : ''}{alert.review.score}
                   </span>
                   <span className="text-sm text-slate-500 dark:text-slate-400">
-                    {format(new Date(alert.review.createdAt), 'PPp', { locale: fr })}
+                    {formatDate(alert.review.createdAt)}
                   </span>
                 </div>
                 {alert.review.comment && (
@@ -203,14 +203,14 @@ export default function DefendPage() {
 
           {/* Status */}
           <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
-            <span className="text-sm text-slate-500 dark:text-slate-400">Status</span>
+            <span className="text-sm text-slate-500 dark:text-slate-400">{t('defend.status')}</span>
             <span className={`
               px-3 py-1 rounded-full text-sm font-medium
               ${alert.status === 'PENDING' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' : ''}
               ${alert.status === 'CONFIRMED' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' : ''}
               ${alert.status === 'IGNORED' ? 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300' : ''}
             `}>
-              {alert.status}
+              {t(`status.${alert.status}`)}
             </span>
           </div>
         </div>
@@ -218,7 +218,7 @@ export default function DefendPage() {
         {/* Defense Form */}
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
           <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
-            Post Defense
+            {t('defend.postDefense')}
           </h2>
 
           {alert.status === 'PENDING' && alert.relation ? (
@@ -237,20 +237,20 @@ export default function DefendPage() {
                 <>
                   <Shield className="w-16 h-16 text-green-600 dark:text-green-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-green-800 dark:text-green-200">
-                    Already Defended
+                    {t('defend.alreadyDefended')}
                   </h3>
                   <p className="text-green-600 dark:text-green-400 mt-2">
-                    A defense has been posted for this review.
+                    {t('defend.alreadyDefendedText')}
                   </p>
                 </>
               ) : (
                 <>
                   <AlertTriangle className="w-16 h-16 text-slate-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200">
-                    Alert Ignored
+                    {t('defend.ignored')}
                   </h3>
                   <p className="text-slate-500 dark:text-slate-400 mt-2">
-                    This alert has been marked as ignored.
+                    {t('defend.ignoredText')}
                   </p>
                 </>
               )}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Siren, RefreshCw, ChevronDown, ChevronUp, CheckCircle, RotateCcw } from 'lucide-react';
+import api, { Incident } from '@/lib/api';
+import { useI18n } from '@/lib/i18n';
+
+export default function IncidentsPage() {
+  const { t, formatDate } = useI18n();
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [details, setDetails] = useState<Record<string, Incident>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchIncidents = async () => {
+    try {
+      const result = await api.getIncidents({ limit: 100 });
+      if (result.success && result.data) {
+        setIncidents(result.data);
+      }
+    } catch (error) {
+      console.error('Error fetching incidents:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchIncidents();
+  }, []);
+
+  const toggleIncident = async (id: string) => {
+    if (expanded === id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(id);
+    if (!details[id]) {
+      const result = await api.getIncident(id);
+      if (result.success && result.data) {
+        setDetails((prev) => ({ ...prev, [id]: result.data! }));
+      }
+    }
+  };
+
+  const setStatus = async (id: string, status: Incident['status']) => {
+    const result = await api.updateIncidentStatus(id, status);
+    if (result.success) {
+      setIncidents((prev) => prev.map((i) => (i.id === id ? { ...i, status } : i)));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <RefreshCw className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const openCount = incidents.filter((i) => i.status === 'OPEN').length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center">
+          <Siren className="w-8 h-8 mr-3 text-red-600" />
+          {t('nav.incidents')}
+        </h1>
+        <p className="text-slate-500 dark:text-slate-400 mt-1">
+          {t('incidents.subtitle', { open: openCount, total: incidents.length })}
+        </p>
+      </div>
+
+      {/* Incidents List */}
+      {incidents.length > 0 ? (
+        <div className="space-y-4">
+          {incidents.map((incident) => {
+            const isOpen = incident.status === 'OPEN';
+            const detail = details[incident.id];
+
+            return (
+              <div
+                key={incident.id}
+                className={`bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 border-l-4 ${isOpen ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center space-x-3 mb-2">
+                      <span className={`px-3 py-1 rounded-full text-sm font-bold ${isOpen ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'}`}>
+                        {isOpen ? t('incidents.open') : t('incidents.resolved')}
+                      </span>
+                      <span className="font-medium text-slate-900 dark:text-white">
+                        {t('incidents.summary', { reviews: incident.reviewCount, authors: incident.authorCount, targets: incident.targetCount })}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                      {formatDate(incident.startedAt)}
+                      {' → '}
+                      {formatDate(incident.lastActivityAt)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setStatus(incident.id, isOpen ? 'RESOLVED' : 'OPEN')}
+                      className="flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+                    >
+                      {isOpen ? <CheckCircle className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                      <span>{isOpen ? t('incidents.resolve') : t('incidents.reopen')}</span>
+                    </button>
+                    <button
+                      onClick={() => toggleIncident(incident.id)}
+                      className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+                    >
+                      {expanded === incident.id ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+                    </button>
+                  </div>
+                </div>
+
+                {expanded === incident.id && (
+                  <div className="mt-4 border-t border-slate-200 dark:border-slate-700 pt-4">
+                    {detail?.reviews ? (
+                      <table className="w-full text-sm">
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                          {detail.reviews.map((review) => (
+                            <tr key={review.id}>
+                              <td className="py-2 text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                                {formatDate(review.createdAt, t('date.short'))}
+                              </td>
+                              <td className="py-2 px-3">
+                                <Link
+                                  href={`/attackers/${encodeURIComponent(review.authorKey)}`}
+                                  className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                                >
+                                  {review.authorName || review.authorAddr?.slice(0, 10) || t('alert.unknown')}
+                                </Link>
+                                <span className="text-slate-500 dark:text-slate-400"> → </span>
+                                <span className="text-slate-900 dark:text-white">
+                                  {review.relation?.name || review.relation?.address.slice(0, 10) || t('alert.unknown')}
+                                </span>
+                              </td>
+                              <td className="py-2 px-3 font-bold text-red-600 dark:text-red-400">
+                                {review.type === 'slash' ? t('attackers.slash') : review.score}
+                              </td>
+                              <td className="py-2 text-right">
+                                <Link href={`/defend/${review.id}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                                  {t('alert.defend')}
+                                </Link>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <RefreshCw className="w-5 h-5 text-indigo-600 animate-spin mx-auto" />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-12 text-center">
+          <Siren className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">
+            {t('incidents.empty')}
+          </h3>
+          <p className="text-slate-500 dark:text-slate-400 mt-2">
+            {t('incidents.emptyText')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
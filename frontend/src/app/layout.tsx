@@ -2,12 +2,15 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import Navbar from '@/components/Navbar';
+import { I18nProvider } from '@/lib/i18n';
+import { en } from '@/lib/locales/en';
 
 const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
-  title: 'Ethos Monitor - Anti-Slash Dashboard',
-  description: 'Monitor and defend against negative reviews on Ethos Network',
+  // Server-rendered in English, I18nProvider switches the title to the chosen language
+  title: en['app.title'],
+  description: en['app.description'],
 };
 
 export default function RootLayout({
@@ -18,12 +21,14 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        <div className="min-h-screen bg-gradient-to-br from-slate-50 to-indigo-50 dark:from-slate-900 dark:to-indigo-950">
-          <Navbar />
-          <main className="container mx-auto px-4 py-8">
-            {children}
-          </main>
-        </div>
+        <I18nProvider>
+          <div className="min-h-screen bg-gradient-to-br from-slate-50 to-indigo-50 dark:from-slate-900 dark:to-indigo-950">
+            <Navbar />
+            <main className="container mx-auto px-4 py-8">
+              {children}
+            </main>
+          </div>
+        </I18nProvider>
       </body>
     </html>
   );
@@ -14,8 +14,10 @@ import Link from 'next/link';
 import api, { Stats, Alert, MonitorLog } from '@/lib/api';
 import StatsCard from '@/components/StatsCard';
 import AlertCard from '@/components/AlertCard';
+import { useI18n } from '@/lib/i18n';
 
 export default function Dashboard() {
+  const { t, formatDate } = useI18n();
   const [stats, setStats] = useState<Stats | null>(null);
   const [pendingAlerts, setPendingAlerts] = useState<Alert[]>([]);
   const [recentRuns, setRecentRuns] = useState<MonitorLog[]>([]);
@@ -95,10 +97,10 @@ export default function Dashboard() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
-            Dashboard
+            {t('nav.dashboard')}
           </h1>
           <p className="text-slate-500 dark:text-slate-400 mt-1">
-            Monitor and protect your Ethos reputation
+            {t('dashboard.subtitle')}
           </p>
         </div>
         <button
@@ -114,37 +116,37 @@ export default function Dashboard() {
           `}
         >
           <RefreshCw className={`w-5 h-5 ${isTriggering ? 'animate-spin' : ''}`} />
-          <span>{isTriggering ? 'Scanning...' : 'Scan Now'}</span>
+          <span>{isTriggering ? t('dashboard.scanning') : t('dashboard.scanNow')}</span>
         </button>
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatsCard
-          title="Relations"
+          title={t('dashboard.relations')}
           value={stats?.activeRelations || 0}
-          subtitle={`${stats?.totalRelations || 0} total`}
+          subtitle={t('dashboard.total', { count: stats?.totalRelations || 0 })}
           icon={Users}
           color="indigo"
         />
         <StatsCard
-          title="Reviews"
+          title={t('dashboard.reviews')}
           value={stats?.totalReviews || 0}
-          subtitle={`${stats?.negativeReviews || 0} negative`}
+          subtitle={t('dashboard.negative', { count: stats?.negativeReviews || 0 })}
           icon={MessageSquare}
           color="blue"
         />
         <StatsCard
-          title="Pending Alerts"
+          title={t('dashboard.pendingAlerts')}
           value={stats?.pendingAlerts || 0}
-          subtitle={`${stats?.totalAlerts || 0} total`}
+          subtitle={t('dashboard.total', { count: stats?.totalAlerts || 0 })}
           icon={Bell}
           color={stats?.pendingAlerts ? 'yellow' : 'green'}
         />
         <StatsCard
-          title="Defenses"
+          title={t('dashboard.defenses')}
           value={stats?.successfulDefenses || 0}
-          subtitle={`${stats?.defensesSent || 0} attempted`}
+          subtitle={t('dashboard.attempted', { count: stats?.defensesSent || 0 })}
           icon={Shield}
           color="green"
         />
@@ -172,25 +174,26 @@ export default function Dashboard() {
               </div>
               <div>
                 <h3 className="font-semibold text-slate-900 dark:text-white">
-                  Monitor Status
+                  {t('dashboard.monitorStatus')}
                 </h3>
                 <p className="text-sm text-slate-500 dark:text-slate-400">
                   {stats.monitorStatus.isRunning
-                    ? 'Scanning in progress...'
-                    : `Last scan: ${stats.monitorStatus.lastRunAt
-                        ? new Date(stats.monitorStatus.lastRunAt).toLocaleString()
-                        : 'Never'
-                      }`
+                    ? t('dashboard.scanInProgress')
+                    : t('dashboard.lastScan', {
+                        date: stats.monitorStatus.lastRunAt
+                          ? formatDate(stats.monitorStatus.lastRunAt)
+                          : t('dashboard.never'),
+                      })
                   }
                 </p>
               </div>
             </div>
             <div className="text-right">
               <p className="text-sm text-slate-500 dark:text-slate-400">
-                Interval
+                {t('dashboard.interval')}
               </p>
               <p className="font-semibold text-slate-900 dark:text-white">
-                Every {stats.monitorStatus.intervalMinutes} min
+                {t('dashboard.every', { minutes: stats.monitorStatus.intervalMinutes })}
               </p>
             </div>
           </div>
@@ -203,13 +206,13 @@ export default function Dashboard() {
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center">
               <AlertTriangle className="w-6 h-6 text-yellow-500 mr-2" />
-              Pending Alerts
+              {t('dashboard.pendingAlerts')}
             </h2>
             <Link
               href="/alerts"
               className="text-indigo-600 dark:text-indigo-400 hover:underline"
             >
-              View all
+              {t('dashboard.viewAll')}
             </Link>
           </div>
           <div className="grid gap-4">
@@ -229,18 +232,18 @@ export default function Dashboard() {
       {recentRuns.length > 0 && (
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
           <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-4">
-            Recent Scans
+            {t('dashboard.recentScans')}
           </h2>
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
               <thead>
                 <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
-                  <th className="pb-3 font-medium">Time</th>
-                  <th className="pb-3 font-medium">Relations</th>
-                  <th className="pb-3 font-medium">Reviews</th>
-                  <th className="pb-3 font-medium">Negative</th>
-                  <th className="pb-3 font-medium">Alerts</th>
-                  <th className="pb-3 font-medium">Duration</th>
+                  <th className="pb-3 font-medium">{t('dashboard.time')}</th>
+                  <th className="pb-3 font-medium">{t('dashboard.relations')}</th>
+                  <th className="pb-3 font-medium">{t('dashboard.reviews')}</th>
+                  <th className="pb-3 font-medium">{t('dashboard.negativeColumn')}</th>
+                  <th className="pb-3 font-medium">{t('dashboard.alerts')}</th>
+                  <th className="pb-3 font-medium">{t('dashboard.duration')}</th>
                 </tr>
               </thead>
               <tbody>
@@ -250,7 +253,7 @@ export default function Dashboard() {
                     className="border-b border-slate-100 dark:border-slate-700/50"
                   >
                     <td className="py-3 text-slate-900 dark:text-white">
-                      {new Date(run.runAt).toLocaleString()}
+                      {formatDate(run.runAt)}
                     </td>
                     <td className="py-3 text-slate-600 dark:text-slate-300">
                       {run.relationsChecked}
@@ -282,10 +285,10 @@ export default function Dashboard() {
         <div className="bg-green-50 dark:bg-green-900/20 rounded-xl p-8 text-center">
           <Shield className="w-16 h-16 text-green-600 dark:text-green-400 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-green-800 dark:text-green-200">
-            All Clear!
+            {t('dashboard.allClear')}
           </h3>
           <p className="text-green-600 dark:text-green-400 mt-2">
-            No pending alerts. Your relations are protected.
+            {t('dashboard.allClearText')}
           </p>
         </div>
       )}
@@ -1,13 +1,40 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Users, RefreshCw, ExternalLink, MessageSquare, Bell } from 'lucide-react';
-import api, { Relation } from '@/lib/api';
+import { Users, RefreshCw, ExternalLink, MessageSquare, Bell, Eye, Plus, X, LineChart } from 'lucide-react';
+import api, { Relation, RelationDirection, ScoreSnapshot } from '@/lib/api';
+import ScoreChart from '@/components/ScoreChart';
+import { useI18n, MessageKey } from '@/lib/i18n';
+
+const directionLabels: Record<RelationDirection, { label: MessageKey; className: string }> = {
+  outgoing: {
+    label: 'relations.direction.outgoing',
+    className: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300',
+  },
+  incoming: {
+    label: 'relations.direction.incoming',
+    className: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  },
+  self: {
+    label: 'relations.direction.self',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  },
+  manual: {
+    label: 'relations.direction.manual',
+    className: 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300',
+  },
+};
 
 export default function RelationsPage() {
+  const { t } = useI18n();
   const [relations, setRelations] = useState<Relation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [watchQuery, setWatchQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [watchError, setWatchError] = useState<string | null>(null);
+  const [scoreHistory, setScoreHistory] = useState<Record<string, ScoreSnapshot[]>>({});
+  const [openHistory, setOpenHistory] = useState<string | null>(null);
 
   const fetchRelations = async () => {
     setIsLoading(true);
@@ -37,6 +64,55 @@ export default function RelationsPage() {
     }
   };
 
+  const addToWatchlist = async () => {
+    if (!watchQuery.trim()) return;
+
+    setIsAdding(true);
+    setWatchError(null);
+    try {
+      const result = await api.addToWatchlist(watchQuery.trim());
+      if (result.success) {
+        setWatchQuery('');
+        await fetchRelations();
+      } else {
+        setWatchError(result.error || t('relations.addFailed'));
+      }
+    } catch (error) {
+      console.error('Error adding to watchlist:', error);
+      setWatchError(t('relations.addFailed'));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const removeFromWatchlist = async (id: string) => {
+    try {
+      const result = await api.removeFromWatchlist(id);
+      if (result.success) {
+        setRelations((prev) => prev.filter((relation) => relation.id !== id));
+      }
+    } catch (error) {
+      console.error('Error removing from watchlist:', error);
+    }
+  };
+
+  const toggleHistory = async (id: string) => {
+    if (openHistory === id) {
+      setOpenHistory(null);
+      return;
+    }
+
+    setOpenHistory(id);
+    try {
+      const result = await api.getScoreHistory(id, 30);
+      if (result.success && result.data) {
+        setScoreHistory((prev) => ({ ...prev, [id]: result.data! }));
+      }
+    } catch (error) {
+      console.error('Error fetching score history:', error);
+    }
+  };
+
   useEffect(() => {
     fetchRelations();
   }, []);
@@ -56,10 +132,10 @@ export default function RelationsPage() {
         <div>
           <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center">
             <Users className="w-8 h-8 mr-3 text-indigo-600" />
-            Relations
+            {t('nav.relations')}
           </h1>
           <p className="text-slate-500 dark:text-slate-400 mt-1">
-            {relations.length} relations being monitored
+            {t('relations.monitored', { count: relations.length })}
           </p>
         </div>
         <button
@@ -75,10 +151,42 @@ export default function RelationsPage() {
           `}
         >
           <RefreshCw className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} />
-          <span>{isRefreshing ? 'Refreshing...' : 'Refresh from Ethos'}</span>
+          <span>{isRefreshing ? t('relations.refreshing') : t('relations.refresh')}</span>
         </button>
       </div>
 
+      {/* Watchlist */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+        <div className="flex items-center space-x-2 mb-1">
+          <Eye className="w-5 h-5 text-sky-600" />
+          <h2 className="font-semibold text-slate-900 dark:text-white">{t('relations.watchlist')}</h2>
+        </div>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+          {t('relations.watchlistText')}
+        </p>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={watchQuery}
+            onChange={(e) => setWatchQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addToWatchlist()}
+            placeholder={t('relations.watchPlaceholder')}
+            className="flex-1 px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={addToWatchlist}
+            disabled={!watchQuery.trim() || isAdding}
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-5 h-5" />
+            <span>{isAdding ? t('relations.adding') : t('relations.add')}</span>
+          </button>
+        </div>
+        {watchError && (
+          <p className="text-sm text-red-600 dark:text-red-400 mt-2">{watchError}</p>
+        )}
+      </div>
+
       {/* Relations Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {relations.map((relation) => (
@@ -92,9 +200,25 @@ export default function RelationsPage() {
                 {relation.name?.charAt(0).toUpperCase() || '?'}
               </div>
               <div className="flex-1 min-w-0">
-                <h3 className="font-semibold text-slate-900 dark:text-white truncate">
-                  {relation.name || 'Unknown'}
-                </h3>
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-slate-900 dark:text-white truncate">
+                    {relation.name || t('alert.unknown')}
+                  </h3>
+                  {directionLabels[relation.direction] && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${directionLabels[relation.direction].className}`}>
+                      {t(directionLabels[relation.direction].label)}
+                    </span>
+                  )}
+                  {relation.direction === 'manual' && (
+                    <button
+                      onClick={() => removeFromWatchlist(relation.id)}
+                      title={t('relations.remove')}
+                      className="ml-auto p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
                 <p className="text-sm text-slate-500 dark:text-slate-400 font-mono truncate">
                   {relation.address}
                 </p>
@@ -106,7 +230,7 @@ export default function RelationsPage() {
               <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3 text-center">
                 <div className="flex items-center justify-center space-x-1 text-slate-500 dark:text-slate-400">
                   <MessageSquare className="w-4 h-4" />
-                  <span className="text-xs">Reviews</span>
+                  <span className="text-xs">{t('dashboard.reviews')}</span>
                 </div>
                 <p className="text-xl font-bold text-slate-900 dark:text-white mt-1">
                   {relation._count?.reviews || 0}
@@ -115,7 +239,7 @@ export default function RelationsPage() {
               <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3 text-center">
                 <div className="flex items-center justify-center space-x-1 text-slate-500 dark:text-slate-400">
                   <Bell className="w-4 h-4" />
-                  <span className="text-xs">Alerts</span>
+                  <span className="text-xs">{t('nav.alerts')}</span>
                 </div>
                 <p className="text-xl font-bold text-slate-900 dark:text-white mt-1">
                   {relation._count?.alerts || 0}
@@ -126,7 +250,7 @@ export default function RelationsPage() {
             {/* Ethos Score */}
             <div className="flex items-center justify-between mb-4">
               <span className="text-sm text-slate-500 dark:text-slate-400">
-                Ethos Score
+                {t('relations.ethosScore')}
               </span>
               <span className={`
                 px-3 py-1 rounded-full text-sm font-bold
@@ -139,6 +263,22 @@ export default function RelationsPage() {
               </span>
             </div>
 
+            {/* Score History */}
+            <button
+              onClick={() => toggleHistory(relation.id)}
+              className="flex items-center space-x-1 mb-4 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <LineChart className="w-4 h-4" />
+              <span>{openHistory === relation.id ? t('relations.hideHistory') : t('relations.history')}</span>
+            </button>
+            {openHistory === relation.id && (
+              <div className="mb-4">
+                {scoreHistory[relation.id]
+                  ? <ScoreChart snapshots={scoreHistory[relation.id]} />
+                  : <RefreshCw className="w-5 h-5 text-indigo-600 animate-spin mx-auto" />}
+              </div>
+            )}
+
             {/* Status and Link */}
             <div className="flex items-center justify-between pt-4 border-t border-slate-200 dark:border-slate-700">
               <span className={`
@@ -149,7 +289,7 @@ export default function RelationsPage() {
                 }
               `}>
                 <span className={`w-2 h-2 rounded-full ${relation.isActive ? 'bg-green-500 animate-pulse' : 'bg-slate-400'}`} />
-                <span>{relation.isActive ? 'Active' : 'Inactive'}</span>
+                <span>{relation.isActive ? t('relations.active') : t('relations.inactive')}</span>
               </span>
               <a
                 href={`https://app.ethos.network/profile/${relation.address}`}
@@ -157,7 +297,7 @@ export default function RelationsPage() {
                 rel="noopener noreferrer"
                 className="flex items-center space-x-1 text-indigo-600 dark:text-indigo-400 hover:underline text-sm"
               >
-                <span>View on Ethos</span>
+                <span>{t('relations.viewOnEthos')}</span>
                 <ExternalLink className="w-4 h-4" />
               </a>
             </div>
@@ -170,10 +310,10 @@ export default function RelationsPage() {
         <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-12 text-center">
           <Users className="w-16 h-16 text-slate-400 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">
-            No Relations Found
+            {t('relations.empty')}
           </h3>
           <p className="text-slate-500 dark:text-slate-400 mt-2 mb-6">
-            Click &ldquo;Refresh from Ethos&rdquo; to sync your vouches.
+            {t('relations.emptyText')}
           </p>
           <button
             onClick={refreshFromEthos}
@@ -181,7 +321,7 @@ export default function RelationsPage() {
             className="inline-flex items-center space-x-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors"
           >
             <RefreshCw className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} />
-            <span>Refresh from Ethos</span>
+            <span>{t('relations.refresh')}</span>
           </button>
         </div>
       )}
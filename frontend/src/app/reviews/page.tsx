@@ -1,18 +1,36 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { MessageSquare, RefreshCw, Filter, ExternalLink } from 'lucide-react';
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
+import { MessageSquare, RefreshCw, Filter, ExternalLink, ShieldCheck } from 'lucide-react';
 import api, { Review } from '@/lib/api';
+import { useI18n, MessageKey } from '@/lib/i18n';
+import RiskBadge from '@/components/RiskBadge';
 
 type FilterType = 'all' | 'positive' | 'negative';
 
+// Badges for reviews that changed after ingestion
+const statusLabels: Record<string, { label: MessageKey; className: string }> = {
+  edited: {
+    label: 'reviews.status.edited',
+    className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  },
+  archived: {
+    label: 'reviews.status.archived',
+    className: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+  },
+  retracted: {
+    label: 'reviews.status.retracted',
+    className: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+  },
+};
+
 export default function ReviewsPage() {
+  const { t, formatDate } = useI18n();
   const [reviews, setReviews] = useState<Review[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<FilterType>('all');
   const [total, setTotal] = useState(0);
+  const [isVerifying, setIsVerifying] = useState(false);
 
   const fetchReviews = async (filterType: FilterType) => {
     setIsLoading(true);
@@ -37,6 +55,18 @@ export default function ReviewsPage() {
     fetchReviews(filter);
   }, [filter]);
 
+  const verifyReviews = async () => {
+    setIsVerifying(true);
+    try {
+      await api.verifyReviews();
+      await fetchReviews(filter);
+    } catch (error) {
+      console.error('Error verifying reviews:', error);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
   const filterCounts = {
     all: total,
     positive: reviews.filter(r => !r.isNegative).length,
@@ -50,12 +80,20 @@ export default function ReviewsPage() {
         <div>
           <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center">
             <MessageSquare className="w-8 h-8 mr-3 text-indigo-600" />
-            Reviews
+            {t('nav.reviews')}
           </h1>
           <p className="text-slate-500 dark:text-slate-400 mt-1">
-            {total} reviews tracked
+            {t('reviews.tracked', { count: total })}
           </p>
         </div>
+        <button
+          onClick={verifyReviews}
+          disabled={isVerifying}
+          className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white shadow-lg transition-all duration-200 disabled:opacity-50"
+        >
+          <ShieldCheck className={`w-5 h-5 ${isVerifying ? 'animate-pulse' : ''}`} />
+          <span>{isVerifying ? t('reviews.checking') : t('reviews.recheck')}</span>
+        </button>
       </div>
 
       {/* Filters */}
@@ -74,7 +112,7 @@ export default function ReviewsPage() {
                 }
               `}
             >
-              {f.charAt(0).toUpperCase() + f.slice(1)}
+              {t(`reviews.filter.${f}`)}
               <span className="ml-2 text-xs text-slate-400">
                 ({filterCounts[f]})
               </span>
@@ -113,14 +151,20 @@ export default function ReviewsPage() {
                       {review.score > 0 ? '+' : ''}{review.score}
                     </span>
                     <span className="text-slate-500 dark:text-slate-400 text-sm">
-                      by {review.authorName || review.authorAddr?.slice(0, 10) + '...' || 'Anonymous'}
+                      {t('alert.by', { name: review.authorName || (review.authorAddr ? review.authorAddr.slice(0, 10) + '...' : t('alert.anonymous')) })}
                     </span>
+                    {statusLabels[review.status] && (
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusLabels[review.status].className}`}>
+                        {t(statusLabels[review.status].label)}
+                      </span>
+                    )}
+                    <RiskBadge risk={review.attackerRisk} signals={review.attackerSignals} />
                   </div>
 
                   {/* Target */}
                   {review.relation && (
                     <div className="mb-3">
-                      <span className="text-sm text-slate-500 dark:text-slate-400">To: </span>
+                      <span className="text-sm text-slate-500 dark:text-slate-400">{t('reviews.to')} </span>
                       <span className="font-medium text-slate-900 dark:text-white">
                         {review.relation.name || review.relation.address.slice(0, 10) + '...'}
                       </span>
@@ -138,11 +182,11 @@ export default function ReviewsPage() {
                 {/* Right: Date and Actions */}
                 <div className="text-right ml-4">
                   <p className="text-sm text-slate-500 dark:text-slate-400">
-                    {format(new Date(review.createdAt), 'PPp', { locale: fr })}
+                    {formatDate(review.createdAt)}
                   </p>
                   {review.alerted && (
                     <span className="inline-block mt-2 px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 rounded text-xs">
-                      Alerted
+                      {t('reviews.alerted')}
                     </span>
                   )}
                   {review.relation && (
@@ -152,7 +196,7 @@ export default function ReviewsPage() {
                       rel="noopener noreferrer"
                       className="flex items-center justify-end space-x-1 text-indigo-600 dark:text-indigo-400 hover:underline text-sm mt-2"
                     >
-                      <span>View Profile</span>
+                      <span>{t('reviews.viewProfile')}</span>
                       <ExternalLink className="w-4 h-4" />
                     </a>
                   )}
@@ -166,14 +210,10 @@ export default function ReviewsPage() {
             <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-12 text-center">
               <MessageSquare className="w-16 h-16 text-slate-400 mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">
-                No Reviews Found
+                {t('reviews.empty')}
               </h3>
               <p className="text-slate-500 dark:text-slate-400 mt-2">
-                {filter === 'negative'
-                  ? 'No negative reviews detected yet.'
-                  : filter === 'positive'
-                  ? 'No positive reviews tracked yet.'
-                  : 'Reviews will appear here when detected.'}
+                {t(`reviews.empty.${filter}`)}
               </p>
             </div>
           )}
@@ -0,0 +1,484 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ListFilter, RefreshCw, Plus, Trash2, Eye } from 'lucide-react';
+import api, {
+  AlertRule,
+  AlertChannelName,
+  AttackerRisk,
+  RuleActions,
+  RuleConditions,
+  RulePreview,
+} from '@/lib/api';
+import { useI18n } from '@/lib/i18n';
+
+type Translate = ReturnType<typeof useI18n>['t'];
+
+const emptyForm = {
+  name: '',
+  priority: '100',
+  types: [] as ('NEGATIVE_REVIEW' | 'SLASH')[],
+  attackerRisks: [] as AttackerRisk[],
+  keywords: '',
+  attackers: '',
+  maxScore: '',
+  hoursFrom: '',
+  hoursTo: '',
+  timezone: '',
+  suppress: false,
+  escalate: false,
+  channels: [] as AlertChannelName[],
+  defense: '' as '' | NonNullable<RuleActions['defense']>,
+  stop: false,
+};
+
+type RuleForm = typeof emptyForm;
+
+const splitList = (value: string) => value.split(',').map((v) => v.trim()).filter(Boolean);
+
+// Build rule conditions/actions from the form, leaving unset fields out
+function toRule(form: RuleForm): Pick<AlertRule, 'conditions' | 'actions'> {
+  const conditions: RuleConditions = {};
+  if (form.types.length) conditions.types = form.types;
+  if (form.attackerRisks.length) conditions.attackerRisks = form.attackerRisks;
+  if (splitList(form.keywords).length) conditions.keywords = splitList(form.keywords);
+  if (splitList(form.attackers).length) conditions.attackers = splitList(form.attackers);
+  if (form.maxScore !== '') conditions.maxScore = parseInt(form.maxScore, 10);
+  if (form.hoursFrom !== '' && form.hoursTo !== '') {
+    conditions.hours = {
+      from: parseInt(form.hoursFrom, 10),
+      to: parseInt(form.hoursTo, 10),
+      ...(form.timezone.trim() ? { timezone: form.timezone.trim() } : {}),
+    };
+  }
+
+  const actions: RuleActions = {};
+  if (form.suppress) actions.suppress = true;
+  if (form.escalate) actions.escalate = true;
+  if (form.channels.length) actions.channels = form.channels;
+  if (form.defense) actions.defense = form.defense;
+  if (form.stop) actions.stop = true;
+
+  return { conditions, actions };
+}
+
+// One-line description of a rule
+function describeRule(rule: AlertRule, t: Translate): string {
+  const { conditions: c, actions: a } = rule;
+  const when = [
+    c.types?.length && t('rules.describe.types', { types: c.types.join('/') }),
+    c.attackerRisks?.length && t('rules.describe.risks', { risks: c.attackerRisks.join('/') }),
+    c.keywords?.length && t('rules.describe.keywords', { keywords: c.keywords.join(', ') }),
+    c.attackers?.length && t('rules.describe.attackers', { attackers: c.attackers.join(', ') }),
+    c.relationIds?.length && t('rules.describe.relations', { count: c.relationIds.length }),
+    c.directions?.length && t('rules.describe.directions', { directions: c.directions.join('/') }),
+    c.minScore !== undefined && `score ≥ ${c.minScore}`,
+    c.maxScore !== undefined && `score ≤ ${c.maxScore}`,
+    c.hours && t('rules.describe.hours', { from: c.hours.from, to: c.hours.to }) + (c.hours.timezone ? ` (${c.hours.timezone})` : ''),
+  ].filter(Boolean);
+  const then = [
+    a.suppress && t('rules.describe.suppress'),
+    a.escalate && t('rules.describe.escalate'),
+    a.channels?.length && t('rules.describe.channels', { channels: a.channels.join(', ') }),
+    a.defense && t(`rules.defense.${a.defense}`),
+    a.stop && t('rules.describe.stop'),
+  ].filter(Boolean);
+
+  const condition = when.length ? t('rules.describe.when', { conditions: when.join(', ') }) : t('rules.describe.always');
+  return `${condition} → ${then.length ? then.join(', ') : t('rules.describe.noAction')}`;
+}
+
+export default function RulesPage() {
+  const { t, formatDate } = useI18n();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ title: string; data: RulePreview } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const fetchRules = async () => {
+    try {
+      const result = await api.getRules();
+      if (result.success && result.data) {
+        setRules(result.data);
+      }
+    } catch (error) {
+      console.error('Error fetching rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createRule = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await api.createRule({
+        name: form.name.trim(),
+        priority: parseInt(form.priority, 10) || 100,
+        ...toRule(form),
+      });
+      if (result.success) {
+        setForm(emptyForm);
+        await fetchRules();
+      } else {
+        setError(result.error || t('rules.createFailed'));
+      }
+    } catch (error) {
+      console.error('Error creating rule:', error);
+      setError(t('rules.createFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      const result = await api.updateRule(rule.id, { enabled: !rule.enabled });
+      if (result.success && result.data) {
+        setRules((prev) => prev.map((r) => (r.id === rule.id ? result.data! : r)));
+      }
+    } catch (error) {
+      console.error('Error updating rule:', error);
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!window.confirm(t('rules.deleteConfirm', { name: rule.name }))) return;
+
+    try {
+      const result = await api.deleteRule(rule.id);
+      if (result.success) {
+        setRules((prev) => prev.filter((r) => r.id !== rule.id));
+      }
+    } catch (error) {
+      console.error('Error deleting rule:', error);
+    }
+  };
+
+  const runPreview = async (title: string, data: Parameters<typeof api.previewRules>[0]) => {
+    setIsPreviewing(true);
+    try {
+      const result = await api.previewRules({ days: 30, ...data });
+      if (result.success && result.data) {
+        setPreview({ title, data: result.data });
+      } else {
+        setError(result.error || t('rules.previewFailed'));
+      }
+    } catch (error) {
+      console.error('Error previewing rules:', error);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const toggleIn = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <RefreshCw className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+  const checkboxClass = 'w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center">
+            <ListFilter className="w-8 h-8 mr-3 text-indigo-600" />
+            {t('rules.title')}
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1">
+            {t('rules.subtitle')}
+          </p>
+        </div>
+        <button
+          onClick={() => runPreview(t('rules.enabledRules'), {})}
+          disabled={isPreviewing}
+          className="flex items-center space-x-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+        >
+          <Eye className="w-4 h-4" />
+          <span>{t('rules.previewLast30')}</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Rules */}
+      {rules.length > 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg divide-y divide-slate-200 dark:divide-slate-700">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between p-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="px-2 py-0.5 rounded text-xs font-mono bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+                    {rule.priority}
+                  </span>
+                  <h3 className="font-semibold text-slate-900 dark:text-white truncate">{rule.name}</h3>
+                  {rule.accountId === null && (
+                    <span className="text-xs text-slate-400">{t('rules.allAccounts')}</span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{describeRule(rule, t)}</p>
+              </div>
+              <div className="flex items-center gap-2 ml-4">
+                <button
+                  onClick={() => runPreview(rule.name, { ruleId: rule.id })}
+                  title={t('rules.preview')}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors"
+                >
+                  <Eye className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => toggleRule(rule)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    rule.enabled
+                      ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                      : 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400'
+                  }`}
+                >
+                  {rule.enabled ? t('rules.enabled') : t('rules.disabled')}
+                </button>
+                <button
+                  onClick={() => deleteRule(rule)}
+                  title={t('rules.delete')}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-12 text-center">
+          <ListFilter className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">{t('rules.empty')}</h3>
+          <p className="text-slate-500 dark:text-slate-400 mt-2">
+            {t('rules.emptyText')}
+          </p>
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <h2 className="font-semibold text-slate-900 dark:text-white mb-2">{t('rules.previewTitle', { title: preview.title })}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            {t('rules.previewSummary', {
+              matched: preview.data.matched,
+              checked: preview.data.reviewsChecked,
+              suppressed: preview.data.suppressed,
+              escalated: preview.data.escalated,
+            })}
+          </p>
+          <div className="space-y-2 text-sm">
+            {preview.data.results.slice(0, 20).map(({ review, decision }) => (
+              <div key={review.id} className="flex items-center justify-between bg-slate-50 dark:bg-slate-700/50 rounded-lg px-3 py-2">
+                <span className="text-slate-700 dark:text-slate-200 truncate">
+                  {formatDate(review.createdAt, t('date.short'))}
+                  {' · '}{review.authorName || review.authorKey} → {review.relation?.name || review.relation?.address.slice(0, 10)}
+                  {' · '}{review.type === 'slash' ? t('attackers.slash') : review.score}
+                </span>
+                <span className="text-slate-500 dark:text-slate-400 ml-4 whitespace-nowrap">
+                  {decision.suppress ? t('rules.suppressed') : decision.escalate ? t('rules.escalated') : decision.channels?.join(', ') || t('rules.alerted')}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Add Rule */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <Plus className="w-5 h-5 text-indigo-600" />
+          <h2 className="font-semibold text-slate-900 dark:text-white">{t('rules.add')}</h2>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder={t('rules.name')}
+            className={`${inputClass} md:col-span-3`}
+          />
+          <input
+            type="number"
+            value={form.priority}
+            onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value }))}
+            placeholder={t('rules.priority')}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Conditions */}
+        <p className="text-sm font-medium text-slate-700 dark:text-slate-300">{t('rules.when')}</p>
+        <div className="flex flex-wrap gap-4 text-sm text-slate-600 dark:text-slate-300">
+          {(['NEGATIVE_REVIEW', 'SLASH'] as const).map((type) => (
+            <label key={type} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.types.includes(type)}
+                onChange={() => setForm((prev) => ({ ...prev, types: toggleIn(prev.types, type) }))}
+                className={checkboxClass}
+              />
+              {t(`rules.type.${type}`)}
+            </label>
+          ))}
+          {(['low', 'medium', 'high'] as const).map((risk) => (
+            <label key={risk} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.attackerRisks.includes(risk)}
+                onChange={() => setForm((prev) => ({ ...prev, attackerRisks: toggleIn(prev.attackerRisks, risk) }))}
+                className={checkboxClass}
+              />
+              {t(`rules.risk.${risk}`)}
+            </label>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={form.keywords}
+            onChange={(e) => setForm((prev) => ({ ...prev, keywords: e.target.value }))}
+            placeholder={t('rules.keywords')}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={form.attackers}
+            onChange={(e) => setForm((prev) => ({ ...prev, attackers: e.target.value }))}
+            placeholder={t('rules.attackers')}
+            className={inputClass}
+          />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <input
+            type="number"
+            value={form.maxScore}
+            onChange={(e) => setForm((prev) => ({ ...prev, maxScore: e.target.value }))}
+            placeholder={t('rules.maxScore')}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            max={24}
+            value={form.hoursFrom}
+            onChange={(e) => setForm((prev) => ({ ...prev, hoursFrom: e.target.value }))}
+            placeholder={t('rules.fromHour')}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            max={24}
+            value={form.hoursTo}
+            onChange={(e) => setForm((prev) => ({ ...prev, hoursTo: e.target.value }))}
+            placeholder={t('rules.toHour')}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={form.timezone}
+            onChange={(e) => setForm((prev) => ({ ...prev, timezone: e.target.value }))}
+            placeholder={t('rules.timezone')}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Actions */}
+        <p className="text-sm font-medium text-slate-700 dark:text-slate-300">{t('rules.then')}</p>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 dark:text-slate-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.suppress}
+              onChange={(e) => setForm((prev) => ({ ...prev, suppress: e.target.checked }))}
+              className={checkboxClass}
+            />
+            {t('rules.suppress')}
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.escalate}
+              onChange={(e) => setForm((prev) => ({ ...prev, escalate: e.target.checked }))}
+              className={checkboxClass}
+            />
+            {t('rules.escalate')}
+          </label>
+          {(['telegram', 'discord', 'slack', 'email', 'matrix', 'ntfy', 'twitter'] as const).map((channel) => (
+            <label key={channel} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.channels.includes(channel)}
+                onChange={() => setForm((prev) => ({ ...prev, channels: toggleIn(prev.channels, channel) }))}
+                className={checkboxClass}
+              />
+              {t('rules.only', { channel })}
+            </label>
+          ))}
+          <select
+            value={form.defense}
+            onChange={(e) => setForm((prev) => ({ ...prev, defense: e.target.value as RuleForm['defense'] }))}
+            className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white"
+          >
+            <option value="">{t('rules.defense.account')}</option>
+            <option value="none">{t('rules.defense.none')}</option>
+            <option value="create">{t('rules.defense.create')}</option>
+            <option value="post">{t('rules.defense.post')}</option>
+          </select>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.stop}
+              onChange={(e) => setForm((prev) => ({ ...prev, stop: e.target.checked }))}
+              className={checkboxClass}
+            />
+            {t('rules.stop')}
+          </label>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => runPreview(form.name.trim() || t('rules.draft'), { rule: toRule(form) })}
+            disabled={isPreviewing}
+            className="flex items-center space-x-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            <Eye className="w-4 h-4" />
+            <span>{t('rules.preview')}</span>
+          </button>
+          <button
+            onClick={createRule}
+            disabled={isSaving || !form.name.trim()}
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{isSaving ? t('rules.saving') : t('rules.create')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,10 @@ import {
   Send,
   MessageCircle,
   Twitter,
+  Slack,
+  Mail,
+  Hash,
+  BellRing,
   Save,
   TestTube,
   CheckCircle,
@@ -19,8 +23,11 @@ import {
   Shield,
   Clock,
   Zap,
+  Moon,
+  Languages,
 } from 'lucide-react';
-import api from '@/lib/api';
+import api, { AlertChannelName, AlertScheduleSettings, EmailSettings, Locale, LocaleSettings, RelationDirection } from '@/lib/api';
+import { useI18n, MessageKey } from '@/lib/i18n';
 import EthosLogin from '@/components/EthosLogin';
 
 interface NotificationSettings {
@@ -33,12 +40,33 @@ interface NotificationSettings {
     enabled: boolean;
     webhookUrl: string;
   };
+  slack: {
+    enabled: boolean;
+    botToken: string;
+    channelId: string;
+    signingSecret: string;
+  };
+  email: EmailSettings;
+  matrix: {
+    enabled: boolean;
+    homeserverUrl: string;
+    accessToken: string;
+    roomId: string;
+  };
+  ntfy: {
+    enabled: boolean;
+    serverUrl: string;
+    topic: string;
+    token: string;
+  };
   twitter: {
     enabled: boolean;
     apiKey: string;
     apiSecret: string;
     accessToken: string;
     accessSecret: string;
+    dmRecipientId: string;
+    publicMode: 'off' | 'reply' | 'quote';
   };
 }
 
@@ -56,6 +84,7 @@ interface TokenStatus {
 }
 
 export default function SettingsPage() {
+  const { t, formatDate } = useI18n();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState<string | null>(null);
@@ -64,7 +93,11 @@ export default function SettingsPage() {
   const [notifications, setNotifications] = useState<NotificationSettings>({
     telegram: { enabled: false, botToken: '', chatId: '' },
     discord: { enabled: false, webhookUrl: '' },
-    twitter: { enabled: false, apiKey: '', apiSecret: '', accessToken: '', accessSecret: '' },
+    slack: { enabled: false, botToken: '', channelId: '', signingSecret: '' },
+    email: { enabled: false, host: '', port: 587, secure: false, user: '', password: '', from: '', to: '', linkSecret: '' },
+    matrix: { enabled: false, homeserverUrl: '', accessToken: '', roomId: '' },
+    ntfy: { enabled: false, serverUrl: 'https://ntfy.sh', topic: '', token: '' },
+    twitter: { enabled: false, apiKey: '', apiSecret: '', accessToken: '', accessSecret: '', dmRecipientId: '', publicMode: 'off' },
   });
 
   const [autoDefense, setAutoDefense] = useState<AutoDefenseSettings>({
@@ -77,6 +110,18 @@ export default function SettingsPage() {
   const [newToken, setNewToken] = useState('');
   const [showSecrets, setShowSecrets] = useState<Record<string, boolean>>({});
   const [monitorInterval, setMonitorInterval] = useState(5);
+  const [monitorScope, setMonitorScope] = useState<RelationDirection[]>(['outgoing']);
+  const [alertSchedule, setAlertSchedule] = useState<AlertScheduleSettings>({
+    quietHours: { telegram: '', discord: '', slack: '', email: '', matrix: '', ntfy: '', twitter: '', timezone: 'UTC' },
+    digest: { frequency: 'off', hour: 9 },
+  });
+  const [i18n, setI18n] = useState<LocaleSettings>({
+    alertLocale: 'fr',
+    channelLocales: {},
+    dashboardLocale: 'en',
+    defenseLocale: 'en',
+    timezone: '',
+  });
 
   useEffect(() => {
     loadSettings();
@@ -93,6 +138,7 @@ export default function SettingsPage() {
       if (configRes.success && configRes.data) {
         setAutoDefense(configRes.data.autoDefense);
         setMonitorInterval(configRes.data.monitorInterval);
+        setMonitorScope(configRes.data.monitorScope);
       }
 
       if (healthRes.success && (healthRes as { data?: { token?: TokenStatus } }).data?.token) {
@@ -101,6 +147,8 @@ export default function SettingsPage() {
 
       if (settingsRes.success && settingsRes.data) {
         setNotifications(settingsRes.data.notifications);
+        setAlertSchedule(settingsRes.data.alertSchedule);
+        setI18n(settingsRes.data.i18n);
       }
     } catch (error) {
       console.error('Failed to load settings:', error);
@@ -116,22 +164,25 @@ export default function SettingsPage() {
         notifications,
         autoDefense,
         monitorInterval,
+        monitorScope,
+        alertSchedule,
+        i18n,
       });
 
       if (result.success) {
-        setTestResult({ channel: 'settings', success: true, message: 'Settings saved successfully!' });
+        setTestResult({ channel: 'settings', success: true, message: t('settings.saved') });
       } else {
-        setTestResult({ channel: 'settings', success: false, message: result.error || 'Failed to save settings' });
+        setTestResult({ channel: 'settings', success: false, message: result.error || t('settings.saveFailed') });
       }
     } catch (error) {
-      setTestResult({ channel: 'settings', success: false, message: 'Failed to save settings' });
+      setTestResult({ channel: 'settings', success: false, message: t('settings.saveFailed') });
     } finally {
       setSaving(false);
       setTimeout(() => setTestResult(null), 5000);
     }
   };
 
-  const testNotification = async (channel: 'telegram' | 'discord' | 'twitter') => {
+  const testNotification = async (channel: AlertChannelName) => {
     setTesting(channel);
     setTestResult(null);
     try {
@@ -139,10 +190,10 @@ export default function SettingsPage() {
       setTestResult({
         channel,
         success: result.success,
-        message: result.success ? `${channel} notification sent!` : result.error || 'Test failed',
+        message: result.success ? t('settings.testSent', { channel }) : result.error || t('settings.testFailed'),
       });
     } catch (error) {
-      setTestResult({ channel, success: false, message: 'Test failed' });
+      setTestResult({ channel, success: false, message: t('settings.testFailed') });
     } finally {
       setTesting(null);
     }
@@ -155,19 +206,26 @@ export default function SettingsPage() {
     try {
       const result = await api.updateToken(newToken);
       if (result.success) {
-        setTestResult({ channel: 'token', success: true, message: 'Token updated successfully!' });
+        setTestResult({ channel: 'token', success: true, message: t('settings.tokenUpdated') });
         setNewToken('');
         loadSettings();
       } else {
-        setTestResult({ channel: 'token', success: false, message: result.error || 'Failed to update token' });
+        setTestResult({ channel: 'token', success: false, message: result.error || t('settings.tokenFailed') });
       }
     } catch (error) {
-      setTestResult({ channel: 'token', success: false, message: 'Failed to update token' });
+      setTestResult({ channel: 'token', success: false, message: t('settings.tokenFailed') });
     } finally {
       setSaving(false);
     }
   };
 
+  const toggleScope = (direction: RelationDirection) => {
+    setMonitorScope(prev => prev.includes(direction)
+      ? prev.filter(d => d !== direction)
+      : [...prev, direction]
+    );
+  };
+
   const toggleSecret = (key: string) => {
     setShowSecrets(prev => ({ ...prev, [key]: !prev[key] }));
   };
@@ -187,10 +245,10 @@ export default function SettingsPage() {
         <div>
           <h1 className="text-3xl font-bold text-slate-900 dark:text-white flex items-center gap-3">
             <Settings className="w-8 h-8 text-indigo-600" />
-            Settings
+            {t('nav.settings')}
           </h1>
           <p className="text-slate-600 dark:text-slate-400 mt-1">
-            Configure notifications and auto-defense settings
+            {t('settings.subtitle')}
           </p>
         </div>
         <button
@@ -199,7 +257,7 @@ export default function SettingsPage() {
           className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium transition-colors disabled:opacity-50"
         >
           {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
-          Save All Settings
+          {t('settings.saveAll')}
         </button>
       </div>
 
@@ -218,10 +276,10 @@ export default function SettingsPage() {
         onTokenUpdate={async (token) => {
           const result = await api.updateToken(token);
           if (result.success) {
-            setTestResult({ channel: 'token', success: true, message: 'Connected to Ethos!' });
+            setTestResult({ channel: 'token', success: true, message: t('settings.connected') });
             loadSettings();
           } else {
-            throw new Error(result.error || 'Failed to connect');
+            throw new Error(result.error || t('settings.connectFailed'));
           }
         }}
         currentTokenValid={tokenStatus?.valid || false}
@@ -236,8 +294,8 @@ export default function SettingsPage() {
                 <Shield className={`w-6 h-6 ${tokenStatus?.valid ? 'text-green-600' : 'text-red-600'}`} />
               </div>
               <div>
-                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Ethos API Token</h2>
-                <p className="text-sm text-slate-600 dark:text-slate-400">Required for posting defense reviews</p>
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">{t('settings.token.title')}</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.token.subtitle')}</p>
               </div>
             </div>
             <div className={`px-3 py-1.5 rounded-full text-sm font-medium ${
@@ -247,7 +305,7 @@ export default function SettingsPage() {
                   : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
                 : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
             }`}>
-              {tokenStatus?.valid ? (tokenStatus.isExpiringSoon ? 'Expiring Soon' : 'Valid') : 'Expired'}
+              {tokenStatus?.valid ? (tokenStatus.isExpiringSoon ? t('settings.token.expiringSoon') : t('settings.token.valid')) : t('settings.token.expired')}
             </div>
           </div>
         </div>
@@ -255,7 +313,7 @@ export default function SettingsPage() {
           {tokenStatus?.expiresAt && (
             <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
               <Clock className="w-4 h-4" />
-              <span>Expires: {new Date(tokenStatus.expiresAt).toLocaleString()}</span>
+              <span>{t('settings.token.expires', { date: formatDate(tokenStatus.expiresAt) })}</span>
             </div>
           )}
           <div className="flex gap-3">
@@ -263,7 +321,7 @@ export default function SettingsPage() {
               type="password"
               value={newToken}
               onChange={(e) => setNewToken(e.target.value)}
-              placeholder="Paste new Privy token here..."
+              placeholder={t('settings.token.placeholder')}
               className="flex-1 px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             />
             <button
@@ -271,17 +329,17 @@ export default function SettingsPage() {
               disabled={!newToken.trim() || saving}
               className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium transition-colors disabled:opacity-50"
             >
-              Update Token
+              {t('settings.token.update')}
             </button>
           </div>
           <div className="flex items-start gap-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
             <Info className="w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
             <div className="text-sm text-blue-700 dark:text-blue-300">
-              <p className="font-medium">How to get your Privy token:</p>
+              <p className="font-medium">{t('settings.token.howTo')}</p>
               <ol className="list-decimal list-inside mt-1 space-y-1">
-                <li>Go to <a href="https://app.ethos.network" target="_blank" rel="noopener noreferrer" className="underline hover:no-underline">app.ethos.network</a> and log in</li>
-                <li>Open DevTools (F12) → Application → Cookies</li>
-                <li>Copy the <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">privy-token</code> value</li>
+                <li>{t('settings.token.step1')} <a href="https://app.ethos.network" target="_blank" rel="noopener noreferrer" className="underline hover:no-underline">app.ethos.network</a></li>
+                <li>{t('settings.token.step2')}</li>
+                <li>{t('settings.token.step3')} <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">privy-token</code></li>
               </ol>
             </div>
           </div>
@@ -298,7 +356,7 @@ export default function SettingsPage() {
               </div>
               <div>
                 <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Telegram</h2>
-                <p className="text-sm text-slate-600 dark:text-slate-400">Get instant alerts via Telegram bot</p>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.telegram.subtitle')}</p>
               </div>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
@@ -317,7 +375,7 @@ export default function SettingsPage() {
         </div>
         <div className={`p-6 space-y-4 transition-opacity ${notifications.telegram.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Bot Token</label>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.botToken')}</label>
             <div className="relative">
               <input
                 type={showSecrets['telegramToken'] ? 'text' : 'password'}
@@ -339,7 +397,7 @@ export default function SettingsPage() {
             </div>
           </div>
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Chat ID</label>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.telegram.chatId')}</label>
             <input
               type="text"
               value={notifications.telegram.chatId}
@@ -347,7 +405,7 @@ export default function SettingsPage() {
                 ...prev,
                 telegram: { ...prev.telegram, chatId: e.target.value }
               }))}
-              placeholder="Your chat ID (e.g., 123456789)"
+              placeholder={t('settings.telegram.chatIdPlaceholder')}
               className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             />
           </div>
@@ -359,7 +417,7 @@ export default function SettingsPage() {
               className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700 dark:text-indigo-400"
             >
               <ExternalLink className="w-4 h-4" />
-              Create bot with @BotFather
+              {t('settings.telegram.botFather')}
             </a>
             <button
               onClick={() => testNotification('telegram')}
@@ -367,7 +425,7 @@ export default function SettingsPage() {
               className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
             >
               {testing === 'telegram' ? <Loader2 className="w-4 h-4 animate-spin" /> : <TestTube className="w-4 h-4" />}
-              Test
+              {t('settings.test')}
             </button>
           </div>
         </div>
@@ -383,7 +441,7 @@ export default function SettingsPage() {
               </div>
               <div>
                 <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Discord</h2>
-                <p className="text-sm text-slate-600 dark:text-slate-400">Receive alerts in your Discord channel</p>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.discord.subtitle')}</p>
               </div>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
@@ -402,7 +460,7 @@ export default function SettingsPage() {
         </div>
         <div className={`p-6 space-y-4 transition-opacity ${notifications.discord.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Webhook URL</label>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.discord.webhookUrl')}</label>
             <div className="relative">
               <input
                 type={showSecrets['discordWebhook'] ? 'text' : 'password'}
@@ -426,7 +484,7 @@ export default function SettingsPage() {
           <div className="flex items-center justify-between pt-2">
             <div className="flex items-start gap-2 text-sm text-slate-600 dark:text-slate-400">
               <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
-              <span>Server Settings → Integrations → Webhooks → New Webhook</span>
+              <span>{t('settings.discord.hint')}</span>
             </div>
             <button
               onClick={() => testNotification('discord')}
@@ -434,7 +492,465 @@ export default function SettingsPage() {
               className="flex items-center gap-2 px-4 py-2 bg-violet-500 hover:bg-violet-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
             >
               {testing === 'discord' ? <Loader2 className="w-4 h-4 animate-spin" /> : <TestTube className="w-4 h-4" />}
-              Test
+              {t('settings.test')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Slack Configuration */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-xl">
+                <Slack className="w-6 h-6 text-emerald-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Slack</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.slack.subtitle')}</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={notifications.slack.enabled}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  slack: { ...prev.slack, enabled: e.target.checked }
+                }))}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 dark:peer-focus:ring-indigo-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-indigo-600"></div>
+            </label>
+          </div>
+        </div>
+        <div className={`p-6 space-y-4 transition-opacity ${notifications.slack.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.botToken')}</label>
+            <div className="relative">
+              <input
+                type={showSecrets['slackToken'] ? 'text' : 'password'}
+                value={notifications.slack.botToken}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  slack: { ...prev.slack, botToken: e.target.value }
+                }))}
+                placeholder="xoxb-..."
+                className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => toggleSecret('slackToken')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showSecrets['slackToken'] ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.slack.channelId')}</label>
+            <input
+              type="text"
+              value={notifications.slack.channelId}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                slack: { ...prev.slack, channelId: e.target.value }
+              }))}
+              placeholder="C0123456789"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.slack.signingSecret')}</label>
+            <div className="relative">
+              <input
+                type={showSecrets['slackSigningSecret'] ? 'text' : 'password'}
+                value={notifications.slack.signingSecret}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  slack: { ...prev.slack, signingSecret: e.target.value }
+                }))}
+                placeholder="Basic Information → App Credentials"
+                className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => toggleSecret('slackSigningSecret')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showSecrets['slackSigningSecret'] ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between pt-2">
+            <div className="flex items-start gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{t('settings.slack.hint')}</span>
+            </div>
+            <button
+              onClick={() => testNotification('slack')}
+              disabled={testing === 'slack' || !notifications.slack.botToken || !notifications.slack.channelId}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {testing === 'slack' ? <Loader2 className="w-4 h-4 animate-spin" /> : <TestTube className="w-4 h-4" />}
+              {t('settings.test')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Email Configuration */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-xl">
+                <Mail className="w-6 h-6 text-amber-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Email</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.email.subtitle')}</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={notifications.email.enabled}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  email: { ...prev.email, enabled: e.target.checked }
+                }))}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 dark:peer-focus:ring-indigo-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-indigo-600"></div>
+            </label>
+          </div>
+        </div>
+        <div className={`p-6 space-y-4 transition-opacity ${notifications.email.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.email.host')}</label>
+            <input
+              type="text"
+              value={notifications.email.host}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                email: { ...prev.email, host: e.target.value }
+              }))}
+              placeholder="smtp.example.com"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.email.port')}</label>
+            <input
+              type="number"
+              value={notifications.email.port}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                email: { ...prev.email, port: Number(e.target.value) }
+              }))}
+              placeholder="587"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={notifications.email.secure}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                email: { ...prev.email, secure: e.target.checked }
+              }))}
+              className="rounded border-slate-300"
+            />
+            {t('settings.email.secure')}
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.email.user')}</label>
+            <input
+              type="text"
+              value={notifications.email.user}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                email: { ...prev.email, user: e.target.value }
+              }))}
+              placeholder={t('settings.optional')}
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.email.password')}</label>
+            <div className="relative">
+              <input
+                type={showSecrets['smtpPassword'] ? 'text' : 'password'}
+                value={notifications.email.password}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  email: { ...prev.email, password: e.target.value }
+                }))}
+                placeholder={t('settings.optional')}
+                className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => toggleSecret('smtpPassword')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showSecrets['smtpPassword'] ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.email.from')}</label>
+            <input
+              type="text"
+              value={notifications.email.from}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                email: { ...prev.email, from: e.target.value }
+              }))}
+              placeholder="Ethos Monitor <alerts@example.com>"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.email.to')}</label>
+            <input
+              type="text"
+              value={notifications.email.to}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                email: { ...prev.email, to: e.target.value }
+              }))}
+              placeholder="me@example.com, team@example.com"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.email.linkSecret')}</label>
+            <div className="relative">
+              <input
+                type={showSecrets['emailLinkSecret'] ? 'text' : 'password'}
+                value={notifications.email.linkSecret}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  email: { ...prev.email, linkSecret: e.target.value }
+                }))}
+                placeholder={t('settings.email.linkSecretPlaceholder')}
+                className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => toggleSecret('emailLinkSecret')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showSecrets['emailLinkSecret'] ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between pt-2">
+            <div className="flex items-start gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{t('settings.email.hint')}</span>
+            </div>
+            <button
+              onClick={() => testNotification('email')}
+              disabled={testing === 'email' || !notifications.email.host || !notifications.email.to}
+              className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {testing === 'email' ? <Loader2 className="w-4 h-4 animate-spin" /> : <TestTube className="w-4 h-4" />}
+              {t('settings.test')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Matrix Configuration */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-teal-100 dark:bg-teal-900/30 rounded-xl">
+                <Hash className="w-6 h-6 text-teal-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Matrix</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.matrix.subtitle')}</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={notifications.matrix.enabled}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  matrix: { ...prev.matrix, enabled: e.target.checked }
+                }))}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 dark:peer-focus:ring-indigo-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-indigo-600"></div>
+            </label>
+          </div>
+        </div>
+        <div className={`p-6 space-y-4 transition-opacity ${notifications.matrix.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.matrix.homeserverUrl')}</label>
+            <input
+              type="text"
+              value={notifications.matrix.homeserverUrl}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                matrix: { ...prev.matrix, homeserverUrl: e.target.value }
+              }))}
+              placeholder="https://matrix.org"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.accessToken')}</label>
+            <div className="relative">
+              <input
+                type={showSecrets['matrixToken'] ? 'text' : 'password'}
+                value={notifications.matrix.accessToken}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  matrix: { ...prev.matrix, accessToken: e.target.value }
+                }))}
+                placeholder={t('settings.matrix.accessTokenPlaceholder')}
+                className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => toggleSecret('matrixToken')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showSecrets['matrixToken'] ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.matrix.roomId')}</label>
+            <input
+              type="text"
+              value={notifications.matrix.roomId}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                matrix: { ...prev.matrix, roomId: e.target.value }
+              }))}
+              placeholder="!abcdef:matrix.org"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="flex items-center justify-between pt-2">
+            <div className="flex items-start gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{t('settings.matrix.hint')}</span>
+            </div>
+            <button
+              onClick={() => testNotification('matrix')}
+              disabled={testing === 'matrix' || !notifications.matrix.homeserverUrl || !notifications.matrix.accessToken || !notifications.matrix.roomId}
+              className="flex items-center gap-2 px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {testing === 'matrix' ? <Loader2 className="w-4 h-4 animate-spin" /> : <TestTube className="w-4 h-4" />}
+              {t('settings.test')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* ntfy Configuration */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-rose-100 dark:bg-rose-900/30 rounded-xl">
+                <BellRing className="w-6 h-6 text-rose-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">ntfy</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.ntfy.subtitle')}</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={notifications.ntfy.enabled}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  ntfy: { ...prev.ntfy, enabled: e.target.checked }
+                }))}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 dark:peer-focus:ring-indigo-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-indigo-600"></div>
+            </label>
+          </div>
+        </div>
+        <div className={`p-6 space-y-4 transition-opacity ${notifications.ntfy.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.ntfy.serverUrl')}</label>
+            <input
+              type="text"
+              value={notifications.ntfy.serverUrl}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                ntfy: { ...prev.ntfy, serverUrl: e.target.value }
+              }))}
+              placeholder="https://ntfy.sh"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.ntfy.topic')}</label>
+            <input
+              type="text"
+              value={notifications.ntfy.topic}
+              onChange={(e) => setNotifications(prev => ({
+                ...prev,
+                ntfy: { ...prev.ntfy, topic: e.target.value }
+              }))}
+              placeholder="ethos-alerts-a1b2c3"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.ntfy.token')}</label>
+            <div className="relative">
+              <input
+                type={showSecrets['ntfyToken'] ? 'text' : 'password'}
+                value={notifications.ntfy.token}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  ntfy: { ...prev.ntfy, token: e.target.value }
+                }))}
+                placeholder={t('settings.optional')}
+                className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => toggleSecret('ntfyToken')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showSecrets['ntfyToken'] ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between pt-2">
+            <div className="flex items-start gap-2 text-sm text-slate-600 dark:text-slate-400">
+              <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{t('settings.ntfy.hint')}</span>
+            </div>
+            <button
+              onClick={() => testNotification('ntfy')}
+              disabled={testing === 'ntfy' || !notifications.ntfy.topic}
+              className="flex items-center gap-2 px-4 py-2 bg-rose-500 hover:bg-rose-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {testing === 'ntfy' ? <Loader2 className="w-4 h-4 animate-spin" /> : <TestTube className="w-4 h-4" />}
+              {t('settings.test')}
             </button>
           </div>
         </div>
@@ -450,7 +966,7 @@ export default function SettingsPage() {
               </div>
               <div>
                 <h2 className="text-xl font-semibold text-slate-900 dark:text-white">X (Twitter)</h2>
-                <p className="text-sm text-slate-600 dark:text-slate-400">Get notified via X/Twitter DM</p>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.twitter.subtitle')}</p>
               </div>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
@@ -470,7 +986,7 @@ export default function SettingsPage() {
         <div className={`p-6 space-y-4 transition-opacity ${notifications.twitter.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">API Key</label>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.twitter.apiKey')}</label>
               <div className="relative">
                 <input
                   type={showSecrets['twitterApiKey'] ? 'text' : 'password'}
@@ -479,7 +995,7 @@ export default function SettingsPage() {
                     ...prev,
                     twitter: { ...prev.twitter, apiKey: e.target.value }
                   }))}
-                  placeholder="Your API Key"
+                  placeholder={t('settings.twitter.apiKeyPlaceholder')}
                   className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 />
                 <button
@@ -492,7 +1008,7 @@ export default function SettingsPage() {
               </div>
             </div>
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">API Secret</label>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.twitter.apiSecret')}</label>
               <div className="relative">
                 <input
                   type={showSecrets['twitterApiSecret'] ? 'text' : 'password'}
@@ -501,7 +1017,7 @@ export default function SettingsPage() {
                     ...prev,
                     twitter: { ...prev.twitter, apiSecret: e.target.value }
                   }))}
-                  placeholder="Your API Secret"
+                  placeholder={t('settings.twitter.apiSecretPlaceholder')}
                   className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 />
                 <button
@@ -514,7 +1030,7 @@ export default function SettingsPage() {
               </div>
             </div>
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Access Token</label>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.accessToken')}</label>
               <div className="relative">
                 <input
                   type={showSecrets['twitterAccessToken'] ? 'text' : 'password'}
@@ -523,7 +1039,7 @@ export default function SettingsPage() {
                     ...prev,
                     twitter: { ...prev.twitter, accessToken: e.target.value }
                   }))}
-                  placeholder="Your Access Token"
+                  placeholder={t('settings.twitter.accessTokenPlaceholder')}
                   className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 />
                 <button
@@ -536,7 +1052,7 @@ export default function SettingsPage() {
               </div>
             </div>
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Access Secret</label>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.twitter.accessSecret')}</label>
               <div className="relative">
                 <input
                   type={showSecrets['twitterAccessSecret'] ? 'text' : 'password'}
@@ -545,7 +1061,7 @@ export default function SettingsPage() {
                     ...prev,
                     twitter: { ...prev.twitter, accessSecret: e.target.value }
                   }))}
-                  placeholder="Your Access Secret"
+                  placeholder={t('settings.twitter.accessSecretPlaceholder')}
                   className="w-full px-4 py-3 pr-12 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 />
                 <button
@@ -558,6 +1074,37 @@ export default function SettingsPage() {
               </div>
             </div>
           </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.twitter.dmRecipient')}</label>
+              <input
+                type="text"
+                value={notifications.twitter.dmRecipientId}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  twitter: { ...prev.twitter, dmRecipientId: e.target.value }
+                }))}
+                placeholder="1234567890"
+                className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.twitter.publicMode')}</label>
+              <select
+                value={notifications.twitter.publicMode}
+                onChange={(e) => setNotifications(prev => ({
+                  ...prev,
+                  twitter: { ...prev.twitter, publicMode: e.target.value as NotificationSettings['twitter']['publicMode'] }
+                }))}
+                className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="off">{t('settings.off')}</option>
+                <option value="reply">{t('settings.twitter.reply')}</option>
+                <option value="quote">{t('settings.twitter.quote')}</option>
+              </select>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{t('settings.twitter.publicHint')}</p>
+            </div>
+          </div>
           <div className="flex items-center justify-between pt-2">
             <a
               href="https://developer.twitter.com/en/portal/dashboard"
@@ -566,7 +1113,7 @@ export default function SettingsPage() {
               className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700 dark:text-indigo-400"
             >
               <ExternalLink className="w-4 h-4" />
-              X Developer Portal
+              {t('settings.twitter.portal')}
             </a>
             <button
               onClick={() => testNotification('twitter')}
@@ -574,12 +1121,176 @@ export default function SettingsPage() {
               className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
             >
               {testing === 'twitter' ? <Loader2 className="w-4 h-4 animate-spin" /> : <TestTube className="w-4 h-4" />}
-              Test
+              {t('settings.test')}
             </button>
           </div>
         </div>
       </div>
 
+      {/* Quiet Hours & Digest */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-100 dark:bg-indigo-900/30 rounded-xl">
+              <Moon className="w-6 h-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-slate-900 dark:text-white">{t('settings.schedule.title')}</h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {t('settings.schedule.subtitle')}
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([
+              { key: 'telegram', label: 'settings.schedule.quietHours.telegram', placeholder: '22:00-07:00' },
+              { key: 'discord', label: 'settings.schedule.quietHours.discord', placeholder: '22:00-07:00' },
+              { key: 'slack', label: 'settings.schedule.quietHours.slack', placeholder: '22:00-07:00' },
+              { key: 'email', label: 'settings.schedule.quietHours.email', placeholder: '22:00-07:00' },
+              { key: 'matrix', label: 'settings.schedule.quietHours.matrix', placeholder: '22:00-07:00' },
+              { key: 'ntfy', label: 'settings.schedule.quietHours.ntfy', placeholder: '22:00-07:00' },
+              { key: 'twitter', label: 'settings.schedule.quietHours.twitter', placeholder: '22:00-07:00' },
+              { key: 'timezone', label: 'settings.schedule.timezone', placeholder: 'Europe/Paris' },
+            ] as { key: keyof AlertScheduleSettings['quietHours']; label: MessageKey; placeholder: string }[]).map((field) => (
+              <div key={field.key} className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t(field.label)}</label>
+                <input
+                  type="text"
+                  value={alertSchedule.quietHours[field.key]}
+                  onChange={(e) => setAlertSchedule(prev => ({
+                    ...prev,
+                    quietHours: { ...prev.quietHours, [field.key]: e.target.value },
+                  }))}
+                  placeholder={field.placeholder}
+                  className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {t('settings.schedule.hint')}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.schedule.digest')}</label>
+              <select
+                value={alertSchedule.digest.frequency}
+                onChange={(e) => setAlertSchedule(prev => ({
+                  ...prev,
+                  digest: { ...prev.digest, frequency: e.target.value as AlertScheduleSettings['digest']['frequency'] },
+                }))}
+                className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="off">{t('settings.off')}</option>
+                <option value="daily">{t('settings.schedule.daily')}</option>
+                <option value="weekly">{t('settings.schedule.weekly')}</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.schedule.hour')}</label>
+              <input
+                type="number"
+                min={0}
+                max={23}
+                value={alertSchedule.digest.hour}
+                onChange={(e) => setAlertSchedule(prev => ({
+                  ...prev,
+                  digest: { ...prev.digest, hour: parseInt(e.target.value) || 0 },
+                }))}
+                className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <button
+              onClick={() => api.sendDigest(alertSchedule.digest.frequency === 'weekly' ? 'weekly' : 'daily')}
+              className="flex items-center justify-center gap-2 px-4 py-3 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            >
+              <Send className="w-4 h-4" />
+              {t('settings.schedule.sendNow')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Languages */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-sky-100 dark:bg-sky-900/30 rounded-xl">
+              <Languages className="w-6 h-6 text-sky-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-slate-900 dark:text-white">{t('settings.languages.title')}</h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {t('settings.languages.subtitle')}
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {([
+              { key: 'alertLocale', label: 'settings.languages.alerts' },
+              { key: 'dashboardLocale', label: 'settings.languages.dashboard' },
+              { key: 'defenseLocale', label: 'settings.languages.defense' },
+            ] as { key: 'alertLocale' | 'dashboardLocale' | 'defenseLocale'; label: MessageKey }[]).map((field) => (
+              <div key={field.key} className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t(field.label)}</label>
+                <select
+                  value={i18n[field.key]}
+                  onChange={(e) => setI18n(prev => ({ ...prev, [field.key]: e.target.value as Locale }))}
+                  className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="fr">Français</option>
+                  <option value="en">English</option>
+                </select>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.languages.timezone')}</label>
+              <input
+                type="text"
+                value={i18n.timezone}
+                onChange={(e) => setI18n(prev => ({ ...prev, timezone: e.target.value }))}
+                placeholder="Europe/Paris"
+                className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.languages.perChannel')}</label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(['telegram', 'discord', 'slack', 'email', 'matrix', 'ntfy', 'twitter'] as const).map((channel) => (
+                <div key={channel} className="space-y-1">
+                  <span className="block text-xs text-slate-500 dark:text-slate-400 capitalize">{channel}</span>
+                  <select
+                    value={i18n.channelLocales[channel] || ''}
+                    onChange={(e) => setI18n(prev => {
+                      const channelLocales = { ...prev.channelLocales };
+                      if (e.target.value) {
+                        channelLocales[channel] = e.target.value as Locale;
+                      } else {
+                        delete channelLocales[channel];
+                      }
+                      return { ...prev, channelLocales };
+                    })}
+                    className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">{t('settings.languages.sameAsAlerts')}</option>
+                    <option value="fr">Français</option>
+                    <option value="en">English</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {t('settings.languages.hint')}
+          </p>
+        </div>
+      </div>
+
       {/* Auto-Defense Settings */}
       <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
         <div className="p-6 border-b border-slate-200 dark:border-slate-700">
@@ -588,16 +1299,16 @@ export default function SettingsPage() {
               <Zap className="w-6 h-6 text-amber-600" />
             </div>
             <div>
-              <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Auto-Defense</h2>
-              <p className="text-sm text-slate-600 dark:text-slate-400">Automatic response to negative reviews</p>
+              <h2 className="text-xl font-semibold text-slate-900 dark:text-white">{t('settings.autoDefense.title')}</h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.autoDefense.subtitle')}</p>
             </div>
           </div>
         </div>
         <div className="p-6 space-y-6">
           <div className="flex items-center justify-between">
             <div>
-              <h3 className="font-medium text-slate-900 dark:text-white">Enable Auto-Defense</h3>
-              <p className="text-sm text-slate-600 dark:text-slate-400">Automatically prepare defense responses</p>
+              <h3 className="font-medium text-slate-900 dark:text-white">{t('settings.autoDefense.enable')}</h3>
+              <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.autoDefense.enableText')}</p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
               <input
@@ -611,8 +1322,8 @@ export default function SettingsPage() {
           </div>
           <div className="flex items-center justify-between">
             <div>
-              <h3 className="font-medium text-slate-900 dark:text-white">Require Confirmation</h3>
-              <p className="text-sm text-slate-600 dark:text-slate-400">Ask for confirmation before posting defense</p>
+              <h3 className="font-medium text-slate-900 dark:text-white">{t('settings.autoDefense.requireConfirm')}</h3>
+              <p className="text-sm text-slate-600 dark:text-slate-400">{t('settings.autoDefense.requireConfirmText')}</p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
               <input
@@ -625,7 +1336,7 @@ export default function SettingsPage() {
             </label>
           </div>
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Default Defense Score</label>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.autoDefense.defaultScore')}</label>
             <div className="flex items-center gap-4">
               <input
                 type="range"
@@ -639,7 +1350,7 @@ export default function SettingsPage() {
             </div>
           </div>
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Monitor Interval (minutes)</label>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.autoDefense.interval')}</label>
             <div className="flex items-center gap-4">
               <input
                 type="range"
@@ -652,6 +1363,37 @@ export default function SettingsPage() {
               <span className="w-12 text-center font-bold text-indigo-600 text-lg">{monitorInterval}m</span>
             </div>
           </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{t('settings.autoDefense.scope')}</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {([
+                { value: 'outgoing', label: 'settings.scope.outgoing', description: 'settings.scope.outgoingText' },
+                { value: 'incoming', label: 'settings.scope.incoming', description: 'settings.scope.incomingText' },
+                { value: 'self', label: 'settings.scope.self', description: 'settings.scope.selfText' },
+              ] as { value: RelationDirection; label: MessageKey; description: MessageKey }[]).map((option) => (
+                <label
+                  key={option.value}
+                  className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                    monitorScope.includes(option.value)
+                      ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+                      : 'border-slate-200 dark:border-slate-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={monitorScope.includes(option.value)}
+                    onChange={() => toggleScope(option.value)}
+                    disabled={monitorScope.length === 1 && monitorScope.includes(option.value)}
+                    className="mt-1 accent-indigo-600"
+                  />
+                  <div>
+                    <p className="font-medium text-slate-900 dark:text-white">{t(option.label)}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t(option.description)}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
         </div>
       </div>
     </div>
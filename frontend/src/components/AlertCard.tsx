@@ -1,18 +1,21 @@
 'use client';
 
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
 import {
   AlertTriangle,
   Zap,
+  UserMinus,
+  TrendingDown,
   User,
   ExternalLink,
   Check,
   X,
-  Clock
+  Clock,
+  BellRing
 } from 'lucide-react';
 import Link from 'next/link';
 import type { Alert } from '@/lib/api';
+import RiskBadge from '@/components/RiskBadge';
+import { useI18n, MessageKey } from '@/lib/i18n';
 
 interface AlertCardProps {
   alert: Alert;
@@ -21,7 +24,10 @@ interface AlertCardProps {
 }
 
 export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps) {
+  const { t, formatDate } = useI18n();
   const isSlash = alert.type === 'SLASH';
+  const isUnvouch = alert.type === 'UNVOUCH';
+  const isScoreDrop = alert.type === 'SCORE_DROP';
   const isPending = alert.status === 'PENDING';
 
   const statusColors = {
@@ -31,10 +37,17 @@ export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps
     EXPIRED: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
   };
 
+  const escalationLabels: Record<number, MessageKey> = {
+    1: 'alert.escalation.1',
+    2: 'alert.escalation.2',
+    3: 'alert.escalation.3',
+  };
+  const escalationLabel = escalationLabels[alert.escalationLevel];
+
   return (
     <div className={`
       bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 card-hover
-      border-l-4 ${isSlash ? 'border-red-500' : 'border-orange-500'}
+      border-l-4 ${isSlash ? 'border-red-500' : isUnvouch ? 'border-purple-500' : isScoreDrop ? 'border-yellow-500' : 'border-orange-500'}
     `}>
       {/* Header */}
       <div className="flex items-start justify-between mb-4">
@@ -43,26 +56,45 @@ export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps
             p-2 rounded-full
             ${isSlash
               ? 'bg-red-100 dark:bg-red-900/30'
+              : isUnvouch
+              ? 'bg-purple-100 dark:bg-purple-900/30'
+              : isScoreDrop
+              ? 'bg-yellow-100 dark:bg-yellow-900/30'
               : 'bg-orange-100 dark:bg-orange-900/30'
             }
           `}>
             {isSlash
               ? <Zap className="w-5 h-5 text-red-600 dark:text-red-400" />
+              : isUnvouch
+              ? <UserMinus className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+              : isScoreDrop
+              ? <TrendingDown className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />
               : <AlertTriangle className="w-5 h-5 text-orange-600 dark:text-orange-400" />
             }
           </div>
           <div>
             <h3 className="font-semibold text-slate-900 dark:text-white">
-              {isSlash ? 'Slash Detected' : 'Negative Review'}
+              {t(`alert.type.${alert.type}`)}
             </h3>
             <p className="text-sm text-slate-500 dark:text-slate-400">
-              {format(new Date(alert.sentAt), 'PPp', { locale: fr })}
+              {formatDate(alert.sentAt)}
             </p>
           </div>
         </div>
-        <span className={`px-3 py-1 rounded-full text-xs font-medium ${statusColors[alert.status]}`}>
-          {alert.status}
-        </span>
+        <div className="flex items-center space-x-2">
+          {escalationLabel && (
+            <span
+              className="flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300"
+              title={alert.escalatedAt ? formatDate(alert.escalatedAt) : undefined}
+            >
+              <BellRing className="w-3 h-3" />
+              <span>{t(escalationLabel)}</span>
+            </span>
+          )}
+          <span className={`px-3 py-1 rounded-full text-xs font-medium ${statusColors[alert.status]}`}>
+            {t(`status.${alert.status}`)}
+          </span>
+        </div>
       </div>
 
       {/* Content */}
@@ -74,7 +106,7 @@ export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps
             </div>
             <div>
               <p className="font-medium text-slate-900 dark:text-white">
-                {alert.relation.name || 'Unknown'}
+                {alert.relation.name || t('alert.unknown')}
               </p>
               <p className="text-sm text-slate-500 dark:text-slate-400 font-mono">
                 {alert.relation.address.slice(0, 6)}...{alert.relation.address.slice(-4)}
@@ -84,8 +116,15 @@ export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps
         </div>
       )}
 
+      {/* Score Drop Info */}
+      {isScoreDrop && alert.review?.comment && (
+        <p className="mb-4 text-slate-600 dark:text-slate-300 font-medium">
+          {alert.review.comment}
+        </p>
+      )}
+
       {/* Review Info */}
-      {alert.review && (
+      {alert.review && !isScoreDrop && (
         <div className="mb-4">
           <div className="flex items-center space-x-2 mb-2">
             <span className={`
@@ -98,8 +137,9 @@ export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps
               {alert.review.score > 0 ? '+' : ''}{alert.review.score}
             </span>
             <span className="text-sm text-slate-500 dark:text-slate-400">
-              by {alert.review.authorName || 'Anonymous'}
+              {t('alert.by', { name: alert.review.authorName || t('alert.anonymous') })}
             </span>
+            <RiskBadge risk={alert.review.attackerRisk} signals={alert.review.attackerSignals} />
           </div>
           {alert.review.comment && (
             <p className="text-slate-600 dark:text-slate-300 italic">
@@ -114,26 +154,28 @@ export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps
       <div className="flex items-center justify-between pt-4 border-t border-slate-200 dark:border-slate-700">
         {isPending ? (
           <div className="flex space-x-2">
-            <button
-              onClick={() => onConfirm?.(alert.id)}
-              className="flex items-center space-x-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
-            >
-              <Check className="w-4 h-4" />
-              <span>Defend</span>
-            </button>
+            {!isUnvouch && !isScoreDrop && (
+              <button
+                onClick={() => onConfirm?.(alert.id)}
+                className="flex items-center space-x-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+              >
+                <Check className="w-4 h-4" />
+                <span>{t('alert.defend')}</span>
+              </button>
+            )}
             <button
               onClick={() => onIgnore?.(alert.id)}
               className="flex items-center space-x-1 px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 rounded-lg transition-colors"
             >
               <X className="w-4 h-4" />
-              <span>Ignore</span>
+              <span>{t('alert.ignore')}</span>
             </button>
           </div>
         ) : (
           <div className="flex items-center space-x-2 text-slate-500 dark:text-slate-400">
             <Clock className="w-4 h-4" />
             <span className="text-sm">
-              Responded {alert.respondedAt && format(new Date(alert.respondedAt), 'PPp', { locale: fr })}
+              {t('alert.responded', { date: alert.respondedAt ? formatDate(alert.respondedAt) : '' })}
             </span>
           </div>
         )}
@@ -142,7 +184,7 @@ export default function AlertCard({ alert, onConfirm, onIgnore }: AlertCardProps
           href={`/defend/${alert.reviewId}`}
           className="flex items-center space-x-1 text-indigo-600 dark:text-indigo-400 hover:underline"
         >
-          <span>Details</span>
+          <span>{t('alert.details')}</span>
           <ExternalLink className="w-4 h-4" />
         </Link>
       </div>
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { Shield, Send, RefreshCw } from 'lucide-react';
 import api from '@/lib/api';
+import { useI18n } from '@/lib/i18n';
 
 interface DefendFormProps {
   targetUserkey: string;
@@ -23,6 +24,7 @@ export default function DefendForm({
   initialComment = '',
   onSuccess,
 }: DefendFormProps) {
+  const { t } = useI18n();
   const [score, setScore] = useState(initialScore);
   const [comment, setComment] = useState(initialComment);
   const [isLoading, setIsLoading] = useState(false);
@@ -47,10 +49,10 @@ export default function DefendForm({
         setSuccess(true);
         onSuccess?.();
       } else {
-        setError(result.error || 'Failed to post defense');
+        setError(result.error || t('form.postFailed'));
       }
     } catch {
-      setError('An error occurred');
+      setError(t('form.error'));
     } finally {
       setIsLoading(false);
     }
@@ -75,10 +77,10 @@ export default function DefendForm({
       <div className="bg-green-50 dark:bg-green-900/20 rounded-xl p-6 text-center">
         <Shield className="w-12 h-12 text-green-600 dark:text-green-400 mx-auto mb-4" />
         <h3 className="text-lg font-semibold text-green-800 dark:text-green-200">
-          Defense Posted Successfully!
+          {t('form.success')}
         </h3>
         <p className="text-green-600 dark:text-green-400 mt-2">
-          Your positive review has been submitted to Ethos Network.
+          {t('form.successText')}
         </p>
       </div>
     );
@@ -88,7 +90,7 @@ export default function DefendForm({
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Target Info */}
       <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4">
-        <p className="text-sm text-slate-500 dark:text-slate-400">Defending</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">{t('form.defending')}</p>
         <p className="font-semibold text-slate-900 dark:text-white">
           {targetName || targetUserkey}
         </p>
@@ -97,7 +99,7 @@ export default function DefendForm({
       {/* Score Selection */}
       <div>
         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-          Score
+          {t('form.score')}
         </label>
         <div className="flex space-x-2">
           {[1, 2, 3, 4, 5].map((s) => (
@@ -123,7 +125,7 @@ export default function DefendForm({
       <div>
         <div className="flex items-center justify-between mb-2">
           <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-            Comment
+            {t('form.comment')}
           </label>
           <button
             type="button"
@@ -131,7 +133,7 @@ export default function DefendForm({
             className="flex items-center space-x-1 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
           >
             <RefreshCw className="w-4 h-4" />
-            <span>Get suggestion</span>
+            <span>{t('form.suggestion')}</span>
           </button>
         </div>
         <textarea
@@ -139,11 +141,11 @@ export default function DefendForm({
           onChange={(e) => setComment(e.target.value)}
           rows={4}
           className="w-full px-4 py-3 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-shadow"
-          placeholder="Write a positive review..."
+          placeholder={t('form.placeholder')}
           required
         />
         <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-          {comment.length}/1000 characters
+          {t('form.characters', { count: comment.length })}
         </p>
       </div>
 
@@ -172,7 +174,7 @@ export default function DefendForm({
         ) : (
           <>
             <Send className="w-5 h-5" />
-            <span>Post Defense (+{score})</span>
+            <span>{t('form.submit', { score })}</span>
           </>
         )}
       </button>
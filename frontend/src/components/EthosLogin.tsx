@@ -10,6 +10,7 @@ import {
   Info,
   Loader2,
 } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
 
 interface EthosLoginProps {
   onTokenUpdate: (token: string) => Promise<void>;
@@ -17,12 +18,13 @@ interface EthosLoginProps {
 }
 
 export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLoginProps) {
+  const { t } = useI18n();
   const [step, setStep] = useState<'idle' | 'login' | 'extract' | 'paste'>('idle');
   const [token, setToken] = useState('');
   const [loading, setLoading] = useState(false);
   const [copied, setCopied] = useState(false);
 
-  const bookmarkletCode = `javascript:(function(){const t=document.cookie.split(';').find(c=>c.trim().startsWith('privy-token='));if(t){const v=t.split('=')[1];navigator.clipboard.writeText(v);alert('Token copied!');}else{alert('No token found. Please log in first.');}})();`;
+  const bookmarkletCode = `javascript:(function(){const t=document.cookie.split(';').find(c=>c.trim().startsWith('privy-token='));if(t){const v=t.split('=')[1];navigator.clipboard.writeText(v);alert(${JSON.stringify(t('login.bookmarkletCopied'))});}else{alert(${JSON.stringify(t('login.bookmarkletMissing'))});}})();`;
 
   const handleOpenEthos = () => {
     window.open('https://app.ethos.network', '_blank', 'width=500,height=700');
@@ -58,22 +60,22 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
       <div className="flex items-center gap-3 mb-4">
         <LogIn className="w-8 h-8" />
         <div>
-          <h3 className="text-xl font-bold">Connect to Ethos</h3>
-          <p className="text-indigo-100 text-sm">Required for posting defense reviews</p>
+          <h3 className="text-xl font-bold">{t('login.title')}</h3>
+          <p className="text-indigo-100 text-sm">{t('settings.token.subtitle')}</p>
         </div>
       </div>
 
       {step === 'idle' && (
         <div className="space-y-4">
           <p className="text-indigo-100">
-            To defend your relations, you need to connect your Ethos account.
+            {t('login.intro')}
           </p>
           <button
             onClick={handleOpenEthos}
             className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-white text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50 transition-colors"
           >
             <ExternalLink className="w-5 h-5" />
-            Open Ethos Network
+            {t('login.open')}
           </button>
         </div>
       )}
@@ -83,10 +85,10 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
           <div className="bg-white/10 rounded-xl p-4">
             <h4 className="font-semibold mb-2 flex items-center gap-2">
               <span className="bg-white text-indigo-600 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">1</span>
-              Log in to Ethos
+              {t('login.step1')}
             </h4>
             <p className="text-indigo-100 text-sm">
-              If a popup opened, log in with your wallet. If not, click the button above again.
+              {t('login.step1Text')}
             </p>
           </div>
 
@@ -94,7 +96,7 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
             onClick={() => setStep('extract')}
             className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-white text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50 transition-colors"
           >
-            I'm logged in - Next step
+            {t('login.step1Next')}
           </button>
         </div>
       )}
@@ -104,17 +106,17 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
           <div className="bg-white/10 rounded-xl p-4">
             <h4 className="font-semibold mb-2 flex items-center gap-2">
               <span className="bg-white text-indigo-600 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">2</span>
-              Extract your token
+              {t('login.step2')}
             </h4>
             <p className="text-indigo-100 text-sm mb-3">
-              Choose one of these methods:
+              {t('login.step2Text')}
             </p>
 
             {/* Method A: Bookmarklet */}
             <div className="bg-white/10 rounded-lg p-3 mb-3">
-              <p className="text-sm font-medium mb-2">Option A: Bookmarklet (Easy)</p>
+              <p className="text-sm font-medium mb-2">{t('login.optionA')}</p>
               <p className="text-xs text-indigo-200 mb-2">
-                Drag this button to your bookmarks bar, then click it on the Ethos page:
+                {t('login.optionAText')}
               </p>
               <div className="flex gap-2">
                 <a
@@ -123,26 +125,26 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
                   className="px-3 py-1.5 bg-amber-400 text-amber-900 rounded-lg text-sm font-medium cursor-move"
                   draggable
                 >
-                  📋 Get Ethos Token
+                  📋 {t('login.bookmarklet')}
                 </a>
                 <button
                   onClick={handleCopyBookmarklet}
                   className="px-3 py-1.5 bg-white/20 rounded-lg text-sm flex items-center gap-1"
                 >
                   {copied ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                  {copied ? 'Copied!' : 'Copy code'}
+                  {copied ? t('login.copied') : t('login.copyCode')}
                 </button>
               </div>
             </div>
 
             {/* Method B: Manual */}
             <div className="bg-white/10 rounded-lg p-3">
-              <p className="text-sm font-medium mb-2">Option B: Manual (DevTools)</p>
+              <p className="text-sm font-medium mb-2">{t('login.optionB')}</p>
               <ol className="text-xs text-indigo-200 space-y-1 list-decimal list-inside">
-                <li>On Ethos page, press <kbd className="bg-white/20 px-1 rounded">F12</kbd></li>
-                <li>Go to <strong>Application</strong> → <strong>Cookies</strong></li>
-                <li>Find <code className="bg-white/20 px-1 rounded">privy-token</code></li>
-                <li>Copy the value</li>
+                <li>{t('login.optionBStep1')} <kbd className="bg-white/20 px-1 rounded">F12</kbd></li>
+                <li>{t('login.optionBStep2')} <strong>Application</strong> → <strong>Cookies</strong></li>
+                <li>{t('login.optionBStep3')} <code className="bg-white/20 px-1 rounded">privy-token</code></li>
+                <li>{t('login.optionBStep4')}</li>
               </ol>
             </div>
           </div>
@@ -151,7 +153,7 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
             onClick={() => setStep('paste')}
             className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-white text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50 transition-colors"
           >
-            I have my token - Next step
+            {t('login.step2Next')}
           </button>
         </div>
       )}
@@ -161,13 +163,13 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
           <div className="bg-white/10 rounded-xl p-4">
             <h4 className="font-semibold mb-2 flex items-center gap-2">
               <span className="bg-white text-indigo-600 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">3</span>
-              Paste your token
+              {t('login.step3')}
             </h4>
             <input
               type="password"
               value={token}
               onChange={(e) => setToken(e.target.value)}
-              placeholder="Paste your privy-token here..."
+              placeholder={t('login.placeholder')}
               className="w-full px-4 py-3 rounded-xl bg-white/20 border border-white/30 text-white placeholder-indigo-200 focus:outline-none focus:ring-2 focus:ring-white/50"
             />
           </div>
@@ -177,7 +179,7 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
               onClick={() => setStep('extract')}
               className="flex-1 px-6 py-3 bg-white/20 rounded-xl font-semibold hover:bg-white/30 transition-colors"
             >
-              Back
+              {t('login.back')}
             </button>
             <button
               onClick={handleSubmitToken}
@@ -185,7 +187,7 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
               className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-white text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50 transition-colors disabled:opacity-50"
             >
               {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Key className="w-5 h-5" />}
-              Connect
+              {t('login.connect')}
             </button>
           </div>
         </div>
@@ -194,8 +196,7 @@ export default function EthosLogin({ onTokenUpdate, currentTokenValid }: EthosLo
       <div className="mt-4 flex items-start gap-2 text-indigo-200 text-xs">
         <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
         <p>
-          Your token is stored securely and used only to post positive reviews in defense of your relations.
-          Tokens expire after ~24 hours.
+          {t('login.footer')}
         </p>
       </div>
     </div>
@@ -1,7 +1,10 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import api, { Locale, MonitoredAccount, getSelectedAccountId, setSelectedAccountId } from '@/lib/api';
+import { useI18n, MessageKey } from '@/lib/i18n';
 import {
   Home,
   Users,
@@ -10,18 +13,44 @@ import {
   Shield,
   Activity,
   Settings,
+  UserCog,
+  Crosshair,
+  Siren,
+  ListFilter,
 } from 'lucide-react';
 
-const navItems = [
-  { href: '/', label: 'Dashboard', icon: Home },
-  { href: '/relations', label: 'Relations', icon: Users },
-  { href: '/reviews', label: 'Reviews', icon: MessageSquare },
-  { href: '/alerts', label: 'Alerts', icon: Bell },
-  { href: '/settings', label: 'Settings', icon: Settings },
+const navItems: { href: string; label: MessageKey; icon: typeof Home }[] = [
+  { href: '/', label: 'nav.dashboard', icon: Home },
+  { href: '/relations', label: 'nav.relations', icon: Users },
+  { href: '/reviews', label: 'nav.reviews', icon: MessageSquare },
+  { href: '/alerts', label: 'nav.alerts', icon: Bell },
+  { href: '/incidents', label: 'nav.incidents', icon: Siren },
+  { href: '/attackers', label: 'nav.attackers', icon: Crosshair },
+  { href: '/rules', label: 'nav.rules', icon: ListFilter },
+  { href: '/accounts', label: 'nav.accounts', icon: UserCog },
+  { href: '/settings', label: 'nav.settings', icon: Settings },
 ];
 
 export default function Navbar() {
   const pathname = usePathname();
+  const { locale, setLocale, t } = useI18n();
+  const [accounts, setAccounts] = useState<MonitoredAccount[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState('');
+
+  useEffect(() => {
+    setSelectedAccount(getSelectedAccountId() || '');
+    api.getAccounts().then((result) => {
+      if (result.success && result.data) {
+        setAccounts(result.data);
+      }
+    });
+  }, []);
+
+  // Every page reads the selection on load, so a reload applies it everywhere
+  const selectAccount = (id: string) => {
+    setSelectedAccountId(id || null);
+    window.location.reload();
+  };
 
   return (
     <nav className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-700 sticky top-0 z-50">
@@ -55,18 +84,41 @@ export default function Navbar() {
                   `}
                 >
                   <Icon className="w-5 h-5" />
-                  <span>{item.label}</span>
+                  <span>{t(item.label)}</span>
                 </Link>
               );
             })}
           </div>
 
-          {/* Status Indicator */}
+          {/* Account Selector and Status Indicator */}
           <div className="flex items-center space-x-2">
+            {accounts.length > 1 && (
+              <select
+                value={selectedAccount}
+                onChange={(e) => selectAccount(e.target.value)}
+                className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">{t('nav.allAccounts')}</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              aria-label={t('nav.language')}
+              className="px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="en">EN</option>
+              <option value="fr">FR</option>
+            </select>
             <div className="flex items-center space-x-2 px-3 py-1.5 bg-green-100 dark:bg-green-900/30 rounded-full">
               <Activity className="w-4 h-4 text-green-600 dark:text-green-400 animate-pulse" />
               <span className="text-sm font-medium text-green-700 dark:text-green-300">
-                Monitoring
+                {t('nav.monitoring')}
               </span>
             </div>
           </div>
@@ -91,7 +143,7 @@ export default function Navbar() {
                 `}
               >
                 <Icon className="w-5 h-5" />
-                <span className="text-xs mt-1">{item.label}</span>
+                <span className="text-xs mt-1">{t(item.label)}</span>
               </Link>
             );
           })}
@@ -0,0 +1,31 @@
+'use client';
+
+import type { AttackerRisk } from '@/lib/api';
+import { useI18n, MessageKey } from '@/lib/i18n';
+
+interface RiskBadgeProps {
+  risk: AttackerRisk | null | undefined;
+  signals?: string | null;
+}
+
+const riskStyles: Record<AttackerRisk, { label: MessageKey; className: string }> = {
+  high: { label: 'risk.high', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  medium: { label: 'risk.medium', className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300' },
+  low: { label: 'risk.low', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+};
+
+// Credibility label of a review author, signals shown on hover
+export default function RiskBadge({ risk, signals }: RiskBadgeProps) {
+  const { t } = useI18n();
+  if (!risk) return null;
+
+  const style = riskStyles[risk];
+  return (
+    <span
+      title={signals || undefined}
+      className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}
+    >
+      {t(style.label)}
+    </span>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Filler,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import type { ScoreSnapshot } from '@/lib/api';
+import { useI18n } from '@/lib/i18n';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Filler);
+
+interface ScoreChartProps {
+  snapshots: ScoreSnapshot[];
+  height?: number;
+}
+
+export default function ScoreChart({ snapshots, height = 160 }: ScoreChartProps) {
+  const { t, formatDate } = useI18n();
+  if (snapshots.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">
+        {t('relations.noHistory')}
+      </p>
+    );
+  }
+
+  const data = {
+    labels: snapshots.map((s) => formatDate(s.createdAt, t('date.short'))),
+    datasets: [
+      {
+        data: snapshots.map((s) => s.score),
+        borderColor: '#4f46e5',
+        backgroundColor: 'rgba(79, 70, 229, 0.1)',
+        fill: true,
+        tension: 0.3,
+        pointRadius: snapshots.length > 50 ? 0 : 2,
+      },
+    ],
+  };
+
+  return (
+    <div style={{ height }}>
+      <Line
+        data={data}
+        options={{
+          responsive: true,
+          maintainAspectRatio: false,
+          plugins: { legend: { display: false } },
+          scales: {
+            x: { ticks: { maxTicksLimit: 5 } },
+            y: { ticks: { precision: 0 } },
+          },
+        }}
+      />
+    </div>
+  );
+}
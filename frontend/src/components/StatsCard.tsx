@@ -1,6 +1,7 @@
 'use client';
 
 import { LucideIcon } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
 
 interface StatsCardProps {
   title: string;
@@ -50,6 +51,7 @@ export default function StatsCard({
   trend,
   color = 'indigo',
 }: StatsCardProps) {
+  const { t } = useI18n();
   const colors = colorClasses[color];
 
   return (
@@ -72,7 +74,7 @@ export default function StatsCard({
               trend.isPositive ? 'text-green-600' : 'text-red-600'
             }`}>
               <span>{trend.isPositive ? '↑' : '↓'} {Math.abs(trend.value)}%</span>
-              <span className="text-slate-400 ml-1">vs last week</span>
+              <span className="text-slate-400 ml-1">{t('stats.vsLastWeek')}</span>
             </div>
           )}
         </div>
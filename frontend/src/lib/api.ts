@@ -31,10 +31,68 @@ async function fetchApi<T>(
   }
 }
 
+// Selected monitored account, persisted in the browser
+const ACCOUNT_STORAGE_KEY = 'ethos-monitor:account';
+
+export function getSelectedAccountId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(ACCOUNT_STORAGE_KEY);
+}
+
+export function setSelectedAccountId(id: string | null) {
+  if (id) {
+    window.localStorage.setItem(ACCOUNT_STORAGE_KEY, id);
+  } else {
+    window.localStorage.removeItem(ACCOUNT_STORAGE_KEY);
+  }
+}
+
+// Append the selected account filter to query params
+function withAccount(params: URLSearchParams = new URLSearchParams()): string {
+  const accountId = getSelectedAccountId();
+  if (accountId) params.set('accountId', accountId);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
 // Types
+export type RelationDirection = 'outgoing' | 'incoming' | 'self' | 'manual';
+
+export interface MonitoredAccount {
+  id: string;
+  name: string;
+  userkey: string;
+  scope: RelationDirection[] | null;
+  telegramChatId: string | null;
+  discordWebhookUrl: string | null;
+  slackChannelId: string | null;
+  emailTo: string | null;
+  matrixRoomId: string | null;
+  ntfyTopic: string | null;
+  autoDefenseEnabled: boolean | null;
+  autoDefenseRequireConfirm: boolean | null;
+  autoDefenseDefaultScore: number | null;
+  isActive: boolean;
+  isDefault: boolean;
+  token: {
+    configured: boolean;
+    valid: boolean;
+    expiresAt: string | null;
+  };
+  createdAt: string;
+  updatedAt: string;
+  _count?: {
+    relations: number;
+  };
+}
+
+export type AccountSettings = Partial<Omit<MonitoredAccount, 'id' | 'userkey' | 'isDefault' | 'token' | 'createdAt' | 'updatedAt' | '_count'>>;
+
 export interface Relation {
   id: string;
+  accountId: string | null;
   userkey: string;
+  direction: RelationDirection;
   name: string | null;
   address: string;
   avatarUrl: string | null;
@@ -48,9 +106,13 @@ export interface Relation {
   };
 }
 
+export type AttackerRisk = 'low' | 'medium' | 'high';
+
 export interface Review {
   id: string;
   relationId: string;
+  type: 'review' | 'slash' | 'unvouch' | 'score_drop';
+  status: 'active' | 'edited' | 'archived' | 'retracted';
   authorKey: string;
   authorName: string | null;
   authorAddr: string | null;
@@ -58,6 +120,8 @@ export interface Review {
   comment: string | null;
   isNegative: boolean;
   alerted: boolean;
+  attackerRisk: AttackerRisk | null;
+  attackerSignals: string | null;
   createdAt: string;
   relation?: Relation;
 }
@@ -66,23 +130,140 @@ export interface Alert {
   id: string;
   reviewId: string;
   relationId: string;
-  type: 'NEGATIVE_REVIEW' | 'SLASH' | 'UNVOUCH';
-  channel: 'TELEGRAM' | 'DISCORD' | 'TWITTER' | 'ALL';
+  type: 'NEGATIVE_REVIEW' | 'SLASH' | 'UNVOUCH' | 'SCORE_DROP';
+  channel: 'TELEGRAM' | 'DISCORD' | 'SLACK' | 'EMAIL' | 'MATRIX' | 'NTFY' | 'TWITTER' | 'ALL';
   status: 'PENDING' | 'CONFIRMED' | 'IGNORED' | 'EXPIRED';
   messageId: string | null;
   sentAt: string;
   respondedAt: string | null;
+  // 0 none, 1 reminded, 2 escalated to the secondary contact, 3 final action taken
+  escalationLevel: number;
+  escalatedAt: string | null;
   review?: Review;
   relation?: Relation;
 }
 
+export interface ScoreSnapshot {
+  id: string;
+  relationId: string;
+  score: number;
+  createdAt: string;
+}
+
+export interface Attacker {
+  authorKey: string;
+  name: string | null;
+  address: string | null;
+  negativeReviews: number;
+  slashes: number;
+  targets: number;
+  firstSeen: string;
+  lastSeen: string;
+  ethosScore: number | null;
+  risk: AttackerRisk | null;
+}
+
+export type AlertChannelName = 'telegram' | 'discord' | 'slack' | 'email' | 'matrix' | 'ntfy' | 'twitter';
+
+export interface RuleConditions {
+  types?: ('NEGATIVE_REVIEW' | 'SLASH')[];
+  relationIds?: string[];
+  directions?: RelationDirection[];
+  attackers?: string[];
+  attackerRisks?: AttackerRisk[];
+  keywords?: string[];
+  minScore?: number;
+  maxScore?: number;
+  hours?: { from: number; to: number; timezone?: string };
+}
+
+export interface RuleActions {
+  suppress?: boolean;
+  escalate?: boolean;
+  channels?: AlertChannelName[];
+  defense?: 'none' | 'create' | 'post';
+  defenseScore?: number;
+  stop?: boolean;
+}
+
+export interface AlertRule {
+  id: string;
+  accountId: string | null;
+  name: string;
+  enabled: boolean;
+  priority: number;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RuleDecision {
+  suppress: boolean;
+  escalate: boolean;
+  channels: AlertChannelName[] | null;
+  defense: RuleActions['defense'] | null;
+  defenseScore: number | null;
+  matchedRules: { id: string; name: string }[];
+}
+
+export interface RulePreview {
+  reviewsChecked: number;
+  matched: number;
+  suppressed: number;
+  escalated: number;
+  results: { review: Review; decision: RuleDecision }[];
+}
+
+// SMTP settings (to: comma-separated recipients)
+export interface EmailSettings {
+  enabled: boolean;
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  from: string;
+  to: string;
+  linkSecret: string;
+}
+
+// Languages of the alerts (per channel overrides), dashboard default and posted defenses
+export type Locale = 'fr' | 'en';
+
+export interface LocaleSettings {
+  alertLocale: Locale;
+  channelLocales: Partial<Record<AlertChannelName, Locale>>;
+  dashboardLocale: Locale;
+  defenseLocale: Locale;
+  timezone: string;
+}
+
+export interface AlertScheduleSettings {
+  quietHours: Record<AlertChannelName, string> & { timezone: string };
+  digest: { frequency: 'off' | 'daily' | 'weekly'; hour: number };
+}
+
+export interface Incident {
+  id: string;
+  accountId: string | null;
+  status: 'OPEN' | 'RESOLVED';
+  reviewCount: number;
+  authorCount: number;
+  targetCount: number;
+  startedAt: string;
+  lastActivityAt: string;
+  createdAt: string;
+  reviews?: Review[];
+}
+
 export interface Defense {
   id: string;
   reviewId: string;
   targetKey: string;
   score: number;
   comment: string;
-  status: 'PENDING' | 'CONFIRMED' | 'POSTED' | 'FAILED';
+  status: 'PENDING' | 'CONFIRMED' | 'POSTED' | 'FAILED' | 'EXPIRED';
   createdAt: string;
   postedAt: string | null;
 }
@@ -123,20 +304,65 @@ export const api = {
 
   // Stats
   async getStats(): Promise<ApiResponse<Stats & { recentRuns: MonitorLog[] }>> {
-    return fetchApi('/api/stats');
+    return fetchApi(`/api/stats${withAccount()}`);
+  },
+
+  // Accounts
+  async getAccounts(): Promise<ApiResponse<MonitoredAccount[]>> {
+    return fetchApi('/api/accounts');
+  },
+
+  async createAccount(data: AccountSettings & { name: string; userkey: string; privyToken?: string }): Promise<ApiResponse<MonitoredAccount>> {
+    return fetchApi('/api/accounts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateAccount(id: string, data: AccountSettings): Promise<ApiResponse<MonitoredAccount>> {
+    return fetchApi(`/api/accounts/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateAccountToken(id: string, token: string): Promise<ApiResponse<void>> {
+    return fetchApi(`/api/accounts/${id}/token`, {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  async deleteAccount(id: string): Promise<ApiResponse<void>> {
+    return fetchApi(`/api/accounts/${id}`, { method: 'DELETE' });
   },
 
   // Relations
   async getRelations(activeOnly = true): Promise<ApiResponse<Relation[]>> {
-    return fetchApi(`/api/relations?active=${activeOnly}`);
+    return fetchApi(`/api/relations${withAccount(new URLSearchParams({ active: String(activeOnly) }))}`);
   },
 
   async getRelation(id: string): Promise<ApiResponse<Relation>> {
     return fetchApi(`/api/relations/${id}`);
   },
 
+  async getScoreHistory(relationId: string, days?: number): Promise<ApiResponse<ScoreSnapshot[]>> {
+    return fetchApi(`/api/relations/${relationId}/scores${days ? `?days=${days}` : ''}`);
+  },
+
   async refreshRelations(): Promise<ApiResponse<{ total: number; updated: number }>> {
-    return fetchApi('/api/relations/refresh', { method: 'POST' });
+    return fetchApi(`/api/relations/refresh${withAccount()}`, { method: 'POST' });
+  },
+
+  async addToWatchlist(query: string): Promise<ApiResponse<Relation>> {
+    return fetchApi('/api/relations/watchlist', {
+      method: 'POST',
+      body: JSON.stringify({ query, accountId: getSelectedAccountId() || undefined }),
+    });
+  },
+
+  async removeFromWatchlist(id: string): Promise<ApiResponse<void>> {
+    return fetchApi(`/api/relations/watchlist/${id}`, { method: 'DELETE' });
   },
 
   // Reviews
@@ -151,11 +377,81 @@ export const api = {
     if (options?.relationId) params.set('relationId', options.relationId);
     if (options?.limit) params.set('limit', String(options.limit));
     if (options?.offset) params.set('offset', String(options.offset));
-    return fetchApi(`/api/reviews?${params.toString()}`);
+    return fetchApi(`/api/reviews${withAccount(params)}`);
+  },
+
+  async verifyReviews(): Promise<ApiResponse<{ checked: number; edited: number; withdrawn: number; errors: string[] }>> {
+    return fetchApi('/api/reviews/verify', { method: 'POST' });
   },
 
   async getNegativeReviews(): Promise<ApiResponse<Review[]>> {
-    return fetchApi('/api/reviews/negative');
+    return fetchApi(`/api/reviews/negative${withAccount()}`);
+  },
+
+  // Attackers
+  async getAttackers(options?: { limit?: number; offset?: number }): Promise<ApiResponse<Attacker[]> & { total?: number }> {
+    const params = new URLSearchParams();
+    if (options?.limit) params.set('limit', String(options.limit));
+    if (options?.offset) params.set('offset', String(options.offset));
+    return fetchApi(`/api/attackers${withAccount(params)}`);
+  },
+
+  async getAttacker(authorKey: string): Promise<ApiResponse<Attacker & { attacks: Review[] }>> {
+    return fetchApi(`/api/attackers/${encodeURIComponent(authorKey)}${withAccount()}`);
+  },
+
+  // Alert rules
+  async getRules(): Promise<ApiResponse<AlertRule[]>> {
+    return fetchApi(`/api/rules${withAccount()}`);
+  },
+
+  async createRule(data: Partial<Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>> & { name: string }): Promise<ApiResponse<AlertRule>> {
+    return fetchApi('/api/rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateRule(id: string, data: Partial<Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>>): Promise<ApiResponse<AlertRule>> {
+    return fetchApi(`/api/rules/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async deleteRule(id: string): Promise<ApiResponse<void>> {
+    return fetchApi(`/api/rules/${id}`, { method: 'DELETE' });
+  },
+
+  // Replay a draft rule, a saved rule or every enabled rule on past negative reviews
+  async previewRules(data: {
+    ruleId?: string;
+    rule?: Pick<AlertRule, 'conditions' | 'actions'>;
+    days?: number;
+  }): Promise<ApiResponse<RulePreview>> {
+    return fetchApi('/api/rules/preview', {
+      method: 'POST',
+      body: JSON.stringify({ ...data, accountId: getSelectedAccountId() || undefined }),
+    });
+  },
+
+  // Incidents
+  async getIncidents(options?: { status?: string; limit?: number }): Promise<ApiResponse<Incident[]> & { total?: number }> {
+    const params = new URLSearchParams();
+    if (options?.status) params.set('status', options.status);
+    if (options?.limit) params.set('limit', String(options.limit));
+    return fetchApi(`/api/incidents${withAccount(params)}`);
+  },
+
+  async getIncident(id: string): Promise<ApiResponse<Incident>> {
+    return fetchApi(`/api/incidents/${id}`);
+  },
+
+  async updateIncidentStatus(id: string, status: Incident['status']): Promise<ApiResponse<Incident>> {
+    return fetchApi(`/api/incidents/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    });
   },
 
   // Alerts
@@ -168,11 +464,11 @@ export const api = {
     if (options?.status) params.set('status', options.status);
     if (options?.relationId) params.set('relationId', options.relationId);
     if (options?.limit) params.set('limit', String(options.limit));
-    return fetchApi(`/api/alerts?${params.toString()}`);
+    return fetchApi(`/api/alerts${withAccount(params)}`);
   },
 
   async getPendingAlerts(): Promise<ApiResponse<Alert[]>> {
-    return fetchApi('/api/alerts/pending');
+    return fetchApi(`/api/alerts/pending${withAccount()}`);
   },
 
   async getAlert(id: string): Promise<ApiResponse<Alert & { pendingDefense?: Defense }>> {
@@ -209,7 +505,7 @@ export const api = {
   },
 
   async getPendingDefenses(): Promise<ApiResponse<Array<{ alert: Alert; defense: Defense }>>> {
-    return fetchApi('/api/defend/pending');
+    return fetchApi(`/api/defend/pending${withAccount()}`);
   },
 
   // Monitor
@@ -229,6 +525,7 @@ export const api = {
   // Config
   async getConfig(): Promise<ApiResponse<{
     monitorInterval: number;
+    monitorScope: RelationDirection[];
     autoDefense: {
       enabled: boolean;
       requireConfirm: boolean;
@@ -239,6 +536,16 @@ export const api = {
       discord: boolean;
       twitter: boolean;
     };
+    i18n: {
+      dashboardLocale: Locale;
+      timezone: string | null;
+    };
+    escalation: {
+      renotifyMinutes: number;
+      secondaryMinutes: number;
+      finalMinutes: number;
+      finalAction: 'expire' | 'defend';
+    };
   }>> {
     return fetchApi('/api/config');
   },
@@ -248,8 +555,14 @@ export const api = {
     notifications: {
       telegram: { enabled: boolean; botToken: string; chatId: string };
       discord: { enabled: boolean; webhookUrl: string };
-      twitter: { enabled: boolean; apiKey: string; apiSecret: string; accessToken: string; accessSecret: string };
+      slack: { enabled: boolean; botToken: string; channelId: string; signingSecret: string };
+      email: EmailSettings;
+      matrix: { enabled: boolean; homeserverUrl: string; accessToken: string; roomId: string };
+      ntfy: { enabled: boolean; serverUrl: string; topic: string; token: string };
+      twitter: { enabled: boolean; apiKey: string; apiSecret: string; accessToken: string; accessSecret: string; dmRecipientId: string; publicMode: 'off' | 'reply' | 'quote' };
     };
+    alertSchedule: AlertScheduleSettings;
+    i18n: LocaleSettings;
   }>> {
     return fetchApi('/api/settings');
   },
@@ -258,10 +571,17 @@ export const api = {
     notifications: {
       telegram: { enabled: boolean; botToken: string; chatId: string };
       discord: { enabled: boolean; webhookUrl: string };
-      twitter: { enabled: boolean; apiKey: string; apiSecret: string; accessToken: string; accessSecret: string };
+      slack: { enabled: boolean; botToken: string; channelId: string; signingSecret: string };
+      email: EmailSettings;
+      matrix: { enabled: boolean; homeserverUrl: string; accessToken: string; roomId: string };
+      ntfy: { enabled: boolean; serverUrl: string; topic: string; token: string };
+      twitter: { enabled: boolean; apiKey: string; apiSecret: string; accessToken: string; accessSecret: string; dmRecipientId: string; publicMode: 'off' | 'reply' | 'quote' };
     };
     autoDefense: { enabled: boolean; requireConfirm: boolean; defaultScore: number };
     monitorInterval: number;
+    monitorScope: RelationDirection[];
+    alertSchedule: AlertScheduleSettings;
+    i18n: LocaleSettings;
   }): Promise<ApiResponse<void>> {
     return fetchApi('/api/settings', {
       method: 'POST',
@@ -269,7 +589,11 @@ export const api = {
     });
   },
 
-  async testNotification(channel: 'telegram' | 'discord' | 'twitter'): Promise<ApiResponse<void>> {
+  async sendDigest(frequency: 'daily' | 'weekly' = 'daily'): Promise<ApiResponse<void>> {
+    return fetchApi(`/api/monitor/digest?frequency=${frequency}`, { method: 'POST' });
+  },
+
+  async testNotification(channel: AlertChannelName): Promise<ApiResponse<void>> {
     return fetchApi(`/api/settings/test/${channel}`, { method: 'POST' });
   },
 
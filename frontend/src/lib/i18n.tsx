@@ -0,0 +1,93 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { enUS, fr as frLocale } from 'date-fns/locale';
+import api, { Locale } from '@/lib/api';
+import { en, MessageKey } from '@/lib/locales/en';
+import { fr } from '@/lib/locales/fr';
+
+export type { MessageKey };
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, fr };
+const DATE_LOCALES = { en: enUS, fr: frLocale };
+
+// Choice made in the navbar, overrides DASHBOARD_LOCALE for this browser
+const LOCALE_STORAGE_KEY = 'ethos-monitor:locale';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  formatDate: (date: Date | string | number, pattern?: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+function getStoredLocale(): Locale | null {
+  if (typeof window === 'undefined') return null;
+  const value = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+  return value === 'fr' || value === 'en' ? value : null;
+}
+
+// Wall-clock time of the date in the given timezone, so date-fns formats it there.
+// An unknown timezone falls back to the browser's one.
+function toTimezone(date: Date, timezone: string | null): Date {
+  if (!timezone) return date;
+  try {
+    return new Date(date.toLocaleString('en-US', { timeZone: timezone }));
+  } catch {
+    return date;
+  }
+}
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>('en');
+  const [timezone, setTimezone] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stored = getStoredLocale();
+    if (stored) setLocaleState(stored);
+
+    api.getConfig().then((result) => {
+      if (result.success && result.data?.i18n) {
+        if (!stored) setLocaleState(result.data.i18n.dashboardLocale);
+        setTimezone(result.data.i18n.timezone);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = CATALOGS[locale]['app.title'];
+  }, [locale]);
+
+  const setLocale = useCallback((value: Locale) => {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, value);
+    setLocaleState(value);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => {
+      let text = CATALOGS[locale][key] ?? en[key] ?? key;
+      for (const [name, param] of Object.entries(params || {})) {
+        text = text.replaceAll(`{${name}}`, String(param));
+      }
+      return text;
+    },
+    formatDate: (date, pattern = 'PPp') =>
+      format(toTimezone(new Date(date), timezone), pattern, { locale: DATE_LOCALES[locale] }),
+  }), [locale, setLocale, timezone]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside I18nProvider');
+  }
+  return context;
+}
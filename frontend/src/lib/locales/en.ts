@@ -0,0 +1,438 @@
+// English dashboard messages. Reference catalog: the other locales have the same keys.
+// {name} placeholders are replaced by t() (see lib/i18n.tsx)
+export const en = {
+  // Dates (date-fns patterns)
+  'date.short': 'MM/dd HH:mm',
+
+  // Navigation
+  'nav.dashboard': 'Dashboard',
+  'nav.relations': 'Relations',
+  'nav.reviews': 'Reviews',
+  'nav.alerts': 'Alerts',
+  'nav.incidents': 'Incidents',
+  'nav.attackers': 'Attackers',
+  'nav.rules': 'Rules',
+  'nav.accounts': 'Accounts',
+  'nav.settings': 'Settings',
+  'nav.allAccounts': 'All accounts',
+  'nav.monitoring': 'Monitoring',
+  'nav.language': 'Language',
+
+  // Dashboard
+  'dashboard.subtitle': 'Monitor and protect your Ethos reputation',
+  'dashboard.scanNow': 'Scan Now',
+  'dashboard.scanning': 'Scanning...',
+  'dashboard.relations': 'Relations',
+  'dashboard.reviews': 'Reviews',
+  'dashboard.pendingAlerts': 'Pending Alerts',
+  'dashboard.defenses': 'Defenses',
+  'dashboard.total': '{count} total',
+  'dashboard.negative': '{count} negative',
+  'dashboard.attempted': '{count} attempted',
+  'dashboard.monitorStatus': 'Monitor Status',
+  'dashboard.scanInProgress': 'Scanning in progress...',
+  'dashboard.lastScan': 'Last scan: {date}',
+  'dashboard.never': 'Never',
+  'dashboard.interval': 'Interval',
+  'dashboard.every': 'Every {minutes} min',
+  'dashboard.viewAll': 'View all',
+  'dashboard.recentScans': 'Recent Scans',
+  'dashboard.time': 'Time',
+  'dashboard.negativeColumn': 'Negative',
+  'dashboard.alerts': 'Alerts',
+  'dashboard.duration': 'Duration',
+  'dashboard.allClear': 'All Clear!',
+  'dashboard.allClearText': 'No pending alerts. Your relations are protected.',
+
+  // Alerts
+  'alerts.tracked': '{count} alerts tracked',
+  'alerts.all': 'All',
+  'alerts.empty': 'No Alerts Found',
+  'alerts.empty.all': 'Alerts will appear here when negative reviews are detected.',
+  'alerts.empty.PENDING': 'No pending alerts. All clear!',
+  'alerts.empty.CONFIRMED': 'No confirmed defenses yet.',
+  'alerts.empty.IGNORED': 'No ignored alerts.',
+  'alerts.empty.EXPIRED': 'No expired alerts.',
+
+  'status.PENDING': 'Pending',
+  'status.CONFIRMED': 'Confirmed',
+  'status.IGNORED': 'Ignored',
+  'status.EXPIRED': 'Expired',
+
+  'alert.type.NEGATIVE_REVIEW': 'Negative Review',
+  'alert.type.SLASH': 'Slash Detected',
+  'alert.type.UNVOUCH': 'Unvouch Detected',
+  'alert.type.SCORE_DROP': 'Score Drop',
+  'alert.escalation.1': 'Reminded',
+  'alert.escalation.2': 'Escalated',
+  'alert.escalation.3': 'Timed out',
+  'alert.unknown': 'Unknown',
+  'alert.anonymous': 'Anonymous',
+  'alert.by': 'by {name}',
+  'alert.defend': 'Defend',
+  'alert.ignore': 'Ignore',
+  'alert.responded': 'Responded {date}',
+  'alert.details': 'Details',
+
+  'risk.high': 'High risk',
+  'risk.medium': 'Medium risk',
+  'risk.low': 'Low risk',
+
+  // Defense page
+  'defend.notFound': 'Alert not found',
+  'defend.loadFailed': 'Failed to load alert data',
+  'defend.notFoundText': "The alert you're looking for could not be found.",
+  'defend.back': 'Back to Alerts',
+  'defend.title': 'Defend Against {type}',
+  'defend.type.NEGATIVE_REVIEW': 'Negative Review',
+  'defend.type.SLASH': 'Slash',
+  'defend.type.UNVOUCH': 'Unvouch',
+  'defend.type.SCORE_DROP': 'Score Drop',
+  'defend.subtitle': 'Post a positive review to counter the negative impact',
+  'defend.attackDetails': 'Attack Details',
+  'defend.target': 'Target',
+  'defend.attacker': 'Attacker',
+  'defend.review': 'Review',
+  'defend.status': 'Status',
+  'defend.postDefense': 'Post Defense',
+  'defend.alreadyDefended': 'Already Defended',
+  'defend.alreadyDefendedText': 'A defense has been posted for this review.',
+  'defend.ignored': 'Alert Ignored',
+  'defend.ignoredText': 'This alert has been marked as ignored.',
+
+  // Defense form
+  'form.postFailed': 'Failed to post defense',
+  'form.error': 'An error occurred',
+  'form.success': 'Defense Posted Successfully!',
+  'form.successText': 'Your positive review has been submitted to Ethos Network.',
+  'form.defending': 'Defending',
+  'form.score': 'Score',
+  'form.comment': 'Comment',
+  'form.suggestion': 'Get suggestion',
+  'form.placeholder': 'Write a positive review...',
+  'form.characters': '{count}/1000 characters',
+  'form.submit': 'Post Defense (+{score})',
+
+  // App
+  'app.title': 'Ethos Monitor - Anti-Slash Dashboard',
+  'app.description': 'Monitor and defend against negative reviews on Ethos Network',
+
+  // Stats cards
+  'stats.vsLastWeek': 'vs last week',
+
+  // Relations
+  'relations.monitored': '{count} relations being monitored',
+  'relations.refresh': 'Refresh from Ethos',
+  'relations.refreshing': 'Refreshing...',
+  'relations.watchlist': 'Watchlist',
+  'relations.watchlistText': 'Watch a profile you have not vouched for by userkey, address or Ethos username.',
+  'relations.watchPlaceholder': 'profileId:123, 0x1234...abcd or username',
+  'relations.add': 'Add',
+  'relations.adding': 'Adding...',
+  'relations.addFailed': 'Failed to add profile',
+  'relations.remove': 'Remove from watchlist',
+  'relations.direction.outgoing': 'You vouch',
+  'relations.direction.incoming': 'Vouches for you',
+  'relations.direction.self': 'You',
+  'relations.direction.manual': 'Watchlist',
+  'relations.ethosScore': 'Ethos Score',
+  'relations.history': 'Score history (30 days)',
+  'relations.hideHistory': 'Hide score history',
+  'relations.noHistory': 'No score history yet',
+  'relations.active': 'Active',
+  'relations.inactive': 'Inactive',
+  'relations.viewOnEthos': 'View on Ethos',
+  'relations.empty': 'No Relations Found',
+  'relations.emptyText': 'Click “Refresh from Ethos” to sync your vouches.',
+
+  // Reviews
+  'reviews.tracked': '{count} reviews tracked',
+  'reviews.recheck': 'Re-check negative reviews',
+  'reviews.checking': 'Checking...',
+  'reviews.filter.all': 'All',
+  'reviews.filter.positive': 'Positive',
+  'reviews.filter.negative': 'Negative',
+  'reviews.status.active': 'Active',
+  'reviews.status.edited': 'Edited',
+  'reviews.status.archived': 'Archived',
+  'reviews.status.retracted': 'Retracted',
+  'reviews.to': 'To:',
+  'reviews.alerted': 'Alerted',
+  'reviews.viewProfile': 'View Profile',
+  'reviews.empty': 'No Reviews Found',
+  'reviews.empty.all': 'Reviews will appear here when detected.',
+  'reviews.empty.positive': 'No positive reviews tracked yet.',
+  'reviews.empty.negative': 'No negative reviews detected yet.',
+
+  // Incidents
+  'incidents.subtitle': 'Coordinated attacks: {open} open, {total} total',
+  'incidents.open': 'Open',
+  'incidents.resolved': 'Resolved',
+  'incidents.summary': '{reviews} attacks by {authors} authors on {targets} relations',
+  'incidents.resolve': 'Resolve',
+  'incidents.reopen': 'Reopen',
+  'incidents.empty': 'No Incidents',
+  'incidents.emptyText': 'Waves of negative reviews from shared authors or on several relations will show up here.',
+
+  // Attackers
+  'attackers.subtitle': '{count} profiles have left negative reviews or slashes on our relations',
+  'attackers.author': 'Author',
+  'attackers.negative': 'Negative',
+  'attackers.slashes': 'Slashes',
+  'attackers.slash': 'Slash',
+  'attackers.targets': 'Targets',
+  'attackers.firstLastSeen': 'First / Last seen',
+  'attackers.history': 'History',
+  'attackers.empty': 'No Attackers Yet',
+  'attackers.emptyText': 'Authors of negative reviews and slashes will show up here.',
+  'attackers.notFound': 'Attacker not found',
+  'attackers.back': 'Back to Attackers',
+  'attackers.negativeReviews': 'Negative reviews',
+  'attackers.targetsHit': 'Targets hit',
+  'attackers.firstSeen': 'First seen {date}',
+  'attackers.lastSeen': 'Last seen {date}',
+  'attackers.against': 'against',
+
+  // Alert rules
+  'rules.title': 'Alert Rules',
+  'rules.subtitle': 'Evaluated by priority on every negative review before alerts are sent',
+  'rules.enabledRules': 'Enabled rules',
+  'rules.previewLast30': 'Preview last 30 days',
+  'rules.allAccounts': 'all accounts',
+  'rules.preview': 'Preview',
+  'rules.enabled': 'Enabled',
+  'rules.disabled': 'Disabled',
+  'rules.delete': 'Delete rule',
+  'rules.deleteConfirm': 'Delete rule "{name}"?',
+  'rules.empty': 'No Rules',
+  'rules.emptyText': 'Every negative review is alerted on every channel.',
+  'rules.previewTitle': 'Preview: {title}',
+  'rules.previewSummary': '{matched} of {checked} negative reviews matched · {suppressed} suppressed · {escalated} escalated',
+  'rules.previewFailed': 'Failed to preview rules',
+  'rules.suppressed': 'suppressed',
+  'rules.escalated': 'escalated',
+  'rules.alerted': 'alerted',
+  'rules.add': 'Add a rule',
+  'rules.name': 'Name',
+  'rules.priority': 'Priority',
+  'rules.when': 'When',
+  'rules.then': 'Then',
+  'rules.type.NEGATIVE_REVIEW': 'Negative review',
+  'rules.type.SLASH': 'Slash',
+  'rules.risk.low': 'Low risk author',
+  'rules.risk.medium': 'Medium risk author',
+  'rules.risk.high': 'High risk author',
+  'rules.keywords': 'Comment keywords (comma-separated)',
+  'rules.attackers': 'Authors: userkeys or addresses (comma-separated)',
+  'rules.maxScore': 'Max score (e.g. -2)',
+  'rules.fromHour': 'From hour',
+  'rules.toHour': 'To hour',
+  'rules.timezone': 'Timezone (Europe/Paris)',
+  'rules.suppress': 'Suppress alert',
+  'rules.escalate': 'Escalate',
+  'rules.only': 'Only {channel}',
+  'rules.defense.account': 'Defense: account setting',
+  'rules.defense.none': 'No defense',
+  'rules.defense.create': 'Prepare defense',
+  'rules.defense.post': 'Post defense automatically',
+  'rules.stop': 'Stop evaluating other rules',
+  'rules.draft': 'Draft rule',
+  'rules.create': 'Create rule',
+  'rules.saving': 'Saving...',
+  'rules.createFailed': 'Failed to create rule',
+  'rules.describe.when': 'When {conditions}',
+  'rules.describe.always': 'Always',
+  'rules.describe.noAction': 'no action',
+  'rules.describe.types': 'type {types}',
+  'rules.describe.risks': 'risk {risks}',
+  'rules.describe.keywords': 'comment contains {keywords}',
+  'rules.describe.attackers': 'author {attackers}',
+  'rules.describe.relations': '{count} relations',
+  'rules.describe.directions': 'direction {directions}',
+  'rules.describe.hours': 'between {from}h and {to}h',
+  'rules.describe.suppress': 'suppress',
+  'rules.describe.escalate': 'escalate',
+  'rules.describe.channels': 'only {channels}',
+  'rules.describe.stop': 'stop',
+
+  // Accounts
+  'accounts.subtitle': '{count} Ethos accounts monitored by this deployment',
+  'accounts.relations': '{count} relations',
+  'accounts.active': 'Active',
+  'accounts.paused': 'Paused',
+  'accounts.delete': 'Delete account',
+  'accounts.deleteConfirm': 'Stop monitoring {name}? Its relations and alerts will be deleted.',
+  'accounts.noToken': 'No token: defenses cannot be posted',
+  'accounts.tokenValid': 'Token valid until {date}',
+  'accounts.tokenExpired': 'Token expired',
+  'accounts.tokenFailed': 'Failed to update token',
+  'accounts.newToken': 'New Privy token...',
+  'accounts.update': 'Update',
+  'accounts.custom': 'Custom',
+  'accounts.global': 'Global',
+  'accounts.autoDefense': 'Auto-defense',
+  'accounts.globalSetting': '(global setting)',
+  'accounts.add': 'Add an account',
+  'accounts.addAccount': 'Add account',
+  'accounts.addFailed': 'Failed to add account',
+  'accounts.name': 'Name',
+  'accounts.userkey': 'Userkey (profileId:123, address:0x...)',
+  'accounts.privyToken': 'Privy token (optional, needed to post defenses)',
+  'accounts.telegramChat': 'Telegram chat',
+  'accounts.telegramChatPlaceholder': 'Telegram chat ID (optional)',
+  'accounts.discordWebhook': 'Discord webhook',
+  'accounts.discordWebhookPlaceholder': 'Discord webhook URL (optional)',
+  'accounts.slackChannel': 'Slack channel',
+  'accounts.slackChannelPlaceholder': 'Slack channel ID (optional)',
+  'accounts.emailTo': 'Email recipients',
+  'accounts.emailToPlaceholder': 'Email recipients, comma-separated (optional)',
+  'accounts.matrixRoom': 'Matrix room',
+  'accounts.matrixRoomPlaceholder': 'Matrix room ID (optional)',
+  'accounts.ntfyTopic': 'ntfy topic',
+  'accounts.ntfyTopicPlaceholder': 'ntfy topic (optional)',
+
+  // Settings
+  'settings.subtitle': 'Configure notifications and auto-defense settings',
+  'settings.saveAll': 'Save All Settings',
+  'settings.saved': 'Settings saved successfully!',
+  'settings.saveFailed': 'Failed to save settings',
+  'settings.test': 'Test',
+  'settings.testSent': '{channel} notification sent!',
+  'settings.testFailed': 'Test failed',
+  'settings.tokenUpdated': 'Token updated successfully!',
+  'settings.tokenFailed': 'Failed to update token',
+  'settings.connected': 'Connected to Ethos!',
+  'settings.connectFailed': 'Failed to connect',
+  'settings.optional': 'Optional',
+  'settings.off': 'Off',
+  'settings.botToken': 'Bot Token',
+  'settings.accessToken': 'Access Token',
+  'settings.token.title': 'Ethos API Token',
+  'settings.token.subtitle': 'Required for posting defense reviews',
+  'settings.token.valid': 'Valid',
+  'settings.token.expiringSoon': 'Expiring Soon',
+  'settings.token.expired': 'Expired',
+  'settings.token.expires': 'Expires: {date}',
+  'settings.token.placeholder': 'Paste new Privy token here...',
+  'settings.token.update': 'Update Token',
+  'settings.token.howTo': 'How to get your Privy token:',
+  'settings.token.step1': 'Log in to',
+  'settings.token.step2': 'Open DevTools (F12) → Application → Cookies',
+  'settings.token.step3': 'Copy the value of',
+  'settings.telegram.subtitle': 'Get instant alerts via Telegram bot',
+  'settings.telegram.chatId': 'Chat ID',
+  'settings.telegram.chatIdPlaceholder': 'Your chat ID (e.g., 123456789)',
+  'settings.telegram.botFather': 'Create bot with @BotFather',
+  'settings.discord.subtitle': 'Receive alerts in your Discord channel',
+  'settings.discord.webhookUrl': 'Webhook URL',
+  'settings.discord.hint': 'Server Settings → Integrations → Webhooks → New Webhook',
+  'settings.slack.subtitle': 'Receive alerts with action buttons in a Slack channel',
+  'settings.slack.channelId': 'Channel ID',
+  'settings.slack.signingSecret': 'Signing Secret (enables buttons)',
+  'settings.slack.hint': 'Interactivity Request URL: /api/slack/interactions (scope chat:write)',
+  'settings.email.subtitle': 'Receive alerts and digests by email through any SMTP server',
+  'settings.email.host': 'SMTP Host',
+  'settings.email.port': 'Port',
+  'settings.email.secure': 'TLS from the start (port 465)',
+  'settings.email.user': 'Username',
+  'settings.email.password': 'Password',
+  'settings.email.from': 'From',
+  'settings.email.to': 'Recipients',
+  'settings.email.linkSecret': 'Link Secret (enables one-click links)',
+  'settings.email.linkSecretPlaceholder': 'Random string',
+  'settings.email.hint': 'Set BACKEND_URL to the public API URL for the defend/ignore links',
+  'settings.matrix.subtitle': 'Post formatted alerts to a Matrix room',
+  'settings.matrix.homeserverUrl': 'Homeserver URL',
+  'settings.matrix.accessTokenPlaceholder': 'Access token of the bot user',
+  'settings.matrix.roomId': 'Room ID',
+  'settings.matrix.hint': 'The bot user must have joined the room',
+  'settings.ntfy.subtitle': 'Push notifications to your phone, slashes with urgent priority',
+  'settings.ntfy.serverUrl': 'Server URL',
+  'settings.ntfy.topic': 'Topic',
+  'settings.ntfy.token': 'Access Token (protected topics)',
+  'settings.ntfy.hint': 'On a public server, pick a topic name that is hard to guess',
+  'settings.twitter.subtitle': 'Get notified via X/Twitter DM, optionally support the target publicly',
+  'settings.twitter.apiKey': 'API Key',
+  'settings.twitter.apiKeyPlaceholder': 'Your API Key',
+  'settings.twitter.apiSecret': 'API Secret',
+  'settings.twitter.apiSecretPlaceholder': 'Your API Secret',
+  'settings.twitter.accessTokenPlaceholder': 'Your Access Token',
+  'settings.twitter.accessSecret': 'Access Secret',
+  'settings.twitter.accessSecretPlaceholder': 'Your Access Secret',
+  'settings.twitter.dmRecipient': 'DM Recipient (X user id)',
+  'settings.twitter.publicMode': 'Public Support',
+  'settings.twitter.reply': "Reply to the target's latest post",
+  'settings.twitter.quote': "Quote the target's latest post",
+  'settings.twitter.publicHint': 'Posted with the defense, once it is confirmed',
+  'settings.twitter.portal': 'X Developer Portal',
+  'settings.schedule.title': 'Quiet Hours & Digest',
+  'settings.schedule.subtitle': 'Non-critical alerts are queued during quiet hours and sent as one digest afterwards',
+  'settings.schedule.quietHours.telegram': 'Telegram quiet hours',
+  'settings.schedule.quietHours.discord': 'Discord quiet hours',
+  'settings.schedule.quietHours.slack': 'Slack quiet hours',
+  'settings.schedule.quietHours.email': 'Email quiet hours',
+  'settings.schedule.quietHours.matrix': 'Matrix quiet hours',
+  'settings.schedule.quietHours.ntfy': 'ntfy quiet hours',
+  'settings.schedule.quietHours.twitter': 'X DM quiet hours',
+  'settings.schedule.timezone': 'Timezone',
+  'settings.schedule.hint': 'Slashes and alerts escalated by a rule are always delivered. Leave empty to disable.',
+  'settings.schedule.digest': 'Activity digest',
+  'settings.schedule.daily': 'Daily',
+  'settings.schedule.weekly': 'Weekly (Mondays)',
+  'settings.schedule.hour': 'Sent at (hour)',
+  'settings.schedule.sendNow': 'Send digest now',
+  'settings.languages.title': 'Languages',
+  'settings.languages.subtitle': 'Language of the alerts, of the dashboard and of the suggested defense reviews',
+  'settings.languages.alerts': 'Alerts',
+  'settings.languages.dashboard': 'Dashboard default',
+  'settings.languages.defense': 'Defense reviews',
+  'settings.languages.timezone': 'Display timezone',
+  'settings.languages.perChannel': 'Per-channel alert language',
+  'settings.languages.sameAsAlerts': 'Same as alerts',
+  'settings.languages.hint': 'Dates are shown in the display timezone, or in the server/browser timezone when empty. The language picked in the navigation bar overrides the dashboard default for this browser.',
+  'settings.autoDefense.title': 'Auto-Defense',
+  'settings.autoDefense.subtitle': 'Automatic response to negative reviews',
+  'settings.autoDefense.enable': 'Enable Auto-Defense',
+  'settings.autoDefense.enableText': 'Automatically prepare defense responses',
+  'settings.autoDefense.requireConfirm': 'Require Confirmation',
+  'settings.autoDefense.requireConfirmText': 'Ask for confirmation before posting defense',
+  'settings.autoDefense.defaultScore': 'Default Defense Score',
+  'settings.autoDefense.interval': 'Monitor Interval (minutes)',
+  'settings.autoDefense.scope': 'Monitoring Scope',
+  'settings.scope.outgoing': 'Outgoing',
+  'settings.scope.outgoingText': 'Profiles you vouch for',
+  'settings.scope.incoming': 'Incoming',
+  'settings.scope.incomingText': 'Profiles vouching for you',
+  'settings.scope.self': 'Self',
+  'settings.scope.selfText': 'Your own profile',
+
+  // Ethos login
+  'login.title': 'Connect to Ethos',
+  'login.intro': 'To defend your relations, you need to connect your Ethos account.',
+  'login.open': 'Open Ethos Network',
+  'login.step1': 'Log in to Ethos',
+  'login.step1Text': 'If a popup opened, log in with your wallet. If not, click the button above again.',
+  'login.step1Next': "I'm logged in - Next step",
+  'login.step2': 'Extract your token',
+  'login.step2Text': 'Choose one of these methods:',
+  'login.optionA': 'Option A: Bookmarklet (Easy)',
+  'login.optionAText': 'Drag this button to your bookmarks bar, then click it on the Ethos page:',
+  'login.bookmarklet': 'Get Ethos Token',
+  'login.bookmarkletCopied': 'Token copied!',
+  'login.bookmarkletMissing': 'No token found. Please log in first.',
+  'login.copied': 'Copied!',
+  'login.copyCode': 'Copy code',
+  'login.optionB': 'Option B: Manual (DevTools)',
+  'login.optionBStep1': 'On the Ethos page, press',
+  'login.optionBStep2': 'Go to',
+  'login.optionBStep3': 'Find',
+  'login.optionBStep4': 'Copy the value',
+  'login.step2Next': 'I have my token - Next step',
+  'login.step3': 'Paste your token',
+  'login.placeholder': 'Paste your privy-token here...',
+  'login.back': 'Back',
+  'login.connect': 'Connect',
+  'login.footer': 'Your token is stored securely and used only to post positive reviews in defense of your relations. Tokens expire after ~24 hours.',
+};
+
+export type MessageKey = keyof typeof en;
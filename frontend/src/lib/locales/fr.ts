@@ -0,0 +1,437 @@
+import type { MessageKey } from './en';
+
+// French dashboard messages
+export const fr: Record<MessageKey, string> = {
+  // Dates (date-fns patterns)
+  'date.short': 'dd/MM HH:mm',
+
+  // Navigation
+  'nav.dashboard': 'Tableau de bord',
+  'nav.relations': 'Relations',
+  'nav.reviews': 'Reviews',
+  'nav.alerts': 'Alertes',
+  'nav.incidents': 'Incidents',
+  'nav.attackers': 'Attaquants',
+  'nav.rules': 'Règles',
+  'nav.accounts': 'Comptes',
+  'nav.settings': 'Réglages',
+  'nav.allAccounts': 'Tous les comptes',
+  'nav.monitoring': 'Surveillance',
+  'nav.language': 'Langue',
+
+  // Dashboard
+  'dashboard.subtitle': 'Surveillez et protégez votre réputation Ethos',
+  'dashboard.scanNow': 'Scanner',
+  'dashboard.scanning': 'Scan en cours...',
+  'dashboard.relations': 'Relations',
+  'dashboard.reviews': 'Reviews',
+  'dashboard.pendingAlerts': 'Alertes en attente',
+  'dashboard.defenses': 'Défenses',
+  'dashboard.total': '{count} au total',
+  'dashboard.negative': '{count} négatives',
+  'dashboard.attempted': '{count} tentées',
+  'dashboard.monitorStatus': 'État de la surveillance',
+  'dashboard.scanInProgress': 'Scan en cours...',
+  'dashboard.lastScan': 'Dernier scan : {date}',
+  'dashboard.never': 'Jamais',
+  'dashboard.interval': 'Intervalle',
+  'dashboard.every': 'Toutes les {minutes} min',
+  'dashboard.viewAll': 'Tout voir',
+  'dashboard.recentScans': 'Scans récents',
+  'dashboard.time': 'Heure',
+  'dashboard.negativeColumn': 'Négatives',
+  'dashboard.alerts': 'Alertes',
+  'dashboard.duration': 'Durée',
+  'dashboard.allClear': 'Tout est calme !',
+  'dashboard.allClearText': 'Aucune alerte en attente. Vos relations sont protégées.',
+
+  // Alerts
+  'alerts.tracked': '{count} alertes suivies',
+  'alerts.all': 'Toutes',
+  'alerts.empty': 'Aucune alerte',
+  'alerts.empty.all': 'Les alertes apparaîtront ici dès qu\'une review négative sera détectée.',
+  'alerts.empty.PENDING': 'Aucune alerte en attente. Tout est calme !',
+  'alerts.empty.CONFIRMED': 'Aucune défense confirmée pour le moment.',
+  'alerts.empty.IGNORED': 'Aucune alerte ignorée.',
+  'alerts.empty.EXPIRED': 'Aucune alerte expirée.',
+
+  'status.PENDING': 'En attente',
+  'status.CONFIRMED': 'Confirmée',
+  'status.IGNORED': 'Ignorée',
+  'status.EXPIRED': 'Expirée',
+
+  'alert.type.NEGATIVE_REVIEW': 'Review négative',
+  'alert.type.SLASH': 'Slash détecté',
+  'alert.type.UNVOUCH': 'Unvouch détecté',
+  'alert.type.SCORE_DROP': 'Chute de score',
+  'alert.escalation.1': 'Rappelée',
+  'alert.escalation.2': 'Escaladée',
+  'alert.escalation.3': 'Délai dépassé',
+  'alert.unknown': 'Inconnu',
+  'alert.anonymous': 'Anonyme',
+  'alert.by': 'par {name}',
+  'alert.defend': 'Défendre',
+  'alert.ignore': 'Ignorer',
+  'alert.responded': 'Traitée le {date}',
+  'alert.details': 'Détails',
+
+  'risk.high': 'Risque élevé',
+  'risk.medium': 'Risque moyen',
+  'risk.low': 'Risque faible',
+
+  // Defense page
+  'defend.notFound': 'Alerte introuvable',
+  'defend.loadFailed': "Impossible de charger l'alerte",
+  'defend.notFoundText': "L'alerte recherchée est introuvable.",
+  'defend.back': 'Retour aux alertes',
+  'defend.title': 'Défendre contre {type}',
+  'defend.type.NEGATIVE_REVIEW': 'une review négative',
+  'defend.type.SLASH': 'un slash',
+  'defend.type.UNVOUCH': 'un unvouch',
+  'defend.type.SCORE_DROP': 'une chute de score',
+  'defend.subtitle': "Publiez une review positive pour contrer l'impact négatif",
+  'defend.attackDetails': "Détails de l'attaque",
+  'defend.target': 'Cible',
+  'defend.attacker': 'Attaquant',
+  'defend.review': 'Review',
+  'defend.status': 'Statut',
+  'defend.postDefense': 'Publier une défense',
+  'defend.alreadyDefended': 'Déjà défendue',
+  'defend.alreadyDefendedText': 'Une défense a été publiée pour cette review.',
+  'defend.ignored': 'Alerte ignorée',
+  'defend.ignoredText': 'Cette alerte a été marquée comme ignorée.',
+
+  // Defense form
+  'form.postFailed': 'Échec de la publication de la défense',
+  'form.error': 'Une erreur est survenue',
+  'form.success': 'Défense publiée !',
+  'form.successText': 'Votre review positive a été envoyée sur Ethos Network.',
+  'form.defending': 'Défense de',
+  'form.score': 'Score',
+  'form.comment': 'Commentaire',
+  'form.suggestion': 'Suggérer un texte',
+  'form.placeholder': 'Écrivez une review positive...',
+  'form.characters': '{count}/1000 caractères',
+  'form.submit': 'Publier la défense (+{score})',
+
+  // App
+  'app.title': 'Ethos Monitor - Tableau de bord anti-slash',
+  'app.description': 'Surveillez et défendez-vous contre les reviews négatives sur Ethos Network',
+
+  // Stats cards
+  'stats.vsLastWeek': 'vs semaine dernière',
+
+  // Relations
+  'relations.monitored': '{count} relations surveillées',
+  'relations.refresh': 'Actualiser depuis Ethos',
+  'relations.refreshing': 'Actualisation...',
+  'relations.watchlist': 'Liste de surveillance',
+  'relations.watchlistText': "Surveillez un profil pour lequel vous n'avez pas vouché, par userkey, adresse ou nom d'utilisateur Ethos.",
+  'relations.watchPlaceholder': "profileId:123, 0x1234...abcd ou nom d'utilisateur",
+  'relations.add': 'Ajouter',
+  'relations.adding': 'Ajout...',
+  'relations.addFailed': "Impossible d'ajouter le profil",
+  'relations.remove': 'Retirer de la liste de surveillance',
+  'relations.direction.outgoing': 'Vous vouchez',
+  'relations.direction.incoming': 'Vouche pour vous',
+  'relations.direction.self': 'Vous',
+  'relations.direction.manual': 'Surveillé',
+  'relations.ethosScore': 'Score Ethos',
+  'relations.history': 'Historique du score (30 jours)',
+  'relations.hideHistory': "Masquer l'historique du score",
+  'relations.noHistory': 'Aucun historique de score pour le moment',
+  'relations.active': 'Active',
+  'relations.inactive': 'Inactive',
+  'relations.viewOnEthos': 'Voir sur Ethos',
+  'relations.empty': 'Aucune relation',
+  'relations.emptyText': 'Cliquez sur « Actualiser depuis Ethos » pour synchroniser vos vouches.',
+
+  // Reviews
+  'reviews.tracked': '{count} reviews suivies',
+  'reviews.recheck': 'Re-vérifier les reviews négatives',
+  'reviews.checking': 'Vérification...',
+  'reviews.filter.all': 'Toutes',
+  'reviews.filter.positive': 'Positives',
+  'reviews.filter.negative': 'Négatives',
+  'reviews.status.active': 'Active',
+  'reviews.status.edited': 'Modifiée',
+  'reviews.status.archived': 'Archivée',
+  'reviews.status.retracted': 'Retirée',
+  'reviews.to': 'Pour :',
+  'reviews.alerted': 'Alertée',
+  'reviews.viewProfile': 'Voir le profil',
+  'reviews.empty': 'Aucune review',
+  'reviews.empty.all': 'Les reviews apparaîtront ici dès leur détection.',
+  'reviews.empty.positive': 'Aucune review positive suivie pour le moment.',
+  'reviews.empty.negative': 'Aucune review négative détectée pour le moment.',
+
+  // Incidents
+  'incidents.subtitle': 'Attaques coordonnées : {open} ouvertes, {total} au total',
+  'incidents.open': 'Ouvert',
+  'incidents.resolved': 'Résolu',
+  'incidents.summary': '{reviews} attaques par {authors} auteurs sur {targets} relations',
+  'incidents.resolve': 'Résoudre',
+  'incidents.reopen': 'Rouvrir',
+  'incidents.empty': 'Aucun incident',
+  'incidents.emptyText': 'Les vagues de reviews négatives venant des mêmes auteurs ou visant plusieurs relations apparaîtront ici.',
+
+  // Attackers
+  'attackers.subtitle': '{count} profils ont laissé des reviews négatives ou des slashes sur nos relations',
+  'attackers.author': 'Auteur',
+  'attackers.negative': 'Négatives',
+  'attackers.slashes': 'Slashes',
+  'attackers.slash': 'Slash',
+  'attackers.targets': 'Cibles',
+  'attackers.firstLastSeen': 'Première / dernière fois',
+  'attackers.history': 'Historique',
+  'attackers.empty': 'Aucun attaquant',
+  'attackers.emptyText': 'Les auteurs de reviews négatives et de slashes apparaîtront ici.',
+  'attackers.notFound': 'Attaquant introuvable',
+  'attackers.back': 'Retour aux attaquants',
+  'attackers.negativeReviews': 'Reviews négatives',
+  'attackers.targetsHit': 'Cibles touchées',
+  'attackers.firstSeen': 'Vu la première fois le {date}',
+  'attackers.lastSeen': 'Vu la dernière fois le {date}',
+  'attackers.against': 'contre',
+
+  // Alert rules
+  'rules.title': "Règles d'alerte",
+  'rules.subtitle': "Évaluées par priorité sur chaque review négative avant l'envoi des alertes",
+  'rules.enabledRules': 'Règles actives',
+  'rules.previewLast30': 'Aperçu sur 30 jours',
+  'rules.allAccounts': 'tous les comptes',
+  'rules.preview': 'Aperçu',
+  'rules.enabled': 'Active',
+  'rules.disabled': 'Inactive',
+  'rules.delete': 'Supprimer la règle',
+  'rules.deleteConfirm': 'Supprimer la règle « {name} » ?',
+  'rules.empty': 'Aucune règle',
+  'rules.emptyText': 'Chaque review négative est alertée sur tous les canaux.',
+  'rules.previewTitle': 'Aperçu : {title}',
+  'rules.previewSummary': '{matched} reviews négatives sur {checked} correspondent · {suppressed} supprimées · {escalated} escaladées',
+  'rules.previewFailed': "Impossible d'afficher l'aperçu des règles",
+  'rules.suppressed': 'supprimée',
+  'rules.escalated': 'escaladée',
+  'rules.alerted': 'alertée',
+  'rules.add': 'Ajouter une règle',
+  'rules.name': 'Nom',
+  'rules.priority': 'Priorité',
+  'rules.when': 'Quand',
+  'rules.then': 'Alors',
+  'rules.type.NEGATIVE_REVIEW': 'Review négative',
+  'rules.type.SLASH': 'Slash',
+  'rules.risk.low': 'Auteur à risque faible',
+  'rules.risk.medium': 'Auteur à risque moyen',
+  'rules.risk.high': 'Auteur à risque élevé',
+  'rules.keywords': 'Mots-clés du commentaire (séparés par des virgules)',
+  'rules.attackers': 'Auteurs : userkeys ou adresses (séparés par des virgules)',
+  'rules.maxScore': 'Score maximum (ex. -2)',
+  'rules.fromHour': 'De (heure)',
+  'rules.toHour': 'À (heure)',
+  'rules.timezone': 'Fuseau horaire (Europe/Paris)',
+  'rules.suppress': "Supprimer l'alerte",
+  'rules.escalate': 'Escalader',
+  'rules.only': 'Seulement {channel}',
+  'rules.defense.account': 'Défense : réglage du compte',
+  'rules.defense.none': 'Pas de défense',
+  'rules.defense.create': 'Préparer la défense',
+  'rules.defense.post': 'Poster la défense automatiquement',
+  'rules.stop': 'Ne pas évaluer les règles suivantes',
+  'rules.draft': 'Brouillon',
+  'rules.create': 'Créer la règle',
+  'rules.saving': 'Enregistrement...',
+  'rules.createFailed': 'Impossible de créer la règle',
+  'rules.describe.when': 'Quand {conditions}',
+  'rules.describe.always': 'Toujours',
+  'rules.describe.noAction': 'aucune action',
+  'rules.describe.types': 'type {types}',
+  'rules.describe.risks': 'risque {risks}',
+  'rules.describe.keywords': 'le commentaire contient {keywords}',
+  'rules.describe.attackers': 'auteur {attackers}',
+  'rules.describe.relations': '{count} relations',
+  'rules.describe.directions': 'direction {directions}',
+  'rules.describe.hours': 'entre {from}h et {to}h',
+  'rules.describe.suppress': 'supprimer',
+  'rules.describe.escalate': 'escalader',
+  'rules.describe.channels': 'seulement {channels}',
+  'rules.describe.stop': 'arrêter',
+
+  // Accounts
+  'accounts.subtitle': '{count} comptes Ethos surveillés par ce déploiement',
+  'accounts.relations': '{count} relations',
+  'accounts.active': 'Actif',
+  'accounts.paused': 'En pause',
+  'accounts.delete': 'Supprimer le compte',
+  'accounts.deleteConfirm': 'Arrêter de surveiller {name} ? Ses relations et alertes seront supprimées.',
+  'accounts.noToken': 'Pas de token : les défenses ne peuvent pas être postées',
+  'accounts.tokenValid': "Token valide jusqu'au {date}",
+  'accounts.tokenExpired': 'Token expiré',
+  'accounts.tokenFailed': 'Impossible de mettre à jour le token',
+  'accounts.newToken': 'Nouveau token Privy...',
+  'accounts.update': 'Mettre à jour',
+  'accounts.custom': 'Personnalisé',
+  'accounts.global': 'Global',
+  'accounts.autoDefense': 'Auto-défense',
+  'accounts.globalSetting': '(réglage global)',
+  'accounts.add': 'Ajouter un compte',
+  'accounts.addAccount': 'Ajouter le compte',
+  'accounts.addFailed': "Impossible d'ajouter le compte",
+  'accounts.name': 'Nom',
+  'accounts.userkey': 'Userkey (profileId:123, address:0x...)',
+  'accounts.privyToken': 'Token Privy (optionnel, nécessaire pour poster les défenses)',
+  'accounts.telegramChat': 'Chat Telegram',
+  'accounts.telegramChatPlaceholder': 'ID du chat Telegram (optionnel)',
+  'accounts.discordWebhook': 'Webhook Discord',
+  'accounts.discordWebhookPlaceholder': 'URL du webhook Discord (optionnel)',
+  'accounts.slackChannel': 'Canal Slack',
+  'accounts.slackChannelPlaceholder': 'ID du canal Slack (optionnel)',
+  'accounts.emailTo': 'Destinataires email',
+  'accounts.emailToPlaceholder': 'Destinataires email, séparés par des virgules (optionnel)',
+  'accounts.matrixRoom': 'Salon Matrix',
+  'accounts.matrixRoomPlaceholder': 'ID du salon Matrix (optionnel)',
+  'accounts.ntfyTopic': 'Topic ntfy',
+  'accounts.ntfyTopicPlaceholder': 'Topic ntfy (optionnel)',
+
+  // Settings
+  'settings.subtitle': "Configurer les notifications et l'auto-défense",
+  'settings.saveAll': 'Enregistrer les réglages',
+  'settings.saved': 'Réglages enregistrés !',
+  'settings.saveFailed': "Impossible d'enregistrer les réglages",
+  'settings.test': 'Tester',
+  'settings.testSent': 'Notification {channel} envoyée !',
+  'settings.testFailed': 'Échec du test',
+  'settings.tokenUpdated': 'Token mis à jour !',
+  'settings.tokenFailed': 'Impossible de mettre à jour le token',
+  'settings.connected': 'Connecté à Ethos !',
+  'settings.connectFailed': 'Échec de la connexion',
+  'settings.optional': 'Optionnel',
+  'settings.off': 'Désactivé',
+  'settings.botToken': 'Token du bot',
+  'settings.accessToken': "Token d'accès",
+  'settings.token.title': "Token de l'API Ethos",
+  'settings.token.subtitle': 'Nécessaire pour poster les reviews de défense',
+  'settings.token.valid': 'Valide',
+  'settings.token.expiringSoon': 'Expire bientôt',
+  'settings.token.expired': 'Expiré',
+  'settings.token.expires': 'Expire : {date}',
+  'settings.token.placeholder': 'Collez le nouveau token Privy ici...',
+  'settings.token.update': 'Mettre à jour le token',
+  'settings.token.howTo': 'Comment obtenir votre token Privy :',
+  'settings.token.step1': 'Connectez-vous sur',
+  'settings.token.step2': 'Ouvrez les DevTools (F12) → Application → Cookies',
+  'settings.token.step3': 'Copiez la valeur de',
+  'settings.telegram.subtitle': 'Recevez les alertes instantanément via un bot Telegram',
+  'settings.telegram.chatId': 'ID du chat',
+  'settings.telegram.chatIdPlaceholder': 'Votre ID de chat (ex. 123456789)',
+  'settings.telegram.botFather': 'Créer un bot avec @BotFather',
+  'settings.discord.subtitle': 'Recevez les alertes dans votre salon Discord',
+  'settings.discord.webhookUrl': 'URL du webhook',
+  'settings.discord.hint': 'Paramètres du serveur → Intégrations → Webhooks → Nouveau webhook',
+  'settings.slack.subtitle': "Recevez les alertes avec boutons d'action dans un canal Slack",
+  'settings.slack.channelId': 'ID du canal',
+  'settings.slack.signingSecret': 'Signing Secret (active les boutons)',
+  'settings.slack.hint': 'Interactivity Request URL : /api/slack/interactions (scope chat:write)',
+  'settings.email.subtitle': "Recevez les alertes et digests par email via n'importe quel serveur SMTP",
+  'settings.email.host': 'Serveur SMTP',
+  'settings.email.port': 'Port',
+  'settings.email.secure': 'TLS dès la connexion (port 465)',
+  'settings.email.user': "Nom d'utilisateur",
+  'settings.email.password': 'Mot de passe',
+  'settings.email.from': 'Expéditeur',
+  'settings.email.to': 'Destinataires',
+  'settings.email.linkSecret': 'Secret des liens (active les liens en un clic)',
+  'settings.email.linkSecretPlaceholder': 'Chaîne aléatoire',
+  'settings.email.hint': "Renseignez BACKEND_URL avec l'URL publique de l'API pour les liens défendre/ignorer",
+  'settings.matrix.subtitle': 'Postez des alertes formatées dans un salon Matrix',
+  'settings.matrix.homeserverUrl': 'URL du homeserver',
+  'settings.matrix.accessTokenPlaceholder': "Token d'accès de l'utilisateur bot",
+  'settings.matrix.roomId': 'ID du salon',
+  'settings.matrix.hint': "L'utilisateur bot doit avoir rejoint le salon",
+  'settings.ntfy.subtitle': 'Notifications push sur votre téléphone, slashes en priorité urgente',
+  'settings.ntfy.serverUrl': 'URL du serveur',
+  'settings.ntfy.topic': 'Topic',
+  'settings.ntfy.token': "Token d'accès (topics protégés)",
+  'settings.ntfy.hint': 'Sur un serveur public, choisissez un nom de topic difficile à deviner',
+  'settings.twitter.subtitle': 'Soyez notifié par DM X/Twitter, et soutenez éventuellement la cible publiquement',
+  'settings.twitter.apiKey': 'Clé API',
+  'settings.twitter.apiKeyPlaceholder': 'Votre clé API',
+  'settings.twitter.apiSecret': 'Secret API',
+  'settings.twitter.apiSecretPlaceholder': 'Votre secret API',
+  'settings.twitter.accessTokenPlaceholder': "Votre token d'accès",
+  'settings.twitter.accessSecret': "Secret d'accès",
+  'settings.twitter.accessSecretPlaceholder': "Votre secret d'accès",
+  'settings.twitter.dmRecipient': 'Destinataire des DM (id utilisateur X)',
+  'settings.twitter.publicMode': 'Soutien public',
+  'settings.twitter.reply': 'Répondre au dernier post de la cible',
+  'settings.twitter.quote': 'Citer le dernier post de la cible',
+  'settings.twitter.publicHint': 'Posté avec la défense, une fois celle-ci confirmée',
+  'settings.twitter.portal': 'Portail développeur X',
+  'settings.schedule.title': 'Heures calmes et digest',
+  'settings.schedule.subtitle': 'Les alertes non critiques sont mises en attente pendant les heures calmes puis envoyées en un seul digest',
+  'settings.schedule.quietHours.telegram': 'Heures calmes Telegram',
+  'settings.schedule.quietHours.discord': 'Heures calmes Discord',
+  'settings.schedule.quietHours.slack': 'Heures calmes Slack',
+  'settings.schedule.quietHours.email': 'Heures calmes email',
+  'settings.schedule.quietHours.matrix': 'Heures calmes Matrix',
+  'settings.schedule.quietHours.ntfy': 'Heures calmes ntfy',
+  'settings.schedule.quietHours.twitter': 'Heures calmes DM X',
+  'settings.schedule.timezone': 'Fuseau horaire',
+  'settings.schedule.hint': 'Les slashes et les alertes escaladées par une règle sont toujours envoyés. Laisser vide pour désactiver.',
+  'settings.schedule.digest': "Digest d'activité",
+  'settings.schedule.daily': 'Quotidien',
+  'settings.schedule.weekly': 'Hebdomadaire (le lundi)',
+  'settings.schedule.hour': "Heure d'envoi",
+  'settings.schedule.sendNow': 'Envoyer le digest maintenant',
+  'settings.languages.title': 'Langues',
+  'settings.languages.subtitle': 'Langue des alertes, du tableau de bord et des reviews de défense proposées',
+  'settings.languages.alerts': 'Alertes',
+  'settings.languages.dashboard': 'Tableau de bord par défaut',
+  'settings.languages.defense': 'Reviews de défense',
+  'settings.languages.timezone': "Fuseau horaire d'affichage",
+  'settings.languages.perChannel': 'Langue des alertes par canal',
+  'settings.languages.sameAsAlerts': 'Comme les alertes',
+  'settings.languages.hint': "Les dates sont affichées dans le fuseau d'affichage, ou dans celui du serveur/navigateur s'il est vide. La langue choisie dans la barre de navigation remplace celle du tableau de bord pour ce navigateur.",
+  'settings.autoDefense.title': 'Auto-défense',
+  'settings.autoDefense.subtitle': 'Réponse automatique aux reviews négatives',
+  'settings.autoDefense.enable': "Activer l'auto-défense",
+  'settings.autoDefense.enableText': 'Préparer automatiquement les réponses de défense',
+  'settings.autoDefense.requireConfirm': 'Demander confirmation',
+  'settings.autoDefense.requireConfirmText': 'Demander une confirmation avant de poster la défense',
+  'settings.autoDefense.defaultScore': 'Score de défense par défaut',
+  'settings.autoDefense.interval': 'Intervalle de surveillance (minutes)',
+  'settings.autoDefense.scope': 'Périmètre de surveillance',
+  'settings.scope.outgoing': 'Sortants',
+  'settings.scope.outgoingText': 'Profils pour lesquels vous vouchez',
+  'settings.scope.incoming': 'Entrants',
+  'settings.scope.incomingText': 'Profils qui vouchent pour vous',
+  'settings.scope.self': 'Vous',
+  'settings.scope.selfText': 'Votre propre profil',
+
+  // Ethos login
+  'login.title': 'Se connecter à Ethos',
+  'login.intro': 'Pour défendre vos relations, vous devez connecter votre compte Ethos.',
+  'login.open': 'Ouvrir Ethos Network',
+  'login.step1': 'Connectez-vous à Ethos',
+  'login.step1Text': "Si une fenêtre s'est ouverte, connectez-vous avec votre wallet. Sinon, cliquez à nouveau sur le bouton ci-dessus.",
+  'login.step1Next': 'Je suis connecté - Étape suivante',
+  'login.step2': 'Récupérez votre token',
+  'login.step2Text': "Choisissez l'une de ces méthodes :",
+  'login.optionA': 'Option A : Bookmarklet (facile)',
+  'login.optionAText': 'Glissez ce bouton dans votre barre de favoris, puis cliquez dessus sur la page Ethos :',
+  'login.bookmarklet': 'Récupérer le token Ethos',
+  'login.bookmarkletCopied': 'Token copié !',
+  'login.bookmarkletMissing': "Aucun token trouvé. Connectez-vous d'abord.",
+  'login.copied': 'Copié !',
+  'login.copyCode': 'Copier le code',
+  'login.optionB': 'Option B : Manuelle (DevTools)',
+  'login.optionBStep1': 'Sur la page Ethos, appuyez sur',
+  'login.optionBStep2': 'Allez dans',
+  'login.optionBStep3': 'Trouvez',
+  'login.optionBStep4': 'Copiez la valeur',
+  'login.step2Next': "J'ai mon token - Étape suivante",
+  'login.step3': 'Collez votre token',
+  'login.placeholder': 'Collez votre privy-token ici...',
+  'login.back': 'Retour',
+  'login.connect': 'Connecter',
+  'login.footer': 'Votre token est stocké de façon sécurisée et sert uniquement à poster des reviews positives pour défendre vos relations. Les tokens expirent après ~24 heures.',
+};